@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { resolveBidiLevels, reorderByLevel, detectDirection, getMirroredChar } from './bidi';
+import { textToSvgPath } from './index';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+describe('bidirectional text', () => {
+  it('detects the paragraph direction from the first strong character', () => {
+    assert.equal(detectDirection('123 אב'), 'rtl');
+    assert.equal(detectDirection('abc אב'), 'ltr');
+    assert.equal(detectDirection('...'), 'ltr');
+  });
+
+  it('resolves embedding levels', () => {
+    assert.deepEqual(resolveBidiLevels('abc אבג'), { levels: [0, 0, 0, 0, 1, 1, 1], baseLevel: 0 });
+    // Numbers and Latin inside right-to-left text are raised to an even level
+    assert.deepEqual(resolveBidiLevels('אב 12 cd'), { levels: [1, 1, 1, 2, 2, 1, 2, 2], baseLevel: 1 });
+    // Brackets take the direction of the text they enclose
+    assert.deepEqual(resolveBidiLevels('a (b) ג', 'rtl').levels, [2, 2, 2, 2, 2, 1, 1]);
+  });
+
+  it('resets trailing whitespace to the paragraph level', () => {
+    assert.deepEqual(resolveBidiLevels('אבג ', 'ltr').levels, [1, 1, 1, 0]);
+  });
+
+  it('keeps isolates apart from the surrounding text', () => {
+    assert.deepEqual(resolveBidiLevels('ab⁧אב⁩ cd').levels, [0, 0, 0, 1, 1, 0, 0, 0, 0]);
+  });
+
+  it('reverses right-to-left runs into display order', () => {
+    const levels: Record<string, number> = { a: 0, b: 1, c: 1, d: 0 };
+    assert.deepEqual(reorderByLevel(['a', 'b', 'c', 'd'], char => levels[char]), ['a', 'c', 'b', 'd']);
+  });
+
+  it('mirrors brackets', () => {
+    assert.equal(getMirroredChar('('), ')');
+    assert.equal(getMirroredChar('a'), undefined);
+  });
+
+  it('places right-to-left runs from right to left', async () => {
+    const result = await textToSvgPath({ font: FONT, text: 'ab אבג', outputFormats: ['glyphs'] });
+    const x = (char: string) => result.glyphs!.find(glyph => glyph.text === char)!.x;
+    assert.ok(x('a') < x('b'));
+    assert.ok(x('ג') < x('ב') && x('ב') < x('א'));
+  });
+
+  it('lists missing characters in text order', async () => {
+    const result = await textToSvgPath({ font: FONT, text: 'abc אבג\nדה' });
+    assert.deepEqual(result.missingCharacters, ['א', 'ב', 'ג', 'ד', 'ה']);
+  });
+});
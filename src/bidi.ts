@@ -0,0 +1,655 @@
+/**
+ * Unicode Bidirectional Algorithm (UAX #9) for a single line of text.
+ * Bidi classes are derived from code point ranges and general categories,
+ * which covers the characters that matter for layout without shipping the full data tables.
+ */
+
+/**
+ * Bidi character types
+ */
+type BidiClass =
+  | 'L' | 'R' | 'AL' | 'EN' | 'ES' | 'ET' | 'AN' | 'CS' | 'NSM' | 'BN' | 'B' | 'S' | 'WS' | 'ON'
+  | 'LRE' | 'LRO' | 'RLE' | 'RLO' | 'PDF' | 'LRI' | 'RLI' | 'FSI' | 'PDI';
+
+/**
+ * Paragraph direction
+ */
+export type BidiDirection = 'ltr' | 'rtl';
+
+/**
+ * Resolved embedding levels for a line
+ */
+export interface BidiLevels {
+  /** Embedding level of every code point; odd levels are right-to-left */
+  levels: number[];
+  /** Level of the paragraph itself */
+  baseLevel: number;
+}
+
+const MAX_DEPTH = 125;
+
+const EXPLICIT_CLASSES: Record<number, BidiClass> = {
+  0x202a: 'LRE', 0x202b: 'RLE', 0x202c: 'PDF', 0x202d: 'LRO', 0x202e: 'RLO',
+  0x2066: 'LRI', 0x2067: 'RLI', 0x2068: 'FSI', 0x2069: 'PDI',
+  0x200e: 'L', 0x200f: 'R', 0x061c: 'AL'
+};
+
+/**
+ * Characters whose class doesn't follow from their general category, as [start, end, class] ranges
+ */
+const CLASS_RANGES: Array<[number, number, BidiClass]> = [
+  [0x0009, 0x0009, 'S'], [0x000a, 0x000a, 'B'], [0x000b, 0x000b, 'S'], [0x000c, 0x000c, 'WS'],
+  [0x000d, 0x000d, 'B'], [0x001c, 0x001e, 'B'], [0x001f, 0x001f, 'S'], [0x0020, 0x0020, 'WS'],
+  [0x0085, 0x0085, 'B'], [0x2028, 0x2028, 'WS'], [0x2029, 0x2029, 'B'],
+  [0x0000, 0x0008, 'BN'], [0x000e, 0x001b, 'BN'], [0x007f, 0x0084, 'BN'], [0x0086, 0x009f, 'BN'],
+  [0x00ad, 0x00ad, 'BN'], [0x180e, 0x180e, 'BN'], [0x200b, 0x200d, 'BN'], [0x2060, 0x2064, 'BN'],
+  [0xfeff, 0xfeff, 'BN'],
+  [0x0030, 0x0039, 'EN'], [0x00b2, 0x00b3, 'EN'], [0x00b9, 0x00b9, 'EN'], [0x06f0, 0x06f9, 'EN'],
+  [0x2070, 0x2070, 'EN'], [0x2074, 0x2079, 'EN'], [0x2080, 0x2089, 'EN'], [0x2488, 0x249b, 'EN'],
+  [0xff10, 0xff19, 'EN'], [0x1d7ce, 0x1d7ff, 'EN'],
+  [0x0600, 0x0605, 'AN'], [0x0660, 0x0669, 'AN'], [0x066b, 0x066c, 'AN'], [0x06dd, 0x06dd, 'AN'],
+  [0x08e2, 0x08e2, 'AN'], [0x10e60, 0x10e7e, 'AN'],
+  [0x002b, 0x002b, 'ES'], [0x002d, 0x002d, 'ES'], [0x207a, 0x207b, 'ES'], [0x208a, 0x208b, 'ES'],
+  [0x2212, 0x2212, 'ES'], [0xfb29, 0xfb29, 'ES'], [0xfe62, 0xfe63, 'ES'], [0xff0b, 0xff0b, 'ES'],
+  [0xff0d, 0xff0d, 'ES'],
+  [0x0023, 0x0025, 'ET'], [0x00a2, 0x00a5, 'ET'], [0x00b0, 0x00b1, 'ET'], [0x0609, 0x060a, 'ET'],
+  [0x066a, 0x066a, 'ET'], [0x2030, 0x2034, 'ET'], [0x20a0, 0x20cf, 'ET'], [0x212e, 0x212e, 'ET'],
+  [0x2213, 0x2213, 'ET'], [0xfe5f, 0xfe5f, 'ET'], [0xfe69, 0xfe6a, 'ET'], [0xff03, 0xff05, 'ET'],
+  [0xffe0, 0xffe1, 'ET'], [0xffe5, 0xffe6, 'ET'],
+  [0x002c, 0x002c, 'CS'], [0x002e, 0x002f, 'CS'], [0x003a, 0x003a, 'CS'], [0x00a0, 0x00a0, 'CS'],
+  [0x060c, 0x060c, 'CS'], [0x202f, 0x202f, 'CS'], [0x2044, 0x2044, 'CS'], [0xfe50, 0xfe50, 'CS'],
+  [0xfe52, 0xfe52, 'CS'], [0xfe55, 0xfe55, 'CS'], [0xff0c, 0xff0c, 'CS'], [0xff0e, 0xff0f, 'CS'],
+  [0xff1a, 0xff1a, 'CS']
+];
+
+/**
+ * Right-to-left script ranges, as [start, end, class]
+ */
+const RTL_RANGES: Array<[number, number, BidiClass]> = [
+  [0x0590, 0x05ff, 'R'], [0x0600, 0x07bf, 'AL'], [0x07c0, 0x085f, 'R'], [0x0860, 0x08ff, 'AL'],
+  [0xfb1d, 0xfb4f, 'R'], [0xfb50, 0xfdff, 'AL'], [0xfe70, 0xfefe, 'AL'],
+  [0x10800, 0x10cff, 'R'], [0x10d00, 0x10d3f, 'AL'], [0x10d40, 0x10eff, 'R'], [0x10f00, 0x10f2f, 'R'],
+  [0x10f30, 0x10f6f, 'AL'], [0x10f70, 0x10fff, 'R'], [0x1e800, 0x1ec6f, 'R'], [0x1ec70, 0x1ecbf, 'AL'],
+  [0x1ecc0, 0x1ecff, 'R'], [0x1ed00, 0x1ed4f, 'AL'], [0x1ed50, 0x1edff, 'R'], [0x1ee00, 0x1eeff, 'AL'],
+  [0x1ef00, 0x1efff, 'R']
+];
+
+/**
+ * Mirrored glyph pairs (Bidi_Mirroring_Glyph) for the common brackets and relations
+ */
+const MIRROR_PAIRS = '()<>[]{}«»‹›⁅⁆⁽⁾₍₎∈∋∉∌∊∍∕⧵≤≥≦≧≪≫≮≯≰≱≲≳≺≻≼≽⊂⊃⊆⊇⊏⊐⊑⊒⊢⊣⌈⌉⌊⌋〈〉❨❩❪❫❬❭❮❯❰❱❲❳❴❵⟅⟆⟦⟧⟨⟩⟪⟫⦃⦄⦅⦆⦇⦈⦉⦊⦋⦌⦑⦒⦓⦔⦕⦖⦗⦘⧼⧽〈〉《》「」『』【】〔〕〖〗〘〙〚〛﹙﹚﹛﹜﹝﹞﹤﹥（）＜＞［］｛｝｟｠｢｣';
+
+/**
+ * Paired brackets (Bidi_Paired_Bracket), opening then closing
+ */
+const BRACKET_PAIRS = '()[]{}༺༻༼༽᚛᚜⁅⁆⁽⁾₍₎⌈⌉⌊⌋〈〉❨❩❪❫❬❭❮❯❰❱❲❳❴❵⟅⟆⟦⟧⟨⟩⟪⟫⦃⦄⦅⦆⦇⦈⦉⦊⦋⦌⦑⦒⦓⦔⦕⦖⦗⦘⧼⧽〈〉《》「」『』【】〔〕〖〗〘〙〚〛﹙﹚﹛﹜﹝﹞（）［］｛｝｟｠｢｣';
+
+const MIRRORS = new Map<string, string>();
+for (let i = 0; i < MIRROR_PAIRS.length; i += 2) {
+  MIRRORS.set(MIRROR_PAIRS[i], MIRROR_PAIRS[i + 1]);
+  MIRRORS.set(MIRROR_PAIRS[i + 1], MIRROR_PAIRS[i]);
+}
+
+const OPENING_BRACKETS = new Map<number, number>();
+const CLOSING_BRACKETS = new Map<number, number>();
+for (let i = 0; i < BRACKET_PAIRS.length; i += 2) {
+  OPENING_BRACKETS.set(BRACKET_PAIRS.charCodeAt(i), BRACKET_PAIRS.charCodeAt(i + 1));
+  CLOSING_BRACKETS.set(BRACKET_PAIRS.charCodeAt(i + 1), BRACKET_PAIRS.charCodeAt(i));
+}
+// Angle brackets canonically equivalent to the CJK ones pair with them too
+CLOSING_BRACKETS.set(0x232a, 0x2329);
+CLOSING_BRACKETS.set(0x3009, 0x3008);
+
+const MARK = /^[\p{Mn}\p{Me}]$/u;
+const FORMAT = /^\p{Cf}$/u;
+const NEUTRAL_SYMBOL = /^[\p{P}\p{S}\p{Zs}]$/u;
+
+/**
+ * Find the bidi class of a code point
+ */
+function getBidiClass(char: string): BidiClass {
+  const code = char.codePointAt(0)!;
+  const explicit = EXPLICIT_CLASSES[code];
+  if (explicit) {
+    return explicit;
+  }
+
+  for (const [start, end, type] of CLASS_RANGES) {
+    if (code >= start && code <= end) {
+      return type;
+    }
+  }
+
+  if (MARK.test(char)) {
+    return 'NSM';
+  }
+  for (const [start, end, type] of RTL_RANGES) {
+    if (code >= start && code <= end) {
+      return type;
+    }
+  }
+  if (FORMAT.test(char)) {
+    return 'BN';
+  }
+  if (/^\p{Zs}$/u.test(char)) {
+    return 'WS';
+  }
+  return NEUTRAL_SYMBOL.test(char) ? 'ON' : 'L';
+}
+
+const isIsolateInitiator = (type: BidiClass) => type === 'LRI' || type === 'RLI' || type === 'FSI';
+const isRemovedByX9 = (type: BidiClass) =>
+  type === 'LRE' || type === 'RLE' || type === 'LRO' || type === 'RLO' || type === 'PDF' || type === 'BN';
+const isNeutralOrIsolate = (type: BidiClass) =>
+  type === 'B' || type === 'S' || type === 'WS' || type === 'ON' || isIsolateInitiator(type) || type === 'PDI';
+
+/**
+ * Find the direction of the first strong character (rules P2 and P3), skipping isolated text
+ * @returns The direction, or undefined when there is no strong character
+ */
+function firstStrongDirection(types: BidiClass[], start = 0, end = types.length): BidiDirection | undefined {
+  let isolateDepth = 0;
+  for (let i = start; i < end; i++) {
+    const type = types[i];
+    if (isIsolateInitiator(type)) {
+      isolateDepth++;
+    } else if (type === 'PDI') {
+      // Unmatched PDIs are ignored
+      isolateDepth = Math.max(0, isolateDepth - 1);
+    } else if (isolateDepth === 0 && (type === 'L' || type === 'R' || type === 'AL')) {
+      return type === 'L' ? 'ltr' : 'rtl';
+    } else if (type === 'B') {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Detect the paragraph direction of text from its first strong character
+ * @returns `'ltr'` when the text has no strong characters
+ */
+export function detectDirection(text: string): BidiDirection {
+  return firstStrongDirection(Array.from(text).map(getBidiClass)) ?? 'ltr';
+}
+
+/**
+ * Get the mirrored counterpart of a character shown right to left, if it has one
+ */
+export function getMirroredChar(char: string): string | undefined {
+  return MIRRORS.get(char);
+}
+
+/**
+ * Match isolate initiators with their PDIs (BD9)
+ */
+function matchIsolates(types: BidiClass[]): Map<number, number> {
+  const matches = new Map<number, number>();
+  const open: number[] = [];
+  types.forEach((type, i) => {
+    if (isIsolateInitiator(type)) {
+      open.push(i);
+    } else if (type === 'PDI' && open.length > 0) {
+      matches.set(open.pop()!, i);
+    } else if (type === 'B') {
+      open.length = 0;
+    }
+  });
+  return matches;
+}
+
+/**
+ * Apply the explicit embedding rules X1-X8, returning a level per character
+ */
+function resolveExplicitLevels(types: BidiClass[], baseLevel: number, isolateMatches: Map<number, number>): number[] {
+  const levels = new Array<number>(types.length).fill(baseLevel);
+  const stack: Array<{ level: number; override?: 'L' | 'R'; isolate: boolean }> = [{ level: baseLevel, isolate: false }];
+  let overflowIsolates = 0;
+  let overflowEmbeddings = 0;
+  let validIsolates = 0;
+
+  const nextLevel = (odd: boolean) => {
+    const current = stack[stack.length - 1].level;
+    return odd ? (current + 1) | 1 : (current + 2) & ~1;
+  };
+
+  for (let i = 0; i < types.length; i++) {
+    const type = types[i];
+    const top = stack[stack.length - 1];
+
+    switch (type) {
+      case 'RLE':
+      case 'LRE':
+      case 'RLO':
+      case 'LRO': {
+        const level = nextLevel(type === 'RLE' || type === 'RLO');
+        levels[i] = top.level;
+        if (level <= MAX_DEPTH && overflowIsolates === 0 && overflowEmbeddings === 0) {
+          const override = type === 'RLO' ? 'R' : type === 'LRO' ? 'L' : undefined;
+          stack.push({ level, override, isolate: false });
+        } else if (overflowIsolates === 0) {
+          overflowEmbeddings++;
+        }
+        break;
+      }
+
+      case 'RLI':
+      case 'LRI':
+      case 'FSI': {
+        levels[i] = top.level;
+        if (top.override) {
+          types[i] = top.override;
+        }
+        let rtl = type === 'RLI';
+        if (type === 'FSI') {
+          const end = isolateMatches.get(i) ?? types.length;
+          rtl = firstStrongDirection(types, i + 1, end) === 'rtl';
+        }
+        const level = nextLevel(rtl);
+        if (level <= MAX_DEPTH && overflowIsolates === 0 && overflowEmbeddings === 0) {
+          validIsolates++;
+          stack.push({ level, isolate: true });
+        } else {
+          overflowIsolates++;
+        }
+        break;
+      }
+
+      case 'PDI':
+        if (overflowIsolates > 0) {
+          overflowIsolates--;
+        } else if (validIsolates > 0) {
+          overflowEmbeddings = 0;
+          while (!stack[stack.length - 1].isolate) {
+            stack.pop();
+          }
+          stack.pop();
+          validIsolates--;
+        }
+        levels[i] = stack[stack.length - 1].level;
+        if (stack[stack.length - 1].override) {
+          types[i] = stack[stack.length - 1].override!;
+        }
+        break;
+
+      case 'PDF':
+        levels[i] = top.level;
+        if (overflowIsolates > 0) {
+          // Nothing to close
+        } else if (overflowEmbeddings > 0) {
+          overflowEmbeddings--;
+        } else if (!top.isolate && stack.length >= 2) {
+          stack.pop();
+        }
+        break;
+
+      case 'B':
+        levels[i] = baseLevel;
+        break;
+
+      case 'BN':
+        levels[i] = top.level;
+        break;
+
+      default:
+        levels[i] = top.level;
+        if (top.override) {
+          types[i] = top.override;
+        }
+    }
+  }
+
+  return levels;
+}
+
+/**
+ * Split the characters that survive X9 into isolating run sequences (BD13)
+ */
+function findIsolatingRunSequences(types: BidiClass[], levels: number[], isolateMatches: Map<number, number>): number[][] {
+  const runs: number[][] = [];
+  let current: number[] = [];
+  let currentLevel = -1;
+
+  types.forEach((type, i) => {
+    if (isRemovedByX9(type)) {
+      return;
+    }
+    if (current.length > 0 && levels[i] !== currentLevel) {
+      runs.push(current);
+      current = [];
+    }
+    current.push(i);
+    currentLevel = levels[i];
+  });
+  if (current.length > 0) {
+    runs.push(current);
+  }
+
+  const pdiToRun = new Map<number, number[]>();
+  runs.forEach(run => {
+    if (types[run[0]] === 'PDI') {
+      pdiToRun.set(run[0], run);
+    }
+  });
+
+  const sequences: number[][] = [];
+  const continuations = new Set<number[]>();
+  for (const run of runs) {
+    if (continuations.has(run)) {
+      continue;
+    }
+    const sequence = [...run];
+    let last = run;
+    // Follow isolate initiators to the runs starting with their matching PDI
+    for (;;) {
+      const end = last[last.length - 1];
+      const pdi = isIsolateInitiator(types[end]) ? isolateMatches.get(end) : undefined;
+      const next = pdi !== undefined ? pdiToRun.get(pdi) : undefined;
+      if (!next) {
+        break;
+      }
+      sequence.push(...next);
+      continuations.add(next);
+      last = next;
+    }
+    sequences.push(sequence);
+  }
+  return sequences;
+}
+
+/**
+ * Resolve paired brackets in an isolating run sequence (rule N0)
+ */
+function resolveBrackets(chars: string[], types: BidiClass[], sequence: number[], level: number, sos: BidiClass): void {
+  const pairs: Array<[number, number]> = [];
+  const stack: Array<{ closing: number; position: number }> = [];
+
+  for (let k = 0; k < sequence.length; k++) {
+    const i = sequence[k];
+    if (types[i] !== 'ON') {
+      continue;
+    }
+    const code = chars[i].codePointAt(0)!;
+    const closing = OPENING_BRACKETS.get(code);
+    if (closing !== undefined) {
+      if (stack.length === 63) {
+        break;
+      }
+      stack.push({ closing, position: k });
+      continue;
+    }
+    const opening = CLOSING_BRACKETS.get(code);
+    if (opening !== undefined) {
+      for (let s = stack.length - 1; s >= 0; s--) {
+        const expected = stack[s].closing;
+        if (expected === code || CLOSING_BRACKETS.get(expected) === opening) {
+          pairs.push([stack[s].position, k]);
+          stack.length = s;
+          break;
+        }
+      }
+    }
+  }
+
+  pairs.sort((a, b) => a[0] - b[0]);
+  const embedding: BidiClass = level % 2 === 0 ? 'L' : 'R';
+  const strongOf = (type: BidiClass): BidiClass | undefined =>
+    type === 'L' ? 'L' : type === 'R' || type === 'AL' || type === 'EN' || type === 'AN' ? 'R' : undefined;
+
+  for (const [open, close] of pairs) {
+    let foundEmbedding = false;
+    let foundOpposite = false;
+    for (let k = open + 1; k < close; k++) {
+      const strong = strongOf(types[sequence[k]]);
+      if (strong === embedding) {
+        foundEmbedding = true;
+        break;
+      }
+      if (strong) {
+        foundOpposite = true;
+      }
+    }
+
+    let resolved: BidiClass | undefined;
+    if (foundEmbedding) {
+      resolved = embedding;
+    } else if (foundOpposite) {
+      let context: BidiClass = sos;
+      for (let k = open - 1; k >= 0; k--) {
+        const strong = strongOf(types[sequence[k]]);
+        if (strong) {
+          context = strong;
+          break;
+        }
+      }
+      resolved = context !== embedding ? context : embedding;
+    }
+
+    if (resolved) {
+      for (const k of [open, close]) {
+        types[sequence[k]] = resolved;
+        // Marks following a bracket take its new direction
+        for (let m = k + 1; m < sequence.length && getBidiClass(chars[sequence[m]]) === 'NSM'; m++) {
+          types[sequence[m]] = resolved;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Resolve weak types, neutrals and implicit levels for one isolating run sequence (W1-I2)
+ */
+function resolveSequence(
+  chars: string[], types: BidiClass[], levels: number[], sequence: number[], baseLevel: number, originalTypes: BidiClass[]
+): void {
+  const level = levels[sequence[0]];
+  const first = sequence[0];
+  const last = sequence[sequence.length - 1];
+
+  // Levels of the neighbouring characters decide the sequence's start and end types
+  let before = baseLevel;
+  for (let i = first - 1; i >= 0; i--) {
+    if (!isRemovedByX9(originalTypes[i])) {
+      before = levels[i];
+      break;
+    }
+  }
+  let after = baseLevel;
+  if (!isIsolateInitiator(originalTypes[last])) {
+    for (let i = last + 1; i < types.length; i++) {
+      if (!isRemovedByX9(originalTypes[i])) {
+        after = levels[i];
+        break;
+      }
+    }
+  }
+  const sos: BidiClass = Math.max(before, level) % 2 === 0 ? 'L' : 'R';
+  const eos: BidiClass = Math.max(after, level) % 2 === 0 ? 'L' : 'R';
+
+  // W1: marks take the type of the previous character
+  let previous = sos as BidiClass;
+  for (const i of sequence) {
+    if (types[i] === 'NSM') {
+      types[i] = isIsolateInitiator(previous) || previous === 'PDI' ? 'ON' : previous;
+    }
+    previous = types[i];
+  }
+
+  // W2 and W3: European numbers after Arabic letters become Arabic numbers
+  let lastStrong: BidiClass = sos;
+  for (const i of sequence) {
+    const type = types[i];
+    if (type === 'EN' && lastStrong === 'AL') {
+      types[i] = 'AN';
+    } else if (type === 'L' || type === 'R' || type === 'AL') {
+      lastStrong = type;
+    }
+  }
+  for (const i of sequence) {
+    if (types[i] === 'AL') {
+      types[i] = 'R';
+    }
+  }
+
+  // W4: single separators between numbers of the same type
+  for (let k = 1; k < sequence.length - 1; k++) {
+    const type = types[sequence[k]];
+    const prev = types[sequence[k - 1]];
+    const next = types[sequence[k + 1]];
+    if (type === 'ES' && prev === 'EN' && next === 'EN') {
+      types[sequence[k]] = 'EN';
+    } else if (type === 'CS' && prev === next && (prev === 'EN' || prev === 'AN')) {
+      types[sequence[k]] = prev;
+    }
+  }
+
+  // W5: terminators next to European numbers
+  for (let k = 0; k < sequence.length; k++) {
+    if (types[sequence[k]] !== 'ET') {
+      continue;
+    }
+    let end = k;
+    while (end < sequence.length && types[sequence[end]] === 'ET') {
+      end++;
+    }
+    const adjacent = (k > 0 && types[sequence[k - 1]] === 'EN') || (end < sequence.length && types[sequence[end]] === 'EN');
+    if (adjacent) {
+      for (let m = k; m < end; m++) {
+        types[sequence[m]] = 'EN';
+      }
+    }
+    k = end - 1;
+  }
+
+  // W6: remaining separators and terminators become neutral
+  for (const i of sequence) {
+    if (types[i] === 'ES' || types[i] === 'ET' || types[i] === 'CS') {
+      types[i] = 'ON';
+    }
+  }
+
+  // W7: European numbers after left-to-right text
+  lastStrong = sos;
+  for (const i of sequence) {
+    const type = types[i];
+    if (type === 'EN' && lastStrong === 'L') {
+      types[i] = 'L';
+    } else if (type === 'L' || type === 'R') {
+      lastStrong = type;
+    }
+  }
+
+  resolveBrackets(chars, types, sequence, level, sos);
+
+  // N1 and N2: neutrals take the direction of surrounding text, or the embedding direction
+  const embedding: BidiClass = level % 2 === 0 ? 'L' : 'R';
+  const strength = (type: BidiClass) => type === 'L' ? 'L' : (type === 'R' || type === 'EN' || type === 'AN') ? 'R' : undefined;
+  for (let k = 0; k < sequence.length; k++) {
+    if (!isNeutralOrIsolate(types[sequence[k]])) {
+      continue;
+    }
+    let end = k;
+    while (end < sequence.length && isNeutralOrIsolate(types[sequence[end]])) {
+      end++;
+    }
+    const leading = k > 0 ? strength(types[sequence[k - 1]]) : sos;
+    const trailing = end < sequence.length ? strength(types[sequence[end]]) : eos;
+    const resolved = leading && leading === trailing ? leading : embedding;
+    for (let m = k; m < end; m++) {
+      types[sequence[m]] = resolved;
+    }
+    k = end - 1;
+  }
+
+  // I1 and I2: implicit levels
+  for (const i of sequence) {
+    const type = types[i];
+    if (level % 2 === 0) {
+      if (type === 'R') {
+        levels[i] += 1;
+      } else if (type === 'AN' || type === 'EN') {
+        levels[i] += 2;
+      }
+    } else if (type === 'L' || type === 'EN' || type === 'AN') {
+      levels[i] += 1;
+    }
+  }
+}
+
+/**
+ * Resolve the embedding level of every code point of a line of text.
+ * Line-end whitespace and separators are reset to the paragraph level (rule L1).
+ * @param direction Paragraph direction, or `'auto'` to use the first strong character
+ */
+export function resolveBidiLevels(text: string, direction: BidiDirection | 'auto' = 'auto'): BidiLevels {
+  const chars = Array.from(text);
+  const originalTypes = chars.map(getBidiClass);
+  const types = [...originalTypes];
+
+  const paragraphDirection = direction === 'auto' ? firstStrongDirection(types) ?? 'ltr' : direction;
+  const baseLevel = paragraphDirection === 'rtl' ? 1 : 0;
+
+  const isolateMatches = matchIsolates(types);
+  const levels = resolveExplicitLevels(types, baseLevel, isolateMatches);
+
+  for (const sequence of findIsolatingRunSequences(types, levels, isolateMatches)) {
+    resolveSequence(chars, types, levels, sequence, baseLevel, originalTypes);
+  }
+
+  // Characters removed by X9 take the level of the preceding character
+  for (let i = 0; i < chars.length; i++) {
+    if (isRemovedByX9(originalTypes[i])) {
+      levels[i] = i > 0 ? levels[i - 1] : baseLevel;
+    }
+  }
+
+  // L1: separators, and whitespace before them or at the end of the line
+  let trailing = true;
+  for (let i = chars.length - 1; i >= 0; i--) {
+    const type = originalTypes[i];
+    if (type === 'S' || type === 'B') {
+      levels[i] = baseLevel;
+      trailing = true;
+    } else if (type === 'WS' || isIsolateInitiator(type) || type === 'PDI' || isRemovedByX9(type)) {
+      if (trailing) {
+        levels[i] = baseLevel;
+      }
+    } else {
+      trailing = false;
+    }
+  }
+
+  return { levels, baseLevel };
+}
+
+/**
+ * Reorder items into visual order by their embedding levels (rule L2)
+ */
+export function reorderByLevel<T>(items: T[], levelOf: (item: T) => number): T[] {
+  const result = [...items];
+  const levels = result.map(levelOf);
+  const highest = Math.max(0, ...levels);
+  const lowestOdd = Math.min(...levels.map(level => level % 2 === 1 ? level : Infinity));
+  if (!Number.isFinite(lowestOdd)) {
+    return result;
+  }
+
+  for (let level = highest; level >= lowestOdd; level--) {
+    for (let start = 0; start < result.length; start++) {
+      if (levels[start] < level) {
+        continue;
+      }
+      let end = start;
+      while (end < result.length && levels[end] >= level) {
+        end++;
+      }
+      const reversedItems = result.slice(start, end).reverse();
+      const reversedLevels = levels.slice(start, end).reverse();
+      result.splice(start, end - start, ...reversedItems);
+      levels.splice(start, end - start, ...reversedLevels);
+      start = end;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { layoutCanvas } from './canvas';
+import { textToSvgPath } from './index';
+import { CanvasOptions } from './types';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+// Ink 100 wide and 40 high, with a font box reaching further up and down
+const INK = { x1: 10, y1: 20, x2: 110, y2: 60 };
+const METRICS = { x1: 10, y1: 10, x2: 110, y2: 70 };
+
+describe('canvas layout', () => {
+  it('fits the text and padding when sized automatically', () => {
+    assert.deepEqual(layoutCanvas(INK, METRICS, { padding: 5 }, 50), { width: 110, height: 50, x: -5, y: -15, radius: 0 });
+    // Padding defaults to a fifth of the font size
+    assert.deepEqual(layoutCanvas(INK, METRICS, {}, 50), { width: 120, height: 60, x: 0, y: -10, radius: 0 });
+  });
+
+  it('pads each side on its own', () => {
+    const layout = layoutCanvas(INK, METRICS, { padding: { left: 20, top: 4 } }, 50);
+    assert.deepEqual(layout, { width: 120, height: 44, x: 10, y: -16, radius: 0 });
+  });
+
+  it('aligns the text within a fixed size', () => {
+    const at = (options: CanvasOptions) => {
+      const { x, y } = layoutCanvas(INK, METRICS, { width: 300, height: 100, padding: 0, ...options }, 50);
+      return [x, y];
+    };
+    assert.deepEqual(at({ align: 'left', verticalAlign: 'top' }), [-10, -20]);
+    assert.deepEqual(at({}), [90, 10]);
+    assert.deepEqual(at({ align: 'right', verticalAlign: 'bottom' }), [190, 40]);
+    // The font box, rather than the ink, sits at the top
+    assert.deepEqual(at({ verticalAlign: 'baseline' }), [90, -10]);
+  });
+
+  it('rejects invalid sizes, padding, radii and alignments', () => {
+    const invalid: CanvasOptions[] = [
+      { width: 0 }, { height: NaN }, { padding: -1 }, { padding: { top: Infinity } }, { radius: -2 },
+      { align: 'middle' as CanvasOptions['align'] }, { verticalAlign: 'center' as CanvasOptions['verticalAlign'] },
+      { align: 'toString' as CanvasOptions['align'] }
+    ];
+    for (const options of invalid) {
+      assert.throws(() => layoutCanvas(INK, METRICS, options, 50), { name: 'InvalidOptionError', option: 'canvas' }, JSON.stringify(options));
+    }
+  });
+
+  it('draws the background on the canvas', async () => {
+    const result = await textToSvgPath({
+      font: FONT, text: 'Hi', fontSize: 40, background: '#eeeeee', canvas: { width: 400, height: 200, radius: 8 }, outputFormats: ['svgWithBackground']
+    });
+    assert.match(result.svgWithBackground!, /width="400"/);
+    assert.match(result.svgWithBackground!, /<rect x="0" y="0" width="400" height="200" rx="8" fill="#eeeeee" \/>/);
+  });
+});
@@ -0,0 +1,120 @@
+import { CanvasOptions, CanvasPadding, BoundingBox } from './types';
+import { InvalidOptionError } from './errors';
+
+/**
+ * A background canvas and where the text's coordinates are placed on it
+ */
+export interface CanvasLayout {
+  width: number;
+  height: number;
+  /** Offset added to the text's coordinates to draw it on the canvas */
+  x: number;
+  y: number;
+  /** Corner radius */
+  radius: number;
+}
+
+/**
+ * Fraction of the free space left of the text for each horizontal alignment
+ */
+const ALIGN_FRACTIONS: Record<string, number> = { left: 0, center: 0.5, right: 1 };
+
+/**
+ * Fraction of the free space above the text for each vertical alignment
+ */
+const VERTICAL_ALIGN_FRACTIONS: Record<string, number> = { top: 0, middle: 0.5, bottom: 1, baseline: 0 };
+
+/**
+ * Round a coordinate for output
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Expand padding to one value per side, checking it's a usable length
+ */
+function resolvePadding(padding: CanvasPadding): { top: number; right: number; bottom: number; left: number } {
+  const sides = typeof padding === 'number'
+    ? { top: padding, right: padding, bottom: padding, left: padding }
+    : { top: padding.top ?? 0, right: padding.right ?? 0, bottom: padding.bottom ?? 0, left: padding.left ?? 0 };
+  for (const value of Object.values(sides)) {
+    if (!(value >= 0) || !isFinite(value)) {
+      throw new InvalidOptionError(`Invalid canvas padding: ${value}`, 'canvas');
+    }
+  }
+  return sides;
+}
+
+/**
+ * Look up the fraction of the free space an alignment leaves before the text
+ */
+function alignFraction(fractions: Record<string, number>, value: string, name: 'align' | 'verticalAlign'): number {
+  if (!Object.prototype.hasOwnProperty.call(fractions, value)) {
+    throw new InvalidOptionError(`Invalid canvas ${name}: ${JSON.stringify(value)}`, 'canvas');
+  }
+  return fractions[value];
+}
+
+/**
+ * Work out one side of the canvas: its size, and the offset that aligns the text within it
+ * @param start Start of the text's extent along this side
+ * @param end End of the text's extent
+ * @param before Padding before the text
+ * @param after Padding after the text
+ */
+function layoutAxis(
+  name: 'width' | 'height',
+  size: number | 'auto',
+  start: number,
+  end: number,
+  before: number,
+  after: number,
+  fraction: number
+): { size: number; offset: number } {
+  const extent = end - start;
+  if (size === 'auto') {
+    return { size: Math.ceil(extent + before + after), offset: round(before - start) };
+  }
+  if (!(size > 0) || !isFinite(size)) {
+    throw new InvalidOptionError(`Invalid canvas ${name}: ${size}`, 'canvas');
+  }
+  // Text wider than the space overflows evenly by the same alignment
+  const free = size - before - after - extent;
+  return { size, offset: round(before + free * fraction - start) };
+}
+
+/**
+ * Lay out the background canvas around the text
+ * @param inkBox Bounding box of what is drawn, including shadows and glows
+ * @param metricBox Box from the font's ascender to its descender, used by 'baseline' alignment
+ */
+export function layoutCanvas(
+  inkBox: BoundingBox,
+  metricBox: BoundingBox | undefined,
+  options: CanvasOptions,
+  fontSize: number
+): CanvasLayout {
+  const {
+    width = 'auto',
+    height = 'auto',
+    padding = fontSize * 0.2,
+    align = 'center',
+    verticalAlign = 'middle',
+    radius = 0
+  } = options;
+  if (!(radius >= 0) || !isFinite(radius)) {
+    throw new InvalidOptionError(`Invalid canvas radius: ${radius}`, 'canvas');
+  }
+  const sides = resolvePadding(padding);
+
+  // Text on a path has no lines, so its outline stands in for the font metrics
+  const verticalBox = verticalAlign === 'baseline' && metricBox ? metricBox : inkBox;
+  const horizontal = layoutAxis('width', width, inkBox.x1, inkBox.x2, sides.left, sides.right, alignFraction(ALIGN_FRACTIONS, align, 'align'));
+  const vertical = layoutAxis(
+    'height', height, verticalBox.y1, verticalBox.y2, sides.top, sides.bottom,
+    alignFraction(VERTICAL_ALIGN_FRACTIONS, verticalAlign, 'verticalAlign')
+  );
+
+  return { width: horizontal.size, height: vertical.size, x: horizontal.offset, y: vertical.offset, radius };
+}
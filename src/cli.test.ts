@@ -0,0 +1,90 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassThrough } from 'stream';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runCli } from './cli';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+/**
+ * Run the CLI in a directory, collecting what it writes
+ */
+async function run(args: string[], cwd: string): Promise<{ code: number; stdout: string; stderr: string }> {
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  const output = { stdout: '', stderr: '' };
+  stdout.on('data', chunk => output.stdout += chunk);
+  stderr.on('data', chunk => output.stderr += chunk);
+  const code = await runCli(args, { stdin: new PassThrough(), stdout, stderr, cwd });
+  return { code, ...output };
+}
+
+describe('CLI', () => {
+  let root: string;
+
+  before(async () => {
+    // The manifest sits in its own directory, next to the fonts one
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'text-to-svg-path-cli-'));
+    await fs.mkdir(path.join(root, 'fonts'));
+    await fs.mkdir(path.join(root, 'project'));
+    await fs.copyFile(FONT, path.join(root, 'fonts', 'Inter.ttf'));
+    await fs.copyFile(FONT, path.join(root, 'Shared.ttf'));
+    await fs.writeFile(path.join(root, 'project', 'manifest.json'), JSON.stringify({
+      title: { text: 'Title', font: '../fonts/Inter.ttf' },
+      link: { text: 'Link', fontUrl: '../fonts/Inter.ttf' },
+      mixed: { text: 'unused', spans: [{ text: 'Mi', font: '../fonts/Inter.ttf' }, { text: 'xed' }], fallbackFonts: ['../fonts/Inter.ttf'] },
+      shared: { text: 'Shared' }
+    }));
+    await fs.writeFile(path.join(root, 'project', 'manifest.yaml'), 'title:\n  text: Title\n  font: ../fonts/Inter.ttf\n');
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('resolves fonts against the manifest directory and flags against the working directory', async () => {
+    const { code, stderr } = await run(['-m', 'project/manifest.json', '-f', 'Shared.ttf', '-o', 'out/{name}.{ext}'], root);
+    assert.equal(code, 0, stderr);
+    for (const name of ['title', 'link', 'mixed', 'shared']) {
+      assert.match(await fs.readFile(path.join(root, 'out', `${name}.svg`), 'utf8'), /^<svg/);
+      assert.ok(stderr.includes(`${name}: wrote ${path.join('out', `${name}.svg`)}`), stderr);
+    }
+  });
+
+  it('keeps an entry\'s own font instead of the one given as a flag', async () => {
+    const { code, stderr } = await run(['-m', 'project/manifest.json', '-f', 'missing.ttf', '-o', 'kept/{name}.{ext}'], root);
+    // Only the entries without a font of their own fall back to the missing one
+    assert.equal(code, 1);
+    assert.match(stderr, /shared: /);
+    assert.doesNotMatch(stderr, /(title|link): (?!wrote)/);
+    await fs.access(path.join(root, 'kept', 'title.svg'));
+    await fs.access(path.join(root, 'kept', 'link.svg'));
+  });
+
+  it('reads YAML manifests and writes to stdout', async () => {
+    const { code, stdout, stderr } = await run(['-m', 'project/manifest.yaml', '-F', 'pathData', '-o', '-'], root);
+    assert.equal(code, 0, stderr);
+    assert.match(stdout, /^M/);
+  });
+
+  it('reports an unreadable manifest as a usage error', async () => {
+    const { code, stderr } = await run(['-m', 'project/missing.json'], root);
+    assert.equal(code, 2);
+    assert.match(stderr, /Cannot read manifest/);
+  });
+
+  it('sets nested options and refuses keys that reach into prototypes', async () => {
+    const { code, stdout, stderr } = await run(['-t', 'Hi', '-f', 'Shared.ttf', '--set', 'canvas.padding=4', '--set', 'background="#fff"', '-F', 'svgWithBackground', '-o', '-'], root);
+    assert.equal(code, 0, stderr);
+    assert.match(stdout, /<rect/);
+
+    for (const key of ['__proto__.fill', 'style.constructor.prototype.fill', 'prototype']) {
+      const refused = await run(['-t', 'Hi', '-f', 'Shared.ttf', '--set', `${key}=x`, '-o', '-'], root);
+      assert.equal(refused.code, 2);
+      assert.match(refused.stderr, /Invalid key for --set/);
+    }
+    assert.equal(({} as Record<string, unknown>).fill, undefined);
+  });
+});
@@ -0,0 +1,426 @@
+#!/usr/bin/env node
+/**
+ * Command-line interface: converts text from flags, stdin or a JSON/YAML manifest
+ * and writes each output format to a file
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { textToSvgPath } from './text-to-svg-path';
+import { createRenderServer } from './server';
+import { parseYaml } from './yaml';
+import { isRemoteUrl } from './font-loader';
+import { OutputFormat, TextToSvgPathOptions, MultiTextEntryResult, FontSource } from './types';
+
+/**
+ * Exit codes: every entry was written, some entry failed, or the command line or manifest was unusable
+ */
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+/**
+ * Extension each output format is written with by `{ext}`, distinct so one template can hold them all
+ */
+const EXTENSIONS: Record<OutputFormat, string> = {
+  svg: 'svg',
+  pathData: 'path.txt',
+  pathElement: 'path.xml',
+  svgWithBackground: 'background.svg',
+  svgWithEmbeddedFont: 'font.svg',
+  glyphs: 'glyphs.json',
+  polylines: 'polylines.json',
+  pdf: 'pdf',
+  eps: 'eps',
+  dxf: 'dxf',
+  gcode: 'gcode',
+  json: 'json',
+  png: 'png',
+  webp: 'webp'
+};
+
+const DEFAULT_TEMPLATE = '{name}.{ext}';
+
+const USAGE = `Usage: text-to-svg-path [options] [text]
+
+Convert text to SVG paths and other formats. The text comes from the argument, --text,
+or stdin; --manifest converts several named entries instead.
+
+Options:
+  -t, --text <text>          Text to convert
+  -f, --font <source>        Font file, file:// URL, http(s) URL or data: URL
+  -s, --font-size <px>       Font size in pixels
+      --fill <color>         Fill colour
+      --stroke <color>       Stroke colour
+      --stroke-width <px>    Stroke width
+      --background <color>   Background colour, for svgWithBackground
+  -F, --format <list>        Comma-separated output formats (default: svg)
+      --set <key=value>      Any other option, with dotted keys and JSON values,
+                             e.g. --set textAlign=center --set fit.width=300 (repeatable)
+  -m, --manifest <file>      JSON or YAML file of named entries shaped like the multi-text
+                             options; '-' reads it from stdin. Flags apply to every entry.
+  -n, --name <name>          Name of the single entry in file names (default: text)
+  -o, --output <template>    File name template with {name}, {format} and {ext}, or '-' for
+                             stdout (default: ${DEFAULT_TEMPLATE}). Prefix a format to set its own
+                             template, e.g. -o png=images/{name}@2x.png (repeatable)
+      --serve <port>         Run the HTTP rendering server on a port instead of converting
+      --host <host>          Address the server listens on (default: 127.0.0.1)
+      --allow-font <source>  Font directory or http(s) URL prefix the server may load from;
+                             --font sets its default font (repeatable)
+  -h, --help                 Show this help
+  -v, --version              Show the version
+
+Exit codes: 0 on success, 1 when an entry fails, 2 on invalid arguments or manifests.`;
+
+/**
+ * Where the CLI reads and writes, so it can be driven without a real terminal
+ */
+export interface CliIo {
+  stdin: NodeJS.ReadableStream & { isTTY?: boolean };
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+  cwd: string;
+}
+
+/**
+ * A mistake in the command line or manifest
+ */
+class UsageError extends Error {}
+
+/**
+ * Read a whole stream as UTF-8 text
+ */
+async function readStream(stream: NodeJS.ReadableStream): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Keys that would reach into the prototype of the options objects instead of setting an option
+ */
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Set a dotted key on an options object, reading the value as JSON when it is valid JSON
+ */
+function setOption(target: Record<string, any>, assignment: string): void {
+  const equals = assignment.indexOf('=');
+  if (equals <= 0) {
+    throw new UsageError(`Expected key=value for --set, got "${assignment}"`);
+  }
+  const keys = assignment.slice(0, equals).split('.');
+  if (keys.some(key => UNSAFE_KEYS.includes(key))) {
+    throw new UsageError(`Invalid key for --set: "${assignment.slice(0, equals)}"`);
+  }
+  const raw = assignment.slice(equals + 1);
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    value = raw;
+  }
+  let object = target;
+  for (const key of keys.slice(0, -1)) {
+    if (typeof object[key] !== 'object' || object[key] === null) {
+      object[key] = {};
+    }
+    object = object[key];
+  }
+  object[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Read a manifest of named entries. JSON is detected by its file extension or a leading `{`;
+ * anything else is read as YAML.
+ */
+function parseManifest(source: string, file: string): Record<string, TextToSvgPathOptions> {
+  let manifest: unknown;
+  try {
+    manifest = /\.json$/i.test(file) || source.trimStart().startsWith('{') ? JSON.parse(source) : parseYaml(source);
+  } catch (error) {
+    throw new UsageError(`Invalid manifest ${file}: ${(error as Error).message}`);
+  }
+  if (typeof manifest !== 'object' || manifest === null || Array.isArray(manifest)) {
+    throw new UsageError(`Invalid manifest ${file}: expected a mapping of entry names to options`);
+  }
+  for (const [name, entry] of Object.entries(manifest)) {
+    if (typeof entry !== 'object' || entry === null || (typeof entry.text !== 'string' && !Array.isArray(entry.spans))) {
+      throw new UsageError(`Invalid manifest ${file}: entry "${name}" needs a "text" string or "spans"`);
+    }
+  }
+  return manifest as Record<string, TextToSvgPathOptions>;
+}
+
+/**
+ * Resolve a font file path against a directory, leaving URLs and other sources alone
+ */
+function resolveFontPath<T>(source: T, directory: string): T {
+  return typeof source === 'string' && !isRemoteUrl(source) && !/^(data|file):/i.test(source)
+    ? path.resolve(directory, source) as unknown as T
+    : source;
+}
+
+/**
+ * Resolve the `font` and `fontUrl` paths of an entry or span against a directory
+ */
+function resolveSourcePaths<T extends { font?: FontSource; fontUrl?: string }>(options: T, directory: string): T {
+  return {
+    ...options,
+    ...(options.font !== undefined ? { font: resolveFontPath(options.font, directory) } : {}),
+    ...(options.fontUrl !== undefined ? { fontUrl: resolveFontPath(options.fontUrl, directory) } : {})
+  };
+}
+
+/**
+ * Resolve font paths in a manifest entry against the manifest's directory
+ */
+function resolveFontPaths(entry: TextToSvgPathOptions, directory: string): TextToSvgPathOptions {
+  return {
+    ...resolveSourcePaths(entry, directory),
+    ...(entry.fallbackFonts ? { fallbackFonts: entry.fallbackFonts.map(source => resolveFontPath(source, directory)) } : {}),
+    ...(entry.spans ? { spans: entry.spans.map(span => resolveSourcePaths(span, directory)) } : {})
+  };
+}
+
+/**
+ * Combine the options given as flags with a manifest entry. The entry's own options win,
+ * and an entry naming its own font in either `font` or `fontUrl` doesn't inherit the flags' font.
+ */
+function mergeEntry(shared: Record<string, any>, entry: TextToSvgPathOptions): TextToSvgPathOptions {
+  if (entry.font === undefined && entry.fontUrl === undefined) {
+    return { ...shared, ...entry };
+  }
+  const { font, fontUrl, ...rest } = shared;
+  return { ...rest, ...entry };
+}
+
+/**
+ * Read the file name templates: a default one and any per format
+ */
+function parseTemplates(outputs: string[]): { fallback: string; byFormat: Partial<Record<OutputFormat, string>> } {
+  let fallback = DEFAULT_TEMPLATE;
+  const byFormat: Partial<Record<OutputFormat, string>> = {};
+  for (const output of outputs) {
+    const match = output.match(/^(\w+)=(.*)$/);
+    if (match && match[1] in EXTENSIONS) {
+      byFormat[match[1] as OutputFormat] = match[2];
+    } else {
+      fallback = output;
+    }
+  }
+  return { fallback, byFormat };
+}
+
+/**
+ * Fill in a file name template. Entry names can't add directories.
+ */
+function fillTemplate(template: string, name: string, format: OutputFormat): string {
+  const safeName = name.replace(/[/\\]/g, '_').replace(/^\.+/, '_');
+  return template.replace(/\{(name|format|ext)\}/g, (_, field: string) => (
+    field === 'name' ? safeName : field === 'format' ? format : EXTENSIONS[format]
+  ));
+}
+
+/**
+ * Get an output's file contents: binary formats as they are, text as UTF-8 and data as JSON
+ */
+function serializeOutput(value: unknown): Buffer | string {
+  if (Buffer.isBuffer(value) || typeof value === 'string') {
+    return value;
+  }
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+/**
+ * Run the CLI with the given arguments
+ * @returns The exit code
+ */
+export async function runCli(args: string[], io: CliIo = {
+  stdin: process.stdin,
+  stdout: process.stdout,
+  stderr: process.stderr,
+  cwd: process.cwd()
+}): Promise<number> {
+  const report = (message: string) => io.stderr.write(`${message}\n`);
+
+  try {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        text: { type: 'string', short: 't' },
+        font: { type: 'string', short: 'f' },
+        'font-size': { type: 'string', short: 's' },
+        fill: { type: 'string' },
+        stroke: { type: 'string' },
+        'stroke-width': { type: 'string' },
+        background: { type: 'string' },
+        format: { type: 'string', short: 'F' },
+        set: { type: 'string', multiple: true },
+        manifest: { type: 'string', short: 'm' },
+        name: { type: 'string', short: 'n' },
+        output: { type: 'string', short: 'o', multiple: true },
+        serve: { type: 'string' },
+        host: { type: 'string' },
+        'allow-font': { type: 'string', multiple: true },
+        help: { type: 'boolean', short: 'h' },
+        version: { type: 'boolean', short: 'v' }
+      }
+    });
+
+    if (values.help) {
+      io.stdout.write(`${USAGE}\n`);
+      return EXIT_SUCCESS;
+    }
+    if (values.version) {
+      io.stdout.write(`${require(path.join(__dirname, '..', 'package.json')).version}\n`);
+      return EXIT_SUCCESS;
+    }
+
+    if (values.serve !== undefined) {
+      const port = Number(values.serve);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new UsageError(`Invalid port: ${values.serve}`);
+      }
+      const allowedFonts = (values['allow-font'] ?? []).map(source => resolveFontPath(source, io.cwd));
+      if (allowedFonts.length === 0) {
+        throw new UsageError('The server needs at least one --allow-font');
+      }
+      const host = values.host ?? '127.0.0.1';
+      const server = createRenderServer({ allowedFonts, defaultFont: values.font });
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, resolve);
+      });
+      const address = server.address();
+      report(`Listening on http://${host}:${typeof address === 'object' && address ? address.port : port}/render`);
+      // Serve until stopped; a container's init sends SIGTERM, which Node ignores when it runs as PID 1
+      await new Promise<void>(resolve => {
+        const stop = () => {
+          server.close(() => resolve());
+          server.closeAllConnections();
+        };
+        process.once('SIGINT', stop);
+        process.once('SIGTERM', stop);
+      });
+      return EXIT_SUCCESS;
+    }
+
+    // Options given as flags, applied to every entry
+    const shared: Record<string, any> = {};
+    for (const assignment of values.set ?? []) {
+      setOption(shared, assignment);
+    }
+    if (values.font !== undefined) {
+      shared.font = resolveFontPath(values.font, io.cwd);
+    }
+    if (values['font-size'] !== undefined) {
+      shared.fontSize = Number(values['font-size']);
+      if (!(shared.fontSize > 0)) {
+        throw new UsageError(`Invalid font size: ${values['font-size']}`);
+      }
+    }
+    const styleFlags = { fill: values.fill, stroke: values.stroke, strokeWidth: values['stroke-width'], background: values.background };
+    for (const [key, value] of Object.entries(styleFlags)) {
+      if (value !== undefined) {
+        shared[key] = value;
+      }
+    }
+
+    const formats = (values.format ?? 'svg').split(',').map(format => format.trim()).filter(Boolean) as OutputFormat[];
+    const unknown = formats.filter(format => !(format in EXTENSIONS));
+    if (unknown.length > 0) {
+      throw new UsageError(`Unknown output format: ${unknown.join(', ')}`);
+    }
+
+    // Collect the entries, from the manifest or a single text
+    let entries: Record<string, TextToSvgPathOptions>;
+    if (values.manifest !== undefined) {
+      if (values.text !== undefined || positionals.length > 0) {
+        throw new UsageError('Give either text or a manifest, not both');
+      }
+      const fromStdin = values.manifest === '-';
+      const file = fromStdin ? 'stdin' : path.resolve(io.cwd, values.manifest);
+      let source: string;
+      try {
+        source = fromStdin ? await readStream(io.stdin) : await fs.readFile(file, 'utf8');
+      } catch (error) {
+        throw new UsageError(`Cannot read manifest ${file}: ${(error as Error).message}`);
+      }
+      const directory = fromStdin ? io.cwd : path.dirname(file);
+      entries = {};
+      for (const [name, entry] of Object.entries(parseManifest(source, file))) {
+        entries[name] = mergeEntry(shared, resolveFontPaths(entry, directory));
+      }
+    } else {
+      let text = values.text ?? (positionals.length > 0 ? positionals.join(' ') : undefined);
+      if (text === undefined && !io.stdin.isTTY) {
+        // Piped text loses the newline that ends the input
+        text = (await readStream(io.stdin)).replace(/\r?\n$/, '');
+      }
+      if (text === undefined) {
+        throw new UsageError('No text given');
+      }
+      entries = { [values.name ?? 'text']: { ...shared, text } as TextToSvgPathOptions };
+    }
+
+    const names = Object.keys(entries);
+    if (names.length === 0) {
+      throw new UsageError('The manifest has no entries');
+    }
+    for (const name of names) {
+      // Each entry reports its own failure, so the others are still written
+      entries[name] = { ...entries[name], outputFormats: entries[name].outputFormats ?? formats, onError: 'collect' };
+    }
+
+    const results = await textToSvgPath(entries) as Record<string, MultiTextEntryResult>;
+    const templates = parseTemplates(values.output ?? []);
+    let failed = false;
+
+    for (const name of names) {
+      const result = results[name];
+      if (result.error) {
+        report(`${name}: ${result.error.message}`);
+        failed = true;
+        continue;
+      }
+      for (const format of entries[name].outputFormats!) {
+        const value = result[format as keyof MultiTextEntryResult];
+        if (value === undefined || value === '') {
+          const hint = format === 'svgWithBackground' ? ' (it needs a background)' : '';
+          report(`${name}: no ${format} output${hint}`);
+          failed = true;
+          continue;
+        }
+        const template = templates.byFormat[format] ?? templates.fallback;
+        const contents = serializeOutput(value);
+        if (template === '-') {
+          io.stdout.write(contents);
+          continue;
+        }
+        const file = path.resolve(io.cwd, fillTemplate(template, name, format));
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, contents);
+        report(`${name}: wrote ${path.relative(io.cwd, file)}`);
+      }
+    }
+    return failed ? EXIT_FAILURE : EXIT_SUCCESS;
+  } catch (error) {
+    if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      report(`${(error as Error).message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    report((error as Error).message);
+    return EXIT_FAILURE;
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,254 @@
+import { InvalidOptionError } from './errors';
+
+/**
+ * A colour with channels from 0 to 255 and alpha from 0 to 1
+ */
+export interface RgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+/**
+ * The CSS named colours
+ */
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: '#f0f8ff',
+  antiquewhite: '#faebd7',
+  aqua: '#00ffff',
+  aquamarine: '#7fffd4',
+  azure: '#f0ffff',
+  beige: '#f5f5dc',
+  bisque: '#ffe4c4',
+  black: '#000000',
+  blanchedalmond: '#ffebcd',
+  blue: '#0000ff',
+  blueviolet: '#8a2be2',
+  brown: '#a52a2a',
+  burlywood: '#deb887',
+  cadetblue: '#5f9ea0',
+  chartreuse: '#7fff00',
+  chocolate: '#d2691e',
+  coral: '#ff7f50',
+  cornflowerblue: '#6495ed',
+  cornsilk: '#fff8dc',
+  crimson: '#dc143c',
+  cyan: '#00ffff',
+  darkblue: '#00008b',
+  darkcyan: '#008b8b',
+  darkgoldenrod: '#b8860b',
+  darkgray: '#a9a9a9',
+  darkgreen: '#006400',
+  darkgrey: '#a9a9a9',
+  darkkhaki: '#bdb76b',
+  darkmagenta: '#8b008b',
+  darkolivegreen: '#556b2f',
+  darkorange: '#ff8c00',
+  darkorchid: '#9932cc',
+  darkred: '#8b0000',
+  darksalmon: '#e9967a',
+  darkseagreen: '#8fbc8f',
+  darkslateblue: '#483d8b',
+  darkslategray: '#2f4f4f',
+  darkslategrey: '#2f4f4f',
+  darkturquoise: '#00ced1',
+  darkviolet: '#9400d3',
+  deeppink: '#ff1493',
+  deepskyblue: '#00bfff',
+  dimgray: '#696969',
+  dimgrey: '#696969',
+  dodgerblue: '#1e90ff',
+  firebrick: '#b22222',
+  floralwhite: '#fffaf0',
+  forestgreen: '#228b22',
+  fuchsia: '#ff00ff',
+  gainsboro: '#dcdcdc',
+  ghostwhite: '#f8f8ff',
+  gold: '#ffd700',
+  goldenrod: '#daa520',
+  gray: '#808080',
+  green: '#008000',
+  greenyellow: '#adff2f',
+  grey: '#808080',
+  honeydew: '#f0fff0',
+  hotpink: '#ff69b4',
+  indianred: '#cd5c5c',
+  indigo: '#4b0082',
+  ivory: '#fffff0',
+  khaki: '#f0e68c',
+  lavender: '#e6e6fa',
+  lavenderblush: '#fff0f5',
+  lawngreen: '#7cfc00',
+  lemonchiffon: '#fffacd',
+  lightblue: '#add8e6',
+  lightcoral: '#f08080',
+  lightcyan: '#e0ffff',
+  lightgoldenrodyellow: '#fafad2',
+  lightgray: '#d3d3d3',
+  lightgreen: '#90ee90',
+  lightgrey: '#d3d3d3',
+  lightpink: '#ffb6c1',
+  lightsalmon: '#ffa07a',
+  lightseagreen: '#20b2aa',
+  lightskyblue: '#87cefa',
+  lightslategray: '#778899',
+  lightslategrey: '#778899',
+  lightsteelblue: '#b0c4de',
+  lightyellow: '#ffffe0',
+  lime: '#00ff00',
+  limegreen: '#32cd32',
+  linen: '#faf0e6',
+  magenta: '#ff00ff',
+  maroon: '#800000',
+  mediumaquamarine: '#66cdaa',
+  mediumblue: '#0000cd',
+  mediumorchid: '#ba55d3',
+  mediumpurple: '#9370db',
+  mediumseagreen: '#3cb371',
+  mediumslateblue: '#7b68ee',
+  mediumspringgreen: '#00fa9a',
+  mediumturquoise: '#48d1cc',
+  mediumvioletred: '#c71585',
+  midnightblue: '#191970',
+  mintcream: '#f5fffa',
+  mistyrose: '#ffe4e1',
+  moccasin: '#ffe4b5',
+  navajowhite: '#ffdead',
+  navy: '#000080',
+  oldlace: '#fdf5e6',
+  olive: '#808000',
+  olivedrab: '#6b8e23',
+  orange: '#ffa500',
+  orangered: '#ff4500',
+  orchid: '#da70d6',
+  palegoldenrod: '#eee8aa',
+  palegreen: '#98fb98',
+  paleturquoise: '#afeeee',
+  palevioletred: '#db7093',
+  papayawhip: '#ffefd5',
+  peachpuff: '#ffdab9',
+  peru: '#cd853f',
+  pink: '#ffc0cb',
+  plum: '#dda0dd',
+  powderblue: '#b0e0e6',
+  purple: '#800080',
+  rebeccapurple: '#663399',
+  red: '#ff0000',
+  rosybrown: '#bc8f8f',
+  royalblue: '#4169e1',
+  saddlebrown: '#8b4513',
+  salmon: '#fa8072',
+  sandybrown: '#f4a460',
+  seagreen: '#2e8b57',
+  seashell: '#fff5ee',
+  sienna: '#a0522d',
+  silver: '#c0c0c0',
+  skyblue: '#87ceeb',
+  slateblue: '#6a5acd',
+  slategray: '#708090',
+  slategrey: '#708090',
+  snow: '#fffafa',
+  springgreen: '#00ff7f',
+  steelblue: '#4682b4',
+  tan: '#d2b48c',
+  teal: '#008080',
+  thistle: '#d8bfd8',
+  tomato: '#ff6347',
+  turquoise: '#40e0d0',
+  violet: '#ee82ee',
+  wheat: '#f5deb3',
+  white: '#ffffff',
+  whitesmoke: '#f5f5f5',
+  yellow: '#ffff00',
+  yellowgreen: '#9acd32'
+};
+
+/**
+ * Convert a hue in degrees and saturation and lightness from 0 to 1 to channels from 0 to 255
+ */
+function hslToRgb(hue: number, saturation: number, lightness: number): [number, number, number] {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    return (lightness - chroma / 2 * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+/**
+ * Parse a CSS colour: hex (`#rgb`, `#rgba`, `#rrggbb`, `#rrggbbaa`), `rgb()`/`rgba()`,
+ * `hsl()`/`hsla()`, a named colour, or `none`/`transparent`
+ * @returns The colour, or undefined when it can't be read
+ */
+export function parseColor(value: string): RgbaColor | undefined {
+  const color = value.trim().toLowerCase();
+  if (color === 'none' || color === 'transparent') {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+
+  const hex = (NAMED_COLORS[color] ?? color).match(/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/);
+  if (hex) {
+    const digits = hex[1].length <= 4 ? hex[1].replace(/./g, '$&$&') : hex[1];
+    const channel = (i: number) => parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+    return { r: channel(0), g: channel(1), b: channel(2), a: digits.length === 8 ? channel(3) / 255 : 1 };
+  }
+
+  const functional = color.match(/^(rgb|hsl)a?\(\s*([^)]*)\)$/);
+  if (functional) {
+    const isHsl = functional[1] === 'hsl';
+    const parts = functional[2].split(/\s*[,/]\s*|\s+/);
+    if (parts.length !== 3 && parts.length !== 4) {
+      return undefined;
+    }
+    const values = parts.map((part, i) => {
+      // Hues may be given in degrees, everything else as a number or percentage
+      const pattern = isHsl && i === 0 ? /^[-+]?(\d+\.?\d*|\.\d+)(deg)?$/ : /^[-+]?(\d+\.?\d*|\.\d+)%?$/;
+      if (!pattern.test(part)) {
+        return NaN;
+      }
+      const number = parseFloat(part);
+      const isPercent = part.endsWith('%');
+      if (i === 3) {
+        return Math.min(1, Math.max(0, isPercent ? number / 100 : number));
+      }
+      if (isHsl) {
+        return i === 0 ? (number % 360 + 360) % 360 : Math.min(1, Math.max(0, isPercent ? number / 100 : NaN));
+      }
+      return Math.min(255, Math.max(0, isPercent ? number * 2.55 : number));
+    });
+    if (values.some(isNaN)) {
+      return undefined;
+    }
+    const [r, g, b] = isHsl ? hslToRgb(values[0], values[1], values[2]) : values;
+    return { r, g, b, a: values[3] ?? 1 };
+  }
+  return undefined;
+}
+
+/**
+ * Parse a colour option, failing with an `InvalidOptionError` when it can't be read
+ * @param option Name of the option, for the error message
+ */
+export function requireColor(value: string, option: string): RgbaColor {
+  const color = parseColor(value);
+  if (!color) {
+    throw new InvalidOptionError(`Invalid colour for ${option}: ${JSON.stringify(value)}`, option);
+  }
+  return color;
+}
+
+/**
+ * Check that a value can be used as an SVG colour: a colour or `currentColor`
+ */
+export function isValidColor(value: string): boolean {
+  return typeof value === 'string' && (parseColor(value) !== undefined || /^\s*currentcolor\s*$/i.test(value));
+}
+
+/**
+ * Check that a value can be used as an SVG paint: a colour, or a reference to a paint server
+ * on the page like `url(#gradient)`
+ */
+export function isValidPaint(value: string): boolean {
+  return isValidColor(value) || typeof value === 'string' && /^\s*url\(#[A-Za-z_][\w.-]*\)\s*$/.test(value);
+}
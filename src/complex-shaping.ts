@@ -0,0 +1,637 @@
+import * as opentype from 'opentype.js';
+import { FontFeatures } from './types';
+import { FeatureScript, getLayoutTable, hasScript } from './opentype-layout';
+import { GlyphSlot, SubstitutionEngine } from './gsub';
+import { PositionedSlot, PositioningEngine } from './gpos';
+import { getMirroredChar } from './bidi';
+import { shaperFor } from './scripts';
+
+/**
+ * Options for shaping a run of text in a single script and direction
+ */
+export interface ComplexShapeOptions {
+  /** OpenType script tags to try in order; the first one the font supports is used */
+  scripts: string[];
+  /** OpenType language system tag */
+  language?: string;
+  rtl: boolean;
+  kerning: boolean;
+  /** Features requested by the caller, on top of the ones the script needs */
+  features?: FontFeatures;
+}
+
+/**
+ * A shaped glyph in logical order, with its placement in font units
+ */
+export interface ComplexGlyph {
+  id: number;
+  /** Number of source code points the glyph's cluster starts with (0 for later glyphs of a cluster) */
+  length: number;
+  xAdvance: number;
+  xOffset: number;
+  yOffset: number;
+}
+
+/**
+ * Character categories used to find Indic syllables
+ */
+type IndicCategory = 'C' | 'V' | 'N' | 'H' | 'M' | 'S' | 'A' | 'J' | 'Z' | 'X';
+
+/**
+ * A glyph in the substitution buffer, with what shaping needs to know about its source characters
+ */
+interface ShapingSlot extends GlyphSlot {
+  /** Code point the glyph was mapped from, before substitutions */
+  code: number;
+  /** Index of the source code point the glyph's cluster starts at */
+  cluster: number;
+  category?: IndicCategory;
+  /** Position class within an Indic syllable, in visual order */
+  position?: number;
+  syllable?: number;
+  /** Whether the glyph is a Ra that should become a reph */
+  reph?: boolean;
+}
+
+/**
+ * A group of features whose lookups are applied together, in lookup list order
+ */
+interface Stage {
+  features: FontFeatures;
+  /** Features that only apply to glyphs carrying them in their masks */
+  masked?: string[];
+  /** Keep lookups from matching across syllable boundaries */
+  perSyllable?: boolean;
+}
+
+/**
+ * Arabic joining types: right-joining, dual-joining, transparent and non-joining
+ */
+type JoiningType = 'R' | 'D' | 'T' | 'U';
+
+/**
+ * Characters that only join to the character before them, as [start, end] ranges
+ */
+const RIGHT_JOINING: Array<[number, number]> = [
+  [0x0622, 0x0625], [0x0627, 0x0627], [0x0629, 0x0629], [0x062f, 0x0632], [0x0648, 0x0648],
+  [0x0671, 0x0673], [0x0675, 0x0677], [0x0688, 0x0699], [0x06c0, 0x06c0], [0x06c3, 0x06cb],
+  [0x06cd, 0x06cd], [0x06cf, 0x06cf], [0x06d2, 0x06d3], [0x06d5, 0x06d5], [0x06ee, 0x06ef],
+  [0x0710, 0x0710], [0x0715, 0x0719], [0x071e, 0x071e], [0x0728, 0x0728], [0x072a, 0x072a],
+  [0x072c, 0x072c], [0x072f, 0x072f], [0x074d, 0x074d], [0x0759, 0x075b], [0x076b, 0x076c],
+  [0x0771, 0x0771], [0x0773, 0x0774], [0x0778, 0x0779], [0x08aa, 0x08ac], [0x08ae, 0x08ae],
+  [0x08b1, 0x08b2], [0x08b9, 0x08b9]
+];
+
+/**
+ * Letters that don't join at all within the Arabic-style joining blocks
+ */
+const NON_JOINING = [0x0621, 0x0674];
+
+/**
+ * Invisible characters such as joiners and direction marks
+ */
+const DEFAULT_IGNORABLE = /^\p{Default_Ignorable_Code_Point}$/u;
+
+/**
+ * Positional forms, applied in this order
+ */
+const ARABIC_FORMS = ['isol', 'fina', 'fin2', 'fin3', 'medi', 'med2', 'init'];
+
+/**
+ * Features applied to every complex run unless turned off
+ */
+const DEFAULT_FEATURES: FontFeatures = { rlig: true, rclt: true, calt: true, liga: true, clig: true };
+
+/**
+ * Indic syllable position classes, in the order glyphs are arranged within a syllable
+ */
+const POS_REPH = 1;
+const POS_PRE_MATRA = 2;
+const POS_PRE_CONSONANT = 3;
+const POS_BASE = 4;
+const POS_AFTER_MAIN = 5;
+const POS_BELOW_CONSONANT = 8;
+const POS_AFTER_SUB = 9;
+const POS_BEFORE_POST = 10;
+const POS_POST_CONSONANT = 11;
+const POS_SYLLABLE_MODIFIER = 14;
+
+/**
+ * Vowel signs drawn to the left of the consonant they follow in the text
+ */
+const PRE_BASE_MATRAS = [
+  0x093f, 0x094e, 0x09bf, 0x09c7, 0x09c8, 0x0a3f, 0x0abf, 0x0b47, 0x0bc6, 0x0bc7, 0x0bc8, 0x0d46, 0x0d47, 0x0d48
+];
+
+/**
+ * Where each Indic script places the reph after the basic features
+ */
+const REPH_POSITIONS: Record<string, number> = {
+  dev2: POS_BEFORE_POST, deva: POS_BEFORE_POST, gjr2: POS_BEFORE_POST, gujr: POS_BEFORE_POST,
+  bng2: POS_AFTER_SUB, beng: POS_AFTER_SUB, gur2: POS_AFTER_SUB, guru: POS_AFTER_SUB,
+  ory2: POS_AFTER_MAIN, orya: POS_AFTER_MAIN, mlm2: POS_AFTER_MAIN, mlym: POS_AFTER_MAIN
+};
+
+/**
+ * Indic features that form conjuncts and consonant forms, each applied on its own
+ */
+const INDIC_BASIC = ['nukt', 'akhn', 'rphf', 'rkrf', 'pref', 'blwf', 'abvf', 'half', 'pstf', 'vatu', 'cjct'];
+
+/**
+ * Basic features that only apply to the glyphs marked for them
+ */
+const INDIC_MASKED = ['rphf', 'pref', 'blwf', 'abvf', 'half', 'pstf'];
+
+/**
+ * Indic presentation features, applied after reordering
+ */
+const INDIC_FINAL: FontFeatures = { pres: true, abvs: true, blws: true, psts: true, haln: true };
+
+/**
+ * Syllable structures, over a string of category letters
+ */
+const CONSONANT_SYLLABLE = /(?:CN?[JZ]?H[JZ]?)*CN?(?:H[JZ]?|[MN]*H?)[SA]*/y;
+const VOWEL_SYLLABLE = /VN?(?:[JZ]?HCN?)*[MN]*H?[SA]*/y;
+
+/**
+ * Get the Arabic joining type of a character
+ */
+function joiningType(char: string): JoiningType {
+  const code = char.codePointAt(0)!;
+  if (code === 0x200d || code === 0x0640 || code === 0x07fa) {
+    // Join-causing characters take positional forms like dual-joining letters
+    return 'D';
+  }
+  if (/^[\p{Mn}\p{Me}\p{Cf}]$/u.test(char) && code !== 0x200c) {
+    return 'T';
+  }
+  if (RIGHT_JOINING.some(([start, end]) => code >= start && code <= end)) {
+    return 'R';
+  }
+  if (NON_JOINING.includes(code) || !/^\p{L}$/u.test(char)) {
+    return 'U';
+  }
+  return /^[\p{Script=Arabic}\p{Script=Syriac}\p{Script=Nko}\p{Script=Mongolian}]$/u.test(char) ? 'D' : 'U';
+}
+
+/**
+ * Pick the positional form of every character from how it joins its neighbours.
+ * Transparent characters such as vowel marks are skipped over and get no form.
+ */
+function arabicForms(chars: string[]): Array<string | undefined> {
+  const types = chars.map(joiningType);
+  const forms: Array<string | undefined> = chars.map(() => undefined);
+  const letters = types.map((type, i) => i).filter(i => types[i] !== 'T');
+
+  letters.forEach((i, k) => {
+    const type = types[i];
+    if (type !== 'R' && type !== 'D') {
+      return;
+    }
+    const previous = k > 0 ? types[letters[k - 1]] : 'U';
+    const next = k < letters.length - 1 ? types[letters[k + 1]] : 'U';
+    const joinsBefore = previous === 'D';
+    const joinsAfter = type === 'D' && (next === 'R' || next === 'D');
+    forms[i] = joinsBefore ? (joinsAfter ? 'medi' : 'fina') : (joinsAfter ? 'init' : 'isol');
+  });
+  return forms;
+}
+
+/**
+ * Get the Indic category of a character from its offset within its script's block
+ */
+function indicCategory(char: string): IndicCategory {
+  const code = char.codePointAt(0)!;
+  if (code === 0x200d) {
+    return 'J';
+  }
+  if (code === 0x200c) {
+    return 'Z';
+  }
+  if (code < 0x0900 || code > 0x0d7f) {
+    return 'X';
+  }
+
+  const offset = code & 0x7f;
+  if (offset <= 0x03) {
+    return 'S';
+  }
+  if ((offset >= 0x04 && offset <= 0x14) || offset === 0x60 || offset === 0x61 || (offset >= 0x72 && offset <= 0x77)) {
+    return 'V';
+  }
+  if ((offset >= 0x15 && offset <= 0x39) || (offset >= 0x58 && offset <= 0x5f) || offset >= 0x78
+    || (offset >= 0x70 && offset <= 0x71 && code < 0x0a00)) {
+    return 'C';
+  }
+  if (offset === 0x3c) {
+    return 'N';
+  }
+  if (offset === 0x4d) {
+    return 'H';
+  }
+  if ((offset >= 0x3a && offset <= 0x4f && offset !== 0x3d) || (offset >= 0x55 && offset <= 0x57) || offset === 0x62 || offset === 0x63) {
+    return 'M';
+  }
+  if (offset >= 0x51 && offset <= 0x54) {
+    return 'A';
+  }
+  return 'X';
+}
+
+/**
+ * Decompose vowel signs that are drawn in two parts around the consonant
+ * @returns The decomposed characters, each with the index of the character it came from
+ */
+function decomposeMatras(chars: string[]): Array<{ char: string; index: number }> {
+  const result: Array<{ char: string; index: number }> = [];
+  chars.forEach((char, index) => {
+    const decomposed = indicCategory(char) === 'M' ? Array.from(char.normalize('NFD')) : [char];
+    const parts = decomposed.every(part => indicCategory(part) === 'M') ? decomposed : [char];
+    result.push(...parts.map(part => ({ char: part, index })));
+  });
+  return result;
+}
+
+/**
+ * Shapes a run of text with the rules of its script: Arabic joining forms,
+ * Indic syllable reordering, and mark positioning for every script.
+ */
+class ComplexShaper {
+  private readonly gsub: SubstitutionEngine<ShapingSlot>;
+  private readonly gpos: PositioningEngine;
+  private readonly script: FeatureScript;
+  private readonly scriptTag?: string;
+
+  constructor(private readonly font: opentype.Font, private readonly options: ComplexShapeOptions) {
+    const { scripts, language } = options;
+    this.scriptTag = scripts.find(tag => hasScript(getLayoutTable(font, 'gsub'), tag) || hasScript(getLayoutTable(font, 'gpos'), tag)) ?? scripts[0];
+    this.script = { script: this.scriptTag, language };
+    this.gsub = new SubstitutionEngine<ShapingSlot>(font);
+    this.gpos = new PositioningEngine(font, options.rtl);
+  }
+
+  /**
+   * Shape code points into positioned glyphs in logical order
+   */
+  shape(chars: string[]): ComplexGlyph[] {
+    const shaper = shaperFor(this.scriptTag);
+    const mirrored = this.options.rtl ? chars.map(char => getMirroredChar(char) ?? char) : chars;
+    const source = shaper === 'indic' ? decomposeMatras(mirrored) : mirrored.map((char, index) => ({ char, index }));
+    const buffer: ShapingSlot[] = source.map(({ char, index }) => ({
+      id: this.font.charToGlyphIndex(char),
+      length: 1,
+      code: char.codePointAt(0)!,
+      cluster: index
+    }));
+
+    if (shaper === 'arabic') {
+      this.substituteArabic(buffer);
+    } else if (shaper === 'indic') {
+      this.substituteIndic(buffer);
+    } else {
+      this.applyStages(buffer, [{ features: { ccmp: true, locl: true } }]);
+    }
+    this.applyStages(buffer, [{ features: { ...DEFAULT_FEATURES, ...(shaper === 'indic' ? INDIC_FINAL : {}), ...this.options.features } }]);
+
+    return this.position(buffer, shaper !== 'indic', chars.length);
+  }
+
+  /**
+   * Apply groups of features one after another
+   */
+  private applyStages(buffer: ShapingSlot[], stages: Stage[]): void {
+    for (const stage of stages) {
+      const lookups = this.gsub.selectLookups(stage.features, this.script, stage.masked);
+      if (lookups.length === 0) {
+        continue;
+      }
+      if (!stage.perSyllable) {
+        this.gsub.apply(buffer, lookups);
+        continue;
+      }
+
+      const result: ShapingSlot[] = [];
+      let start = 0;
+      while (start < buffer.length) {
+        let end = start + 1;
+        while (end < buffer.length && buffer[end].syllable === buffer[start].syllable) {
+          end++;
+        }
+        const syllable = buffer.slice(start, end);
+        this.gsub.apply(syllable, lookups);
+        result.push(...syllable);
+        start = end;
+      }
+      buffer.splice(0, buffer.length, ...result);
+    }
+  }
+
+  /**
+   * Give every letter its joining form, then apply the Arabic features in order
+   */
+  private substituteArabic(buffer: ShapingSlot[]): void {
+    arabicForms(buffer.map(slot => String.fromCodePoint(slot.code))).forEach((form, i) => {
+      if (form) {
+        buffer[i].masks = [form];
+      }
+    });
+    this.applyStages(buffer, [
+      { features: { ccmp: true, locl: true } },
+      ...ARABIC_FORMS.map(form => ({ features: {}, masked: [form] })),
+      { features: { rlig: true, rclt: true, calt: true } },
+      { features: { mset: true } }
+    ]);
+  }
+
+  /**
+   * Find syllables, mark the forms each consonant should take, apply the basic
+   * features one at a time and move glyphs into their visual positions
+   */
+  private substituteIndic(buffer: ShapingSlot[]): void {
+    const categories = buffer.map(slot => indicCategory(String.fromCodePoint(slot.code)));
+    const pattern = categories.join('');
+    let syllable = 0;
+    for (let start = 0; start < buffer.length; syllable++) {
+      CONSONANT_SYLLABLE.lastIndex = start;
+      VOWEL_SYLLABLE.lastIndex = start;
+      const match = CONSONANT_SYLLABLE.exec(pattern)?.[0] || VOWEL_SYLLABLE.exec(pattern)?.[0] || pattern[start];
+      for (let i = start; i < start + match.length; i++) {
+        buffer[i].category = categories[i];
+        buffer[i].syllable = syllable;
+      }
+      start += match.length;
+    }
+
+    this.applyStages(buffer, [{ features: { locl: true, ccmp: true }, perSyllable: true }]);
+    this.forEachSyllable(buffer, (start, end) => this.reorderInitial(buffer, start, end));
+    this.applyStages(buffer, INDIC_BASIC.map(feature => ({
+      features: INDIC_MASKED.includes(feature) ? {} : { [feature]: true },
+      masked: INDIC_MASKED.includes(feature) ? [feature] : undefined,
+      perSyllable: true
+    })));
+    this.forEachSyllable(buffer, (start, end) => this.reorderFinal(buffer, start, end));
+  }
+
+  /**
+   * Call a function with the range of every syllable in the buffer
+   */
+  private forEachSyllable(buffer: ShapingSlot[], callback: (start: number, end: number) => void): void {
+    let start = 0;
+    while (start < buffer.length) {
+      let end = start + 1;
+      while (end < buffer.length && buffer[end].syllable === buffer[start].syllable) {
+        end++;
+      }
+      callback(start, end);
+      start = end;
+    }
+  }
+
+  /**
+   * Check whether a feature would change a sequence of glyphs
+   */
+  private wouldSubstitute(ids: number[], feature: string): boolean {
+    return this.gsub.wouldSubstitute(ids, feature, this.script);
+  }
+
+  /**
+   * Find the base consonant of a syllable, decide which consonants take half, below-base
+   * and post-base forms, and move pre-base vowel signs to the front
+   */
+  private reorderInitial(buffer: ShapingSlot[], start: number, end: number): void {
+    const slots = buffer.slice(start, end);
+    if (slots[0].category !== 'C') {
+      return;
+    }
+    const halant = slots.find(slot => slot.category === 'H')?.id ?? this.font.charToGlyphIndex(
+      String.fromCodePoint((slots[0].code & ~0x7f) | 0x4d)
+    );
+
+    // A leading Ra + virama becomes a reph when another consonant follows and the font has one
+    let limit = 0;
+    const isRa = (slot: ShapingSlot) => (slot.code & 0x7f) === 0x30;
+    if (slots.length > 2 && isRa(slots[0]) && slots[1].category === 'H' && slots[2].category !== 'J'
+      && this.wouldSubstitute([slots[0].id, slots[1].id], 'rphf')) {
+      limit = 2;
+    }
+
+    // The base is the last consonant that doesn't take a below-base or post-base form
+    const positionOf = (slot: ShapingSlot): number => {
+      if (this.wouldSubstitute([halant, slot.id], 'blwf') || this.wouldSubstitute([slot.id, halant], 'blwf')) {
+        return POS_BELOW_CONSONANT;
+      }
+      if (this.wouldSubstitute([slot.id, halant], 'pstf') || this.wouldSubstitute([halant, slot.id], 'pstf')) {
+        return POS_POST_CONSONANT;
+      }
+      return POS_BASE;
+    };
+    let base = slots.length;
+    let seenBelow = false;
+    for (let i = slots.length - 1; i >= limit; i--) {
+      if (slots[i].category === 'C') {
+        const position = positionOf(slots[i]);
+        slots[i].position = position;
+        if (position !== POS_BELOW_CONSONANT && (position !== POS_POST_CONSONANT || seenBelow)) {
+          base = i;
+          break;
+        }
+        seenBelow = seenBelow || position === POS_BELOW_CONSONANT;
+        base = i;
+      } else if (i > 0 && slots[i].category === 'J' && slots[i - 1].category === 'H') {
+        break;
+      }
+    }
+    if (limit === 2 && base >= slots.length) {
+      limit = 0;
+      base = slots.findIndex(slot => slot.category === 'C');
+    }
+
+    let previous = 0;
+    slots.forEach((slot, i) => {
+      if (i < limit) {
+        slot.position = POS_REPH;
+        slot.reph = true;
+        slot.masks = ['rphf'];
+      } else if (slot.category === 'M') {
+        slot.position = PRE_BASE_MATRAS.includes(slot.code) ? POS_PRE_MATRA : POS_AFTER_SUB;
+      } else if (slot.category === 'S' || slot.category === 'A') {
+        slot.position = POS_SYLLABLE_MODIFIER;
+      } else if (slot.category === 'C') {
+        slot.position = i < base ? POS_PRE_CONSONANT : i === base ? POS_BASE : slot.position ?? POS_BELOW_CONSONANT;
+      } else {
+        // Viramas, nuktas and joiners move with the character before them
+        slot.position = previous || POS_BASE;
+      }
+      previous = slot.position;
+
+      if (i >= limit && i < base) {
+        slot.masks = ['half', 'blwf'];
+      } else if (i > base) {
+        slot.masks = ['blwf', 'abvf', 'pstf'];
+      }
+    });
+
+    // An explicit ZWNJ after a virama stops the consonant before it from taking a half form
+    slots.forEach((slot, i) => {
+      if (slot.category !== 'Z') {
+        return;
+      }
+      for (let k = i - 1; k >= 0; k--) {
+        slots[k].masks = slots[k].masks?.filter(mask => mask !== 'half');
+        if (slots[k].category === 'C') {
+          break;
+        }
+      }
+    });
+
+    // Pre-base vowel signs are drawn first, after the reph
+    const ordered = [
+      ...slots.filter(slot => slot.position === POS_REPH),
+      ...slots.filter(slot => slot.position === POS_PRE_MATRA),
+      ...slots.filter(slot => slot.position !== POS_REPH && slot.position !== POS_PRE_MATRA)
+    ];
+    // Reordered glyphs make up a single cluster
+    ordered.forEach(slot => {
+      slot.cluster = slots[0].cluster;
+    });
+    buffer.splice(start, slots.length, ...ordered);
+  }
+
+  /**
+   * Move pre-base vowel signs next to the consonant they belong to visually,
+   * and the reph to its final place, once the basic forms are known
+   */
+  private reorderFinal(buffer: ShapingSlot[], start: number, end: number): void {
+    const slots = buffer.slice(start, end);
+    if (slots[0].position === undefined) {
+      return;
+    }
+    const count = slots.length;
+    const isHalant = (slot: ShapingSlot) => slot.category === 'H' && !slot.componentCount;
+    // A reph the font didn't form stays an ordinary consonant
+    const reph = slots[0].reph && (slots[0].componentCount ?? 1) >= 2 ? slots[0] : undefined;
+
+    let base = 0;
+    while (base < count && (slots[base].position ?? 0) < POS_BASE) {
+      base++;
+    }
+    while (base < count && base > 0 && (slots[base].category === 'N' || slots[base].category === 'H')) {
+      base--;
+    }
+
+    // Pre-base vowel signs move after the last virama before the base that didn't form a half form
+    if (count > 1 && base > 0) {
+      let target = base === count ? base - 2 : base - 1;
+      while (target > 0 && slots[target].category !== 'M' && slots[target].category !== 'H') {
+        target--;
+      }
+      if (isHalant(slots[target]) && slots[target].position !== POS_PRE_MATRA) {
+        if (target + 1 < count && (slots[target + 1].category === 'J' || slots[target + 1].category === 'Z')) {
+          target++;
+        }
+      } else {
+        target = 0;
+      }
+      if (target > 0 && slots[target].position !== POS_PRE_MATRA) {
+        for (let i = target; i > 0; i--) {
+          if (slots[i - 1].position === POS_PRE_MATRA) {
+            const [matra] = slots.splice(i - 1, 1);
+            slots.splice(target, 0, matra);
+            target--;
+          }
+        }
+      }
+    }
+
+    if (reph) {
+      const rephPosition = REPH_POSITIONS[this.scriptTag ?? ''];
+      let target = 1;
+      while (target < base && !isHalant(slots[target])) {
+        target++;
+      }
+      if (target >= base || !isHalant(slots[target])) {
+        if (rephPosition !== undefined) {
+          // After the base and everything drawn with it, up to the script's limit
+          target = base;
+          while (target + 1 < count && (slots[target + 1].position ?? 0) <= rephPosition) {
+            target++;
+          }
+        } else {
+          // At the end, before any syllable modifiers
+          target = count - 1;
+          while (target > 0 && slots[target].position === POS_SYLLABLE_MODIFIER) {
+            target--;
+          }
+        }
+      }
+      slots.splice(0, 1);
+      slots.splice(target, 0, reph);
+    }
+
+    buffer.splice(start, count, ...slots);
+  }
+
+  /**
+   * Apply the GPOS features and collect the final advances and offsets
+   * @param zeroMarks Give marks no advance, for scripts whose fonts rely on mark positioning
+   */
+  private position(buffer: ShapingSlot[], zeroMarks: boolean, charCount: number): ComplexGlyph[] {
+    const { kerning, rtl } = this.options;
+    const positioned: PositionedSlot[] = buffer.map(slot => ({
+      id: slot.id,
+      component: slot.component,
+      xAdvance: this.font.glyphs.get(slot.id)?.advanceWidth ?? 0,
+      xOffset: 0,
+      yOffset: 0
+    }));
+
+    // Joiners and other invisible controls are drawn as empty space and skipped when positioning
+    const hidden = buffer.map(slot => DEFAULT_IGNORABLE.test(String.fromCodePoint(slot.code))
+      && slot.id === this.font.charToGlyphIndex(String.fromCodePoint(slot.code)));
+    const visible = positioned.filter((_, i) => !hidden[i]);
+
+    if (this.font.tables.gpos) {
+      const features: FontFeatures = {
+        kern: kerning, mark: true, mkmk: true, curs: true, dist: true, abvm: true, blwm: true, ...this.options.features
+      };
+      this.gpos.position(visible, this.gpos.selectLookups(features, this.script), zeroMarks);
+    } else if (kerning) {
+      for (let i = 0; i < visible.length - 1; i++) {
+        const [left, right] = rtl ? [visible[i + 1], visible[i]] : [visible[i], visible[i + 1]];
+        left.xAdvance += this.font.getKerningValue(left.id, right.id);
+      }
+    }
+
+    const space = this.font.charToGlyphIndex(' ');
+    positioned.forEach((slot, i) => {
+      if (hidden[i]) {
+        Object.assign(slot, { id: space, xAdvance: 0, xOffset: 0, yOffset: 0 });
+      }
+    });
+
+    // Clusters can only grow forwards; a glyph pointing back merges into the cluster after it
+    const clusters = buffer.map(slot => slot.cluster);
+    for (let i = clusters.length - 2; i >= 0; i--) {
+      clusters[i] = Math.min(clusters[i], clusters[i + 1]);
+    }
+
+    return positioned.map((slot, i) => {
+      const isFirst = i === 0 || clusters[i - 1] !== clusters[i];
+      let next = i + 1;
+      while (next < clusters.length && clusters[next] === clusters[i]) {
+        next++;
+      }
+      const length = isFirst ? (next < clusters.length ? clusters[next] : charCount) - clusters[i] : 0;
+      return { id: slot.id, length, xAdvance: slot.xAdvance, xOffset: slot.xOffset, yOffset: slot.yOffset };
+    });
+  }
+}
+
+/**
+ * Shape a run of text in one script and direction, following the script's shaping rules
+ * @param chars Code points of the run in logical order
+ * @returns Glyphs in logical order, with placements in font units
+ */
+export function shapeComplexRun(font: opentype.Font, chars: string[], options: ComplexShapeOptions): ComplexGlyph[] {
+  return new ComplexShaper(font, options).shape(chars);
+}
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import * as opentype from 'opentype.js';
+import { textToSvgPath } from './index';
+import { TextToSvgPathOptions } from './types';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+/**
+ * Render text as an SVG with an embedded font
+ */
+async function embed(options: Partial<TextToSvgPathOptions>): Promise<string> {
+  const result = await textToSvgPath({ font: FONT, text: 'Text', outputFormats: ['svgWithEmbeddedFont'], ...options });
+  return result.svgWithEmbeddedFont!;
+}
+
+/**
+ * Parse the subset fonts embedded in an SVG
+ */
+function embeddedFonts(svg: string): opentype.Font[] {
+  return Array.from(svg.matchAll(/base64,([A-Za-z0-9+/=]+)/g), match => {
+    const data = Buffer.from(match[1], 'base64');
+    return opentype.parse(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+  });
+}
+
+describe('embedded font SVG', () => {
+  it('embeds a subset with only the characters used', async () => {
+    const svg = await embed({ text: 'Hello\nworld' });
+    const [subset] = embeddedFonts(svg);
+    // .notdef, and one glyph for each of H, e, l, o, w, r and d
+    assert.equal(subset.glyphs.length, 8);
+    assert.notEqual(subset.charToGlyphIndex('w'), 0);
+    assert.equal(subset.charToGlyphIndex('z'), 0);
+    assert.match(subset.names.fontFamily.en, /^[A-Z]{6}\+Inter$/);
+  });
+
+  it('keeps the advance widths of the original font', async () => {
+    const original = opentype.loadSync(FONT);
+    const [subset] = embeddedFonts(await embed({ text: 'Wave' }));
+    for (const char of 'Wave') {
+      assert.equal(subset.charToGlyph(char).advanceWidth, original.charToGlyph(char).advanceWidth);
+    }
+  });
+
+  it('writes selectable text at the positions of the path output', async () => {
+    const options = { text: 'One\nTwo', fontSize: 40 };
+    const svg = await embed(options);
+    const glyphs = (await textToSvgPath({ font: FONT, ...options, outputFormats: ['glyphs'] })).glyphs!;
+    const spans = Array.from(svg.matchAll(/<tspan x="([\d.-]+)" y="([\d.-]+)"[^>]*>([^<]*)<\/tspan>/g));
+    assert.deepEqual(spans.map(span => span[3]), ['One', 'Two']);
+    assert.equal(Number(spans[1][1]), Math.round(glyphs[3].x * 100) / 100);
+    assert.equal(Number(spans[1][2]), Math.round(glyphs[3].y * 100) / 100);
+  });
+
+  it('rotates glyphs set on a path', async () => {
+    const svg = await embed({ text: 'Round', textPath: { path: { type: 'circle', cx: 200, cy: 200, r: 100 } } });
+    assert.equal((svg.match(/<tspan[^>]* rotate="/g) ?? []).length, 5);
+  });
+
+  it('escapes the text and keeps its styles to its own elements', async () => {
+    const svg = await embed({ text: 'a <b> & "c"' });
+    assert.match(svg, />a &#60;b&#62; &#38; &#34;c&#34;<\/tspan>/);
+    assert.doesNotMatch(svg, /^text\s*\{/m);
+    assert.match(svg, /<text[^>]*style="white-space: pre"/);
+  });
+
+  it('names identical subsets identically', async () => {
+    const name = (svg: string) => svg.match(/font-family: "([^"]+)"/)![1];
+    assert.equal(name(await embed({ text: 'Same' })), name(await embed({ text: 'Same' })));
+    assert.notEqual(name(await embed({ text: 'Same' })), name(await embed({ text: 'Other' })));
+  });
+});
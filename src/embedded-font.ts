@@ -0,0 +1,285 @@
+import * as opentype from 'opentype.js';
+import { createHash } from 'crypto';
+import { PlacedGlyph } from './glyphs';
+import { transformCommands } from './path-geometry';
+import { escapeXml } from './xml';
+
+/**
+ * Size and style of an SVG drawn with real text
+ */
+export interface EmbeddedFontSvgOptions {
+  fontSize: number;
+  fill: string;
+  stroke: string;
+  strokeWidth: string;
+  width: number;
+  height: number;
+  viewBox: string;
+}
+
+/**
+ * A glyph outline drawn as part of a subset glyph, offset in font units
+ */
+interface OutlinePart {
+  glyph: opentype.Glyph;
+  dx: number;
+  dy: number;
+}
+
+/**
+ * Source characters drawn as one glyph of a subset font at one position
+ */
+interface TextCluster {
+  text: string;
+  font: opentype.Font;
+  /** Identifies the outline, so clusters drawn alike share a subset glyph */
+  key: string;
+  parts: OutlinePart[];
+  /** UTF-16 index of the first character in the full text */
+  index: number;
+  line: number;
+  x: number;
+  y: number;
+  rotate: number;
+  advance: number;
+}
+
+/**
+ * A subset of one font, embedded under its own family name.
+ * A character drawn with different glyphs in different places (such as an Arabic letter
+ * in its initial and final forms) needs one family per glyph.
+ */
+interface SubsetFamily {
+  font: opentype.Font;
+  name: string;
+  /** Subset glyph key for each code point */
+  characters: Map<number, string>;
+  /** Subset glyph key for each multi-character cluster, formed by a ligature */
+  ligatures: Map<string, string>;
+  outlines: Map<string, OutlinePart[]>;
+}
+
+/**
+ * The substitution helper of opentype.js, whose methods the type definitions omit
+ */
+interface SubstitutionBuilder extends opentype.Substitution {
+  add(feature: string, substitution: { sub: number[]; by: number }): void;
+}
+
+/**
+ * Round a coordinate for output
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Group placed glyphs into clusters of the characters they render.
+ * Glyphs with no characters of their own, such as marks merged into a ligature or the
+ * extra glyphs of an Indic syllable, join the cluster of the characters just before them.
+ */
+function groupClusters(glyphs: PlacedGlyph[], fontSize: number): TextCluster[] {
+  const clusters: TextCluster[] = [];
+  const byEnd = new Map<string, TextCluster>();
+
+  for (const placed of glyphs) {
+    const { shaped } = placed;
+    if (!shaped.text) {
+      continue;
+    }
+    const cluster: TextCluster = {
+      text: shaped.text,
+      font: shaped.font,
+      key: '',
+      parts: [{ glyph: shaped.glyph, dx: 0, dy: 0 }],
+      index: placed.index,
+      line: placed.line,
+      x: placed.x,
+      y: placed.y,
+      rotate: placed.rotate,
+      advance: shaped.advance
+    };
+    clusters.push(cluster);
+    byEnd.set(`${placed.line}:${placed.index + shaped.text.length}`, cluster);
+  }
+
+  for (const placed of glyphs) {
+    const cluster = byEnd.get(`${placed.line}:${placed.index}`);
+    if (placed.shaped.text || !cluster || cluster.font !== placed.shaped.font) {
+      continue;
+    }
+    // Measure the offset in the cluster's own frame, in font units with y pointing up
+    const scale = fontSize / cluster.font.unitsPerEm;
+    const angle = -cluster.rotate * Math.PI / 180;
+    const dx = placed.x - cluster.x;
+    const dy = placed.y - cluster.y;
+    cluster.parts.push({
+      glyph: placed.shaped.glyph,
+      dx: (dx * Math.cos(angle) - dy * Math.sin(angle)) / scale,
+      dy: -(dx * Math.sin(angle) + dy * Math.cos(angle)) / scale
+    });
+  }
+
+  for (const cluster of clusters) {
+    cluster.key = cluster.parts.map(part => `${part.glyph.index}@${Math.round(part.dx)},${Math.round(part.dy)}`).join('+');
+  }
+  return clusters;
+}
+
+/**
+ * Put a cluster's glyph into the first subset of its font whose characters don't
+ * already map to a different glyph, starting a new subset when none fits
+ */
+function assignFamily(families: SubsetFamily[], cluster: TextCluster): SubsetFamily {
+  const { font, key, text } = cluster;
+  const chars = Array.from(text);
+  const fits = (family: SubsetFamily) => family.font === font && (chars.length === 1
+    ? (family.characters.get(chars[0].codePointAt(0)!) ?? key) === key
+    : (family.ligatures.get(text) ?? key) === key);
+
+  let family = families.find(fits);
+  if (!family) {
+    family = { font, name: '', characters: new Map(), ligatures: new Map(), outlines: new Map() };
+    families.push(family);
+  }
+
+  family.outlines.set(key, cluster.parts);
+  if (chars.length === 1) {
+    family.characters.set(chars[0].codePointAt(0)!, key);
+    return family;
+  }
+
+  // Ligatures are formed from whichever glyphs the family maps their characters to
+  family.ligatures.set(text, key);
+  for (const char of chars) {
+    const codePoint = char.codePointAt(0)!;
+    if (!family.characters.has(codePoint)) {
+      const glyph = font.glyphs.get(font.charToGlyphIndex(char));
+      const defaultKey = `${glyph.index}@0,0`;
+      family.characters.set(codePoint, defaultKey);
+      family.outlines.set(defaultKey, [{ glyph, dx: 0, dy: 0 }]);
+    }
+  }
+  return family;
+}
+
+/**
+ * Build a subset font holding only the glyphs a family draws, and name it after its contents
+ * @returns The font file, base64 encoded
+ */
+function buildSubsetFont(family: SubsetFamily): string {
+  const { font } = family;
+  const notdef = font.glyphs.get(0);
+  const glyphs = [new opentype.Glyph({ name: '.notdef', advanceWidth: notdef?.advanceWidth ?? 0, path: new opentype.Path() })];
+  const glyphIndexes = new Map<string, number>();
+  const hash = createHash('sha256');
+
+  for (const [key, parts] of family.outlines) {
+    const path = new opentype.Path();
+    for (const part of parts) {
+      path.extend(transformCommands(part.glyph.path.commands, point => ({ x: point.x + part.dx, y: point.y + part.dy })));
+    }
+    const glyph = new opentype.Glyph({ name: `g${glyphs.length}`, advanceWidth: parts[0].glyph.advanceWidth ?? 0, path });
+    glyphIndexes.set(key, glyphs.length);
+    glyphs.push(glyph);
+    hash.update(`${glyph.advanceWidth} ${path.toPathData(2)}\n`);
+  }
+  for (const [codePoint, key] of family.characters) {
+    glyphs[glyphIndexes.get(key)!].addUnicode(codePoint);
+    hash.update(`${codePoint}:${key}\n`);
+  }
+  for (const [text, key] of family.ligatures) {
+    hash.update(`${text}:${key}\n`);
+  }
+
+  // Subset fonts are conventionally named with a six letter tag in front of the original name
+  const digest = hash.digest();
+  const tag = Array.from(digest.subarray(0, 6), byte => String.fromCharCode(65 + byte % 26)).join('');
+  const originalName = (font.names.fontFamily?.en ?? 'Font').replace(/[^A-Za-z0-9 -]/g, '');
+  family.name = `${tag}+${originalName}`;
+
+  const subset = new opentype.Font({
+    familyName: family.name,
+    styleName: 'Regular',
+    unitsPerEm: font.unitsPerEm,
+    ascender: font.ascender,
+    descender: font.descender,
+    glyphs
+  });
+
+  // Longer ligatures have to come first to be found
+  const substitution = subset.substitution as SubstitutionBuilder;
+  const ligatures = Array.from(family.ligatures).sort(([a], [b]) => Array.from(b).length - Array.from(a).length);
+  for (const [text, key] of ligatures) {
+    const components = Array.from(text).map(char => glyphIndexes.get(family.characters.get(char.codePointAt(0)!)!)!);
+    substitution.add('rlig', { sub: components, by: glyphIndexes.get(key)! });
+  }
+
+  return Buffer.from(subset.toArrayBuffer()).toString('base64');
+}
+
+/**
+ * Create an SVG that draws the text as real, selectable text with an embedded subset of the font.
+ * Each cluster is placed at the position it has in the path output and drawn with the exact
+ * glyph the shaper chose, so substitutions, marks and kerning look the same.
+ */
+export function buildEmbeddedFontSvg(placedGlyphs: PlacedGlyph[], options: EmbeddedFontSvgOptions): string {
+  const { fontSize, fill, stroke, strokeWidth, width, height, viewBox } = options;
+  const clusters = groupClusters(placedGlyphs, fontSize);
+  const families: SubsetFamily[] = [];
+  const clusterFamilies = clusters.map(cluster => assignFamily(families, cluster));
+
+  const fontFaces = families.map(family => {
+    const data = buildSubsetFont(family);
+    return `@font-face { font-family: "${escapeXml(family.name)}"; src: url(data:font/otf;base64,${data}) format("opentype"); }`;
+  });
+
+  // Lines are written in logical order so the text reads and copies correctly
+  const order = clusters.map((_, i) => i).sort((a, b) => clusters[a].line - clusters[b].line || clusters[a].index - clusters[b].index);
+  const lines = new Map<number, string[]>();
+  let previous: { cluster: TextCluster; family: SubsetFamily; end: number } | undefined;
+
+  for (const i of order) {
+    const cluster = clusters[i];
+    const family = clusterFamilies[i];
+    const spans = lines.get(cluster.line) ?? [];
+    lines.set(cluster.line, spans);
+
+    // Glyphs the browser would put in the same place on its own share one span
+    const continues = previous && previous.family === family && family.ligatures.size === 0
+      && previous.cluster.line === cluster.line && previous.end === cluster.index
+      && !previous.cluster.rotate && !cluster.rotate && cluster.parts.length === 1
+      && Math.abs(previous.cluster.y - cluster.y) < 0.005
+      && Math.abs(previous.cluster.x + previous.cluster.advance - cluster.x) < 0.005;
+
+    if (continues) {
+      spans[spans.length - 1] = spans[spans.length - 1].replace(/<\/tspan>$/, `${escapeXml(cluster.text)}</tspan>`);
+    } else {
+      const rotate = cluster.rotate ? ` rotate="${round(cluster.rotate)}"` : '';
+      spans.push(`<tspan x="${round(cluster.x)}" y="${round(cluster.y)}" font-family="${escapeXml(family.name)}"${rotate}>${escapeXml(cluster.text)}</tspan>`);
+    }
+    previous = { cluster, family, end: cluster.index + cluster.text.length };
+  }
+
+  // Spaces are kept by each text element itself, so a page the SVG is inlined in keeps its own styles
+  const textElements = Array.from(lines.values()).map(spans => `<text 
+  xml:space="preserve" 
+  style="white-space: pre"
+  font-size="${fontSize}" 
+  fill="${escapeXml(fill)}"
+  stroke="${escapeXml(stroke)}"
+  stroke-width="${escapeXml(strokeWidth)}"
+>${spans.join('')}</text>`);
+
+  return `<svg 
+xmlns="http://www.w3.org/2000/svg" 
+width="${width}" 
+height="${height}" 
+viewBox="${viewBox}"
+>
+<style>
+${fontFaces.join('\n')}
+</style>
+${textElements.join('\n')}
+</svg>`;
+}
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import {
+  textToSvgPath, TextToSvgPathError, FontFetchError, FontParseError, UnsupportedFontFormatError, MissingGlyphsError, InvalidOptionError
+} from './index';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+describe('typed errors', () => {
+  it('reports a font file that cannot be read as a FontFetchError', async () => {
+    const missing = path.join(__dirname, '..', 'fixtures', 'missing.ttf');
+    await assert.rejects(textToSvgPath({ font: missing, text: 'Text' }), (error: unknown) => {
+      assert.ok(error instanceof FontFetchError);
+      assert.ok(error instanceof TextToSvgPathError);
+      assert.equal(error.source, missing);
+      return true;
+    });
+  });
+
+  it('reports fonts in unsupported formats by their signature', async () => {
+    const woff2 = Buffer.concat([Buffer.from('wOF2'), Buffer.alloc(64)]);
+    await assert.rejects(textToSvgPath({ font: woff2, text: 'Text' }), (error: unknown) => {
+      assert.ok(error instanceof UnsupportedFontFormatError);
+      assert.equal(error.format, 'WOFF2');
+      return true;
+    });
+    await assert.rejects(textToSvgPath({ font: Buffer.from('not a font at all'), text: 'Text' }), UnsupportedFontFormatError);
+  });
+
+  it('reports a damaged font as a FontParseError', async () => {
+    const truncated = (await fs.readFile(FONT)).subarray(0, 200);
+    await assert.rejects(textToSvgPath({ font: truncated, text: 'Text' }), FontParseError);
+  });
+
+  it('lists the characters without a glyph when asked to fail on them', async () => {
+    await assert.rejects(textToSvgPath({ font: FONT, text: 'A日本A', onMissingGlyphs: 'error' }), (error: unknown) => {
+      assert.ok(error instanceof MissingGlyphsError);
+      assert.deepEqual(error.characters, ['日', '本']);
+      return true;
+    });
+
+    const result = await textToSvgPath({ font: FONT, text: 'A日', outputFormats: ['svg'] });
+    assert.deepEqual(result.missingCharacters, ['日']);
+  });
+
+  it('collects errors per entry or falls back to an error SVG', async () => {
+    const missing = path.join(__dirname, '..', 'fixtures', 'missing.ttf');
+    const results = await textToSvgPath({
+      collected: { font: missing, text: 'Text', onError: 'collect' },
+      fallback: { font: missing, text: 'Text' }
+    });
+    assert.ok(results.collected.error instanceof FontFetchError);
+    assert.equal(results.collected.svg, '');
+    assert.match(results.fallback.svg, /<text>Error: /);
+  });
+
+  it('reports invalid entries of a multi-text call on their own', async () => {
+    const results = await textToSvgPath({
+      good: { font: FONT, text: 'Text' },
+      bad: { font: FONT, text: 42 as unknown as string, onError: 'collect' }
+    });
+    assert.match(results.good.svg, /<path/);
+    assert.ok(results.bad.error instanceof InvalidOptionError);
+    assert.equal(results.bad.error.option, 'text');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Base class for all errors raised while generating SVG paths
+ */
+export class TextToSvgPathError extends Error {
+  /**
+   * The underlying error, if any
+   */
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = cause;
+  }
+}
+
+/**
+ * The font bytes could not be obtained (network error, HTTP error status or unreadable file)
+ */
+export class FontFetchError extends TextToSvgPathError {
+  /**
+   * Description of the font source (URLs and paths as given, binary sources by type)
+   */
+  readonly source: string;
+
+  /**
+   * HTTP status code, when the font was fetched over http(s)
+   */
+  readonly status?: number;
+
+  constructor(message: string, source: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message, options.cause);
+    this.source = source;
+    this.status = options.status;
+  }
+}
+
+/**
+ * The font bytes were read but opentype.js could not parse them
+ */
+export class FontParseError extends TextToSvgPathError {}
+
+/**
+ * The font is in a format that can't be rendered (e.g. WOFF2 or a font collection)
+ */
+export class UnsupportedFontFormatError extends TextToSvgPathError {
+  /**
+   * The detected format signature
+   */
+  readonly format: string;
+
+  constructor(message: string, format: string) {
+    super(message);
+    this.format = format;
+  }
+}
+
+/**
+ * The font has no glyphs for some characters of the text
+ */
+export class MissingGlyphsError extends TextToSvgPathError {
+  /**
+   * The distinct characters without a glyph, in order of appearance
+   */
+  readonly characters: string[];
+
+  constructor(characters: string[]) {
+    super(`Font is missing glyphs for: ${characters.map(char => JSON.stringify(char)).join(', ')}`);
+    this.characters = characters;
+  }
+}
+
+/**
+ * The disk cache of a `FontCache` couldn't store or remove a font. Renders carry on without the disk cache.
+ */
+export class FontCacheError extends TextToSvgPathError {
+  /**
+   * URL of the font being cached
+   */
+  readonly url: string;
+
+  constructor(message: string, url: string, cause?: unknown) {
+    super(message, cause);
+    this.url = url;
+  }
+}
+
+/**
+ * The requested font variation can't be applied (unknown axis or instance, or a static font)
+ */
+export class FontVariationError extends TextToSvgPathError {}
+
+/**
+ * An option has a value that can't be used, such as a colour an export format can't read
+ */
+export class InvalidOptionError extends TextToSvgPathError {
+  /**
+   * Name of the option
+   */
+  readonly option: string;
+
+  constructor(message: string, option: string) {
+    super(message);
+    this.option = option;
+  }
+}
+
+/**
+ * Wrap an unknown error in a `TextToSvgPathError`, leaving library errors untouched
+ */
+export function toTextToSvgPathError(error: unknown, prefix: string): TextToSvgPathError {
+  if (error instanceof TextToSvgPathError) {
+    return error;
+  }
+  const message = (error as Error)?.message || 'Unknown error';
+  return new TextToSvgPathError(`${prefix}: ${message}`, error);
+}
@@ -2,7 +2,7 @@
  * Example usage of the text-to-svg-path module
  * 
  * To run this example:
- * npm run test
+ * npm run example
  */
 
 import { textToSvgPath } from './text-to-svg-path';
@@ -355,6 +355,20 @@ viewBox="0 0 800 400">
     console.log('\nBottom Right placement:');
     console.log(placementsResult.bottomRight.svgWithBackground);
     
+    // Example 9: Multi-line text with wrapping and alignment
+    console.log('\n\nExample 9: Multi-line text with wrapping and alignment');
+    const multiLineResult = await textToSvgPath({
+      text: 'The quick brown fox jumps over the lazy dog\nSecond paragraph',
+      fontUrl: FONT_URL,
+      fontSize: 32,
+      maxWidth: 300,
+      lineHeight: 1.4,
+      textAlign: 'center'
+    });
+
+    console.log('\nLine metrics:');
+    console.log(JSON.stringify(multiLineResult.lines, null, 2));
+    
   } catch (error) {
     console.error('Error in example:', error);
   }
@@ -0,0 +1,150 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { textToSvgPath, InvalidOptionError } from './index';
+import { TextToSvgPathOptions } from './types';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+/**
+ * Render text as a PDF and check the file structure: every cross-reference entry and
+ * `startxref` point at what they name, and the content stream has its declared length
+ */
+async function renderPdf(options: Partial<TextToSvgPathOptions> = {}): Promise<{ pdf: string; content: string }> {
+  const result = await textToSvgPath({ font: FONT, text: 'Hi', fontSize: 40, ...options, outputFormats: ['pdf'] });
+  const pdf = result.pdf!.toString('latin1');
+  assert.ok(pdf.startsWith('%PDF-1.4\n'));
+  assert.ok(pdf.endsWith('%%EOF\n'));
+
+  const xref = Number(pdf.match(/startxref\n(\d+)\n/)![1]);
+  assert.ok(pdf.startsWith('xref\n', xref));
+  const offsets = [...pdf.slice(xref).matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+  assert.equal(offsets.length, 4);
+  offsets.forEach((offset, i) => assert.ok(pdf.startsWith(`${i + 1} 0 obj\n`, offset)));
+
+  const stream = pdf.match(/<< \/Length (\d+) >>\nstream\n/)!;
+  const start = stream.index! + stream[0].length;
+  const content = pdf.slice(start, start + Number(stream[1]));
+  assert.ok(pdf.startsWith('\nendstream', start + content.length));
+  return { pdf, content };
+}
+
+describe('PDF export', () => {
+  it('writes a valid single page PDF that fills the text', async () => {
+    const { content } = await renderPdf({ fill: '#ff0000' });
+    assert.match(content, /^1 0 0 rg$/m);
+    assert.match(content, /^f$/m);
+    assert.doesNotMatch(content, /\/GS\d gs/);
+  });
+
+  it('fills and strokes when there is a stroke', async () => {
+    const { content } = await renderPdf({ fill: '#000000', stroke: '#0000ff', strokeWidth: 4 });
+    assert.match(content, /^0 0 1 RG$/m);
+    assert.match(content, /^3 w$/m);
+    assert.match(content, /^B$/m);
+  });
+
+  it('sizes the page', async () => {
+    const mediaBox = (pdf: string) => pdf.match(/\/MediaBox \[0 0 ([\d.]+) ([\d.]+)\]/)!.slice(1).map(Number);
+    assert.deepEqual(mediaBox((await renderPdf({ pdf: { pageSize: 'A4' } })).pdf), [595.28, 841.89]);
+    assert.deepEqual(mediaBox((await renderPdf({ pdf: { pageSize: 'A4', landscape: true } })).pdf), [841.89, 595.28]);
+    assert.deepEqual(mediaBox((await renderPdf({ pdf: { pageSize: { width: 10, height: 5 }, units: 'cm' } })).pdf).map(Math.round), [283, 142]);
+
+    const fit = mediaBox((await renderPdf()).pdf);
+    const margin = mediaBox((await renderPdf({ pdf: { margin: 10 } })).pdf);
+    margin.forEach((size, i) => assert.ok(Math.abs(size - fit[i] - 20) < 0.01));
+  });
+
+  it('paints glyph colours and opacity', async () => {
+    const { pdf, content } = await renderPdf({
+      fill: '#000000',
+      style: { opacity: 0.5, glyphs: [{ start: 1, fill: '#00ff00', opacity: 0.5 }] }
+    });
+    // Without a stroke, strokes are fully transparent
+    assert.match(pdf, /\/ExtGState << \/GS1 << \/ca 0\.5 \/CA 0 >> \/GS2 << \/ca 0\.25 \/CA 0 >> >>/);
+    assert.match(content, /\/GS1 gs\n0 0 0 rg/);
+    assert.match(content, /\/GS2 gs\n0 1 0 rg/);
+  });
+
+  it('rejects unknown page sizes and units', async () => {
+    await assert.rejects(renderPdf({ pdf: { pageSize: 'B5' as 'A4' } }), InvalidOptionError);
+    await assert.rejects(renderPdf({ pdf: { units: 'ft' as 'mm' } }), InvalidOptionError);
+    await assert.rejects(renderPdf({ pdf: { pageSize: { width: 0, height: 5 } } }), { name: 'InvalidOptionError', option: 'pdf.pageSize' });
+  });
+
+  it('rejects margins that are not sizes', async () => {
+    for (const margin of [NaN, -1, Infinity]) {
+      await assert.rejects(renderPdf({ pdf: { margin } }), { name: 'InvalidOptionError', option: 'pdf.margin' });
+    }
+  });
+});
+
+/**
+ * Render an O, an outer contour round a hole, in the machine formats
+ */
+async function renderMachine(options: Partial<TextToSvgPathOptions> = {}) {
+  return textToSvgPath({ font: FONT, text: 'O', fontSize: 40, outputFormats: ['dxf', 'gcode'], ...options });
+}
+
+describe('DXF export', () => {
+  it('draws each contour as a closed polyline on its layer', async () => {
+    const { dxf } = await renderMachine({ dxf: { holeLayer: 'HOLES' } });
+    const layers = [...dxf!.matchAll(/^POLYLINE\n8\n(\w+)$/gm)].map(match => match[1]);
+    assert.deepEqual(layers.sort(), ['HOLES', 'TEXT']);
+    assert.match(dxf!, /^\$INSUNITS\n70\n4$/m);
+    assert.ok(dxf!.endsWith('0\nEOF\n'));
+    const xs = [...dxf!.matchAll(/^VERTEX\n8\n\w+\n10\n([-\d.]+)$/gm)].map(match => Number(match[1]));
+    assert.equal(Math.min(...xs), 0);
+  });
+
+  it('uses fewer vertices for a coarser tolerance, down to a limit', async () => {
+    const vertices = (dxf: string) => (dxf.match(/^VERTEX$/gm) ?? []).length;
+    const coarse = await renderMachine({ dxf: { tolerance: 1 } });
+    const fine = await renderMachine({ dxf: { tolerance: 0.01 } });
+    assert.ok(vertices(coarse.dxf!) < vertices(fine.dxf!));
+
+    const finest = await renderMachine({ dxf: { tolerance: 40 / 10000 } });
+    const beyond = await renderMachine({ dxf: { tolerance: 1e-12 } });
+    assert.equal(beyond.dxf, finest.dxf);
+  });
+
+  it('rejects invalid tolerances, layers and units', async () => {
+    for (const tolerance of [0, -1, NaN]) {
+      await assert.rejects(renderMachine({ dxf: { tolerance } }), { name: 'InvalidOptionError', option: 'dxf.tolerance' });
+    }
+    await assert.rejects(renderMachine({ dxf: { layer: 'a/b' } }), { name: 'InvalidOptionError', option: 'dxf.layer' });
+    await assert.rejects(renderMachine({ dxf: { units: 'ft' as 'mm' } }), { name: 'InvalidOptionError', option: 'dxf.units' });
+  });
+});
+
+describe('G-code export', () => {
+  it('traces each contour between the pen commands', async () => {
+    const { gcode } = await renderMachine({ gcode: { units: 'in', feedRate: 500, penUp: 'M5', penDown: 'M3' } });
+    const lines = gcode!.split('\n');
+    assert.deepEqual(lines.slice(0, 5), ['; text-to-svg-path', 'G20', 'G90', 'F500', 'M5']);
+    assert.equal(lines.filter(line => line === 'M3').length, 2);
+    assert.equal(lines[lines.length - 2], 'G0 X0 Y0');
+  });
+
+  it('rejects invalid tolerances and feed rates', async () => {
+    for (const tolerance of [0, -1, NaN]) {
+      await assert.rejects(renderMachine({ gcode: { tolerance } }), { name: 'InvalidOptionError', option: 'gcode.tolerance' });
+    }
+    await assert.rejects(renderMachine({ gcode: { feedRate: Infinity } }), { name: 'InvalidOptionError', option: 'gcode.feedRate' });
+  });
+});
+
+describe('EPS and JSON export', () => {
+  it('writes an EPS file bounded by the outline', async () => {
+    const { eps } = await textToSvgPath({ font: FONT, text: 'O', fontSize: 40, outputFormats: ['eps'] });
+    assert.ok(eps!.startsWith('%!PS-Adobe-3.0 EPSF-3.0\n'));
+    assert.match(eps!, /^%%BoundingBox: 0 0 \d+ \d+$/m);
+    assert.match(eps!, /^0 0 0 setrgbcolor fill$/m);
+  });
+
+  it('lists the commands of the path data', async () => {
+    const { json, pathData } = await textToSvgPath({ font: FONT, text: 'O', fontSize: 40, outputFormats: ['json'] });
+    assert.equal(json!.commands.length, pathData.match(/[MLQCZ]/g)!.length);
+    assert.ok(json!.boundingBox.x2 > json!.boundingBox.x1);
+  });
+});
@@ -0,0 +1,469 @@
+import * as opentype from 'opentype.js';
+import { PdfOptions, DxfOptions, GcodeOptions, LengthUnit, PageSize, PathCommandData, PathJson, BoundingBox } from './types';
+import { Point, flattenCommands, segmentsWithinTolerance } from './path-geometry';
+import { findHoles } from './polygon';
+import { getCurveTolerance } from './outline-effects';
+import { RgbaColor, requireColor } from './color';
+import { InvalidOptionError } from './errors';
+
+/**
+ * Part of the outline painted on its own, like a run of glyphs with its own colours
+ */
+export interface PaintedPath {
+  path: opentype.Path;
+  fill: string;
+  stroke: string;
+  opacity?: number;
+}
+
+/**
+ * Fill and stroke of the exported outline, as given in the options
+ */
+export interface ExportStyle {
+  fill: string;
+  stroke: string;
+  strokeWidth: string;
+  /** Opacity of the whole drawing, from 0 to 1 */
+  opacity?: number;
+  /** Parts drawn one after another in place of the whole outline, each with its own paint */
+  parts?: PaintedPath[];
+}
+
+/**
+ * Size of one unit in points
+ */
+const POINTS_PER_UNIT: Record<LengthUnit, number> = {
+  pt: 1,
+  mm: 72 / 25.4,
+  cm: 72 / 2.54,
+  in: 72,
+  px: 0.75
+};
+
+/**
+ * Standard paper sizes in points, portrait
+ */
+const PAGE_SIZES: Record<PageSize, [number, number]> = {
+  A3: [841.89, 1190.55],
+  A4: [595.28, 841.89],
+  A5: [419.53, 595.28],
+  Letter: [612, 792],
+  Legal: [612, 1008]
+};
+
+/**
+ * DXF `$INSUNITS` codes; points and pixels have none, so they're left unitless
+ */
+const DXF_UNIT_CODES: Record<LengthUnit, number> = {
+  pt: 0,
+  mm: 4,
+  cm: 5,
+  in: 1,
+  px: 0
+};
+
+/**
+ * Format a number for a text-based file format: at most three decimals, no exponent
+ */
+function formatNumber(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000;
+  return String(rounded === 0 ? 0 : rounded);
+}
+
+/**
+ * Get a path's bounding box, or an empty box at the origin when it draws nothing
+ */
+function getPathBox(path: opentype.Path): BoundingBox {
+  const bbox = path.getBoundingBox();
+  return bbox.isEmpty() ? { x1: 0, y1: 0, x2: 0, y2: 0 } : { x1: bbox.x1, y1: bbox.y1, x2: bbox.x2, y2: bbox.y2 };
+}
+
+/**
+ * Read the stroke width option as a number of pixels
+ */
+function parseStrokeWidth(strokeWidth: string): number {
+  const width = parseFloat(strokeWidth);
+  if (!isFinite(width) || width < 0) {
+    throw new InvalidOptionError(`Invalid stroke width: ${JSON.stringify(strokeWidth)}`, 'strokeWidth');
+  }
+  return width;
+}
+
+/**
+ * Fill and stroke read into colours and a width in pixels
+ */
+export interface ResolvedStyle {
+  fill: RgbaColor;
+  stroke: RgbaColor;
+  strokeWidth: number;
+  hasFill: boolean;
+  hasStroke: boolean;
+}
+
+/**
+ * Resolve the fill and stroke into colours, and whether each is drawn at all
+ */
+export function resolveStyle(style: ExportStyle): ResolvedStyle {
+  const fill = requireColor(style.fill, 'fill');
+  const stroke = requireColor(style.stroke, 'stroke');
+  const strokeWidth = parseStrokeWidth(style.strokeWidth);
+  return { fill, stroke, strokeWidth, hasFill: fill.a > 0, hasStroke: stroke.a > 0 && strokeWidth > 0 };
+}
+
+/**
+ * A part of the outline with its paint resolved
+ */
+export interface ResolvedPart extends ResolvedStyle {
+  path: opentype.Path;
+  /** The part's own opacity, without the drawing's */
+  opacity: number;
+}
+
+/**
+ * Resolve the parts to draw, in order: the given parts with the shared stroke width, or else the whole outline
+ */
+export function resolveParts(path: opentype.Path, style: ExportStyle): ResolvedPart[] {
+  const parts = style.parts ?? [{ path, fill: style.fill, stroke: style.stroke }];
+  return parts.map(part => ({
+    ...resolveStyle({ fill: part.fill, stroke: part.stroke, strokeWidth: style.strokeWidth }),
+    path: part.path,
+    opacity: part.opacity ?? 1
+  }));
+}
+
+/**
+ * Write path commands as PostScript or PDF drawing operators, converting quadratic curves to cubics
+ * @param transform Converts each point from pixels to the page
+ */
+function writeDrawing(
+  commands: opentype.PathCommand[],
+  transform: (point: Point) => Point,
+  operators: { move: string; line: string; curve: string; close: string }
+): string[] {
+  const lines: string[] = [];
+  const write = (points: Point[], operator: string) => {
+    lines.push(`${points.map(point => {
+      const { x, y } = transform(point);
+      return `${formatNumber(x)} ${formatNumber(y)}`;
+    }).join(' ')} ${operator}`);
+  };
+  let current: Point = { x: 0, y: 0 };
+  let start: Point = current;
+
+  for (const command of commands) {
+    switch (command.type) {
+      case 'M':
+        write([command], operators.move);
+        current = start = { x: command.x, y: command.y };
+        break;
+      case 'L':
+        write([command], operators.line);
+        current = { x: command.x, y: command.y };
+        break;
+      case 'Q': {
+        // A quadratic curve is the cubic with controls two thirds of the way to its control point
+        const control1 = { x: current.x + 2 / 3 * (command.x1 - current.x), y: current.y + 2 / 3 * (command.y1 - current.y) };
+        const control2 = { x: command.x + 2 / 3 * (command.x1 - command.x), y: command.y + 2 / 3 * (command.y1 - command.y) };
+        write([control1, control2, command], operators.curve);
+        current = { x: command.x, y: command.y };
+        break;
+      }
+      case 'C':
+        write([{ x: command.x1, y: command.y1 }, { x: command.x2, y: command.y2 }, command], operators.curve);
+        current = { x: command.x, y: command.y };
+        break;
+      case 'Z':
+        lines.push(operators.close);
+        current = start;
+        break;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Convert a colour channel to the 0 to 1 range
+ */
+function channels(color: RgbaColor): string {
+  return [color.r, color.g, color.b].map(channel => formatNumber(channel / 255)).join(' ');
+}
+
+/**
+ * Assemble a single page PDF around a content stream
+ */
+function assemblePdf(content: string, width: number, height: number, resources: string): Buffer {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(width)} ${formatNumber(height)}] /Resources ${resources} /Contents 4 0 R >>`,
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  // The cross-reference table lists the byte offset of every object
+  const xref = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
+
+/**
+ * Draw the outline on a single PDF page, as vector paths with its fill and stroke
+ */
+export function buildPdf(path: opentype.Path, style: ExportStyle, options: PdfOptions = {}): Buffer {
+  const { pageSize = 'fit', landscape = false, units = 'pt', margin = 0 } = options;
+  const parts = resolveParts(path, style);
+  const strokeWidth = parseStrokeWidth(style.strokeWidth);
+  const hasStroke = parts.some(part => part.hasStroke);
+  const unit = POINTS_PER_UNIT[units];
+  if (!unit) {
+    throw new InvalidOptionError(`Unknown PDF units: ${JSON.stringify(units)}`, 'pdf.units');
+  }
+  if (!(typeof margin === 'number' && margin >= 0 && isFinite(margin))) {
+    throw new InvalidOptionError(`Invalid PDF margin: ${JSON.stringify(margin)}`, 'pdf.margin');
+  }
+
+  // Strokes reach half their width outside the outline
+  const box = getPathBox(path);
+  const overhang = hasStroke ? strokeWidth / 2 : 0;
+  const scale = POINTS_PER_UNIT.px;
+  const contentWidth = (box.x2 - box.x1 + overhang * 2) * scale;
+  const contentHeight = (box.y2 - box.y1 + overhang * 2) * scale;
+  const marginPoints = margin * unit;
+
+  let width: number;
+  let height: number;
+  if (pageSize === 'fit') {
+    width = contentWidth + marginPoints * 2;
+    height = contentHeight + marginPoints * 2;
+  } else if (typeof pageSize === 'string') {
+    const size = PAGE_SIZES[pageSize];
+    if (!size) {
+      throw new InvalidOptionError(`Unknown PDF page size: ${JSON.stringify(pageSize)}`, 'pdf.pageSize');
+    }
+    [width, height] = landscape ? [size[1], size[0]] : size;
+  } else {
+    width = pageSize.width * unit;
+    height = pageSize.height * unit;
+    if (!(width > 0 && height > 0 && isFinite(width) && isFinite(height))) {
+      throw new InvalidOptionError(`Invalid PDF page size: ${JSON.stringify(pageSize)}`, 'pdf.pageSize');
+    }
+  }
+
+  // PDF pages have y pointing up from the bottom left corner
+  const transform = (point: Point): Point => ({
+    x: marginPoints + (point.x - box.x1 + overhang) * scale,
+    y: height - marginPoints - (point.y - box.y1 + overhang) * scale
+  });
+
+  // Graphics states persist, so once a part is translucent every part sets its own alpha.
+  // Opacity applies to the fill and stroke separately, where SVG blends them first.
+  const opacity = style.opacity ?? 1;
+  const isTranslucent = (part: ResolvedPart) => part.opacity * opacity < 1 || (part.hasFill && part.fill.a < 1) || (part.hasStroke && part.stroke.a < 1);
+  const states = parts.some(isTranslucent)
+    ? parts.map(part => `<< /ca ${formatNumber(part.fill.a * part.opacity * opacity)} /CA ${formatNumber(part.stroke.a * part.opacity * opacity)} >>`)
+    : [];
+  const content: string[] = [];
+  parts.forEach((part, i) => {
+    if (states.length > 0) {
+      content.push(`/GS${i + 1} gs`);
+    }
+    content.push(`${channels(part.fill)} rg`, `${channels(part.stroke)} RG`, `${formatNumber(strokeWidth * scale)} w`, '1 j');
+    content.push(...writeDrawing(part.path.commands, transform, { move: 'm', line: 'l', curve: 'c', close: 'h' }));
+    content.push(part.hasFill && part.hasStroke ? 'B' : part.hasFill ? 'f' : part.hasStroke ? 'S' : 'n');
+  });
+  const resources = states.length > 0
+    ? `<< /ExtGState << ${states.map((state, i) => `/GS${i + 1} ${state}`).join(' ')} >> >>`
+    : '<< >>';
+
+  return assemblePdf(content.join('\n'), width, height, resources);
+}
+
+/**
+ * Draw the outline as Encapsulated PostScript, with a bounding box just around it
+ */
+export function buildEps(path: opentype.Path, style: ExportStyle): string {
+  const parts = resolveParts(path, style);
+  const strokeWidth = parseStrokeWidth(style.strokeWidth);
+  const hasStroke = parts.some(part => part.hasStroke);
+  const box = getPathBox(path);
+  const overhang = hasStroke ? strokeWidth / 2 : 0;
+  const scale = POINTS_PER_UNIT.px;
+  const width = (box.x2 - box.x1 + overhang * 2) * scale;
+  const height = (box.y2 - box.y1 + overhang * 2) * scale;
+  const transform = (point: Point): Point => ({
+    x: (point.x - box.x1 + overhang) * scale,
+    y: height - (point.y - box.y1 + overhang) * scale
+  });
+
+  const lines = [
+    '%!PS-Adobe-3.0 EPSF-3.0',
+    `%%BoundingBox: 0 0 ${Math.ceil(width)} ${Math.ceil(height)}`,
+    `%%HiResBoundingBox: 0 0 ${formatNumber(width)} ${formatNumber(height)}`,
+    '%%Creator: text-to-svg-path',
+    '%%EndComments'
+  ];
+  // PostScript has no alpha, so translucent colours and opacity are drawn opaque
+  for (const part of parts) {
+    lines.push('newpath', ...writeDrawing(part.path.commands, transform, { move: 'moveto', line: 'lineto', curve: 'curveto', close: 'closepath' }));
+    const fillOperator = `${channels(part.fill)} setrgbcolor fill`;
+    if (part.hasFill && part.hasStroke) {
+      // Filling consumes the path, so keep a copy of it for the stroke
+      lines.push('gsave', fillOperator, 'grestore');
+    } else if (part.hasFill) {
+      lines.push(fillOperator);
+    }
+    if (part.hasStroke) {
+      lines.push(`${channels(part.stroke)} setrgbcolor ${formatNumber(strokeWidth * scale)} setlinewidth 1 setlinejoin stroke`);
+    }
+  }
+  lines.push('showpage', '%%EOF', '');
+  return lines.join('\n');
+}
+
+/**
+ * Flatten the outline into closed contours in a drawing unit, with y pointing up
+ * and the bottom left corner of the outline at the origin
+ */
+function toMachineContours(path: opentype.Path, fontSize: number, units: LengthUnit, tolerance?: number): Point[][] {
+  const box = getPathBox(path);
+  const scale = POINTS_PER_UNIT.px / POINTS_PER_UNIT[units];
+  const polylines = flattenCommands(path.commands, segmentsWithinTolerance(getCurveTolerance(fontSize, tolerance)));
+  return polylines.map(({ points }) => {
+    const contour = points.map(point => ({ x: (point.x - box.x1) * scale, y: (box.y2 - point.y) * scale }));
+    const first = contour[0];
+    const last = contour[contour.length - 1];
+    return contour.length > 2 && first.x === last.x && first.y === last.y ? contour.slice(0, -1) : contour;
+  });
+}
+
+/**
+ * Check that a curve tolerance is a positive number of pixels
+ */
+function checkTolerance(tolerance: number | undefined, option: string): void {
+  if (tolerance !== undefined && !(typeof tolerance === 'number' && tolerance > 0 && isFinite(tolerance))) {
+    throw new InvalidOptionError(`Invalid tolerance: ${JSON.stringify(tolerance)}, expected a positive number`, option);
+  }
+}
+
+/**
+ * Check that a DXF layer name only has characters AutoCAD accepts
+ */
+function checkLayerName(name: string, option: string): string {
+  if (!name || /[<>/\\":;?*|=`\r\n]/.test(name)) {
+    throw new InvalidOptionError(`Invalid DXF layer name: ${JSON.stringify(name)}`, option);
+  }
+  return name;
+}
+
+/**
+ * Draw the outline as an AutoCAD R12 DXF file with one closed polyline per contour
+ */
+export function buildDxf(path: opentype.Path, fontSize: number, options: DxfOptions = {}): string {
+  const { units = 'mm', tolerance } = options;
+  const layer = checkLayerName(options.layer ?? 'TEXT', 'dxf.layer');
+  const holeLayer = checkLayerName(options.holeLayer ?? layer, 'dxf.holeLayer');
+  if (!(units in DXF_UNIT_CODES)) {
+    throw new InvalidOptionError(`Unknown DXF units: ${JSON.stringify(units)}`, 'dxf.units');
+  }
+  checkTolerance(tolerance, 'dxf.tolerance');
+  const contours = toMachineContours(path, fontSize, units, tolerance);
+  const holes = findHoles(contours);
+
+  // DXF is a list of group code and value pairs, each on its own line
+  const pairs: Array<[number, string | number]> = [
+    [0, 'SECTION'], [2, 'HEADER'],
+    [9, '$ACADVER'], [1, 'AC1009'],
+    [9, '$INSUNITS'], [70, DXF_UNIT_CODES[units]],
+    [0, 'ENDSEC'],
+    [0, 'SECTION'], [2, 'TABLES'],
+    [0, 'TABLE'], [2, 'LAYER'], [70, layer === holeLayer ? 1 : 2]
+  ];
+  for (const name of layer === holeLayer ? [layer] : [layer, holeLayer]) {
+    pairs.push([0, 'LAYER'], [2, name], [70, 0], [62, 7], [6, 'CONTINUOUS']);
+  }
+  pairs.push([0, 'ENDTAB'], [0, 'ENDSEC'], [0, 'SECTION'], [2, 'ENTITIES']);
+
+  contours.forEach((contour, i) => {
+    const contourLayer = holes[i] ? holeLayer : layer;
+    pairs.push([0, 'POLYLINE'], [8, contourLayer], [66, 1], [70, 1], [10, 0], [20, 0], [30, 0]);
+    for (const point of contour) {
+      pairs.push([0, 'VERTEX'], [8, contourLayer], [10, formatNumber(point.x)], [20, formatNumber(point.y)], [30, 0]);
+    }
+    pairs.push([0, 'SEQEND'], [8, contourLayer]);
+  });
+  pairs.push([0, 'ENDSEC'], [0, 'EOF']);
+
+  return pairs.map(([code, value]) => `${code}\n${value}`).join('\n') + '\n';
+}
+
+/**
+ * Trace the outline with G-code: each contour is a rapid move to its start, the pen down
+ * command, a line back round to the start, and the pen up command
+ */
+export function buildGcode(path: opentype.Path, fontSize: number, options: GcodeOptions = {}): string {
+  const { feedRate = 1000, penUp = 'G0 Z5', penDown = 'G1 Z0', units = 'mm', tolerance } = options;
+  if (!(feedRate > 0 && isFinite(feedRate))) {
+    throw new InvalidOptionError(`Invalid G-code feed rate: ${JSON.stringify(feedRate)}`, 'gcode.feedRate');
+  }
+  if (units !== 'mm' && units !== 'in') {
+    throw new InvalidOptionError(`Unknown G-code units: ${JSON.stringify(units)}`, 'gcode.units');
+  }
+  checkTolerance(tolerance, 'gcode.tolerance');
+  const contours = toMachineContours(path, fontSize, units, tolerance);
+  const position = (point: Point) => `X${formatNumber(point.x)} Y${formatNumber(point.y)}`;
+
+  const lines = [
+    '; text-to-svg-path',
+    units === 'mm' ? 'G21' : 'G20',
+    'G90',
+    `F${formatNumber(feedRate)}`,
+    penUp
+  ];
+  for (const contour of contours) {
+    lines.push(`G0 ${position(contour[0])}`, penDown);
+    for (const point of [...contour.slice(1), contour[0]]) {
+      lines.push(`G1 ${position(point)}`);
+    }
+    lines.push(penUp);
+  }
+  lines.push('G0 X0 Y0', '');
+  return lines.join('\n');
+}
+
+/**
+ * List the outline's commands and bounding box as JSON, rounded like the path data
+ */
+export function buildPathJson(path: opentype.Path): PathJson {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const commands: PathCommandData[] = path.commands.map(command => {
+    switch (command.type) {
+      case 'M':
+      case 'L':
+        return { type: command.type, x: round(command.x), y: round(command.y) };
+      case 'Q':
+        return { type: 'Q', x1: round(command.x1), y1: round(command.y1), x: round(command.x), y: round(command.y) };
+      case 'C':
+        return {
+          type: 'C',
+          x1: round(command.x1), y1: round(command.y1),
+          x2: round(command.x2), y2: round(command.y2),
+          x: round(command.x), y: round(command.y)
+        };
+      default:
+        return { type: 'Z' };
+    }
+  });
+  const box = getPathBox(path);
+  return {
+    boundingBox: { x1: round(box.x1), y1: round(box.y1), x2: round(box.x2), y2: round(box.y2) },
+    commands
+  };
+}
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import * as opentype from 'opentype.js';
+import { textToSvgPath } from './index';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+/**
+ * Build a font that draws each of the given characters as a square, 600 units wide
+ */
+function squareFont(familyName: string, chars: string): Buffer {
+  const square = new opentype.Path();
+  square.moveTo(100, 0);
+  square.lineTo(500, 0);
+  square.lineTo(500, 400);
+  square.lineTo(100, 400);
+  square.close();
+  const glyphs = [
+    new opentype.Glyph({ name: '.notdef', unicode: 0, advanceWidth: 600, path: new opentype.Path() }),
+    ...Array.from(chars, char => new opentype.Glyph({
+      name: `uni${char.charCodeAt(0).toString(16).toUpperCase()}`, unicode: char.charCodeAt(0), advanceWidth: 600, path: square
+    }))
+  ];
+  const font = new opentype.Font({ familyName, styleName: 'Regular', unitsPerEm: 1000, ascender: 800, descender: -200, glyphs });
+  return Buffer.from(font.toArrayBuffer());
+}
+
+describe('fallback fonts', () => {
+  it('draws characters missing from the font with the first fallback that has them', async () => {
+    const result = await textToSvgPath({
+      font: FONT, text: 'Aאב', fontSize: 100, fallbackFonts: [squareFont('First', 'א'), squareFont('Second', 'אב')], outputFormats: ['glyphs']
+    });
+    assert.deepEqual(result.missingCharacters, []);
+    assert.ok(result.glyphs!.every(glyph => glyph.glyphId !== 0));
+    // The fallback squares are 400 units high
+    for (const glyph of result.glyphs!.slice(1)) {
+      assert.equal(glyph.boundingBox.y2 - glyph.boundingBox.y1, 40);
+    }
+  });
+
+  it('keeps characters the font has in the font', async () => {
+    const plain = await textToSvgPath({ font: FONT, text: 'Ab', outputFormats: ['glyphs'] });
+    const withFallback = await textToSvgPath({ font: FONT, text: 'Ab', fallbackFonts: [squareFont('Squares', 'Ab')], outputFormats: ['glyphs'] });
+    assert.deepEqual(withFallback.glyphs, plain.glyphs);
+  });
+
+  it('advances each run by the metrics of its own font', async () => {
+    const result = await textToSvgPath({ font: FONT, text: 'aאאb', fontSize: 100, fallbackFonts: [squareFont('Squares', 'א')], outputFormats: ['glyphs'] });
+    const [a, first, second, b] = result.glyphs!;
+    assert.equal(first.x, a.x + a.advanceWidth);
+    assert.equal(first.advanceWidth, 60);
+    assert.equal(b.x, second.x + 60);
+  });
+
+  it('reports the characters no font in the chain has', async () => {
+    const result = await textToSvgPath({ font: FONT, text: 'aאגב', fallbackFonts: [squareFont('First', 'א'), squareFont('Second', 'ב')] });
+    assert.deepEqual(result.missingCharacters, ['ג']);
+  });
+});
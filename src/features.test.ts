@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { textToSvgPath, getFontFeatures } from './index';
+import { FontFeatures } from './types';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+/**
+ * Render text with font features and list the names of its glyphs
+ */
+async function glyphNames(text: string, features?: FontFeatures): Promise<string[]> {
+  const result = await textToSvgPath({ font: FONT, text, features, outputFormats: ['glyphs'] });
+  return result.glyphs!.map(glyph => glyph.glyphName!);
+}
+
+describe('OpenType features', () => {
+  it('lists the substitution features of a font', async () => {
+    assert.deepEqual(await getFontFeatures(FONT), ['calt', 'ccmp', 'dnom', 'frac', 'locl', 'numr', 'pnum', 'tnum']);
+  });
+
+  it('substitutes glyphs for the features turned on', async () => {
+    assert.deepEqual(await glyphNames('10'), ['one', 'zero']);
+    assert.deepEqual(await glyphNames('10', { tnum: true }), ['one.tf', 'zero.tf']);
+  });
+
+  it('gives tabular figures one width', async () => {
+    const result = await textToSvgPath({ font: FONT, text: '17', features: { tnum: true }, outputFormats: ['glyphs'] });
+    const [one, seven] = result.glyphs!;
+    assert.equal(one.advanceWidth, seven.advanceWidth);
+    assert.equal(seven.x, one.x + one.advanceWidth);
+  });
+
+  it('keeps each glyph mapped to its characters through contextual substitutions', async () => {
+    const result = await textToSvgPath({ font: FONT, text: 'a 1/2', features: { frac: true }, outputFormats: ['glyphs'] });
+    assert.deepEqual(result.glyphs!.map(glyph => [glyph.text, glyph.index, glyph.glyphName]), [
+      ['a', 0, 'a'], [' ', 1, 'space'], ['1', 2, 'one.numr'], ['/', 3, 'fraction'], ['2', 4, 'two.dnom']
+    ]);
+  });
+
+  it('ignores features the font lacks and features turned off', async () => {
+    const plain = await glyphNames('abc 10');
+    assert.deepEqual(await glyphNames('abc 10', { smcp: true, ss01: true }), plain);
+    assert.deepEqual(await glyphNames('abc 10', { tnum: false }), plain);
+  });
+});
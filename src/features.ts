@@ -0,0 +1,14 @@
+import { FontSource } from './types';
+import { FontCache, loadFontCached } from './font-cache';
+import { getGsubFeatureTags } from './gsub';
+
+/**
+ * List the OpenType substitution features a font supports, for use with the `features` option
+ * @param source Font to inspect, loaded through the font cache like `textToSvgPath` does
+ * @param fontCache Cache to load the font through, or `false` to load it fresh
+ * @returns Feature tags such as `liga`, `smcp` or `ss01`, sorted alphabetically
+ */
+export async function getFontFeatures(source: FontSource, fontCache?: FontCache | false): Promise<string[]> {
+  const font = await loadFontCached(source, fontCache);
+  return getGsubFeatureTags(font);
+}
@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { textToSvgPath } from './index';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+describe('fit', () => {
+  it('picks the largest font size that fits the box', async () => {
+    const result = await textToSvgPath({ font: FONT, text: 'Fit me in a box', fit: { width: 300, height: 100 } });
+    const { fontSize, fits, box } = result.fit!;
+    assert.ok(fits);
+    assert.ok(box.x2 - box.x1 <= 300 && box.y2 - box.y1 <= 100);
+
+    // A slightly larger size overflows the box
+    const larger = await textToSvgPath({ font: FONT, text: 'Fit me in a box', fontSize: fontSize + 1 });
+    assert.ok(larger.lines![0].width > 300);
+  });
+
+  it('wraps onto more lines when that allows a larger size', async () => {
+    const text = 'Several words that wrap';
+    const single = await textToSvgPath({ font: FONT, text, fit: { width: 200, height: 200 } });
+    const wrapped = await textToSvgPath({ font: FONT, text, fit: { width: 200, height: 200, wrap: true } });
+    assert.equal(single.lines!.length, 1);
+    assert.ok(wrapped.lines!.length > 1);
+    assert.ok(wrapped.fit!.fontSize > single.fit!.fontSize);
+  });
+
+  it('stays within the size range', async () => {
+    const capped = await textToSvgPath({ font: FONT, text: 'Hi', fit: { width: 1000, height: 1000, maxFontSize: 50 } });
+    assert.equal(capped.fit!.fontSize, 50);
+
+    const overflowing = await textToSvgPath({ font: FONT, text: 'Far too long for the box', fit: { width: 50, height: 20, minFontSize: 12 } });
+    assert.equal(overflowing.fit!.fontSize, 12);
+    assert.equal(overflowing.fit!.fits, false);
+  });
+
+  it('rejects invalid boxes and size ranges', async () => {
+    const invalid = { name: 'InvalidOptionError', option: 'fit' };
+    await assert.rejects(textToSvgPath({ font: FONT, text: 'Hi', fit: { width: 0, height: 100 } }), invalid);
+    await assert.rejects(textToSvgPath({ font: FONT, text: 'Hi', fit: { width: 100, height: 100, minFontSize: 50, maxFontSize: 20 } }), invalid);
+  });
+});
@@ -0,0 +1,139 @@
+import * as opentype from 'opentype.js';
+import { FitOptions, TextAlign, BoundingBox, FontFeatures, TextDirection, WritingMode } from './types';
+import { layoutText, LayoutLine } from './layout';
+import { getVerticalMetrics } from './vertical';
+import { InvalidOptionError } from './errors';
+
+/**
+ * Layout options that affect how much room the text takes up
+ */
+export interface FitLayoutOptions {
+  kerning: boolean;
+  fallbackFonts?: opentype.Font[];
+  features?: FontFeatures;
+  direction?: TextDirection;
+  script?: string;
+  language?: string;
+  writingMode?: WritingMode;
+  lineHeight?: number;
+  textAlign: TextAlign;
+  maxWidth?: number;
+}
+
+/**
+ * Number of bisection steps when searching for the font size
+ */
+const FIT_ITERATIONS = 24;
+
+/**
+ * Get the box spanned by laid out lines, from the first line's ascent to the last line's descent.
+ * Vertical columns span the font's vertical ascent and descent either side of their centre line.
+ */
+export function getLayoutBox(font: opentype.Font, lines: LayoutLine[], fontSize: number, writingMode?: WritingMode): BoundingBox {
+  const scale = fontSize / font.unitsPerEm;
+  if (writingMode === 'vertical') {
+    const vertical = getVerticalMetrics(font);
+    return {
+      x1: Math.min(...lines.map(line => line.x)) + vertical.descent * scale,
+      y1: Math.min(...lines.map(line => line.y)),
+      x2: Math.max(...lines.map(line => line.x)) + vertical.ascent * scale,
+      y2: Math.max(...lines.map(line => line.y + line.width))
+    };
+  }
+
+  const first = lines[0];
+  const last = lines[lines.length - 1];
+
+  return {
+    x1: Math.min(...lines.map(line => line.x)),
+    y1: first.y - font.ascender * scale,
+    x2: Math.max(...lines.map(line => line.x + line.width)),
+    y2: last.y - font.descender * scale
+  };
+}
+
+/**
+ * Check whether the text fits the target box at a given font size
+ */
+function fitsAt(font: opentype.Font, text: string, fontSize: number, fit: FitOptions, options: FitLayoutOptions): boolean {
+  const lines = layoutText(font, text, { ...options, fontSize, x: 0, y: 0 });
+  const box = getLayoutBox(font, lines, fontSize, options.writingMode);
+  return box.x2 - box.x1 <= fit.width && box.y2 - box.y1 <= fit.height;
+}
+
+/**
+ * Check that the box and the size range of fit options are positive, finite numbers
+ */
+function checkFitOptions(fit: FitOptions): void {
+  for (const key of ['width', 'height', 'minFontSize', 'maxFontSize'] as const) {
+    const value = fit[key];
+    if ((value !== undefined || key === 'width' || key === 'height') && !(typeof value === 'number' && value > 0 && isFinite(value))) {
+      throw new InvalidOptionError(`Invalid fit ${key}: ${JSON.stringify(value)}, expected a positive number`, 'fit');
+    }
+  }
+}
+
+/**
+ * Find the largest font size at which the text fits the target box.
+ * Falls back to `minFontSize` (and reports `fits: false`) when even that overflows.
+ * Fails with an `InvalidOptionError` for an empty box or a size range with nothing in it.
+ */
+export function fitFontSize(
+  font: opentype.Font,
+  text: string,
+  fit: FitOptions,
+  options: FitLayoutOptions
+): { fontSize: number; fits: boolean } {
+  checkFitOptions(fit);
+  const minFontSize = fit.minFontSize ?? 1;
+  // A single line can never be taller than the box (or a column wider), which bounds the search from above
+  let maxFontSize = fit.maxFontSize;
+  if (maxFontSize === undefined && options.writingMode === 'vertical') {
+    const vertical = getVerticalMetrics(font);
+    maxFontSize = fit.width / ((vertical.ascent - vertical.descent) / font.unitsPerEm);
+  } else if (maxFontSize === undefined) {
+    maxFontSize = fit.height / ((font.ascender - font.descender) / font.unitsPerEm);
+  }
+
+  if (maxFontSize < minFontSize) {
+    throw new InvalidOptionError(`Invalid fit range: maxFontSize (${maxFontSize}) is smaller than minFontSize (${minFontSize})`, 'fit');
+  }
+
+  // Round down so the reported size is tidy and still fits
+  const roundDown = (size: number) => Math.max(minFontSize, Math.floor(size * 100) / 100);
+
+  if (fitsAt(font, text, maxFontSize, fit, options)) {
+    return { fontSize: roundDown(maxFontSize), fits: true };
+  }
+  if (!fitsAt(font, text, minFontSize, fit, options)) {
+    return { fontSize: minFontSize, fits: false };
+  }
+
+  let low = minFontSize;
+  let high = maxFontSize;
+  for (let i = 0; i < FIT_ITERATIONS; i++) {
+    const middle = (low + high) / 2;
+    if (fitsAt(font, text, middle, fit, options)) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  return { fontSize: roundDown(low), fits: true };
+}
+
+/**
+ * Get the font's ascent at a given size, used as the default first baseline when fitting
+ */
+export function getAscent(font: opentype.Font, fontSize: number): number {
+  return font.ascender / font.unitsPerEm * fontSize;
+}
+
+/**
+ * Get the distance from the centre line of a vertical column to its right edge at a given size,
+ * used to place the first column when fitting vertical text
+ */
+export function getColumnAscent(font: opentype.Font, fontSize: number): number {
+  return getVerticalMetrics(font).ascent / font.unitsPerEm * fontSize;
+}
@@ -0,0 +1,106 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FontCache } from './font-cache';
+import { FontCacheError } from './errors';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+describe('font cache', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests = 0;
+
+  before(async () => {
+    // Serves the fixture font at any path, counting how often it's fetched
+    const fontData = await fs.readFile(FONT);
+    server = http.createServer((request, response) => {
+      requests++;
+      response.end(fontData);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('keeps parsed fonts and evicts the least recently used', async () => {
+    const cache = new FontCache({ maxEntries: 1 });
+    const fontData = await fs.readFile(FONT);
+    const font = await cache.load(FONT);
+    assert.equal(await cache.load(FONT), font);
+    assert.equal(cache.entries()[0].hits, 1);
+
+    await cache.load(fontData);
+    assert.equal(cache.size, 1);
+    assert.ok(!cache.has(FONT));
+    assert.ok(cache.has(fontData));
+    assert.match(cache.entries()[0].key, /^sha256:[0-9a-f]{64}$/);
+    assert.notEqual(await cache.load(FONT), font);
+  });
+
+  it('shares one load between concurrent callers', async () => {
+    const cache = new FontCache();
+    const before = requests;
+    const [first, second] = await Promise.all([cache.load(`${baseUrl}/shared.ttf`), cache.load(`${baseUrl}/shared.ttf`)]);
+    assert.equal(first, second);
+    assert.equal(requests - before, 1);
+  });
+
+  it('stores fetched fonts on disk for other caches', async () => {
+    const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'text-to-svg-path-cache-'));
+    try {
+      const url = `${baseUrl}/disk.ttf`;
+      const before = requests;
+      await new FontCache({ cacheDir }).load(url);
+      const cache = new FontCache({ cacheDir });
+      await cache.load(url);
+      assert.equal(requests - before, 1);
+
+      // Evicting the only URL for the bytes deletes them as well
+      assert.equal((await fs.readdir(cacheDir)).length, 2);
+      assert.equal(await cache.evict(url), true);
+      assert.deepEqual(await fs.readdir(cacheDir), []);
+    } finally {
+      await fs.rm(cacheDir, { recursive: true, force: true });
+    }
+  });
+
+  it('refetches fonts whose bytes on disk are damaged', async () => {
+    const cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'text-to-svg-path-cache-'));
+    try {
+      const url = `${baseUrl}/damaged.ttf`;
+      await new FontCache({ cacheDir }).load(url);
+      const [dataFile] = (await fs.readdir(cacheDir)).filter(name => name.endsWith('.font'));
+      await fs.truncate(path.join(cacheDir, dataFile), 100);
+
+      const before = requests;
+      await new FontCache({ cacheDir }).load(url);
+      assert.equal(requests - before, 1);
+    } finally {
+      await fs.rm(cacheDir, { recursive: true, force: true });
+    }
+  });
+
+  it('reports failed disk writes without failing the load', async () => {
+    // A file where the cache directory should be
+    const cacheDir = path.join(os.tmpdir(), `text-to-svg-path-not-a-directory-${process.pid}`);
+    await fs.writeFile(cacheDir, '');
+    try {
+      const errors: FontCacheError[] = [];
+      const cache = new FontCache({ cacheDir, onDiskError: error => errors.push(error) });
+      const font = await cache.load(`${baseUrl}/unwritable.ttf`);
+      assert.equal(font.names.fontFamily.en, 'Inter');
+      assert.equal(errors.length, 1);
+      assert.equal(errors[0].name, 'FontCacheError');
+    } finally {
+      await fs.rm(cacheDir, { force: true });
+    }
+  });
+});
@@ -0,0 +1,308 @@
+import * as opentype from 'opentype.js';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { FontSource, FontCacheOptions, FontCacheEntryInfo } from './types';
+import { isParsedFont, isRemoteUrl, loadFont, parseFont, readFontData, toArrayBuffer } from './font-loader';
+import { FontCacheError } from './errors';
+
+interface FontCacheEntry {
+  font: opentype.Font;
+  contentHash: string;
+  byteLength: number;
+  hits: number;
+  lastAccessed: Date;
+}
+
+interface DiskIndexEntry {
+  url: string;
+  contentHash: string;
+  byteLength: number;
+  storedAt: string;
+}
+
+/**
+ * Compute a hex SHA-256 digest of raw bytes or a string
+ */
+function sha256(data: ArrayBuffer | string): string {
+  const hash = createHash('sha256');
+  hash.update(typeof data === 'string' ? data : new Uint8Array(data));
+  return hash.digest('hex');
+}
+
+/**
+ * Cache of parsed fonts shared across `textToSvgPath` calls.
+ *
+ * Parsed fonts are kept in an in-memory LRU. When `cacheDir` is set, the raw bytes of
+ * fonts fetched over http(s) are also stored on disk, keyed by URL and content hash.
+ * Concurrent loads of the same source share a single in-flight request.
+ */
+export class FontCache {
+  private readonly maxEntries: number;
+  private readonly cacheDir?: string;
+  private readonly onDiskError?: (error: FontCacheError) => void;
+  private readonly fonts = new Map<string, FontCacheEntry>();
+  private readonly pending = new Map<string, Promise<opentype.Font>>();
+
+  constructor(options: FontCacheOptions = {}) {
+    this.maxEntries = Math.max(1, options.maxEntries ?? 32);
+    this.cacheDir = options.cacheDir;
+    this.onDiskError = options.onDiskError;
+  }
+
+  /**
+   * Number of parsed fonts currently held in memory
+   */
+  get size(): number {
+    return this.fonts.size;
+  }
+
+  /**
+   * Load a font through the cache
+   * @param source Any supported font source
+   * @returns Promise resolving to the parsed font
+   */
+  async load(source: FontSource): Promise<opentype.Font> {
+    // Parsed fonts are already in memory, nothing to cache
+    if (isParsedFont(source)) {
+      return source;
+    }
+
+    const key = this.keyFor(source);
+    const entry = this.fonts.get(key);
+    if (entry) {
+      this.touch(key, entry);
+      return entry.font;
+    }
+
+    // Share the in-flight load between concurrent callers
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const promise = this.loadUncached(key, source).finally(() => {
+      this.pending.delete(key);
+    });
+    this.pending.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Load several fonts ahead of time so later renders hit the cache
+   */
+  async preload(sources: FontSource[]): Promise<void> {
+    await Promise.all(sources.map(source => this.load(source)));
+  }
+
+  /**
+   * Check whether a parsed font for the source is held in memory
+   */
+  has(source: FontSource): boolean {
+    return !isParsedFont(source) && this.fonts.has(this.keyFor(source));
+  }
+
+  /**
+   * List the cached fonts, least recently used first
+   */
+  entries(): FontCacheEntryInfo[] {
+    return Array.from(this.fonts, ([key, entry]) => ({
+      key,
+      familyName: entry.font.names.fontFamily?.en ?? '',
+      styleName: entry.font.names.fontSubfamily?.en ?? '',
+      contentHash: entry.contentHash,
+      byteLength: entry.byteLength,
+      hits: entry.hits,
+      lastAccessed: entry.lastAccessed
+    }));
+  }
+
+  /**
+   * Remove a font from memory and, for URLs, from the disk cache. The font's bytes are
+   * deleted too once no other cached URL shares them.
+   * @returns Whether anything was removed
+   */
+  async evict(source: FontSource): Promise<boolean> {
+    if (isParsedFont(source)) {
+      return false;
+    }
+
+    const key = this.keyFor(source);
+    let removed = this.fonts.delete(key);
+
+    if (this.cacheDir && typeof source === 'string' && isRemoteUrl(source)) {
+      const indexEntry = await this.readDiskIndex(source);
+      if (indexEntry) {
+        await fs.rm(this.indexPath(source), { force: true });
+        if (!(await this.isDataReferenced(indexEntry.contentHash))) {
+          await fs.rm(this.dataPath(indexEntry.contentHash), { force: true });
+        }
+        removed = true;
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Remove all fonts from memory, and optionally the whole disk cache
+   */
+  async clear(options: { disk?: boolean } = {}): Promise<void> {
+    this.fonts.clear();
+
+    if (options.disk && this.cacheDir) {
+      await fs.rm(this.cacheDir, { recursive: true, force: true });
+    }
+  }
+
+  private keyFor(source: Exclude<FontSource, opentype.Font>): string {
+    return typeof source === 'string'
+      ? source
+      : `sha256:${sha256(toArrayBuffer(source))}`;
+  }
+
+  private touch(key: string, entry: FontCacheEntry): void {
+    entry.hits++;
+    entry.lastAccessed = new Date();
+    // Re-insert so the Map's insertion order tracks recency
+    this.fonts.delete(key);
+    this.fonts.set(key, entry);
+  }
+
+  private async loadUncached(key: string, source: Exclude<FontSource, opentype.Font>): Promise<opentype.Font> {
+    const fontData = typeof source === 'string'
+      ? await this.readBytes(source)
+      : toArrayBuffer(source);
+
+    const font = parseFont(fontData);
+
+    this.fonts.set(key, {
+      font,
+      contentHash: sha256(fontData),
+      byteLength: fontData.byteLength,
+      hits: 0,
+      lastAccessed: new Date()
+    });
+
+    // Drop least recently used fonts once over capacity
+    while (this.fonts.size > this.maxEntries) {
+      const oldestKey = this.fonts.keys().next().value as string;
+      this.fonts.delete(oldestKey);
+    }
+
+    return font;
+  }
+
+  private async readBytes(source: string): Promise<ArrayBuffer> {
+    if (!this.cacheDir || !isRemoteUrl(source)) {
+      return readFontData(source);
+    }
+
+    const cached = await this.readFromDisk(source);
+    if (cached) {
+      return cached;
+    }
+
+    const fontData = await readFontData(source);
+    await this.writeToDisk(source, fontData);
+    return fontData;
+  }
+
+  private indexPath(url: string): string {
+    return path.join(this.cacheDir!, `${sha256(url)}.json`);
+  }
+
+  private dataPath(contentHash: string): string {
+    return path.join(this.cacheDir!, `${contentHash}.font`);
+  }
+
+  private async readDiskIndex(url: string): Promise<DiskIndexEntry | undefined> {
+    try {
+      const entry = JSON.parse(await fs.readFile(this.indexPath(url), 'utf8')) as DiskIndexEntry;
+      return entry.url === url ? entry : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Check whether any URL in the disk index still points to the font bytes with a content hash
+   */
+  private async isDataReferenced(contentHash: string): Promise<boolean> {
+    const files = await fs.readdir(this.cacheDir!).catch(() => [] as string[]);
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      try {
+        const entry = JSON.parse(await fs.readFile(path.join(this.cacheDir!, file), 'utf8')) as DiskIndexEntry;
+        if (entry.contentHash === contentHash) {
+          return true;
+        }
+      } catch {
+        // Unreadable index files don't reference anything
+      }
+    }
+    return false;
+  }
+
+  private async readFromDisk(url: string): Promise<ArrayBuffer | undefined> {
+    const entry = await this.readDiskIndex(url);
+    if (!entry) {
+      return undefined;
+    }
+
+    try {
+      const fontData = toArrayBuffer(await fs.readFile(this.dataPath(entry.contentHash)));
+      // Treat corrupted or truncated files as a cache miss
+      return sha256(fontData) === entry.contentHash ? fontData : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async writeToDisk(url: string, fontData: ArrayBuffer): Promise<void> {
+    const entry: DiskIndexEntry = {
+      url,
+      contentHash: sha256(fontData),
+      byteLength: fontData.byteLength,
+      storedAt: new Date().toISOString()
+    };
+
+    try {
+      await fs.mkdir(this.cacheDir!, { recursive: true });
+      // Write to a temporary file first so readers never see partial data
+      const dataPath = this.dataPath(entry.contentHash);
+      const tmpPath = `${dataPath}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, new Uint8Array(fontData));
+      await fs.rename(tmpPath, dataPath);
+      await fs.writeFile(this.indexPath(url), JSON.stringify(entry));
+    } catch (error: any) {
+      // The disk cache is an optimisation, so a failed write must not fail the render
+      this.onDiskError?.(new FontCacheError(`Failed to write font cache for ${url}: ${error.message}`, url, error));
+    }
+  }
+}
+
+let defaultFontCache = new FontCache();
+
+/**
+ * Get the cache used by `textToSvgPath` when no `fontCache` option is given
+ */
+export function getDefaultFontCache(): FontCache {
+  return defaultFontCache;
+}
+
+/**
+ * Replace the cache used by `textToSvgPath` when no `fontCache` option is given
+ */
+export function setDefaultFontCache(cache: FontCache): void {
+  defaultFontCache = cache;
+}
+
+/**
+ * Load a font honouring the `fontCache` option (`false` bypasses caching)
+ */
+export function loadFontCached(source: FontSource, cache?: FontCache | false): Promise<opentype.Font> {
+  if (cache === false) {
+    return loadFont(source);
+  }
+  return (cache ?? defaultFontCache).load(source);
+}
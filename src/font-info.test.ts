@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import * as opentype from 'opentype.js';
+import { inspectFont } from './index';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+describe('font inspection', () => {
+  it('reads the names and metrics', async () => {
+    const info = await inspectFont(FONT);
+    assert.equal(info.familyName, 'Inter');
+    assert.equal(info.styleName, 'Regular');
+    assert.equal(info.postScriptName, 'Inter-Regular');
+    assert.equal(info.licenseUrl, 'https://openfontlicense.org');
+    assert.equal(info.unitsPerEm, 2048);
+    assert.equal(info.ascender, 1984);
+    assert.equal(info.descender, -494);
+    assert.equal(info.xHeight, 1118);
+    assert.equal(info.capHeight, 1490);
+  });
+
+  it('groups the characters it covers into ranges', async () => {
+    const info = await inspectFont(FONT);
+    assert.ok(info.unicodeRanges.some(range => range.start === 0x20 && range.end === 0x7e));
+    assert.ok(!info.unicodeRanges.some(range => range.start <= 0x5d0 && range.end >= 0x5d0));
+    assert.equal(info.characterCount, info.unicodeRanges.reduce((count, range) => count + range.end - range.start + 1, 0));
+  });
+
+  it('lists substitution and positioning features together', async () => {
+    const { features } = await inspectFont(FONT);
+    assert.ok(features.includes('tnum') && features.includes('kern'));
+    assert.deepEqual(features, [...features].sort());
+  });
+
+  it('lists variation axes and named instances', async () => {
+    const info = await inspectFont(FONT);
+    assert.deepEqual(info.variationAxes, [{ tag: 'wght', name: 'Weight', min: 100, default: 400, max: 900 }]);
+    assert.equal(info.namedInstances[0], 'Thin');
+    assert.equal(info.namedInstances.length, 9);
+  });
+
+  it('reads the embedding permissions', async () => {
+    assert.deepEqual((await inspectFont(FONT)).embedding, { permission: 'installable', subsetting: true, bitmapOnly: false, fsType: 0 });
+
+    const font = opentype.loadSync(FONT);
+    font.tables.os2.fsType = 0x0304;
+    assert.deepEqual((await inspectFont(font)).embedding, { permission: 'preview', subsetting: false, bitmapOnly: true, fsType: 0x0304 });
+    // Older fonts may set several usage bits; the least restrictive wins
+    font.tables.os2.fsType = 0x000e;
+    assert.equal((await inspectFont(font)).embedding.permission, 'editable');
+    font.tables.os2.fsType = 0x0002;
+    assert.equal((await inspectFont(font)).embedding.permission, 'restricted');
+  });
+});
@@ -0,0 +1,106 @@
+import * as opentype from 'opentype.js';
+import { FontSource, FontInfo, FontEmbedding, UnicodeRange } from './types';
+import { FontCache, loadFontCached } from './font-cache';
+import { getGsubFeatureTags } from './gsub';
+import { getGposFeatureTags } from './gpos';
+import { getVariationAxes, getNamedInstances } from './variation';
+
+/**
+ * The name table, with the typographic names the type definitions leave out
+ */
+interface NameTable extends opentype.FontNames {
+  preferredFamily?: opentype.LocalizedName;
+  preferredSubfamily?: opentype.LocalizedName;
+}
+
+/**
+ * Read an English name from the name table
+ */
+function getName(font: opentype.Font, key: keyof NameTable): string | undefined {
+  return (font.names as NameTable)[key]?.en;
+}
+
+/**
+ * Group the code points a font maps to glyphs into runs
+ */
+function getUnicodeRanges(font: opentype.Font): UnicodeRange[] {
+  const codePoints = Object.keys(font.tables.cmap?.glyphIndexMap ?? {})
+    .map(Number)
+    .sort((a, b) => a - b);
+  const ranges: UnicodeRange[] = [];
+  for (const codePoint of codePoints) {
+    const last = ranges[ranges.length - 1];
+    if (last && codePoint === last.end + 1) {
+      last.end = codePoint;
+    } else {
+      ranges.push({ start: codePoint, end: codePoint });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Measure the top of a character's outline, for fonts without OS/2 heights
+ */
+function measureHeight(font: opentype.Font, char: string): number {
+  const index = font.charToGlyphIndex(char);
+  return index > 0 ? Math.max(0, font.glyphs.get(index).getBoundingBox().y2) : 0;
+}
+
+/**
+ * Read the embedding permissions. Fonts before OS/2 version 3 may set several usage bits,
+ * in which case the least restrictive applies.
+ */
+function getEmbedding(fsType: number): FontEmbedding {
+  const permission = (fsType & 0xf) === 0 ? 'installable'
+    : fsType & 0x8 ? 'editable'
+    : fsType & 0x4 ? 'preview'
+    : 'restricted';
+  return {
+    permission,
+    subsetting: (fsType & 0x100) === 0,
+    bitmapOnly: (fsType & 0x200) !== 0,
+    fsType
+  };
+}
+
+/**
+ * Describe a font's names, metrics, character coverage, features, variation axes and
+ * embedding permissions, e.g. to check fonts before a batch render or to build a font picker
+ * @param source Font to inspect, loaded through the font cache like `textToSvgPath` does
+ * @param fontCache Cache to load the font through, or `false` to load it fresh
+ */
+export async function inspectFont(source: FontSource, fontCache?: FontCache | false): Promise<FontInfo> {
+  const font = await loadFontCached(source, fontCache);
+  const os2 = font.tables.os2;
+  const unicodeRanges = getUnicodeRanges(font);
+  const optional = {
+    copyright: getName(font, 'copyright'),
+    license: getName(font, 'license'),
+    licenseUrl: getName(font, 'licenseURL'),
+    designer: getName(font, 'designer')
+  };
+
+  return {
+    familyName: getName(font, 'preferredFamily') ?? getName(font, 'fontFamily') ?? '',
+    styleName: getName(font, 'preferredSubfamily') ?? getName(font, 'fontSubfamily') ?? '',
+    fullName: getName(font, 'fullName') ?? '',
+    postScriptName: getName(font, 'postScriptName') ?? '',
+    version: getName(font, 'version') ?? '',
+    ...Object.fromEntries(Object.entries(optional).filter(([, value]) => value !== undefined)),
+    unitsPerEm: font.unitsPerEm,
+    ascender: font.ascender,
+    descender: font.descender,
+    lineGap: font.tables.hhea?.lineGap ?? 0,
+    // Version 2 added the heights, but some fonts leave them at zero
+    xHeight: os2?.version >= 2 && os2.sxHeight > 0 ? os2.sxHeight : measureHeight(font, 'x'),
+    capHeight: os2?.version >= 2 && os2.sCapHeight > 0 ? os2.sCapHeight : measureHeight(font, 'H'),
+    glyphCount: font.numGlyphs,
+    characterCount: unicodeRanges.reduce((count, range) => count + range.end - range.start + 1, 0),
+    unicodeRanges,
+    features: Array.from(new Set([...getGsubFeatureTags(font), ...getGposFeatureTags(font)])).sort(),
+    variationAxes: getVariationAxes(font),
+    namedInstances: getNamedInstances(font),
+    embedding: getEmbedding(os2?.fsType ?? 0)
+  };
+}
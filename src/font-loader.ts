@@ -0,0 +1,182 @@
+import * as opentype from 'opentype.js';
+import fetch from 'node-fetch';
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import { FontSource } from './types';
+import { FontFetchError, FontParseError, TextToSvgPathError, UnsupportedFontFormatError } from './errors';
+
+/**
+ * Font file signatures opentype.js can parse
+ */
+const SUPPORTED_SIGNATURES = ['\x00\x01\x00\x00', 'OTTO', 'true', 'wOFF'];
+
+/**
+ * Known font signatures opentype.js can't parse, with a readable format name
+ */
+const UNSUPPORTED_SIGNATURES: Record<string, string> = {
+  'wOF2': 'WOFF2',
+  'ttcf': 'TrueType Collection',
+  'typ1': 'Type 1'
+};
+
+/**
+ * Raw bytes of fonts parsed by this library, for tables opentype.js doesn't keep
+ */
+const rawFontData = new WeakMap<opentype.Font, ArrayBuffer>();
+
+/**
+ * Get the raw bytes a font was parsed from, if it was loaded through this library.
+ * Variation instances share the bytes of the font they were created from.
+ */
+export function getRawFontData(font: opentype.Font): ArrayBuffer | undefined {
+  const prototype = Object.getPrototypeOf(font);
+  return rawFontData.get(font) ?? (prototype instanceof opentype.Font ? getRawFontData(prototype) : undefined);
+}
+
+/**
+ * Check whether a value is an already parsed opentype.js font
+ */
+export function isParsedFont(source: FontSource): source is opentype.Font {
+  return source instanceof opentype.Font;
+}
+
+/**
+ * Convert a Node Buffer or ArrayBuffer view into a standalone ArrayBuffer
+ */
+export function toArrayBuffer(data: Buffer | ArrayBuffer | ArrayBufferView): ArrayBuffer {
+  if (data instanceof ArrayBuffer) {
+    return data;
+  }
+  // Buffers may be slices of a larger pool, so copy only the bytes we own
+  const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  return bytes.slice().buffer;
+}
+
+/**
+ * Decode a `data:` URL into its raw bytes
+ */
+function decodeDataUrl(url: string): ArrayBuffer {
+  const commaIndex = url.indexOf(',');
+  if (commaIndex === -1) {
+    throw new FontFetchError('Invalid data URL: missing comma separator', describeFontSource(url));
+  }
+
+  const meta = url.slice(5, commaIndex);
+  const payload = url.slice(commaIndex + 1);
+  const buffer = meta.split(';').includes('base64')
+    ? Buffer.from(payload, 'base64')
+    : Buffer.from(decodeURIComponent(payload), 'binary');
+
+  return toArrayBuffer(buffer);
+}
+
+/**
+ * Check whether a string source points to an http(s) URL
+ */
+export function isRemoteUrl(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+/**
+ * Describe a font source for error messages without dumping binary data or long data URLs
+ */
+export function describeFontSource(source: FontSource): string {
+  if (typeof source === 'string') {
+    return /^data:/i.test(source) ? `${source.slice(0, source.indexOf(',') + 1 || 32)}...` : source;
+  }
+  if (isParsedFont(source)) {
+    return 'opentype.Font';
+  }
+  return source instanceof ArrayBuffer ? 'ArrayBuffer' : 'Buffer';
+}
+
+/**
+ * Read the raw font bytes for a string source (http(s) URL, file:// URL, data: URL or file path)
+ */
+export async function readFontData(source: string): Promise<ArrayBuffer> {
+  if (isRemoteUrl(source)) {
+    // Fetch the font file directly from URL
+    let fontResponse;
+    try {
+      fontResponse = await fetch(source);
+    } catch (error: any) {
+      throw new FontFetchError(`Failed to fetch font: ${error.message}`, source, { cause: error });
+    }
+
+    if (!fontResponse.ok) {
+      throw new FontFetchError(
+        `Failed to fetch font: ${fontResponse.statusText} (${fontResponse.status})`,
+        source,
+        { status: fontResponse.status }
+      );
+    }
+
+    // Get the font as an ArrayBuffer
+    return fontResponse.arrayBuffer();
+  }
+
+  if (/^data:/i.test(source)) {
+    return decodeDataUrl(source);
+  }
+
+  try {
+    const filePath = /^file:/i.test(source) ? fileURLToPath(source) : source;
+    return toArrayBuffer(await fs.readFile(filePath));
+  } catch (error: any) {
+    throw new FontFetchError(`Failed to read font: ${error.message}`, source, { cause: error });
+  }
+}
+
+/**
+ * Parse raw font bytes, checking the format signature first
+ * @throws UnsupportedFontFormatError when the data isn't a format opentype.js can read
+ * @throws FontParseError when the data looks like a font but can't be parsed
+ */
+export function parseFont(fontData: ArrayBuffer): opentype.Font {
+  const signature = Buffer.from(fontData, 0, Math.min(4, fontData.byteLength)).toString('latin1');
+
+  if (!SUPPORTED_SIGNATURES.includes(signature)) {
+    const format = UNSUPPORTED_SIGNATURES[signature];
+    throw new UnsupportedFontFormatError(
+      format ? `Unsupported font format: ${format}` : 'Unsupported font format: not a TrueType, OpenType or WOFF font',
+      format ?? signature
+    );
+  }
+
+  try {
+    // Parse the font using opentype.js
+    const font = opentype.parse(fontData);
+    rawFontData.set(font, fontData);
+    return font;
+  } catch (error: any) {
+    throw new FontParseError(`Failed to parse font: ${error.message}`, error);
+  }
+}
+
+/**
+ * Load and parse a font from any supported source
+ * @param source URL, file path, `file://` or `data:` URL, Buffer, ArrayBuffer or parsed font
+ * @returns Promise resolving to the parsed font
+ */
+export async function loadFont(source: FontSource): Promise<opentype.Font> {
+  if (isParsedFont(source)) {
+    return source;
+  }
+
+  const fontData = typeof source === 'string'
+    ? await readFontData(source)
+    : toArrayBuffer(source);
+
+  return parseFont(fontData);
+}
+
+/**
+ * Resolve the font source from text options, preferring `font` over `fontUrl`
+ */
+export function resolveFontSource(options: { font?: FontSource; fontUrl?: string }): FontSource {
+  const source = options.font ?? options.fontUrl;
+  if (source === undefined || source === null || source === '') {
+    throw new TextToSvgPathError('Either "font" or "fontUrl" must be provided');
+  }
+  return source;
+}
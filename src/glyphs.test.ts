@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import * as opentype from 'opentype.js';
+import { textToSvgPath } from './index';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+/**
+ * Render text at 100px and list its glyphs
+ */
+async function renderGlyphs(text: string) {
+  const result = await textToSvgPath({ font: FONT, text, fontSize: 100, outputFormats: ['glyphs', 'pathData'] });
+  return { glyphs: result.glyphs!, pathData: result.pathData };
+}
+
+describe('glyph output', () => {
+  it('maps each glyph back to its characters and line', async () => {
+    const { glyphs } = await renderGlyphs('AV fi\nx');
+    assert.deepEqual(glyphs.map(glyph => [glyph.text, glyph.index, glyph.line]), [
+      ['A', 0, 0], ['V', 1, 0], [' ', 2, 0], ['f', 3, 0], ['i', 4, 0], ['x', 6, 1]
+    ]);
+  });
+
+  it('names the glyphs of the font', async () => {
+    const font = opentype.loadSync(FONT);
+    const { glyphs } = await renderGlyphs('Ab');
+    assert.deepEqual(glyphs.map(glyph => glyph.glyphId), [font.charToGlyphIndex('A'), font.charToGlyphIndex('b')]);
+    assert.deepEqual(glyphs.map(glyph => glyph.glyphName), ['A', 'b']);
+  });
+
+  it('places glyphs one advance after another, on the baseline of their line', async () => {
+    const { glyphs } = await renderGlyphs('Hi\nyo');
+    assert.equal(glyphs[0].x, 0);
+    assert.equal(glyphs[1].x, glyphs[0].advanceWidth);
+    assert.equal(glyphs[1].y, glyphs[0].y);
+    assert.equal(glyphs[2].x, 0);
+    assert.ok(glyphs[2].y > glyphs[0].y);
+  });
+
+  it('draws each glyph on its own, together making up the whole path', async () => {
+    const { glyphs, pathData } = await renderGlyphs('Hi yo');
+    assert.equal(glyphs.map(glyph => glyph.pathData).join(''), pathData);
+    for (const glyph of glyphs.filter(glyph => glyph.text !== ' ')) {
+      assert.match(glyph.pathData, /^M[\d.]+ [\d.]+/);
+      assert.ok(glyph.boundingBox.x1 >= glyph.x && glyph.boundingBox.x2 <= glyph.x + glyph.advanceWidth, glyph.text);
+      // Only the descender of y reaches well below the baseline; round letters overshoot it a little
+      assert.equal(glyph.boundingBox.y2 > glyph.y + 10, glyph.text === 'y', glyph.text);
+    }
+  });
+
+  it('gives spaces an empty path and box but their advance', async () => {
+    const { glyphs } = await renderGlyphs('a b');
+    assert.equal(glyphs[1].pathData, '');
+    assert.deepEqual(glyphs[1].boundingBox, { x1: 0, y1: 0, x2: 0, y2: 0 });
+    assert.ok(glyphs[1].advanceWidth > 0);
+    assert.equal(glyphs[2].x, glyphs[1].x + glyphs[1].advanceWidth);
+  });
+});
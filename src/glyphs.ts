@@ -0,0 +1,141 @@
+import * as opentype from 'opentype.js';
+import { GlyphInfo, OutlineEffects, UnionOptions } from './types';
+import { LayoutLine } from './layout';
+import { ShapedGlyph } from './shaping';
+import { transformCommands } from './path-geometry';
+import { applyOutlineEffects, getObliqueSkew, unionPath } from './outline-effects';
+
+/**
+ * A shaped glyph placed at its final position
+ */
+export interface PlacedGlyph {
+  shaped: ShapedGlyph;
+  /** UTF-16 index of the first source character in the full text */
+  index: number;
+  /** Index of the line the glyph belongs to */
+  line: number;
+  /** Glyph origin on the baseline */
+  x: number;
+  y: number;
+  /** Clockwise rotation around the origin in degrees */
+  rotate: number;
+  /** Font size of the span the glyph belongs to, when spans set their own */
+  fontSize?: number;
+}
+
+/**
+ * Place the glyphs of laid out lines on their baselines
+ */
+export function placeLineGlyphs(lines: LayoutLine[]): PlacedGlyph[] {
+  const placed: PlacedGlyph[] = [];
+
+  lines.forEach((line, lineIndex) => {
+    for (const segment of line.segments) {
+      for (const shaped of segment.run.glyphs) {
+        placed.push({
+          shaped,
+          index: segment.start + shaped.index,
+          line: lineIndex,
+          x: segment.x + shaped.x,
+          y: segment.y + shaped.y,
+          rotate: shaped.rotate ?? 0
+        });
+      }
+    }
+  });
+
+  return placed;
+}
+
+/**
+ * Build the outline of one placed glyph, slanted when the effects ask for it
+ */
+export function buildGlyphPath(placed: PlacedGlyph, fontSize: number, effects?: OutlineEffects): opentype.Path {
+  const skew = getObliqueSkew(effects);
+  const size = placed.fontSize ?? fontSize;
+  if (!placed.rotate && !skew) {
+    return placed.shaped.glyph.getPath(placed.x, placed.y, size);
+  }
+
+  // Draw at the origin, slant in the glyph's own frame, then rotate and move into place
+  const angle = placed.rotate * Math.PI / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const path = new opentype.Path();
+  path.commands = transformCommands(placed.shaped.glyph.getPath(0, 0, size).commands, point => {
+    const x = point.x - point.y * skew;
+    return {
+      x: placed.x + x * cos - point.y * sin,
+      y: placed.y + x * sin + point.y * cos
+    };
+  });
+  return path;
+}
+
+/**
+ * Apply offset effects and then the union to a finished outline
+ */
+function finishOutline(path: opentype.Path, fontSize: number, effects?: OutlineEffects, union?: UnionOptions): opentype.Path {
+  const outline = applyOutlineEffects(path, effects, fontSize);
+  return union ? unionPath(outline, union, fontSize) : outline;
+}
+
+/**
+ * Build a single path covering all placed glyphs.
+ * Offset effects and the union apply to the combined shape, so glyphs that grow into each other merge.
+ */
+export function buildPlacedPath(glyphs: PlacedGlyph[], fontSize: number, effects?: OutlineEffects, union?: UnionOptions): opentype.Path {
+  const path = new opentype.Path();
+  for (const placed of glyphs) {
+    path.extend(buildGlyphPath(placed, fontSize, effects));
+  }
+  return finishOutline(path, fontSize, effects, union);
+}
+
+/**
+ * Collect per-glyph paths and metrics for placed glyphs
+ */
+export function collectGlyphs(glyphs: PlacedGlyph[], fontSize: number, effects?: OutlineEffects, union?: UnionOptions): GlyphInfo[] {
+  return glyphs.map(placed => {
+    const { shaped, x, y } = placed;
+    const path = finishOutline(buildGlyphPath(placed, fontSize, effects), fontSize, effects, union);
+    const bbox = path.getBoundingBox();
+    // Blank glyphs such as spaces have no outline, so give them an empty box at the pen position
+    const boundingBox = bbox.isEmpty()
+      ? { x1: x, y1: y, x2: x, y2: y }
+      : { x1: bbox.x1, y1: bbox.y1, x2: bbox.x2, y2: bbox.y2 };
+
+    const info: GlyphInfo = {
+      text: shaped.text,
+      index: placed.index,
+      line: placed.line,
+      glyphId: shaped.glyph.index,
+      glyphName: shaped.glyph.name ?? undefined,
+      pathData: path.toPathData(2),
+      advanceWidth: shaped.advance,
+      x,
+      y,
+      boundingBox
+    };
+
+    if (placed.rotate) {
+      info.rotate = placed.rotate;
+    }
+    return info;
+  });
+}
+
+/**
+ * List the distinct characters rendered with the .notdef glyph, in order of appearance
+ */
+export function findMissingCharacters(glyphs: PlacedGlyph[]): string[] {
+  const missing = new Set<string>();
+  // Glyphs are placed in display order, which differs from the text's in right-to-left runs
+  const inTextOrder = [...glyphs].sort((a, b) => a.line - b.line || a.index - b.index);
+  for (const placed of inTextOrder) {
+    if (placed.shaped.glyph.index === 0) {
+      Array.from(placed.shaped.text).forEach(char => missing.add(char));
+    }
+  }
+  return Array.from(missing);
+}
@@ -0,0 +1,744 @@
+import * as opentype from 'opentype.js';
+import { FontFeatures } from './types';
+import { getRawFontData } from './font-loader';
+import { readSfntTable } from './sfnt';
+import {
+  ClassDefTable, ContextRule, ContextSubtable, CoverageTable, FeatureLookup, FeatureScript, GLYPH_CLASS_MARK,
+  LayoutGlyph, LayoutTable, LookupEngine, LookupRecord, LookupTable,
+  classOf, coverageIndex, getGlyphDefinitions, getLayoutTable, parseClassDef, parseCoverage, selectLookups
+} from './opentype-layout';
+
+/**
+ * A glyph in the positioning buffer, with its placement in font units
+ */
+export interface PositionedSlot extends LayoutGlyph {
+  xAdvance: number;
+  xOffset: number;
+  yOffset: number;
+  /** For marks that followed a ligature component, the index of that component */
+  component?: number;
+}
+
+/**
+ * A positioning adjustment; missing fields are zero
+ */
+interface ValueRecord {
+  xPlacement?: number;
+  yPlacement?: number;
+  xAdvance?: number;
+  yAdvance?: number;
+}
+
+/**
+ * An attachment point in font units
+ */
+interface Anchor {
+  x: number;
+  y: number;
+}
+
+/**
+ * Anchors for each mark class, as held by a base glyph, ligature component or mark
+ */
+type AnchorRow = Array<Anchor | undefined>;
+
+/**
+ * The adjustments of the two glyphs in a pair
+ */
+interface PairValue {
+  value1?: ValueRecord;
+  value2?: ValueRecord;
+}
+
+/**
+ * Single adjustment: one value for every covered glyph, or a value for each
+ */
+type SinglePositioning =
+  | { posFormat: 1; coverage: CoverageTable; value?: ValueRecord }
+  | { posFormat: 2; coverage: CoverageTable; values: Array<ValueRecord | undefined> };
+
+/**
+ * Pair adjustment: values for each pair of glyphs, or for each pair of glyph classes
+ */
+type PairPositioning =
+  | {
+    posFormat: 1; coverage: CoverageTable; valueFormat1: number; valueFormat2: number;
+    pairSets: Array<Array<PairValue & { secondGlyph: number }>>;
+  }
+  | {
+    posFormat: 2; coverage: CoverageTable; valueFormat1: number; valueFormat2: number;
+    classDef1: ClassDefTable; classDef2: ClassDefTable; class1Count: number; class2Count: number;
+    classRecords: PairValue[][];
+  };
+
+/**
+ * Cursive attachment: the entry and exit anchors of each covered glyph
+ */
+interface CursivePositioning {
+  posFormat: number;
+  coverage: CoverageTable;
+  entryExits: Array<{ entry?: Anchor; exit?: Anchor }>;
+}
+
+/**
+ * The marks of a mark attachment subtable and the glyphs they attach to
+ */
+interface MarkPositioning {
+  posFormat: number;
+  markCoverage: CoverageTable;
+  baseCoverage: CoverageTable;
+  marks: Array<{ markClass: number; anchor?: Anchor }>;
+}
+
+/**
+ * Mark-to-base or mark-to-mark attachment: the anchors of each base or mark
+ */
+interface MarkToBasePositioning extends MarkPositioning {
+  bases: AnchorRow[];
+}
+
+/**
+ * Mark-to-ligature attachment: the anchors of each ligature component
+ */
+interface MarkToLigaturePositioning extends MarkPositioning {
+  ligatures: AnchorRow[][];
+}
+
+/**
+ * A GPOS subtable of any supported type
+ */
+type PositioningSubtable =
+  | SinglePositioning | PairPositioning | CursivePositioning | MarkToBasePositioning | MarkToLigaturePositioning
+  | ContextSubtable;
+
+/**
+ * A GPOS lookup with extensions unwrapped. Subtables of unsupported types are left undefined.
+ */
+type PositioningLookup = LookupTable<PositioningSubtable | undefined>;
+
+/**
+ * How a glyph was attached to an earlier or later one
+ */
+type AttachType = 'mark' | 'cursive';
+
+/**
+ * Lookup flag bit for cursive attachment running right to left
+ */
+const RIGHT_TO_LEFT = 0x1;
+
+/**
+ * Lookup lists already read from the raw bytes of each font
+ */
+const lookupCache = new WeakMap<opentype.Font, PositioningLookup[]>();
+
+/**
+ * Count the bytes of a value record with the given format
+ */
+function valueRecordSize(valueFormat: number): number {
+  let size = 0;
+  for (let bit = valueFormat; bit; bit >>= 1) {
+    size += (bit & 1) * 2;
+  }
+  return size;
+}
+
+/**
+ * Read a value record; device table offsets are skipped
+ */
+function parseValueRecord(view: DataView, offset: number, valueFormat: number): ValueRecord | undefined {
+  if (!valueFormat) {
+    return undefined;
+  }
+  const value: ValueRecord = {};
+  let position = offset;
+  if (valueFormat & 0x1) { value.xPlacement = view.getInt16(position); position += 2; }
+  if (valueFormat & 0x2) { value.yPlacement = view.getInt16(position); position += 2; }
+  if (valueFormat & 0x4) { value.xAdvance = view.getInt16(position); position += 2; }
+  if (valueFormat & 0x8) { value.yAdvance = view.getInt16(position); }
+  return value;
+}
+
+/**
+ * Read an anchor table; device and contour point refinements are ignored
+ */
+function parseAnchor(view: DataView, base: number, offset: number): Anchor | undefined {
+  return offset ? { x: view.getInt16(base + offset + 2), y: view.getInt16(base + offset + 4) } : undefined;
+}
+
+/**
+ * Read a list of 16-bit values
+ */
+function readUint16s(view: DataView, offset: number, count: number): number[] {
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    values.push(view.getUint16(offset + i * 2));
+  }
+  return values;
+}
+
+/**
+ * Read the lookup records of a contextual rule
+ */
+function parseLookupRecords(view: DataView, offset: number, count: number): LookupRecord[] {
+  const records: LookupRecord[] = [];
+  for (let i = 0; i < count; i++) {
+    records.push({ sequenceIndex: view.getUint16(offset + i * 4), lookupListIndex: view.getUint16(offset + i * 4 + 2) });
+  }
+  return records;
+}
+
+/**
+ * Read a list of offsets to sets of rules, keeping empty entries for null offsets
+ */
+function parseRuleSets(
+  view: DataView, offset: number, countOffset: number, parseRule: (ruleOffset: number) => ContextRule
+): ContextRule[][] {
+  const count = view.getUint16(offset + countOffset);
+  const sets: ContextRule[][] = [];
+  for (let i = 0; i < count; i++) {
+    const setOffset = view.getUint16(offset + countOffset + 2 + i * 2);
+    if (!setOffset) {
+      sets.push([]);
+      continue;
+    }
+    const setStart = offset + setOffset;
+    const ruleOffsets = readUint16s(view, setStart + 2, view.getUint16(setStart));
+    sets.push(ruleOffsets.map(ruleOffset => parseRule(setStart + ruleOffset)));
+  }
+  return sets;
+}
+
+/**
+ * Read a mark array: the class and anchor of each covered mark
+ */
+function parseMarkArray(view: DataView, offset: number): MarkPositioning['marks'] {
+  const count = view.getUint16(offset);
+  const marks: MarkPositioning['marks'] = [];
+  for (let i = 0; i < count; i++) {
+    const record = offset + 2 + i * 4;
+    marks.push({ markClass: view.getUint16(record), anchor: parseAnchor(view, offset, view.getUint16(record + 2)) });
+  }
+  return marks;
+}
+
+/**
+ * Read an array of anchor records with one anchor per mark class, as used for bases, ligature components and marks
+ */
+function parseAnchorMatrix(view: DataView, offset: number, classCount: number): AnchorRow[] {
+  const count = view.getUint16(offset);
+  const rows: AnchorRow[] = [];
+  for (let i = 0; i < count; i++) {
+    const record = offset + 2 + i * classCount * 2;
+    rows.push(readUint16s(view, record, classCount).map(anchorOffset => parseAnchor(view, offset, anchorOffset)));
+  }
+  return rows;
+}
+
+/**
+ * Read a GPOS subtable into a shape matching opentype.js where it has one,
+ * so the positioning lookups it already parses can be applied the same way
+ */
+function parseSubtable(view: DataView, lookupType: number, offset: number): PositioningSubtable | undefined {
+  const posFormat = view.getUint16(offset);
+  const coverageAt = (relative: number) => parseCoverage(view, offset + view.getUint16(offset + relative));
+
+  switch (lookupType) {
+    case 1: {
+      const valueFormat = view.getUint16(offset + 4);
+      if (posFormat === 1) {
+        return { posFormat: 1, coverage: coverageAt(2), value: parseValueRecord(view, offset + 6, valueFormat) };
+      }
+      const size = valueRecordSize(valueFormat);
+      const values = Array.from({ length: view.getUint16(offset + 6) },
+        (_, i) => parseValueRecord(view, offset + 8 + i * size, valueFormat));
+      return { posFormat: 2, coverage: coverageAt(2), values };
+    }
+
+    case 2: {
+      const valueFormat1 = view.getUint16(offset + 4);
+      const valueFormat2 = view.getUint16(offset + 6);
+      const size1 = valueRecordSize(valueFormat1);
+      const size2 = valueRecordSize(valueFormat2);
+      if (posFormat === 1) {
+        const pairSets = readUint16s(view, offset + 10, view.getUint16(offset + 8)).map(setOffset => {
+          const setStart = offset + setOffset;
+          return Array.from({ length: view.getUint16(setStart) }, (_, i) => {
+            const record = setStart + 2 + i * (2 + size1 + size2);
+            return {
+              secondGlyph: view.getUint16(record),
+              value1: parseValueRecord(view, record + 2, valueFormat1),
+              value2: parseValueRecord(view, record + 2 + size1, valueFormat2)
+            };
+          });
+        });
+        return { posFormat: 1, coverage: coverageAt(2), valueFormat1, valueFormat2, pairSets };
+      }
+      const class1Count = view.getUint16(offset + 12);
+      const class2Count = view.getUint16(offset + 14);
+      const classRecords = Array.from({ length: class1Count }, (_, c1) => Array.from({ length: class2Count }, (_, c2) => {
+        const record = offset + 16 + (c1 * class2Count + c2) * (size1 + size2);
+        return {
+          value1: parseValueRecord(view, record, valueFormat1),
+          value2: parseValueRecord(view, record + size1, valueFormat2)
+        };
+      }));
+      return {
+        posFormat: 2, coverage: coverageAt(2), valueFormat1, valueFormat2,
+        classDef1: parseClassDef(view, offset + view.getUint16(offset + 8)),
+        classDef2: parseClassDef(view, offset + view.getUint16(offset + 10)),
+        class1Count, class2Count, classRecords
+      };
+    }
+
+    case 3: {
+      const entryExits = Array.from({ length: view.getUint16(offset + 4) }, (_, i) => {
+        const record = offset + 6 + i * 4;
+        return {
+          entry: parseAnchor(view, offset, view.getUint16(record)),
+          exit: parseAnchor(view, offset, view.getUint16(record + 2))
+        };
+      });
+      return { posFormat, coverage: coverageAt(2), entryExits };
+    }
+
+    case 4:
+    case 5:
+    case 6: {
+      const classCount = view.getUint16(offset + 6);
+      const marks = parseMarkArray(view, offset + view.getUint16(offset + 8));
+      const attachOffset = offset + view.getUint16(offset + 10);
+      if (lookupType !== 5) {
+        return {
+          posFormat, markCoverage: coverageAt(2), baseCoverage: coverageAt(4), marks,
+          bases: parseAnchorMatrix(view, attachOffset, classCount)
+        };
+      }
+      const ligatures = readUint16s(view, attachOffset + 2, view.getUint16(attachOffset))
+        .map(ligatureOffset => parseAnchorMatrix(view, attachOffset + ligatureOffset, classCount));
+      return { posFormat, markCoverage: coverageAt(2), baseCoverage: coverageAt(4), marks, ligatures };
+    }
+
+    case 7: {
+      if (posFormat === 1) {
+        return {
+          posFormat, coverage: coverageAt(2),
+          ruleSets: parseRuleSets(view, offset, 4, rule => {
+            const glyphCount = view.getUint16(rule);
+            return {
+              input: readUint16s(view, rule + 4, glyphCount - 1),
+              lookupRecords: parseLookupRecords(view, rule + 2 + glyphCount * 2, view.getUint16(rule + 2))
+            };
+          })
+        };
+      }
+      if (posFormat === 2) {
+        return {
+          posFormat, coverage: coverageAt(2), classDef: parseClassDef(view, offset + view.getUint16(offset + 4)),
+          classSets: parseRuleSets(view, offset, 6, rule => {
+            const glyphCount = view.getUint16(rule);
+            return {
+              classes: readUint16s(view, rule + 4, glyphCount - 1),
+              lookupRecords: parseLookupRecords(view, rule + 2 + glyphCount * 2, view.getUint16(rule + 2))
+            };
+          })
+        };
+      }
+      const glyphCount = view.getUint16(offset + 2);
+      return {
+        posFormat,
+        coverages: readUint16s(view, offset + 6, glyphCount).map(coverage => parseCoverage(view, offset + coverage)),
+        lookupRecords: parseLookupRecords(view, offset + 6 + glyphCount * 2, view.getUint16(offset + 4))
+      };
+    }
+
+    case 8: {
+      const parseChainRule = (rule: number) => {
+        const backtrackCount = view.getUint16(rule);
+        const inputAt = rule + 2 + backtrackCount * 2;
+        const inputCount = view.getUint16(inputAt);
+        const lookaheadAt = inputAt + inputCount * 2;
+        const lookaheadCount = view.getUint16(lookaheadAt);
+        const recordsAt = lookaheadAt + 2 + lookaheadCount * 2;
+        return {
+          backtrack: readUint16s(view, rule + 2, backtrackCount),
+          input: readUint16s(view, inputAt + 2, inputCount - 1),
+          lookahead: readUint16s(view, lookaheadAt + 2, lookaheadCount),
+          lookupRecords: parseLookupRecords(view, recordsAt + 2, view.getUint16(recordsAt))
+        };
+      };
+      if (posFormat === 1) {
+        return { posFormat, coverage: coverageAt(2), chainRuleSets: parseRuleSets(view, offset, 4, parseChainRule) };
+      }
+      if (posFormat === 2) {
+        return {
+          posFormat, coverage: coverageAt(2),
+          backtrackClassDef: parseClassDef(view, offset + view.getUint16(offset + 4)),
+          inputClassDef: parseClassDef(view, offset + view.getUint16(offset + 6)),
+          lookaheadClassDef: parseClassDef(view, offset + view.getUint16(offset + 8)),
+          chainClassSet: parseRuleSets(view, offset, 10, parseChainRule)
+        };
+      }
+      const readCoverages = (at: number): [CoverageTable[], number] => {
+        const count = view.getUint16(at);
+        return [readUint16s(view, at + 2, count).map(coverage => parseCoverage(view, offset + coverage)), at + 2 + count * 2];
+      };
+      const [backtrackCoverage, inputAt] = readCoverages(offset + 2);
+      const [inputCoverage, lookaheadAt] = readCoverages(inputAt);
+      const [lookaheadCoverage, recordsAt] = readCoverages(lookaheadAt);
+      return {
+        posFormat, backtrackCoverage, inputCoverage, lookaheadCoverage,
+        lookupRecords: parseLookupRecords(view, recordsAt + 2, view.getUint16(recordsAt))
+      };
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Read every lookup of a GPOS table. Extension lookups are unwrapped,
+ * so each lookup reports the type of the subtables it holds.
+ */
+function parseLookups(view: DataView): PositioningLookup[] {
+  const lookupList = view.getUint16(8);
+  const lookups: PositioningLookup[] = [];
+
+  for (const lookupOffset of readUint16s(view, lookupList + 2, view.getUint16(lookupList))) {
+    const start = lookupList + lookupOffset;
+    const declaredType = view.getUint16(start);
+    let lookupType = declaredType;
+    const lookupFlag = view.getUint16(start + 2);
+    const subtableCount = view.getUint16(start + 4);
+    const subtables: PositioningLookup['subtables'] = [];
+
+    for (const subtableOffset of readUint16s(view, start + 6, subtableCount)) {
+      let offset = start + subtableOffset;
+      if (declaredType === 9) {
+        lookupType = view.getUint16(offset + 2);
+        offset += view.getUint32(offset + 4);
+      }
+      subtables.push(parseSubtable(view, lookupType, offset));
+    }
+
+    const markFilteringSet = lookupFlag & 0x10 ? view.getUint16(start + 6 + subtableCount * 2) : undefined;
+    lookups.push({ lookupType, lookupFlag, markFilteringSet, subtables });
+  }
+  return lookups;
+}
+
+/**
+ * Get the GPOS lookups of a font. They're read from the raw font data when available,
+ * since opentype.js only parses single and pair adjustments; otherwise its parsed
+ * lookups are used as far as they go.
+ */
+function getLookups(font: opentype.Font): PositioningLookup[] {
+  const cached = lookupCache.get(font);
+  if (cached) {
+    return cached;
+  }
+
+  const fontData = getRawFontData(font);
+  const view = fontData && readSfntTable(fontData, 'GPOS');
+  const lookups = view
+    ? parseLookups(view)
+    : (getLayoutTable(font, 'gpos')?.lookups ?? []).map(lookup =>
+      lookup.lookupType <= 2 ? lookup as PositioningLookup : { ...lookup, subtables: [] });
+  lookupCache.set(font, lookups);
+  return lookups;
+}
+
+/**
+ * Applies GPOS lookups to a buffer in logical order, following the model HarfBuzz uses:
+ * adjustments change advances and offsets in place, and attachments are resolved
+ * into offsets once every lookup has run.
+ */
+export class PositioningEngine<T extends PositionedSlot = PositionedSlot> extends LookupEngine<T> {
+  private readonly gpos: LayoutTable | undefined;
+  private readonly lookups: PositioningLookup[];
+  /** For each attached glyph, the position of the glyph it hangs off */
+  private parents: number[] = [];
+  private attachTypes: Array<AttachType | undefined> = [];
+
+  /**
+   * @param rtl Whether the buffer holds right-to-left text, which changes how attachments add up
+   */
+  constructor(font: opentype.Font, private readonly rtl = false) {
+    super(getGlyphDefinitions(font));
+    this.gpos = getLayoutTable(font, 'gpos');
+    this.lookups = this.gpos ? getLookups(font) : [];
+  }
+
+  /**
+   * Collect the lookups of enabled features in lookup list order
+   */
+  selectLookups(features: FontFeatures, script: FeatureScript): FeatureLookup[] {
+    return selectLookups(this.gpos, features, script);
+  }
+
+  /**
+   * Run the lookups, then turn attachments into offsets
+   * @param zeroMarks Give glyphs classified as marks no advance width
+   */
+  position(buffer: T[], lookups: FeatureLookup[], zeroMarks: boolean): void {
+    this.parents = buffer.map(() => -1);
+    this.attachTypes = buffer.map(() => undefined);
+    this.apply(buffer, lookups);
+
+    if (zeroMarks) {
+      for (const glyph of buffer) {
+        if (this.glyphClass(glyph.id) === GLYPH_CLASS_MARK) {
+          glyph.xAdvance = 0;
+        }
+      }
+    }
+
+    const resolved = buffer.map(() => false);
+    buffer.forEach((_, i) => this.resolveAttachment(buffer, i, resolved));
+  }
+
+  protected getLookup(index: number): PositioningLookup | undefined {
+    return this.lookups[index];
+  }
+
+  protected applyLookupAt(buffer: T[], lookupIndex: number, position: number, _alternate: number, depth: number): number {
+    const table = this.getLookup(lookupIndex);
+    if (!table || position >= buffer.length) {
+      return -1;
+    }
+
+    for (const subtable of table.subtables) {
+      if (!subtable) {
+        continue;
+      }
+      const next = this.applySubtable(buffer, table, subtable, position, depth);
+      if (next >= 0) {
+        return next;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Apply one subtable at a buffer position
+   * @returns The position to continue from, or -1 when the subtable doesn't match
+   */
+  private applySubtable(
+    buffer: T[], table: PositioningLookup, subtable: PositioningSubtable, position: number, depth: number
+  ): number {
+    const glyph = buffer[position];
+
+    switch (table.lookupType) {
+      case 1: {
+        const single = subtable as SinglePositioning;
+        const index = coverageIndex(single.coverage, glyph.id);
+        if (index < 0) {
+          return -1;
+        }
+        this.adjust(glyph, single.posFormat === 1 ? single.value : single.values[index]);
+        return position + 1;
+      }
+
+      case 2:
+        return this.applyPair(buffer, table, subtable as PairPositioning, position);
+
+      case 3:
+        return this.applyCursive(buffer, table, subtable as CursivePositioning, position);
+
+      case 4:
+      case 5:
+      case 6:
+        return this.applyMark(buffer, table, subtable as MarkPositioning, position);
+
+      case 7:
+      case 8:
+        return this.applyContext(buffer, table, table.lookupType === 8, subtable as ContextSubtable, position, depth);
+
+      default:
+        return -1;
+    }
+  }
+
+  /**
+   * Add a value record to a glyph's placement
+   */
+  private adjust(glyph: T, value: ValueRecord | undefined): void {
+    if (!value) {
+      return;
+    }
+    glyph.xOffset += value.xPlacement ?? 0;
+    glyph.yOffset += value.yPlacement ?? 0;
+    glyph.xAdvance += value.xAdvance ?? 0;
+  }
+
+  /**
+   * Adjust a pair of glyphs, such as for kerning
+   */
+  private applyPair(buffer: T[], table: PositioningLookup, subtable: PairPositioning, position: number): number {
+    const index = coverageIndex(subtable.coverage, buffer[position].id);
+    const next = index < 0 ? undefined : this.matchForward(buffer, table, position + 1, 1, () => true)?.[0];
+    if (next === undefined) {
+      return -1;
+    }
+
+    const second = buffer[next].id;
+    let record: PairValue | undefined;
+    if (subtable.posFormat === 1) {
+      record = subtable.pairSets[index].find(pair => pair.secondGlyph === second);
+    } else {
+      const class2 = classOf(subtable.classDef2, second);
+      record = subtable.classRecords[classOf(subtable.classDef1, buffer[position].id)]?.[class2];
+    }
+    if (!record) {
+      return -1;
+    }
+
+    this.adjust(buffer[position], record.value1);
+    this.adjust(buffer[next], record.value2);
+    // A pair that also moves the second glyph consumes it
+    return subtable.valueFormat2 ? next + 1 : next;
+  }
+
+  /**
+   * Join a glyph's entry anchor to the exit anchor of the glyph before it
+   */
+  private applyCursive(buffer: T[], table: PositioningLookup, subtable: CursivePositioning, position: number): number {
+    const current = subtable.entryExits[coverageIndex(subtable.coverage, buffer[position].id)];
+    if (!current?.entry) {
+      return -1;
+    }
+
+    let previous = position - 1;
+    while (previous >= 0 && this.isIgnored(table, buffer[previous].id)) {
+      previous--;
+    }
+    const previousIndex = previous < 0 ? -1 : coverageIndex(subtable.coverage, buffer[previous].id);
+    const exit = previousIndex < 0 ? undefined : subtable.entryExits[previousIndex]?.exit;
+    if (!exit) {
+      return -1;
+    }
+
+    const first = buffer[previous];
+    const second = buffer[position];
+    const entry: Anchor = current.entry;
+    if (this.rtl) {
+      const shift = exit.x + first.xOffset;
+      first.xAdvance -= shift;
+      first.xOffset -= shift;
+      second.xAdvance = entry.x + second.xOffset;
+    } else {
+      first.xAdvance = exit.x + first.xOffset;
+      const shift = entry.x + second.xOffset;
+      second.xAdvance -= shift;
+      second.xOffset -= shift;
+    }
+
+    // The glyph later in the line hangs off the earlier one unless the lookup says otherwise
+    let child = position;
+    let parent = previous;
+    let yOffset = exit.y - entry.y;
+    if (!(table.lookupFlag & RIGHT_TO_LEFT)) {
+      child = previous;
+      parent = position;
+      yOffset = -yOffset;
+    }
+    // Break a chain that would point back at the new parent
+    if (this.parents[parent] === child) {
+      this.parents[parent] = -1;
+      this.attachTypes[parent] = undefined;
+    }
+    this.parents[child] = parent;
+    this.attachTypes[child] = 'cursive';
+    buffer[child].yOffset = yOffset;
+    return position + 1;
+  }
+
+  /**
+   * Attach a mark to a base glyph, ligature component or another mark
+   */
+  private applyMark(buffer: T[], table: PositioningLookup, subtable: MarkPositioning, position: number): number {
+    const mark = buffer[position];
+    const markIndex = coverageIndex(subtable.markCoverage, mark.id);
+    if (markIndex < 0) {
+      return -1;
+    }
+
+    // Bases and ligatures are the nearest preceding non-mark; mark-to-mark uses the glyph right before
+    let target = position - 1;
+    if (table.lookupType === 6) {
+      while (target >= 0 && this.isIgnored(table, buffer[target].id)) {
+        target--;
+      }
+      if (target < 0 || this.glyphClass(buffer[target].id) !== GLYPH_CLASS_MARK) {
+        return -1;
+      }
+    } else {
+      while (target >= 0 && this.glyphClass(buffer[target].id) === GLYPH_CLASS_MARK) {
+        target--;
+      }
+    }
+    const baseIndex = target < 0 ? -1 : coverageIndex(subtable.baseCoverage, buffer[target].id);
+    if (baseIndex < 0) {
+      return -1;
+    }
+
+    const { markClass, anchor: markAnchor } = subtable.marks[markIndex];
+    let baseAnchor: Anchor | undefined;
+    if (table.lookupType === 5) {
+      const components = (subtable as MarkToLigaturePositioning).ligatures[baseIndex] ?? [];
+      const component = Math.min(mark.component ?? components.length - 1, components.length - 1);
+      baseAnchor = components[component]?.[markClass];
+    } else {
+      baseAnchor = (subtable as MarkToBasePositioning).bases[baseIndex]?.[markClass];
+    }
+    if (!markAnchor || !baseAnchor) {
+      return -1;
+    }
+
+    mark.xOffset = baseAnchor.x - markAnchor.x;
+    mark.yOffset = baseAnchor.y - markAnchor.y;
+    this.parents[position] = target;
+    this.attachTypes[position] = 'mark';
+    return position + 1;
+  }
+
+  /**
+   * Add the position of the glyph an attached glyph hangs off to its offsets
+   */
+  private resolveAttachment(buffer: T[], i: number, resolved: boolean[]): void {
+    const parent = this.parents[i];
+    if (resolved[i] || parent < 0) {
+      resolved[i] = true;
+      return;
+    }
+    resolved[i] = true;
+    this.resolveAttachment(buffer, parent, resolved);
+
+    const glyph = buffer[i];
+    glyph.yOffset += buffer[parent].yOffset;
+    if (this.attachTypes[i] === 'cursive') {
+      return;
+    }
+
+    glyph.xOffset += buffer[parent].xOffset;
+    // Offsets are relative to the pen position, so step back over the advances in between
+    for (let k = parent; k < i; k++) {
+      glyph.xOffset += this.rtl ? buffer[k + 1].xAdvance : -buffer[k].xAdvance;
+    }
+  }
+}
+
+/**
+ * Check whether a font has GPOS lookups for a feature
+ */
+export function hasGposFeature(font: opentype.Font, feature: string): boolean {
+  return (getLayoutTable(font, 'gpos')?.features ?? []).some(record => record.tag === feature);
+}
+
+/**
+ * List the GPOS feature tags a font has, sorted alphabetically
+ */
+export function getGposFeatureTags(font: opentype.Font): string[] {
+  const features = getLayoutTable(font, 'gpos')?.features ?? [];
+  return Array.from(new Set(features.map(feature => feature.tag))).sort();
+}
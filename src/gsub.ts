@@ -0,0 +1,280 @@
+import * as opentype from 'opentype.js';
+import { FontFeatures } from './types';
+import {
+  ContextSubtable, CoverageTable, FeatureLookup, FeatureScript, LayoutGlyph, LayoutTable, LookupEngine, LookupTable,
+  coverageIndex, getGlyphDefinitions, getLayoutTable, selectLookups
+} from './opentype-layout';
+
+/**
+ * A glyph in the substitution buffer
+ */
+export interface GlyphSlot extends LayoutGlyph {
+  /** Number of source code points the glyph renders (0 for glyphs merged into a neighbour's cluster) */
+  length: number;
+  /** For marks skipped over while forming a ligature, the index of the component they belong to */
+  component?: number;
+  /** Number of components, for glyphs formed by a ligature substitution */
+  componentCount?: number;
+}
+
+/**
+ * Single substitution: a delta added to covered glyph IDs, or a substitute for each covered glyph
+ */
+type SingleSubstitution =
+  | { substFormat: 1; coverage: CoverageTable; deltaGlyphId: number }
+  | { substFormat: 2; coverage: CoverageTable; substitute: number[] };
+
+/**
+ * Multiple substitution: a sequence of glyphs for each covered glyph
+ */
+interface MultipleSubstitution {
+  coverage: CoverageTable;
+  sequences: number[][];
+}
+
+/**
+ * Alternate substitution: a set of alternates for each covered glyph
+ */
+interface AlternateSubstitution {
+  coverage: CoverageTable;
+  alternateSets: number[][];
+}
+
+/**
+ * Ligature substitution: for each covered first glyph, the ligatures starting with it
+ */
+interface LigatureSubstitution {
+  coverage: CoverageTable;
+  ligatureSets: Array<Array<{ ligGlyph: number; components: number[] }>>;
+}
+
+/**
+ * Reverse chaining contextual single substitution
+ */
+interface ReverseChainSubstitution {
+  coverage: CoverageTable;
+  backtrackCoverage: CoverageTable[];
+  lookaheadCoverage: CoverageTable[];
+  substitutes: number[];
+}
+
+/**
+ * A GSUB subtable of any type but extension
+ */
+type SubstitutionSubtable =
+  | SingleSubstitution | MultipleSubstitution | AlternateSubstitution | LigatureSubstitution
+  | ContextSubtable | ReverseChainSubstitution;
+
+/**
+ * Extension substitution: a subtable of another type
+ */
+interface ExtensionSubstitution {
+  lookupType: number;
+  extension: SubstitutionSubtable;
+}
+
+/**
+ * A GSUB lookup; extension lookups (type 7) hold extension subtables
+ */
+type SubstitutionLookup = LookupTable<SubstitutionSubtable | ExtensionSubstitution>;
+
+/**
+ * List the GSUB feature tags a font has, sorted alphabetically
+ */
+export function getGsubFeatureTags(font: opentype.Font): string[] {
+  const features = getLayoutTable(font, 'gsub')?.features ?? [];
+  return Array.from(new Set(features.map(feature => feature.tag))).sort();
+}
+
+/**
+ * Applies GSUB lookups to a glyph buffer.
+ * Covers every substitution lookup type; contextual lookups run their nested lookups in place.
+ * Extra properties of buffer entries are carried over to the glyphs that replace them.
+ */
+export class SubstitutionEngine<T extends GlyphSlot = GlyphSlot> extends LookupEngine<T> {
+  private readonly gsub: LayoutTable | undefined;
+
+  constructor(font: opentype.Font) {
+    super(getGlyphDefinitions(font));
+    this.gsub = getLayoutTable(font, 'gsub');
+  }
+
+  /**
+   * Collect the lookups of enabled features in lookup list order
+   * @param maskedFeatures Features to apply only to glyphs that list them in their masks
+   */
+  selectLookups(features: FontFeatures, script: FeatureScript, maskedFeatures?: string[]): FeatureLookup[] {
+    return selectLookups(this.gsub, features, script, maskedFeatures);
+  }
+
+  /**
+   * Check whether a feature would change a sequence of glyphs
+   */
+  wouldSubstitute(glyphIds: number[], feature: string, script: FeatureScript): boolean {
+    const lookups = this.selectLookups({ [feature]: true }, script);
+    if (lookups.length === 0) {
+      return false;
+    }
+    const buffer = glyphIds.map(id => ({ id, length: 1 }) as T);
+    this.apply(buffer, lookups);
+    return buffer.length !== glyphIds.length || buffer.some((slot, i) => slot.id !== glyphIds[i]);
+  }
+
+  protected getLookup(index: number): SubstitutionLookup | undefined {
+    return this.gsub?.lookups[index] as SubstitutionLookup | undefined;
+  }
+
+  protected isReverse(table: SubstitutionLookup): boolean {
+    return table.lookupType === 8
+      || (table.lookupType === 7 && (table.subtables[0] as ExtensionSubstitution | undefined)?.lookupType === 8);
+  }
+
+  protected applyLookupAt(buffer: T[], lookupIndex: number, position: number, alternate: number, depth: number): number {
+    const table = this.getLookup(lookupIndex);
+    if (!table || position >= buffer.length) {
+      return -1;
+    }
+
+    for (const wrapped of table.subtables) {
+      // Extension subtables wrap a subtable of another type
+      const extension = table.lookupType === 7 ? wrapped as ExtensionSubstitution : undefined;
+      const lookupType = extension ? extension.lookupType : table.lookupType;
+      const subtable = extension ? extension.extension : wrapped as SubstitutionSubtable;
+      const next = this.applySubtable(buffer, table, lookupType, subtable, position, alternate, depth);
+      if (next >= 0) {
+        return next;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Apply one subtable at a buffer position
+   * @returns The position to continue from, or -1 when the subtable doesn't match
+   */
+  private applySubtable(
+    buffer: T[], table: SubstitutionLookup, lookupType: number, subtable: SubstitutionSubtable, position: number,
+    alternate: number, depth: number
+  ): number {
+    const glyphId = buffer[position].id;
+
+    switch (lookupType) {
+      case 1: {
+        const single = subtable as SingleSubstitution;
+        const index = coverageIndex(single.coverage, glyphId);
+        if (index < 0) {
+          return -1;
+        }
+        buffer[position].id = single.substFormat === 1
+          ? (glyphId + single.deltaGlyphId) & 0xffff
+          : single.substitute[index];
+        return position + 1;
+      }
+
+      case 2: {
+        const multiple = subtable as MultipleSubstitution;
+        const index = coverageIndex(multiple.coverage, glyphId);
+        if (index < 0) {
+          return -1;
+        }
+        const sequence = multiple.sequences[index];
+        const slots = sequence.map((id, k) => ({ ...buffer[position], id, length: k === 0 ? buffer[position].length : 0 }));
+        buffer.splice(position, 1, ...slots);
+        return position + slots.length;
+      }
+
+      case 3: {
+        const { coverage, alternateSets } = subtable as AlternateSubstitution;
+        const index = coverageIndex(coverage, glyphId);
+        const alternates: number[] | undefined = alternateSets[index];
+        if (index < 0 || !alternates || alternates.length === 0) {
+          return -1;
+        }
+        buffer[position].id = alternates[Math.min(Math.max(alternate, 1), alternates.length) - 1];
+        return position + 1;
+      }
+
+      case 4:
+        return this.applyLigature(buffer, table, subtable as LigatureSubstitution, position);
+
+      case 5:
+      case 6:
+        return this.applyContext(buffer, table, lookupType === 6, subtable as ContextSubtable, position, depth);
+
+      case 8: {
+        const reverse = subtable as ReverseChainSubstitution;
+        const index = coverageIndex(reverse.coverage, glyphId);
+        if (index < 0) {
+          return -1;
+        }
+        const backtrack = this.matchBackward(buffer, table, position, reverse.backtrackCoverage.length,
+          (id, k) => coverageIndex(reverse.backtrackCoverage[k], id) >= 0);
+        const lookahead = this.matchForward(buffer, table, position + 1, reverse.lookaheadCoverage.length,
+          (id, k) => coverageIndex(reverse.lookaheadCoverage[k], id) >= 0);
+        if (!backtrack || !lookahead) {
+          return -1;
+        }
+        buffer[position].id = reverse.substitutes[index];
+        return position + 1;
+      }
+
+      default:
+        return -1;
+    }
+  }
+
+  /**
+   * Replace a sequence of glyphs with a ligature. Glyphs skipped over while
+   * matching (usually marks) stay in the buffer after the ligature.
+   */
+  private applyLigature(buffer: T[], table: SubstitutionLookup, subtable: LigatureSubstitution, position: number): number {
+    const index = coverageIndex(subtable.coverage, buffer[position].id);
+    const ligatures = subtable.ligatureSets[index] ?? [];
+
+    for (const ligature of ligatures) {
+      const { components } = ligature;
+      const positions = this.matchForward(buffer, table, position + 1, components.length,
+        (id, k) => id === components[k]);
+      if (!positions) {
+        continue;
+      }
+
+      const last = positions.length > 0 ? positions[positions.length - 1] : position;
+      const span = buffer.slice(position, last + 1);
+      const matched = [position, ...positions];
+
+      // The ligature renders every character in its span; skipped glyphs join its cluster
+      // and remember which component they followed, for mark-to-ligature positioning
+      const length = span.reduce((total, slot) => total + slot.length, 0);
+      const skipped = span
+        .map((slot, k) => ({ slot, component: matched.filter(p => p < position + k).length - 1 }))
+        .filter((_, k) => !matched.includes(position + k))
+        .map(({ slot, component }) => ({ ...slot, length: 0, component }));
+
+      const replacement = [
+        { ...buffer[position], id: ligature.ligGlyph, length, componentCount: matched.length },
+        ...skipped
+      ];
+      buffer.splice(position, span.length, ...replacement);
+      return position + 1;
+    }
+    return -1;
+  }
+}
+
+/**
+ * Map code points to glyphs with the font's `cmap`, then apply the GSUB lookups of the enabled features
+ * @param features Feature tags to enable (`true` or an alternate number) or disable (`false` or 0)
+ */
+export function substituteGlyphs(
+  font: opentype.Font, chars: string[], features: FontFeatures, script: FeatureScript = {}
+): GlyphSlot[] {
+  const buffer: GlyphSlot[] = chars.map(char => ({ id: font.charToGlyphIndex(char), length: 1 }));
+  if (!font.tables.gsub) {
+    return buffer;
+  }
+
+  const engine = new SubstitutionEngine(font);
+  engine.apply(buffer, engine.selectLookups(features, script));
+  return buffer;
+}
@@ -0,0 +1,298 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { inflateSync } from 'zlib';
+import * as path from 'path';
+import { encodePng, encodeWebp } from './image-encoding';
+import { RgbaImage } from './raster';
+import { textToSvgPath, InvalidOptionError } from './index';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+/**
+ * Compute the CRC-32 of some bytes, as PNG chunks carry it
+ */
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Decode an 8-bit RGBA PNG, checking every chunk's checksum
+ */
+function decodePng(png: Buffer): RgbaImage & { chunks: string[] } {
+  assert.deepEqual([...png.subarray(0, 8)], [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const chunks: string[] = [];
+  const compressed: Buffer[] = [];
+  let width = 0;
+  let height = 0;
+  for (let offset = 8; offset < png.length;) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('latin1', offset + 4, offset + 8);
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    assert.equal(png.readUInt32BE(offset + 8 + length), crc32(png.subarray(offset + 4, offset + 8 + length)), `${type} checksum`);
+    chunks.push(type);
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      assert.deepEqual([data[8], data[9]], [8, 6]);
+    } else if (type === 'IDAT') {
+      compressed.push(data);
+    }
+    offset += 12 + length;
+  }
+
+  // Undo each row's filter
+  const raw = inflateSync(Buffer.concat(compressed));
+  const stride = width * 4;
+  const data = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    for (let i = 0; i < stride; i++) {
+      const at = y * stride + i;
+      const left = i >= 4 ? data[at - 4] : 0;
+      const up = y > 0 ? data[at - stride] : 0;
+      const upLeft = i >= 4 && y > 0 ? data[at - stride - 4] : 0;
+      const estimate = left + up - upLeft;
+      const paeth = [left, up, upLeft].sort((a, b) => Math.abs(estimate - a) - Math.abs(estimate - b))[0];
+      const predictors = [0, left, up, (left + up) >> 1, paeth];
+      data[at] = (raw[y * (stride + 1) + 1 + i] + predictors[filter]) & 0xff;
+    }
+  }
+  return { width, height, data, chunks };
+}
+
+/**
+ * Reads bits least significant first, as WebP lossless streams are written
+ */
+class BitReader {
+  private position = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  read(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++, this.position++) {
+      value += ((this.bytes[this.position >> 3] >> (this.position & 7)) & 1) * 2 ** i;
+    }
+    return value;
+  }
+}
+
+/**
+ * A canonical prefix code: the symbol for each code of each length
+ */
+type PrefixDecoder = (reader: BitReader) => number;
+
+function buildDecoder(lengths: number[]): PrefixDecoder {
+  const used = lengths.map((length, symbol) => ({ length, symbol })).filter(({ length }) => length > 0);
+  if (used.length === 1) {
+    return () => used[0].symbol;
+  }
+  const symbols = new Map<string, number>();
+  let code = 0;
+  for (let length = 1; length <= 15; length++) {
+    for (const entry of used.filter(candidate => candidate.length === length)) {
+      symbols.set(`${length}:${code++}`, entry.symbol);
+    }
+    code <<= 1;
+  }
+  return reader => {
+    let value = 0;
+    for (let length = 1; length <= 15; length++) {
+      value = (value << 1) | reader.read(1);
+      const symbol = symbols.get(`${length}:${value}`);
+      if (symbol !== undefined) {
+        return symbol;
+      }
+    }
+    throw new Error('Invalid prefix code');
+  };
+}
+
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+function readPrefixCode(reader: BitReader, alphabetSize: number): PrefixDecoder {
+  const lengths = new Array<number>(alphabetSize).fill(0);
+  if (reader.read(1)) {
+    const count = reader.read(1) + 1;
+    lengths[reader.read(reader.read(1) ? 8 : 1)] = 1;
+    if (count === 2) {
+      lengths[reader.read(8)] = 1;
+    }
+    return buildDecoder(lengths);
+  }
+
+  const lengthLengths = new Array<number>(19).fill(0);
+  const count = reader.read(4) + 4;
+  for (let i = 0; i < count; i++) {
+    lengthLengths[CODE_LENGTH_ORDER[i]] = reader.read(3);
+  }
+  const lengthCode = buildDecoder(lengthLengths);
+  let remaining = alphabetSize;
+  if (reader.read(1)) {
+    remaining = 2 + reader.read(2 + 2 * reader.read(3));
+  }
+  let previous = 8;
+  for (let symbol = 0; symbol < alphabetSize && remaining-- > 0;) {
+    const length = lengthCode(reader);
+    if (length < 16) {
+      lengths[symbol++] = length;
+      previous = length || previous;
+      continue;
+    }
+    const [extraBits, base, value] = length === 16 ? [2, 3, previous] : length === 17 ? [3, 3, 0] : [7, 11, 0];
+    for (let repeat = base + reader.read(extraBits); repeat > 0; repeat--) {
+      lengths[symbol++] = value;
+    }
+  }
+  return buildDecoder(lengths);
+}
+
+/**
+ * Decode a lossless WebP without transforms, colour cache or meta prefix codes, as the encoder writes them
+ */
+function decodeWebp(webp: Buffer): RgbaImage & { alphaHint: boolean } {
+  assert.equal(webp.toString('latin1', 0, 4), 'RIFF');
+  assert.equal(webp.readUInt32LE(4), webp.length - 8);
+  assert.equal(webp.toString('latin1', 8, 16), 'WEBPVP8L');
+  assert.equal(webp[20], 0x2f);
+
+  const reader = new BitReader(webp.subarray(21));
+  const width = reader.read(14) + 1;
+  const height = reader.read(14) + 1;
+  const alphaHint = reader.read(1) === 1;
+  assert.deepEqual([reader.read(3), reader.read(1), reader.read(1), reader.read(1)], [0, 0, 0, 0]);
+
+  const green = readPrefixCode(reader, 256 + 24);
+  const red = readPrefixCode(reader, 256);
+  const blue = readPrefixCode(reader, 256);
+  const alpha = readPrefixCode(reader, 256);
+  const distance = readPrefixCode(reader, 40);
+  const prefixValue = (prefix: number) => {
+    if (prefix < 4) {
+      return prefix + 1;
+    }
+    const extraBits = (prefix - 2) >> 1;
+    return ((2 + (prefix & 1)) << extraBits) + reader.read(extraBits) + 1;
+  };
+
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height;) {
+    const symbol = green(reader);
+    if (symbol < 256) {
+      data.set([red(reader), symbol, blue(reader), alpha(reader)], i * 4);
+      i++;
+      continue;
+    }
+    const length = prefixValue(symbol - 256);
+    const code = prefixValue(distance(reader));
+    // Only the codes for the pixel above and the one to the left, and plain distances, are handled here
+    const back = code === 1 ? width : code === 2 ? 1 : code > 120 ? code - 120 : NaN;
+    assert.ok(!Number.isNaN(back), `distance code ${code}`);
+    for (let k = 0; k < length; k++, i++) {
+      data.copyWithin(i * 4, (i - back) * 4, (i - back) * 4 + 4);
+    }
+  }
+  return { width, height, data, alphaHint };
+}
+
+/**
+ * A test image with smooth gradients, flat runs and translucent pixels
+ */
+function createImage(width: number, height: number): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const flat = y % 4 === 0;
+      data.set(flat ? [200, 30, 30, 255] : [x * 7 & 0xff, y * 13 & 0xff, (x * y) & 0xff, x < width / 2 ? 255 : 128], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+describe('PNG encoding', () => {
+  it('keeps every pixel', () => {
+    const image = createImage(37, 23);
+    const decoded = decodePng(encodePng(image));
+    assert.equal(decoded.width, 37);
+    assert.equal(decoded.height, 23);
+    assert.deepEqual(decoded.data, image.data);
+    assert.deepEqual(decoded.chunks, ['IHDR', 'IDAT', 'IEND']);
+  });
+
+  it('records the resolution when given', () => {
+    const png = encodePng(createImage(2, 2), 300);
+    assert.deepEqual(decodePng(png).chunks, ['IHDR', 'pHYs', 'IDAT', 'IEND']);
+    assert.equal(png.readUInt32BE(png.indexOf('pHYs') + 4), Math.round(300 / 0.0254));
+  });
+});
+
+describe('WebP encoding', () => {
+  it('keeps every pixel', () => {
+    const image = createImage(37, 23);
+    const decoded = decodeWebp(encodeWebp(image));
+    assert.equal(decoded.width, 37);
+    assert.equal(decoded.height, 23);
+    assert.equal(decoded.alphaHint, true);
+    assert.deepEqual(decoded.data, image.data);
+  });
+
+  it('encodes single-colour and opaque images', () => {
+    const flat = { width: 9, height: 5, data: new Uint8Array(9 * 5 * 4).fill(255) };
+    const decoded = decodeWebp(encodeWebp(flat));
+    assert.equal(decoded.alphaHint, false);
+    assert.deepEqual(decoded.data, flat.data);
+  });
+
+  it('rejects images larger than WebP allows', () => {
+    assert.throws(() => encodeWebp({ width: 16385, height: 1, data: new Uint8Array(16385 * 4) }), InvalidOptionError);
+  });
+});
+
+describe('raster output', () => {
+  it('draws the text in its fill colour on the SVG canvas', async () => {
+    const result = await textToSvgPath({ font: FONT, text: 'Hi', fontSize: 40, fill: '#ff0000', outputFormats: ['svg', 'png', 'webp'] });
+    const width = Number(result.svg.match(/width="([\d.]+)"/)![1]);
+    const height = Number(result.svg.match(/height="([\d.]+)"/)![1]);
+
+    for (const image of [decodePng(result.png!), decodeWebp(result.webp!)]) {
+      assert.equal(image.width, Math.ceil(width));
+      assert.equal(image.height, Math.ceil(height));
+      let solid = 0;
+      for (let i = 0; i < image.data.length; i += 4) {
+        const [r, g, b, a] = image.data.subarray(i, i + 4);
+        if (a === 255) {
+          assert.deepEqual([r, g, b], [255, 0, 0]);
+          solid++;
+        }
+      }
+      assert.ok(solid > 100);
+    }
+  });
+
+  it('scales the image', async () => {
+    const result = await textToSvgPath({ font: FONT, text: 'Hi', fontSize: 40, outputFormats: ['png'], raster: { scale: 1 } });
+    const doubled = await textToSvgPath({ font: FONT, text: 'Hi', fontSize: 40, outputFormats: ['png'], raster: { scale: 2 } });
+    assert.equal(decodePng(doubled.png!).width, decodePng(result.png!).width * 2);
+  });
+
+  it('rejects gradients and effects in formats drawn without SVG', async () => {
+    const gradient = { type: 'linear' as const, stops: [{ offset: 0, color: '#000' }, { offset: 1, color: '#fff' }] };
+    await assert.rejects(textToSvgPath({ font: FONT, text: 'Hi', style: { fillGradient: gradient }, outputFormats: ['png'] }),
+      { name: 'InvalidOptionError', option: 'style' });
+    await assert.rejects(textToSvgPath({ font: FONT, text: 'Hi', style: { shadow: {} }, outputFormats: ['pdf'] }),
+      { name: 'InvalidOptionError', option: 'style' });
+    await assert.rejects(textToSvgPath({ font: FONT, spans: [{ text: 'A', fill: gradient }], outputFormats: ['eps'] }),
+      { name: 'InvalidOptionError', option: 'spans' });
+
+    // SVG draws them
+    const svg = await textToSvgPath({ font: FONT, text: 'Hi', style: { fillGradient: gradient, shadow: {} } });
+    assert.match(svg.svg, /linearGradient/);
+  });
+});
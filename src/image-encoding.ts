@@ -0,0 +1,391 @@
+import { deflateSync } from 'zlib';
+import { RgbaImage } from './raster';
+import { InvalidOptionError } from './errors';
+
+/**
+ * CRC-32 of every byte value, for PNG chunk checksums
+ */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Order the lengths of the code length code are written in a WebP lossless stream
+ */
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+/**
+ * Largest width or height of a WebP image
+ */
+const MAX_WEBP_SIZE = 16384;
+
+/**
+ * Longest run a single WebP backward reference can copy
+ */
+const MAX_COPY_LENGTH = 4096;
+
+/**
+ * A prefix code symbol: its bits, already reversed for writing least significant bit first
+ */
+interface PrefixCode {
+  code: number;
+  length: number;
+}
+
+/**
+ * One step of a WebP pixel stream: a literal pixel, or a copy of `length` pixels from `distanceCode`
+ */
+type PixelToken = { pixel: number } | { length: number; distanceCode: number };
+
+/**
+ * Compute the CRC-32 of some bytes
+ */
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a PNG chunk: length, type, data and checksum
+ */
+function pngChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(data.length, 0);
+  header.write(type, 4, 'latin1');
+  const checksum = Buffer.alloc(4);
+  checksum.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])), 0);
+  return Buffer.concat([header, data, checksum]);
+}
+
+/**
+ * Encode an image as an 8-bit RGBA PNG
+ * @param dpi Resolution to record in the file, if known
+ */
+export function encodePng(image: RgbaImage, dpi?: number): Buffer {
+  const { width, height, data } = image;
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 6; // Colour type: RGBA
+
+  // Each row uses the "sub" filter, storing the difference from the pixel to its left
+  const rowLength = width * 4;
+  const raw = Buffer.alloc((rowLength + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const start = y * (rowLength + 1);
+    raw[start] = 1;
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= 4 ? data[y * rowLength + i - 4] : 0;
+      raw[start + 1 + i] = (data[y * rowLength + i] - left) & 0xff;
+    }
+  }
+
+  const chunks = [pngChunk('IHDR', header)];
+  if (dpi) {
+    const physical = Buffer.alloc(9);
+    const pixelsPerMetre = Math.round(dpi / 0.0254);
+    physical.writeUInt32BE(pixelsPerMetre, 0);
+    physical.writeUInt32BE(pixelsPerMetre, 4);
+    physical[8] = 1; // Unit: metres
+    chunks.push(pngChunk('pHYs', physical));
+  }
+  chunks.push(pngChunk('IDAT', deflateSync(raw, { level: 9 })), pngChunk('IEND', Buffer.alloc(0)));
+  return Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), ...chunks]);
+}
+
+/**
+ * Writes values least significant bit first, as WebP lossless streams are read
+ */
+class BitWriter {
+  private bytes = new Uint8Array(1024);
+  private size = 0;
+  private buffer = 0;
+  private used = 0;
+
+  /**
+   * Write the low `bits` bits of a value (at most 16 at a time)
+   */
+  write(value: number, bits: number): void {
+    this.buffer |= value << this.used;
+    this.used += bits;
+    while (this.used >= 8) {
+      if (this.size === this.bytes.length) {
+        const grown = new Uint8Array(this.bytes.length * 2);
+        grown.set(this.bytes);
+        this.bytes = grown;
+      }
+      this.bytes[this.size++] = this.buffer & 0xff;
+      this.buffer >>>= 8;
+      this.used -= 8;
+    }
+  }
+
+  /**
+   * Write a prefix code symbol
+   */
+  writeCode(code: PrefixCode): void {
+    if (code.length > 0) {
+      this.write(code.code, code.length);
+    }
+  }
+
+  /**
+   * Pad the last byte and return everything written
+   */
+  finish(): Buffer {
+    if (this.used > 0) {
+      this.write(0, 8 - this.used);
+    }
+    return Buffer.from(this.bytes.subarray(0, this.size));
+  }
+}
+
+/**
+ * Compute Huffman code lengths for symbol counts, no longer than `limit` bits.
+ * When the tree gets too deep, the counts are flattened and it's built again.
+ */
+function huffmanLengths(counts: number[], limit: number): number[] {
+  const lengths = new Array<number>(counts.length).fill(0);
+  const used = counts.map((count, symbol) => symbol).filter(symbol => counts[symbol] > 0);
+  if (used.length === 1) {
+    lengths[used[0]] = 1;
+  }
+  if (used.length <= 1) {
+    return lengths;
+  }
+
+  let weights = used.map(symbol => counts[symbol]);
+  for (;;) {
+    // Merge the two lightest nodes until one is left, tracking each leaf's depth
+    let nodes = weights.map((weight, i) => ({ weight, leaves: [i] }));
+    const depths = new Array<number>(used.length).fill(0);
+    while (nodes.length > 1) {
+      nodes.sort((a, b) => a.weight - b.weight);
+      const [a, b] = nodes;
+      const leaves = a.leaves.concat(b.leaves);
+      leaves.forEach(leaf => depths[leaf]++);
+      nodes = [{ weight: a.weight + b.weight, leaves }, ...nodes.slice(2)];
+    }
+    if (Math.max(...depths) <= limit) {
+      used.forEach((symbol, i) => {
+        lengths[symbol] = depths[i];
+      });
+      return lengths;
+    }
+    weights = weights.map(weight => Math.max(1, weight >> 1));
+  }
+}
+
+/**
+ * Assign canonical prefix codes to code lengths. A code with a single symbol needs no bits.
+ */
+function canonicalCodes(lengths: number[]): PrefixCode[] {
+  const used = lengths.filter(length => length > 0).length;
+  const counts = new Array<number>(16).fill(0);
+  lengths.forEach(length => counts[length]++);
+  counts[0] = 0;
+  const next = new Array<number>(16).fill(0);
+  for (let length = 1, code = 0; length < 16; length++) {
+    code = (code + counts[length - 1]) << 1;
+    next[length] = code;
+  }
+
+  return lengths.map(length => {
+    if (length === 0 || used === 1) {
+      return { code: 0, length: 0 };
+    }
+    // Codes are read from their most significant bit, but written least significant bit first
+    const code = next[length]++;
+    let reversed = 0;
+    for (let bit = 0; bit < length; bit++) {
+      reversed |= ((code >> bit) & 1) << (length - 1 - bit);
+    }
+    return { code: reversed, length };
+  });
+}
+
+/**
+ * Write a prefix code's description and return its codes. Codes with one or two small symbols
+ * use the short "simple" form; others write their code lengths with a code length code.
+ */
+function writePrefixCode(writer: BitWriter, counts: number[]): PrefixCode[] {
+  const lengths = huffmanLengths(counts, 15);
+  const used = lengths.map((length, symbol) => symbol).filter(symbol => lengths[symbol] > 0);
+
+  if (used.length <= 2 && used.every(symbol => symbol < 256)) {
+    const symbols = used.length > 0 ? used : [0];
+    writer.write(1, 1);
+    writer.write(symbols.length - 1, 1);
+    if (symbols[0] < 2) {
+      writer.write(0, 1);
+      writer.write(symbols[0], 1);
+    } else {
+      writer.write(1, 1);
+      writer.write(symbols[0], 8);
+    }
+    if (symbols.length === 2) {
+      writer.write(symbols[1], 8);
+    }
+    return canonicalCodes(lengths);
+  }
+
+  const lengthCounts = new Array<number>(19).fill(0);
+  lengths.forEach(length => lengthCounts[length]++);
+  const lengthLengths = huffmanLengths(lengthCounts, 7);
+  let written = CODE_LENGTH_ORDER.length;
+  while (written > 4 && lengthLengths[CODE_LENGTH_ORDER[written - 1]] === 0) {
+    written--;
+  }
+
+  writer.write(0, 1);
+  writer.write(written - 4, 4);
+  for (let i = 0; i < written; i++) {
+    writer.write(lengthLengths[CODE_LENGTH_ORDER[i]], 3);
+  }
+  // Lengths are given for the whole alphabet
+  writer.write(0, 1);
+  const lengthCodes = canonicalCodes(lengthLengths);
+  for (const length of lengths) {
+    writer.writeCode(lengthCodes[length]);
+  }
+  return canonicalCodes(lengths);
+}
+
+/**
+ * Split a length or distance into its prefix symbol and extra bits
+ */
+function prefixEncode(value: number): { prefix: number; extraBits: number; extra: number } {
+  if (value <= 4) {
+    return { prefix: value - 1, extraBits: 0, extra: 0 };
+  }
+  const d = value - 1;
+  const highest = 31 - Math.clz32(d);
+  const second = (d >> (highest - 1)) & 1;
+  const extraBits = highest - 1;
+  return { prefix: 2 * highest + second, extraBits, extra: d & ((1 << extraBits) - 1) };
+}
+
+/**
+ * Turn pixels into literals and copies of runs. A run repeating the pixel to the left or
+ * the one above is copied, which covers most of the flat areas of rendered text.
+ */
+function tokenizePixels(pixels: Uint32Array, width: number): PixelToken[] {
+  const tokens: PixelToken[] = [];
+  let i = 0;
+  while (i < pixels.length) {
+    const runFrom = (distance: number) => {
+      let length = 0;
+      while (i + length < pixels.length && length < MAX_COPY_LENGTH && pixels[i + length] === pixels[i + length - distance]) {
+        length++;
+      }
+      return length;
+    };
+    const left = i >= 1 ? runFrom(1) : 0;
+    const above = i >= width ? runFrom(width) : 0;
+
+    // Distance codes 1 and 2 stand for the pixel above and the one to the left
+    if (Math.max(left, above) >= 3) {
+      const useAbove = above > left;
+      const length = useAbove ? above : left;
+      tokens.push({ length, distanceCode: useAbove ? 1 : 2 });
+      i += length;
+    } else {
+      tokens.push({ pixel: pixels[i] });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Encode an image as a lossless WebP
+ */
+export function encodeWebp(image: RgbaImage): Buffer {
+  const { width, height, data } = image;
+  if (width > MAX_WEBP_SIZE || height > MAX_WEBP_SIZE) {
+    throw new InvalidOptionError(`WebP images can be at most ${MAX_WEBP_SIZE} pixels wide and high, not ${width}x${height}`, 'raster');
+  }
+
+  const pixels = new Uint32Array(width * height);
+  let hasAlpha = false;
+  for (let i = 0; i < pixels.length; i++) {
+    const [r, g, b, a] = [data[i * 4], data[i * 4 + 1], data[i * 4 + 2], data[i * 4 + 3]];
+    pixels[i] = ((a << 24) | (r << 16) | (g << 8) | b) >>> 0;
+    hasAlpha = hasAlpha || a < 255;
+  }
+  const tokens = tokenizePixels(pixels, width);
+
+  // Count symbols for the five prefix codes: green and lengths, red, blue, alpha, distance
+  const green = new Array<number>(256 + 24).fill(0);
+  const red = new Array<number>(256).fill(0);
+  const blue = new Array<number>(256).fill(0);
+  const alpha = new Array<number>(256).fill(0);
+  const distance = new Array<number>(40).fill(0);
+  for (const token of tokens) {
+    if ('pixel' in token) {
+      const { pixel } = token;
+      green[(pixel >>> 8) & 0xff]++;
+      red[(pixel >>> 16) & 0xff]++;
+      blue[pixel & 0xff]++;
+      alpha[pixel >>> 24]++;
+    } else {
+      green[256 + prefixEncode(token.length).prefix]++;
+      distance[prefixEncode(token.distanceCode).prefix]++;
+    }
+  }
+
+  const writer = new BitWriter();
+  writer.write(0x2f, 8);
+  writer.write(width - 1, 14);
+  writer.write(height - 1, 14);
+  writer.write(hasAlpha ? 1 : 0, 1);
+  writer.write(0, 3); // Version
+  writer.write(0, 1); // No transforms
+  writer.write(0, 1); // No colour cache
+  writer.write(0, 1); // One set of prefix codes for the whole image
+
+  const greenCodes = writePrefixCode(writer, green);
+  const redCodes = writePrefixCode(writer, red);
+  const blueCodes = writePrefixCode(writer, blue);
+  const alphaCodes = writePrefixCode(writer, alpha);
+  const distanceCodes = writePrefixCode(writer, distance);
+
+  for (const token of tokens) {
+    if ('pixel' in token) {
+      const { pixel } = token;
+      writer.writeCode(greenCodes[(pixel >>> 8) & 0xff]);
+      writer.writeCode(redCodes[(pixel >>> 16) & 0xff]);
+      writer.writeCode(blueCodes[pixel & 0xff]);
+      writer.writeCode(alphaCodes[pixel >>> 24]);
+    } else {
+      const length = prefixEncode(token.length);
+      writer.writeCode(greenCodes[256 + length.prefix]);
+      writer.write(length.extra, length.extraBits);
+      const distanceCode = prefixEncode(token.distanceCode);
+      writer.writeCode(distanceCodes[distanceCode.prefix]);
+      writer.write(distanceCode.extra, distanceCode.extraBits);
+    }
+  }
+
+  // Wrap the stream in a RIFF container, padded to an even length
+  const stream = writer.finish();
+  const padding = stream.length % 2;
+  const header = Buffer.alloc(20);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(12 + stream.length + padding, 4);
+  header.write('WEBPVP8L', 8, 'latin1');
+  header.writeUInt32LE(stream.length, 16);
+  return Buffer.concat([header, stream, Buffer.alloc(padding)]);
+}
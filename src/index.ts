@@ -4,10 +4,75 @@
  */
 
 export { textToSvgPath } from './text-to-svg-path';
+export { FontCache, getDefaultFontCache, setDefaultFontCache } from './font-cache';
+export { getFontFeatures } from './features';
+export { inspectFont } from './font-info';
+export { measureText } from './measure';
+export { createRenderServer, createRenderHandler } from './server';
+export {
+  TextToSvgPathError,
+  FontFetchError,
+  FontParseError,
+  UnsupportedFontFormatError,
+  MissingGlyphsError,
+  FontVariationError,
+  FontCacheError,
+  InvalidOptionError
+} from './errors';
 export type { 
   TextToSvgPathOptions, 
   TextToSvgPathResult,
   MultiTextToSvgPathOptions,
   MultiTextToSvgPathResult,
-  OutputFormat
+  MultiTextEntryResult,
+  ErrorHandling,
+  OutputFormat,
+  FontSource,
+  FontCacheOptions,
+  FontCacheEntryInfo,
+  TextAlign,
+  TextDirection,
+  WritingMode,
+  OutlineEffects,
+  OutlineJoin,
+  UnionOptions,
+  PathPoint,
+  LengthUnit,
+  PageSize,
+  PdfOptions,
+  DxfOptions,
+  GcodeOptions,
+  PathCommandData,
+  RasterOptions,
+  PathJson,
+  SvgStyleOptions,
+  Gradient,
+  LinearGradient,
+  RadialGradient,
+  GradientStop,
+  ShadowOptions,
+  GlowOptions,
+  GlyphStyle,
+  TextSpan,
+  CanvasOptions,
+  CanvasPadding,
+  SvgFormatting,
+  RenderServerOptions,
+  TextLineMetrics,
+  BoundingBox,
+  GlyphInfo,
+  TextPathOptions,
+  TextPathGuide,
+  CircleGuide,
+  ArcGuide,
+  FitOptions,
+  FitResult,
+  FontVariation,
+  FontFeatures,
+  VariationAxis,
+  FontInfo,
+  FontEmbedding,
+  UnicodeRange,
+  MeasureTextOptions,
+  TextMeasurement
 } from './types'; 
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { textToSvgPath } from './index';
+import { TextToSvgPathOptions } from './types';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+describe('multi-line layout', () => {
+  it('starts a new line at each line break', async () => {
+    const result = await textToSvgPath({ font: FONT, text: 'One\nTwo\nThree', fontSize: 40 });
+    const lines = result.lines!;
+    assert.deepEqual(lines.map(line => line.text), ['One', 'Two', 'Three']);
+    assert.ok(lines[1].y > lines[0].y);
+    assert.equal(lines[1].y - lines[0].y, lines[2].y - lines[1].y);
+  });
+
+  it('wraps words to the maximum width', async () => {
+    const result = await textToSvgPath({ font: FONT, text: 'Hello world again', fontSize: 40, maxWidth: 150 });
+    const lines = result.lines!;
+    assert.deepEqual(lines.map(line => line.text), ['Hello', 'world', 'again']);
+    for (const line of lines) {
+      assert.ok(line.width <= 150, `${line.text} is ${line.width} wide`);
+    }
+  });
+
+  it('spaces lines by the line height', async () => {
+    const normal = await textToSvgPath({ font: FONT, text: 'A\nB', fontSize: 40, lineHeight: 1 });
+    const loose = await textToSvgPath({ font: FONT, text: 'A\nB', fontSize: 40, lineHeight: 2 });
+    assert.equal(normal.lines![1].y - normal.lines![0].y, 40);
+    assert.equal(loose.lines![1].y - loose.lines![0].y, 80);
+  });
+
+  it('aligns lines within the widest one', async () => {
+    const text = 'Wide line\nNarrow';
+    const [left, center, right] = await Promise.all((['left', 'center', 'right'] as const).map(textAlign =>
+      textToSvgPath({ font: FONT, text, fontSize: 40, textAlign })));
+    const wide = left.lines![0];
+    const narrow = left.lines![1];
+    assert.equal(narrow.x, wide.x);
+    assert.equal(center.lines![1].x, wide.x + (wide.width - narrow.width) / 2);
+    assert.equal(right.lines![1].x, wide.x + wide.width - narrow.width);
+  });
+
+  it('stretches justified lines to the maximum width, except the last', async () => {
+    const result = await textToSvgPath({
+      font: FONT, text: 'Justify these few words across lines', fontSize: 40, maxWidth: 300, textAlign: 'justify'
+    });
+    const lines = result.lines!;
+    assert.ok(lines.length > 1);
+    for (const line of lines.slice(0, -1)) {
+      assert.ok(Math.abs(line.width - 300) < 0.01, `${line.text} is ${line.width} wide`);
+    }
+    assert.ok(lines[lines.length - 1].width < 300);
+  });
+
+  it('sizes the SVG to cover every line', async () => {
+    const single = await textToSvgPath({ font: FONT, text: 'Line', fontSize: 40 });
+    const double = await textToSvgPath({ font: FONT, text: 'Line\nLine', fontSize: 40 });
+    const height = (svg: string) => Number(svg.match(/height="([\d.]+)"/)![1]);
+    assert.ok(height(double.svg) > height(single.svg) * 1.5);
+    assert.equal((double.pathData.match(/M/g) ?? []).length, (single.pathData.match(/M/g) ?? []).length * 2);
+  });
+
+  it('rejects invalid layout options', async () => {
+    const layouts = [{ lineHeight: -1 }, { maxWidth: -5 }, { maxWidth: 0 }, { textAlign: 'middle' }, { writingMode: 'sideways' }];
+    for (const layout of layouts) {
+      const [option] = Object.keys(layout);
+      await assert.rejects(textToSvgPath({ font: FONT, text: 'One\nTwo', ...layout } as TextToSvgPathOptions), { name: 'InvalidOptionError', option });
+    }
+  });
+});
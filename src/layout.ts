@@ -0,0 +1,249 @@
+import * as opentype from 'opentype.js';
+import { TextAlign, TextLineMetrics, WritingMode } from './types';
+import { shapeText, ShapedRun, ShapeOptions } from './shaping';
+import { BidiDirection, detectDirection, reorderByLevel, resolveBidiLevels } from './bidi';
+import { getVerticalMetrics } from './vertical';
+
+/**
+ * Options controlling how text is broken into lines and positioned
+ */
+export interface LayoutOptions extends ShapeOptions {
+  x: number;
+  y: number;
+  maxWidth?: number;
+  lineHeight?: number;
+  textAlign: TextAlign;
+}
+
+/**
+ * A piece of a line shaped as one run
+ */
+export interface LayoutSegment {
+  text: string;
+  /** UTF-16 index of the segment within the full text */
+  start: number;
+  x: number;
+  /** Baseline of the segment, or where it starts down a vertical column */
+  y: number;
+  run: ShapedRun;
+}
+
+/**
+ * A positioned line of text
+ */
+export interface LayoutLine extends TextLineMetrics {
+  segments: LayoutSegment[];
+}
+
+/**
+ * A slice of the source text, identified by its UTF-16 offsets
+ */
+interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Measure the advance width of a string, including kerning
+ */
+export function measureAdvance(font: opentype.Font, text: string, options: ShapeOptions): number {
+  return shapeText(font, text, options).advance;
+}
+
+/**
+ * Get the font's natural line spacing as a multiple of the font size,
+ * or the spacing of columns for vertical text
+ */
+export function defaultLineHeight(font: opentype.Font, writingMode?: WritingMode): number {
+  if (writingMode === 'vertical') {
+    const vertical = getVerticalMetrics(font);
+    return (vertical.ascent - vertical.descent + vertical.lineGap) / font.unitsPerEm;
+  }
+  const lineGap = font.tables.hhea?.lineGap ?? 0;
+  return (font.ascender - font.descender + lineGap) / font.unitsPerEm;
+}
+
+/**
+ * Break a word that is wider than `maxWidth` on its own into character chunks
+ */
+function breakWord(font: opentype.Font, text: string, word: TextRange, options: LayoutOptions, maxWidth: number): TextRange[] {
+  const chunks: TextRange[] = [];
+  let chunkStart = word.start;
+  let position = word.start;
+
+  for (const char of Array.from(text.slice(word.start, word.end))) {
+    const next = position + char.length;
+    if (position > chunkStart && measureAdvance(font, text.slice(chunkStart, next), options) > maxWidth) {
+      chunks.push({ start: chunkStart, end: position });
+      chunkStart = position;
+    }
+    position = next;
+  }
+
+  chunks.push({ start: chunkStart, end: word.end });
+  return chunks;
+}
+
+/**
+ * Greedily wrap one paragraph to `maxWidth`
+ */
+function wrapParagraph(font: opentype.Font, text: string, paragraph: TextRange, options: LayoutOptions): TextRange[] {
+  const { maxWidth } = options;
+  const measure = (range: TextRange) => measureAdvance(font, text.slice(range.start, range.end), options);
+
+  if (maxWidth === undefined || measure(paragraph) <= maxWidth) {
+    return [paragraph];
+  }
+
+  const words = findWords(text, paragraph);
+  const lines: TextRange[] = [];
+  let current: TextRange | undefined;
+
+  for (const word of words) {
+    if (current && measure({ start: current.start, end: word.end }) <= maxWidth) {
+      current.end = word.end;
+      continue;
+    }
+
+    if (current) {
+      lines.push(current);
+    }
+
+    if (measure(word) > maxWidth) {
+      // Words that can't fit on a line of their own are broken between characters
+      const chunks = breakWord(font, text, word, options, maxWidth);
+      lines.push(...chunks.slice(0, -1));
+      current = chunks[chunks.length - 1];
+    } else {
+      current = { ...word };
+    }
+  }
+
+  lines.push(current ?? { start: paragraph.start, end: paragraph.start });
+  return lines;
+}
+
+/**
+ * Find the space-separated words within a range of the text
+ */
+function findWords(text: string, range: TextRange): TextRange[] {
+  const words: TextRange[] = [];
+  const pattern = /[^ ]+/g;
+  const slice = text.slice(range.start, range.end);
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(slice)) !== null) {
+    words.push({ start: range.start + match.index, end: range.start + match.index + match[0].length });
+  }
+  return words;
+}
+
+/**
+ * Split text into paragraphs at explicit line breaks
+ */
+function findParagraphs(text: string): TextRange[] {
+  const paragraphs: TextRange[] = [];
+  const pattern = /\r\n|\r|\n/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    paragraphs.push({ start, end: match.index });
+    start = match.index + match[0].length;
+  }
+
+  paragraphs.push({ start, end: text.length });
+  return paragraphs;
+}
+
+/**
+ * Shape a range of the text into a segment, to be positioned by the caller
+ */
+function createSegment(font: opentype.Font, text: string, range: TextRange, options: LayoutOptions): LayoutSegment {
+  const segmentText = text.slice(range.start, range.end);
+  return {
+    text: segmentText,
+    start: range.start,
+    x: 0,
+    y: 0,
+    run: shapeText(font, segmentText, options)
+  };
+}
+
+/**
+ * Order the words of a line for display, following the bidi levels of the line
+ */
+function orderWords(text: string, line: TextRange, words: TextRange[], direction: BidiDirection): TextRange[] {
+  const lineText = text.slice(line.start, line.end);
+  const { levels } = resolveBidiLevels(lineText, direction);
+  // Levels are per code point, so count code points up to each word
+  const levelOf = (word: TextRange) => levels[Array.from(lineText.slice(0, word.start - line.start)).length];
+  return reorderByLevel(words, levelOf);
+}
+
+/**
+ * Lay out text into positioned lines, honouring explicit line breaks, wrapping and alignment.
+ * Vertical text is laid out in columns from right to left, each starting at `y`.
+ */
+export function layoutText(font: opentype.Font, text: string, options: LayoutOptions): LayoutLine[] {
+  const { x, y } = options;
+  const vertical = options.writingMode === 'vertical';
+  const lineAdvance = (options.lineHeight ?? defaultLineHeight(font, options.writingMode)) * options.fontSize;
+
+  // Wrap every paragraph, remembering which lines end one (those are never justified)
+  // and the paragraph's direction, which every line of it is shaped with
+  const wrapped: Array<TextRange & { isParagraphEnd: boolean; direction: BidiDirection }> = [];
+  for (const paragraph of findParagraphs(text)) {
+    const direction = !options.direction || options.direction === 'auto'
+      ? detectDirection(text.slice(paragraph.start, paragraph.end))
+      : options.direction;
+    const paragraphLines = wrapParagraph(font, text, paragraph, { ...options, direction });
+    paragraphLines.forEach((line, index) => {
+      wrapped.push({ ...line, isParagraphEnd: index === paragraphLines.length - 1, direction });
+    });
+  }
+
+  const segments = wrapped.map(line => createSegment(font, text, line, { ...options, direction: line.direction }));
+  const blockWidth = options.maxWidth ?? Math.max(0, ...segments.map(segment => segment.run.advance));
+
+  return wrapped.map((line, index) => {
+    const segment = segments[index];
+    const width = segment.run.advance;
+    const words = findWords(text, line);
+    const lineOptions = { ...options, direction: line.direction };
+    // Find the position of a point `offset` along the line; columns go right to left
+    const at = (offset: number) => vertical
+      ? { x: x - index * lineAdvance, y: y + offset }
+      : { x: x + offset, y: y + index * lineAdvance };
+
+    // 'start' and 'end' resolve to a side from the paragraph direction; columns always start at the top
+    let textAlign = options.textAlign;
+    if (textAlign === 'start' || textAlign === 'end') {
+      textAlign = (textAlign === 'start') === (vertical || line.direction === 'ltr') ? 'left' : 'right';
+    }
+
+    if (textAlign === 'justify' && !line.isParagraphEnd && words.length > 1) {
+      // Spread the remaining space evenly between words, placed in display order
+      const ordered = vertical ? words : orderWords(text, line, words, line.direction);
+      const wordSegments = ordered.map(word => createSegment(font, text, word, lineOptions));
+      const usedWidth = wordSegments.reduce((sum, word) => sum + word.run.advance, 0);
+      const gap = (blockWidth - usedWidth) / (words.length - 1);
+      let cursor = 0;
+      for (const word of wordSegments) {
+        Object.assign(word, at(cursor));
+        cursor += word.run.advance + gap;
+      }
+      return { text: segment.text, ...at(0), width: blockWidth, segments: wordSegments };
+    }
+
+    let offset = 0;
+    if (textAlign === 'center') {
+      offset = (blockWidth - width) / 2;
+    } else if (textAlign === 'right') {
+      offset = blockWidth - width;
+    }
+    Object.assign(segment, at(offset));
+
+    return { text: segment.text, x: segment.x, y: segment.y, width, segments: [segment] };
+  });
+}
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { measureText, textToSvgPath } from './index';
+import { BoundingBox } from './types';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+/**
+ * Check that two boxes are the same, to a thousandth of a pixel
+ */
+function assertBox(actual: BoundingBox, expected: BoundingBox): void {
+  for (const key of ['x1', 'y1', 'x2', 'y2'] as const) {
+    assert.ok(Math.abs(actual[key] - expected[key]) < 0.001, `${key}: ${actual[key]} instead of ${expected[key]}`);
+  }
+}
+
+describe('text measurement', () => {
+  it('measures the lines and font metrics', async () => {
+    const measurement = await measureText({ font: FONT, text: 'Wide line\nNarrow', fontSize: 100 });
+    assert.equal(measurement.fontSize, 100);
+    assert.deepEqual(measurement.lines.map(line => line.text), ['Wide line', 'Narrow']);
+    assert.equal(measurement.width, measurement.lines[0].width);
+    assert.ok(measurement.lines[1].width < measurement.width);
+    assert.equal(measurement.ascent, 1984 / 2048 * 100);
+    assert.equal(measurement.descent, 494 / 2048 * 100);
+    // The first baseline sits at y, which defaults to the font size
+    assert.equal(measurement.baseline, 100);
+    assert.equal((await measureText({ font: FONT, text: 'Moved', fontSize: 100, y: 30 })).baseline, 30);
+  });
+
+  it('matches the layout of the rendered text', async () => {
+    const options = { font: FONT, text: 'Measure me\nplease', fontSize: 48, textAlign: 'center' as const };
+    const measurement = await measureText(options);
+    const result = await textToSvgPath({ ...options, outputFormats: ['glyphs'] });
+    const boxes = result.glyphs!.filter(glyph => glyph.pathData !== '').map(glyph => glyph.boundingBox);
+    assertBox(measurement.boundingBox, {
+      x1: Math.min(...boxes.map(box => box.x1)),
+      y1: Math.min(...boxes.map(box => box.y1)),
+      x2: Math.max(...boxes.map(box => box.x2)),
+      y2: Math.max(...boxes.map(box => box.y2))
+    });
+    assert.deepEqual(measurement.lines, result.lines);
+  });
+
+  it('wraps lines at the maximum width', async () => {
+    const measurement = await measureText({ font: FONT, text: 'one two three four', fontSize: 20, maxWidth: 100 });
+    assert.ok(measurement.lines.length > 1);
+    assert.ok(measurement.width <= 100);
+    assert.equal(measurement.height, measurement.lineHeight * (measurement.lines.length - 1) + measurement.ascent + measurement.descent);
+  });
+
+  it('reports the size picked when fitting to a box', async () => {
+    const measurement = await measureText({ font: FONT, text: 'Fit', fit: { width: 200, height: 200 } });
+    assert.ok(measurement.fontSize > 72);
+    assert.ok(measurement.width <= 200);
+  });
+
+  it('lists missing characters and rejects invalid options', async () => {
+    assert.deepEqual((await measureText({ font: FONT, text: 'aא' })).missingCharacters, ['א']);
+    await assert.rejects(measureText({ font: FONT, text: 'a', fontSize: -1 }), { name: 'InvalidOptionError', option: 'fontSize' });
+  });
+});
@@ -0,0 +1,99 @@
+import * as opentype from 'opentype.js';
+import { BoundingBox, MeasureTextOptions, TextMeasurement } from './types';
+import { resolveFontSource } from './font-loader';
+import { loadFontCached } from './font-cache';
+import { layoutText, defaultLineHeight } from './layout';
+import { placeLineGlyphs, findMissingCharacters, PlacedGlyph } from './glyphs';
+import { getLayoutBox } from './fit';
+import { instantiateFont } from './variation';
+import { validateOptions } from './validation';
+import { resolvePlacement, loadFallbackFonts } from './text-to-svg-path';
+import { toTextToSvgPathError } from './errors';
+
+/**
+ * Outline bounds of each glyph in font units, y up, or null for blank glyphs.
+ * Kept per glyph so repeated measurements don't walk the outlines again.
+ */
+const glyphBounds = new WeakMap<opentype.Glyph, BoundingBox | null>();
+
+/**
+ * Get a glyph's outline bounds in font units
+ */
+function getGlyphBounds(glyph: opentype.Glyph): BoundingBox | null {
+  let bounds = glyphBounds.get(glyph);
+  if (bounds === undefined) {
+    // An empty outline would report a box at the origin
+    const box = glyph.path.commands.length > 0 ? glyph.getBoundingBox() : undefined;
+    bounds = box && !box.isEmpty() ? { x1: box.x1, y1: box.y1, x2: box.x2, y2: box.y2 } : null;
+    glyphBounds.set(glyph, bounds);
+  }
+  return bounds;
+}
+
+/**
+ * Get the box around the outlines of placed glyphs from their cached bounds, without building paths
+ */
+function getInkBox(glyphs: PlacedGlyph[], fontSize: number): BoundingBox | undefined {
+  let ink: BoundingBox | undefined;
+  for (const placed of glyphs) {
+    const bounds = getGlyphBounds(placed.shaped.glyph);
+    if (!bounds) {
+      continue;
+    }
+    const scale = fontSize / placed.shaped.font.unitsPerEm;
+    const angle = placed.rotate * Math.PI / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    // Turn the corners like the glyph is drawn; glyphs are only ever turned a quarter, so this stays tight
+    for (const [gx, gy] of [[bounds.x1, bounds.y1], [bounds.x1, bounds.y2], [bounds.x2, bounds.y1], [bounds.x2, bounds.y2]]) {
+      const px = gx * scale;
+      const py = -gy * scale;
+      const x = placed.x + px * cos - py * sin;
+      const y = placed.y + px * sin + py * cos;
+      ink = ink
+        ? { x1: Math.min(ink.x1, x), y1: Math.min(ink.y1, y), x2: Math.max(ink.x2, x), y2: Math.max(ink.y2, y) }
+        : { x1: x, y1: y, x2: x, y2: y };
+    }
+  }
+  return ink;
+}
+
+/**
+ * Measure text the way `textToSvgPath` lays it out, without generating any output.
+ * Fonts load through the same cache, so measuring in a layout loop stays cheap.
+ * @param options The text, font and layout options to measure with
+ */
+export async function measureText(options: MeasureTextOptions): Promise<TextMeasurement> {
+  try {
+    validateOptions(options);
+    let font = await loadFontCached(resolveFontSource(options), options.fontCache);
+    let fallbackFonts = await loadFallbackFonts(options);
+    if (options.variation) {
+      font = instantiateFont(font, options.variation);
+      fallbackFonts = fallbackFonts.map(fallback => instantiateFont(fallback, options.variation!, false));
+    }
+
+    const { writingMode, lineHeight, textAlign = 'left' } = options;
+    const { fontSize, x, y, maxWidth, shaping } = resolvePlacement(options, font, fallbackFonts);
+    const lines = layoutText(font, options.text, { ...shaping, writingMode, fontSize, x, y, maxWidth, lineHeight, textAlign });
+    const placedGlyphs = placeLineGlyphs(lines);
+    const layoutBox = getLayoutBox(font, lines, fontSize, writingMode);
+    const scale = fontSize / font.unitsPerEm;
+
+    return {
+      fontSize,
+      width: Math.max(0, ...lines.map(line => line.width)),
+      height: writingMode === 'vertical' ? layoutBox.x2 - layoutBox.x1 : layoutBox.y2 - layoutBox.y1,
+      ascent: font.ascender * scale,
+      descent: -font.descender * scale,
+      baseline: y,
+      lineHeight: (lineHeight ?? defaultLineHeight(font, writingMode)) * fontSize,
+      boundingBox: getInkBox(placedGlyphs, fontSize) ?? { x1: x, y1: y, x2: x, y2: y },
+      layoutBox,
+      lines: lines.map(({ segments, ...metrics }) => metrics),
+      missingCharacters: findMissingCharacters(placedGlyphs)
+    };
+  } catch (error) {
+    throw toTextToSvgPathError(error, 'Error measuring text');
+  }
+}
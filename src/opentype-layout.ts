@@ -0,0 +1,600 @@
+import * as opentype from 'opentype.js';
+import { FontFeatures } from './types';
+import { getRawFontData } from './font-loader';
+import { readSfntTable } from './sfnt';
+
+/**
+ * A glyph in a GSUB or GPOS buffer
+ */
+export interface LayoutGlyph {
+  /** Glyph index */
+  id: number;
+  /** Features that only apply to this glyph, such as Arabic positional forms */
+  masks?: string[];
+}
+
+/**
+ * Script and language system to select features for
+ */
+export interface FeatureScript {
+  /** OpenType script tag, e.g. `latn` or `arab` */
+  script?: string;
+  /** OpenType language system tag, e.g. `TRK` */
+  language?: string;
+}
+
+/**
+ * A lookup selected by an enabled feature
+ */
+export interface FeatureLookup {
+  index: number;
+  /** Which alternate to pick for alternate substitutions (1-based) */
+  alternate: number;
+  /** Only apply the lookup to glyphs carrying this feature in their masks */
+  mask?: string;
+}
+
+/**
+ * A coverage table: the glyphs a subtable applies to, listed or in ranges
+ */
+export type CoverageTable =
+  | { format: 1; glyphs: number[] }
+  | { format: 2; ranges: Array<{ start: number; end: number; index: number }> };
+
+/**
+ * A class definition table: the class of each glyph, listed from a start glyph or in ranges
+ */
+export type ClassDefTable =
+  | { format: 1; startGlyph: number; classes: number[] }
+  | { format: 2; ranges: Array<{ start: number; end: number; classId: number }> };
+
+/**
+ * The parts of a GDEF table the lookups read
+ */
+export interface GlyphDefinitionTable {
+  classDef?: ClassDefTable;
+  markAttachClassDef?: ClassDefTable;
+  markGlyphSets?: CoverageTable[];
+}
+
+/**
+ * A nested lookup of a contextual rule, run on one of its input glyphs
+ */
+export interface LookupRecord {
+  sequenceIndex: number;
+  lookupListIndex: number;
+}
+
+/**
+ * A contextual rule. Glyph rules list `input` glyphs; class rules list `classes`
+ * (or `input` classes in chaining subtables). Only chaining rules have backtrack and lookahead.
+ */
+export interface ContextRule {
+  input?: number[];
+  classes?: number[];
+  backtrack?: number[];
+  lookahead?: number[];
+  lookupRecords: LookupRecord[];
+}
+
+/**
+ * A contextual or chaining contextual subtable of GSUB or GPOS, in any of its three formats
+ */
+export interface ContextSubtable {
+  substFormat?: number;
+  posFormat?: number;
+  coverage?: CoverageTable;
+  ruleSets?: ContextRule[][];
+  chainRuleSets?: ContextRule[][];
+  classDef?: ClassDefTable;
+  backtrackClassDef?: ClassDefTable;
+  inputClassDef?: ClassDefTable;
+  lookaheadClassDef?: ClassDefTable;
+  classSets?: ContextRule[][];
+  chainClassSet?: ContextRule[][];
+  coverages?: CoverageTable[];
+  backtrackCoverage?: CoverageTable[];
+  inputCoverage?: CoverageTable[];
+  lookaheadCoverage?: CoverageTable[];
+  lookupRecords?: LookupRecord[];
+}
+
+/**
+ * A GSUB or GPOS lookup with its subtables
+ */
+export interface LookupTable<S = unknown> {
+  lookupType: number;
+  lookupFlag: number;
+  markFilteringSet?: number;
+  subtables: S[];
+}
+
+/**
+ * A language system: the features it enables
+ */
+interface LangSys {
+  reqFeatureIndex: number;
+  featureIndexes: number[];
+}
+
+/**
+ * A GSUB or GPOS table as opentype.js parses it
+ */
+export interface LayoutTable extends opentype.Table {
+  scripts: Array<{
+    tag: string;
+    script: { defaultLangSys?: LangSys; langSysRecords: Array<{ tag: string; langSys: LangSys }> };
+  }>;
+  features: Array<{ tag: string; feature: { lookupListIndexes: number[] } }>;
+  lookups: LookupTable[];
+}
+
+/**
+ * A matched contextual rule: where its input glyphs are and which lookups to run on them
+ */
+interface ContextMatch {
+  positions: number[];
+  lookupRecords: LookupRecord[];
+}
+
+/**
+ * Lookup flag bits
+ */
+const IGNORE_BASE_GLYPHS = 0x2;
+const IGNORE_LIGATURES = 0x4;
+const IGNORE_MARKS = 0x8;
+const USE_MARK_FILTERING_SET = 0x10;
+
+/**
+ * GDEF glyph classes
+ */
+export const GLYPH_CLASS_LIGATURE = 2;
+export const GLYPH_CLASS_MARK = 3;
+
+/**
+ * GDEF tables with their mark glyph sets read from the raw font data
+ */
+const gdefCache = new WeakMap<opentype.Font, GlyphDefinitionTable>();
+
+/**
+ * Nested contextual lookups deeper than this are ignored, guarding against cyclic lookups
+ */
+const MAX_NESTING = 8;
+
+/**
+ * Get a font's GSUB or GPOS table
+ */
+export function getLayoutTable(font: opentype.Font, tag: 'gsub' | 'gpos'): LayoutTable | undefined {
+  return font.tables[tag] as LayoutTable | undefined;
+}
+
+/**
+ * Read a coverage table into the shape opentype.js uses
+ */
+export function parseCoverage(view: DataView, offset: number): CoverageTable {
+  const format = view.getUint16(offset);
+  const count = view.getUint16(offset + 2);
+  if (format === 1) {
+    const glyphs: number[] = [];
+    for (let i = 0; i < count; i++) {
+      glyphs.push(view.getUint16(offset + 4 + i * 2));
+    }
+    return { format: 1, glyphs };
+  }
+  const ranges: Array<{ start: number; end: number; index: number }> = [];
+  for (let i = 0; i < count; i++) {
+    const record = offset + 4 + i * 6;
+    ranges.push({ start: view.getUint16(record), end: view.getUint16(record + 2), index: view.getUint16(record + 4) });
+  }
+  return { format: 2, ranges };
+}
+
+/**
+ * Read a class definition table into the shape opentype.js uses
+ */
+export function parseClassDef(view: DataView, offset: number): ClassDefTable {
+  const format = view.getUint16(offset);
+  if (format === 1) {
+    const startGlyph = view.getUint16(offset + 2);
+    const count = view.getUint16(offset + 4);
+    const classes: number[] = [];
+    for (let i = 0; i < count; i++) {
+      classes.push(view.getUint16(offset + 6 + i * 2));
+    }
+    return { format: 1, startGlyph, classes };
+  }
+  const count = view.getUint16(offset + 2);
+  const ranges: Array<{ start: number; end: number; classId: number }> = [];
+  for (let i = 0; i < count; i++) {
+    const record = offset + 4 + i * 6;
+    ranges.push({ start: view.getUint16(record), end: view.getUint16(record + 2), classId: view.getUint16(record + 4) });
+  }
+  return { format: 2, ranges };
+}
+
+/**
+ * Find the coverage index of a glyph, or -1 when it isn't covered
+ */
+export function coverageIndex(coverage: CoverageTable | undefined, glyphId: number): number {
+  if (!coverage) {
+    return -1;
+  }
+  if (coverage.format === 1) {
+    return coverage.glyphs.indexOf(glyphId);
+  }
+  for (const range of coverage.ranges) {
+    if (glyphId >= range.start && glyphId <= range.end) {
+      return range.index + glyphId - range.start;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Look up a glyph's class in a class definition table (0 when unlisted)
+ */
+export function classOf(classDef: ClassDefTable | undefined, glyphId: number): number {
+  if (!classDef) {
+    return 0;
+  }
+  if (classDef.format === 1) {
+    const index = glyphId - classDef.startGlyph;
+    return index >= 0 && index < classDef.classes.length ? classDef.classes[index] : 0;
+  }
+  for (const range of classDef.ranges) {
+    if (glyphId >= range.start && glyphId <= range.end) {
+      return range.classId;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Get a font's GDEF table. opentype.js reads the mark glyph set offsets as 16-bit
+ * values though they're 32-bit, so the sets are read again from the raw font data.
+ */
+export function getGlyphDefinitions(font: opentype.Font): GlyphDefinitionTable | undefined {
+  const gdef = font.tables.gdef as GlyphDefinitionTable | undefined;
+  const cached = gdefCache.get(font);
+  if (!gdef || cached) {
+    return cached ?? gdef;
+  }
+
+  const fontData = getRawFontData(font);
+  const view = fontData && readSfntTable(fontData, 'GDEF');
+  const setsOffset = view && view.getUint16(2) >= 2 ? view.getUint16(12) : 0;
+  let fixed = gdef;
+  if (view && setsOffset) {
+    const count = view.getUint16(setsOffset + 2);
+    const markGlyphSets = Array.from({ length: count },
+      (_, i) => parseCoverage(view, setsOffset + view.getUint32(setsOffset + 4 + i * 4)));
+    fixed = { ...gdef, markGlyphSets };
+  }
+  gdefCache.set(font, fixed);
+  return fixed;
+}
+
+/**
+ * Pick the language system of a GSUB or GPOS table for a script and language,
+ * falling back to the default script
+ */
+function findLangSys(table: LayoutTable, { script, language }: FeatureScript): LangSys | undefined {
+  const scripts = table.scripts ?? [];
+  const record = (script && scripts.find(candidate => candidate.tag === script))
+    || scripts.find(candidate => candidate.tag === 'DFLT')
+    || scripts.find(candidate => candidate.tag === 'latn')
+    || scripts[0];
+  if (!record) {
+    return undefined;
+  }
+
+  const languageTag = language?.padEnd(4, ' ');
+  const langSys = languageTag
+    ? record.script.langSysRecords.find(candidate => candidate.tag === languageTag)
+    : undefined;
+  return langSys?.langSys ?? record.script.defaultLangSys ?? record.script.langSysRecords[0]?.langSys;
+}
+
+/**
+ * Check whether a GSUB or GPOS table has a script
+ */
+export function hasScript(table: LayoutTable | undefined, script: string): boolean {
+  return (table?.scripts ?? []).some(record => record.tag === script);
+}
+
+/**
+ * Collect the lookups of enabled features in lookup list order
+ * @param features Features to apply to every glyph
+ * @param maskedFeatures Features to apply only to glyphs that list them in their masks
+ */
+export function selectLookups(
+  table: LayoutTable | undefined, features: FontFeatures, script: FeatureScript, maskedFeatures: string[] = []
+): FeatureLookup[] {
+  const langSys = table && findLangSys(table, script);
+  if (!langSys) {
+    return [];
+  }
+
+  const selected = new Map<number, FeatureLookup>();
+  const featureIndexes: number[] = [...langSys.featureIndexes];
+  if (langSys.reqFeatureIndex !== 0xffff) {
+    featureIndexes.push(langSys.reqFeatureIndex);
+  }
+
+  for (const featureIndex of featureIndexes) {
+    const record = table.features[featureIndex];
+    if (!record) {
+      continue;
+    }
+    const masked = maskedFeatures.includes(record.tag);
+    const value = featureIndex === langSys.reqFeatureIndex || masked ? true : features[record.tag];
+    if (!value) {
+      continue;
+    }
+    const alternate = typeof value === 'number' ? value : 1;
+    for (const index of record.feature.lookupListIndexes) {
+      const existing = selected.get(index);
+      // A lookup enabled for every glyph wins over the same lookup behind a mask
+      if (!existing || (existing.mask && !masked)) {
+        selected.set(index, { index, alternate, mask: masked ? record.tag : undefined });
+      }
+    }
+  }
+
+  return Array.from(selected.values()).sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Shared machinery for applying GSUB and GPOS lookups to a glyph buffer:
+ * lookup flags, glyph skipping and contextual rule matching
+ */
+export abstract class LookupEngine<T extends LayoutGlyph> {
+  constructor(protected readonly gdef: GlyphDefinitionTable | undefined) {}
+
+  /**
+   * Get a lookup table by index
+   */
+  protected abstract getLookup(index: number): LookupTable | undefined;
+
+  /**
+   * Apply a lookup's subtables at a buffer position
+   * @returns The position to continue from, or -1 when nothing was applied
+   */
+  protected abstract applyLookupAt(buffer: T[], lookupIndex: number, position: number, alternate: number, depth: number): number;
+
+  /**
+   * Whether a lookup runs from the end of the buffer
+   */
+  protected isReverse(_table: LookupTable): boolean {
+    return false;
+  }
+
+  /**
+   * Run every selected lookup over the whole buffer
+   */
+  apply(buffer: T[], lookups: FeatureLookup[]): void {
+    for (const lookup of lookups) {
+      const table = this.getLookup(lookup.index);
+      if (!table) {
+        continue;
+      }
+      const applies = (glyph: T) =>
+        (!lookup.mask || (glyph.masks?.includes(lookup.mask) ?? false)) && !this.isIgnored(table, glyph.id);
+
+      if (this.isReverse(table)) {
+        for (let i = buffer.length - 1; i >= 0; i--) {
+          if (applies(buffer[i])) {
+            this.applyLookupAt(buffer, lookup.index, i, lookup.alternate, 0);
+          }
+        }
+        continue;
+      }
+
+      let i = 0;
+      while (i < buffer.length) {
+        const next = applies(buffer[i]) ? this.applyLookupAt(buffer, lookup.index, i, lookup.alternate, 0) : -1;
+        i = next >= 0 ? next : i + 1;
+      }
+    }
+  }
+
+  /**
+   * Get the GDEF class of a glyph (0 when the font has no GDEF table)
+   */
+  protected glyphClass(glyphId: number): number {
+    return this.gdef ? classOf(this.gdef.classDef, glyphId) : 0;
+  }
+
+  /**
+   * Whether a lookup skips a glyph because of its lookup flags
+   */
+  protected isIgnored(table: LookupTable, glyphId: number): boolean {
+    const flag = table.lookupFlag;
+    if (!flag || !this.gdef) {
+      return false;
+    }
+
+    const glyphClass = this.glyphClass(glyphId);
+    if ((flag & IGNORE_BASE_GLYPHS && glyphClass === 1) || (flag & IGNORE_LIGATURES && glyphClass === GLYPH_CLASS_LIGATURE)) {
+      return true;
+    }
+    if (glyphClass !== GLYPH_CLASS_MARK) {
+      return false;
+    }
+    if (flag & IGNORE_MARKS) {
+      return true;
+    }
+
+    const markAttachmentType = flag >> 8;
+    if (markAttachmentType && classOf(this.gdef.markAttachClassDef, glyphId) !== markAttachmentType) {
+      return true;
+    }
+    if (flag & USE_MARK_FILTERING_SET) {
+      const markSet = table.markFilteringSet === undefined ? undefined : this.gdef.markGlyphSets?.[table.markFilteringSet];
+      return coverageIndex(markSet, glyphId) < 0;
+    }
+    return false;
+  }
+
+  /**
+   * Find the positions of `count` glyphs starting at `start`, skipping ignored glyphs
+   */
+  protected matchForward(
+    buffer: T[], table: LookupTable, start: number, count: number, matches: (glyphId: number, k: number) => boolean
+  ): number[] | undefined {
+    const positions: number[] = [];
+    let i = start;
+    while (positions.length < count) {
+      if (i >= buffer.length) {
+        return undefined;
+      }
+      if (!this.isIgnored(table, buffer[i].id)) {
+        if (!matches(buffer[i].id, positions.length)) {
+          return undefined;
+        }
+        positions.push(i);
+      }
+      i++;
+    }
+    return positions;
+  }
+
+  /**
+   * Check the glyphs before `start`, nearest first, skipping ignored glyphs
+   */
+  protected matchBackward(
+    buffer: T[], table: LookupTable, start: number, count: number, matches: (glyphId: number, k: number) => boolean
+  ): boolean {
+    let matched = 0;
+    let i = start - 1;
+    while (matched < count) {
+      if (i < 0) {
+        return false;
+      }
+      if (!this.isIgnored(table, buffer[i].id)) {
+        if (!matches(buffer[i].id, matched)) {
+          return false;
+        }
+        matched++;
+      }
+      i--;
+    }
+    return true;
+  }
+
+  /**
+   * Find the first rule of a contextual (`chaining` false) or chaining contextual subtable that matches at a position
+   */
+  private matchContext(buffer: T[], table: LookupTable, chaining: boolean, subtable: ContextSubtable, position: number): ContextMatch | undefined {
+    const glyphId = buffer[position].id;
+    type Rule = {
+      backtrack: (id: number, k: number) => boolean;
+      backtrackCount: number;
+      input: (id: number, k: number) => boolean;
+      inputCount: number;
+      lookahead: (id: number, k: number) => boolean;
+      lookaheadCount: number;
+      lookupRecords: ContextMatch['lookupRecords'];
+    };
+    const rules: Rule[] = [];
+    const format = subtable.substFormat ?? subtable.posFormat;
+
+    if (format === 1) {
+      const index = coverageIndex(subtable.coverage, glyphId);
+      const ruleSets = (chaining ? subtable.chainRuleSets : subtable.ruleSets) ?? [];
+      for (const rule of index < 0 ? [] : ruleSets[index] ?? []) {
+        const input = rule.input ?? [];
+        const backtrack = rule.backtrack ?? [];
+        const lookahead = rule.lookahead ?? [];
+        rules.push({
+          backtrack: (id, k) => id === backtrack[k],
+          backtrackCount: backtrack.length,
+          input: (id, k) => k === 0 || id === input[k - 1],
+          inputCount: input.length + 1,
+          lookahead: (id, k) => id === lookahead[k],
+          lookaheadCount: lookahead.length,
+          lookupRecords: rule.lookupRecords
+        });
+      }
+    } else if (format === 2) {
+      if (coverageIndex(subtable.coverage, glyphId) >= 0) {
+        const inputClassDef = chaining ? subtable.inputClassDef : subtable.classDef;
+        const ruleSets = (chaining ? subtable.chainClassSet : subtable.classSets) ?? [];
+        for (const rule of ruleSets[classOf(inputClassDef, glyphId)] ?? []) {
+          const classes = rule.classes ?? rule.input ?? [];
+          const backtrack = rule.backtrack ?? [];
+          const lookahead = rule.lookahead ?? [];
+          rules.push({
+            backtrack: (id, k) => classOf(subtable.backtrackClassDef, id) === backtrack[k],
+            backtrackCount: backtrack.length,
+            input: (id, k) => k === 0 || classOf(inputClassDef, id) === classes[k - 1],
+            inputCount: classes.length + 1,
+            lookahead: (id, k) => classOf(subtable.lookaheadClassDef, id) === lookahead[k],
+            lookaheadCount: lookahead.length,
+            lookupRecords: rule.lookupRecords
+          });
+        }
+      }
+    } else if (format === 3) {
+      const inputCoverage = (chaining ? subtable.inputCoverage : subtable.coverages) ?? [];
+      const backtrackCoverage = subtable.backtrackCoverage ?? [];
+      const lookaheadCoverage = subtable.lookaheadCoverage ?? [];
+      rules.push({
+        backtrack: (id, k) => coverageIndex(backtrackCoverage[k], id) >= 0,
+        backtrackCount: backtrackCoverage.length,
+        input: (id, k) => coverageIndex(inputCoverage[k], id) >= 0,
+        inputCount: inputCoverage.length,
+        lookahead: (id, k) => coverageIndex(lookaheadCoverage[k], id) >= 0,
+        lookaheadCount: lookaheadCoverage.length,
+        lookupRecords: subtable.lookupRecords ?? []
+      });
+    }
+
+    for (const rule of rules) {
+      const positions = this.matchForward(buffer, table, position, rule.inputCount, rule.input);
+      if (!positions || positions[0] !== position) {
+        continue;
+      }
+      const lookahead = this.matchForward(
+        buffer, table, positions[positions.length - 1] + 1, rule.lookaheadCount, rule.lookahead
+      );
+      if (lookahead && this.matchBackward(buffer, table, position, rule.backtrackCount, rule.backtrack)) {
+        return { positions, lookupRecords: rule.lookupRecords };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Match a contextual or chaining contextual rule and run its nested lookups
+   * @returns The position after the matched input, or -1 when no rule matches
+   */
+  protected applyContext(
+    buffer: T[], table: LookupTable, chaining: boolean, subtable: ContextSubtable, position: number, depth: number
+  ): number {
+    const match = depth < MAX_NESTING ? this.matchContext(buffer, table, chaining, subtable, position) : undefined;
+    if (!match) {
+      return -1;
+    }
+
+    const { positions } = match;
+    let end = positions[positions.length - 1] + 1;
+    for (const record of match.lookupRecords) {
+      const target = positions[record.sequenceIndex];
+      if (target === undefined) {
+        continue;
+      }
+      const before = buffer.length;
+      this.applyLookupAt(buffer, record.lookupListIndex, target, 1, depth + 1);
+      // Keep later positions pointing at the same glyphs when the buffer grows or shrinks
+      const delta = buffer.length - before;
+      if (delta !== 0) {
+        for (let k = record.sequenceIndex + 1; k < positions.length; k++) {
+          positions[k] += delta;
+        }
+        end += delta;
+      }
+    }
+    return Math.max(end, position + 1);
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { textToSvgPath } from './index';
+import { OutlineEffects, PathPoint } from './types';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+/**
+ * Render a capital I, a plain rectangle in Inter, with outline effects
+ */
+async function renderI(effects?: OutlineEffects) {
+  const result = await textToSvgPath({ font: FONT, text: 'I', fontSize: 48, effects, outputFormats: ['glyphs', 'polylines'] });
+  return { glyph: result.glyphs![0], polylines: result.polylines! };
+}
+
+/**
+ * Twice the signed area of a contour, positive when it runs clockwise on screen
+ */
+function signedArea(contour: PathPoint[]): number {
+  return contour.reduce((sum, point, i) => {
+    const next = contour[(i + 1) % contour.length];
+    return sum + point.x * next.y - next.x * point.y;
+  }, 0);
+}
+
+/**
+ * Check that two boxes are the same, to a hundredth of a pixel
+ */
+function assertBox(actual: { x1: number; y1: number; x2: number; y2: number }, expected: typeof actual): void {
+  for (const key of ['x1', 'y1', 'x2', 'y2'] as const) {
+    assert.ok(Math.abs(actual[key] - expected[key]) < 0.01, `${key}: ${actual[key]} instead of ${expected[key]}`);
+  }
+}
+
+describe('outline effects', () => {
+  it('grows and shrinks outlines by the offset', async () => {
+    const { glyph: plain } = await renderI();
+    const box = plain.boundingBox;
+    assertBox((await renderI({ offset: 2 })).glyph.boundingBox, { x1: box.x1 - 2, y1: box.y1 - 2, x2: box.x2 + 2, y2: box.y2 + 2 });
+    assertBox((await renderI({ offset: -2 })).glyph.boundingBox, { x1: box.x1 + 2, y1: box.y1 + 2, x2: box.x2 - 2, y2: box.y2 - 2 });
+  });
+
+  it('rounds offset corners unless asked for another join', async () => {
+    const { polylines: plain } = await renderI();
+    assert.ok((await renderI({ offset: 2 })).polylines[0].length > plain[0].length);
+    assert.equal((await renderI({ offset: 2, join: 'miter' })).polylines[0].length, plain[0].length);
+  });
+
+  it('thickens stems for bold without changing the advance', async () => {
+    const { glyph: plain } = await renderI();
+    const { glyph: bold } = await renderI({ bold: true });
+    // A 24th of the font size, half on each side
+    assert.ok(Math.abs(bold.boundingBox.x1 - (plain.boundingBox.x1 - 1)) < 0.01);
+    assert.ok(Math.abs(bold.boundingBox.x2 - (plain.boundingBox.x2 + 1)) < 0.01);
+    assert.equal(bold.advanceWidth, plain.advanceWidth);
+  });
+
+  it('slants from the baseline for oblique', async () => {
+    const { glyph: plain } = await renderI();
+    const { glyph: slanted } = await renderI({ oblique: true });
+    const height = plain.boundingBox.y2 - plain.boundingBox.y1;
+    assert.equal(slanted.boundingBox.x1, plain.boundingBox.x1);
+    assert.ok(Math.abs(slanted.boundingBox.x2 - (plain.boundingBox.x2 + height * Math.tan(12 * Math.PI / 180))) < 0.01);
+  });
+
+  it('turns outlines into rings', async () => {
+    const { polylines } = await renderI({ outline: 4 });
+    assert.equal(polylines.length, 2);
+  });
+
+  it('rejects invalid effects', async () => {
+    const invalid: OutlineEffects[] = [
+      { offset: NaN }, { bold: Infinity }, { outline: -1 }, { oblique: 90 }, { oblique: -90 }, { join: 'square' as OutlineEffects['join'] }
+    ];
+    for (const effects of invalid) {
+      await assert.rejects(textToSvgPath({ font: FONT, text: 'I', effects }), { name: 'InvalidOptionError', option: 'effects' });
+    }
+  });
+});
+
+describe('union', () => {
+  it('merges overlapping contours', async () => {
+    // The variable font draws k from three overlapping contours
+    const separate = await textToSvgPath({ font: FONT, text: 'k', outputFormats: ['polylines'] });
+    const merged = await textToSvgPath({ font: FONT, text: 'k', union: true, outputFormats: ['polylines'] });
+    assert.equal(separate.polylines!.length, 3);
+    assert.equal(merged.polylines!.length, 1);
+  });
+
+  it('runs outer contours clockwise and holes counterclockwise', async () => {
+    const result = await textToSvgPath({ font: FONT, text: 'O', union: true, outputFormats: ['polylines'] });
+    const areas = result.polylines!.map(signedArea).sort((a, b) => Math.abs(b) - Math.abs(a));
+    assert.equal(areas.length, 2);
+    assert.ok(areas[0] > 0 && areas[1] < 0);
+  });
+
+  it('keeps the curves of contours that overlap nothing unless flattened', async () => {
+    const kept = await textToSvgPath({ font: FONT, text: 'O', union: true });
+    const flattened = await textToSvgPath({ font: FONT, text: 'O', union: { flatten: 0.5 } });
+    assert.match(kept.pathData, /[QC]/);
+    assert.doesNotMatch(flattened.pathData, /[QC]/);
+  });
+
+  it('limits how finely curves are flattened', async () => {
+    const fine = await textToSvgPath({ font: FONT, text: 'Os', union: { flatten: 1e-9 } });
+    const finest = await textToSvgPath({ font: FONT, text: 'Os', union: { flatten: 72 / 10000 } });
+    assert.equal(fine.pathData, finest.pathData);
+  });
+
+  it('rejects flatten tolerances that are not positive numbers', async () => {
+    for (const flatten of [0, -1, NaN, Infinity]) {
+      await assert.rejects(textToSvgPath({ font: FONT, text: 'Os', union: { flatten } }), { name: 'InvalidOptionError', option: 'union' });
+    }
+  });
+});
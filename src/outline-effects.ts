@@ -0,0 +1,131 @@
+import * as opentype from 'opentype.js';
+import { OutlineEffects, UnionOptions, PathPoint } from './types';
+import { Point, flattenCommands, segmentsWithinTolerance, splitSubpaths, reverseSubpath } from './path-geometry';
+import { simplifyContours, resolveContours, offsetContours } from './polygon';
+
+/**
+ * Slant of `oblique: true`, in degrees
+ */
+const DEFAULT_OBLIQUE_ANGLE = 12;
+
+/**
+ * Stem thickness added by `bold: true`, as a fraction of the font size
+ */
+const DEFAULT_BOLD = 1 / 24;
+
+/**
+ * Get the horizontal shift per pixel of height for an oblique effect, or 0 for none
+ */
+export function getObliqueSkew(effects?: OutlineEffects): number {
+  const oblique = effects?.oblique;
+  if (!oblique) {
+    return 0;
+  }
+  const angle = oblique === true ? DEFAULT_OBLIQUE_ANGLE : oblique;
+  return Math.tan(angle * Math.PI / 180);
+}
+
+/**
+ * Finest curve tolerance, as a fraction of the font size; finer ones only add points nobody can see
+ */
+const MIN_CURVE_TOLERANCE = 1 / 10000;
+
+/**
+ * Get the distance flattened curves may stray from the true ones: the given tolerance, but
+ * no finer than a ten-thousandth of the font size, or by default a thousandth of the font size
+ */
+export function getCurveTolerance(fontSize: number, tolerance?: number): number {
+  if (tolerance === undefined) {
+    return Math.max(0.01, fontSize / 1000);
+  }
+  return Math.max(tolerance, fontSize * MIN_CURVE_TOLERANCE);
+}
+
+/**
+ * Build a path of straight-sided closed contours
+ */
+export function contoursToPath(contours: Point[][]): opentype.Path {
+  const path = new opentype.Path();
+  for (const contour of contours) {
+    contour.forEach((point, i) => i === 0 ? path.moveTo(point.x, point.y) : path.lineTo(point.x, point.y));
+    path.close();
+  }
+  return path;
+}
+
+/**
+ * Apply the offset, bold and outline effects to a path. Curves are flattened to within
+ * a thousandth of the font size, and overlapping contours are merged first, so the result
+ * is offset as the shape it fills rather than contour by contour.
+ */
+export function applyOutlineEffects(path: opentype.Path, effects: OutlineEffects | undefined, fontSize: number): opentype.Path {
+  const { offset = 0, bold = false, outline, join = 'round' } = effects ?? {};
+  const boldness = bold === true ? DEFAULT_BOLD : bold || 0;
+  // Bold thickens stems by growing both of their sides
+  const grow = offset + boldness * fontSize / 2;
+  if (grow === 0 && !outline) {
+    return path;
+  }
+
+  const tolerance = getCurveTolerance(fontSize);
+  const polylines = flattenCommands(path.commands, segmentsWithinTolerance(tolerance));
+  const contours = simplifyContours(polylines.map(line => line.points), 'nonzero');
+  if (!outline) {
+    return contoursToPath(offsetContours(contours, grow, join, tolerance));
+  }
+
+  // The ring is the outer offset with the inner one cut out of it, running the other way
+  const outer = offsetContours(contours, grow + outline / 2, join, tolerance);
+  const inner = offsetContours(contours, grow - outline / 2, join, tolerance);
+  return contoursToPath([...outer, ...inner.map(contour => contour.slice().reverse())]);
+}
+
+/**
+ * Merge a path's overlapping contours into outlines that don't overlap, with outer contours
+ * clockwise on screen and holes counterclockwise. Contours that come through whole keep
+ * their curves unless `flatten` is set; the merged ones are made of straight segments.
+ */
+export function unionPath(path: opentype.Path, options: UnionOptions, fontSize: number): opentype.Path {
+  const { flatten } = options;
+  const segmentsFor = segmentsWithinTolerance(getCurveTolerance(fontSize, flatten));
+  const subpaths = splitSubpaths(path.commands);
+  const contours = subpaths.map(commands => flattenCommands(commands, segmentsFor)[0]?.points ?? []);
+
+  const result = new opentype.Path();
+  for (const contour of resolveContours(contours, 'nonzero')) {
+    if (flatten === undefined && contour.source !== undefined) {
+      const commands = subpaths[contour.source];
+      result.extend(contour.reversed ? reverseSubpath(commands) : commands);
+    } else {
+      result.extend(contoursToPath([contour.points]));
+    }
+  }
+  return result;
+}
+
+/**
+ * List a path's contours as closed polylines, rounded like its path data
+ * @param tolerance Largest distance between a flattened curve and the true one, in pixels
+ */
+export function pathToPolylines(path: opentype.Path, fontSize: number, tolerance?: number): PathPoint[][] {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const polylines = flattenCommands(path.commands, segmentsWithinTolerance(getCurveTolerance(fontSize, tolerance)));
+
+  return polylines.map(({ points }) => {
+    const rounded: PathPoint[] = [];
+    for (const point of points) {
+      const previous = rounded[rounded.length - 1];
+      const next = { x: round(point.x), y: round(point.y) };
+      if (!previous || previous.x !== next.x || previous.y !== next.y) {
+        rounded.push(next);
+      }
+    }
+    // Contours are closed, so a last point back at the start is left out
+    const first = rounded[0];
+    const last = rounded[rounded.length - 1];
+    if (rounded.length > 1 && first.x === last.x && first.y === last.y) {
+      rounded.pop();
+    }
+    return rounded;
+  }).filter(points => points.length > 1);
+}
@@ -0,0 +1,407 @@
+import * as opentype from 'opentype.js';
+
+/**
+ * A point in SVG coordinates
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * A flattened subpath
+ */
+export interface Polyline {
+  points: Point[];
+  closed: boolean;
+}
+
+/**
+ * Number of straight segments each curve is split into when flattening
+ * @default 16
+ */
+const DEFAULT_CURVE_SEGMENTS = 16;
+
+/**
+ * Split SVG path data into command letters and numbers
+ */
+function tokenizePathData(d: string): Array<string | number> {
+  const tokens: Array<string | number> = [];
+  const pattern = /([MmLlHhVvCcSsQqTtAaZz])|([-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(d)) !== null) {
+    tokens.push(match[1] ?? parseFloat(match[2]));
+  }
+  return tokens;
+}
+
+/**
+ * Convert an SVG elliptical arc into cubic bezier commands
+ */
+function arcToCubics(
+  x1: number, y1: number, rx: number, ry: number, rotation: number,
+  largeArc: boolean, sweep: boolean, x2: number, y2: number
+): opentype.PathCommand[] {
+  if (rx === 0 || ry === 0) {
+    return [{ type: 'L', x: x2, y: y2 }];
+  }
+
+  const phi = rotation * Math.PI / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+
+  // Convert from endpoint to center parameterization (SVG spec, appendix B.2.4)
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cosPhi * dx + sinPhi * dy;
+  const y1p = -sinPhi * dx + cosPhi * dy;
+
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coefficient = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+  const cxp = coefficient * (rx * y1p) / ry;
+  const cyp = coefficient * -(ry * x1p) / rx;
+  const cx = cosPhi * cxp - sinPhi * cyp + (x1 + x2) / 2;
+  const cy = sinPhi * cxp + cosPhi * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number): number => {
+    const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+    const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+    return sign * Math.acos(Math.min(1, Math.max(-1, dot)));
+  };
+
+  const theta1 = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let deltaTheta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && deltaTheta > 0) {
+    deltaTheta -= 2 * Math.PI;
+  } else if (sweep && deltaTheta < 0) {
+    deltaTheta += 2 * Math.PI;
+  }
+
+  // Approximate each quarter turn (or less) with one cubic
+  const segments = Math.ceil(Math.abs(deltaTheta) / (Math.PI / 2));
+  const step = deltaTheta / segments;
+  const handle = 4 / 3 * Math.tan(step / 4);
+  const ellipsePoint = (t: number): Point => ({
+    x: cx + rx * Math.cos(t) * cosPhi - ry * Math.sin(t) * sinPhi,
+    y: cy + rx * Math.cos(t) * sinPhi + ry * Math.sin(t) * cosPhi
+  });
+  const ellipseTangent = (t: number): Point => ({
+    x: -rx * Math.sin(t) * cosPhi - ry * Math.cos(t) * sinPhi,
+    y: -rx * Math.sin(t) * sinPhi + ry * Math.cos(t) * cosPhi
+  });
+
+  const commands: opentype.PathCommand[] = [];
+  for (let i = 0; i < segments; i++) {
+    const t1 = theta1 + i * step;
+    const t2 = t1 + step;
+    const p1 = ellipsePoint(t1);
+    const p2 = ellipsePoint(t2);
+    const d1 = ellipseTangent(t1);
+    const d2 = ellipseTangent(t2);
+    commands.push({
+      type: 'C',
+      x1: p1.x + handle * d1.x,
+      y1: p1.y + handle * d1.y,
+      x2: p2.x - handle * d2.x,
+      y2: p2.y - handle * d2.y,
+      x: p2.x,
+      y: p2.y
+    });
+  }
+  return commands;
+}
+
+/**
+ * Parse SVG path data into absolute M/L/C/Q/Z commands.
+ * Shorthand commands (H, V, S, T) and arcs (A) are converted to their full forms.
+ */
+export function parsePathData(d: string): opentype.PathCommand[] {
+  const tokens = tokenizePathData(d);
+  const commands: opentype.PathCommand[] = [];
+  let index = 0;
+  let command = '';
+  let current: Point = { x: 0, y: 0 };
+  let start: Point = { x: 0, y: 0 };
+  // Last control point, used to reflect S and T shorthand curves
+  let lastControl: Point | undefined;
+  let lastType = '';
+
+  const next = (): number => {
+    const token = tokens[index++];
+    if (typeof token !== 'number') {
+      throw new Error(`Invalid path data: expected a number near "${d.slice(0, 40)}"`);
+    }
+    return token;
+  };
+
+  while (index < tokens.length) {
+    if (typeof tokens[index] === 'string') {
+      command = tokens[index++] as string;
+    } else if (!command) {
+      throw new Error('Invalid path data: must start with a command');
+    }
+
+    const relative = command === command.toLowerCase();
+    const base = relative ? current : { x: 0, y: 0 };
+    const type = command.toUpperCase();
+
+    switch (type) {
+      case 'M': {
+        current = { x: base.x + next(), y: base.y + next() };
+        start = current;
+        commands.push({ type: 'M', ...current });
+        // Subsequent coordinate pairs are implicit line-tos
+        command = relative ? 'l' : 'L';
+        lastControl = undefined;
+        break;
+      }
+      case 'L':
+      case 'H':
+      case 'V': {
+        const x = type === 'V' ? current.x : base.x + next();
+        const y = type === 'H' ? current.y : base.y + next();
+        current = { x, y };
+        commands.push({ type: 'L', ...current });
+        lastControl = undefined;
+        break;
+      }
+      case 'C':
+      case 'S': {
+        let control1: Point;
+        if (type === 'S') {
+          control1 = lastControl && (lastType === 'C' || lastType === 'S')
+            ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+            : current;
+        } else {
+          control1 = { x: base.x + next(), y: base.y + next() };
+        }
+        const control2 = { x: base.x + next(), y: base.y + next() };
+        current = { x: base.x + next(), y: base.y + next() };
+        commands.push({ type: 'C', x1: control1.x, y1: control1.y, x2: control2.x, y2: control2.y, ...current });
+        lastControl = control2;
+        break;
+      }
+      case 'Q':
+      case 'T': {
+        let control: Point;
+        if (type === 'T') {
+          control = lastControl && (lastType === 'Q' || lastType === 'T')
+            ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+            : current;
+        } else {
+          control = { x: base.x + next(), y: base.y + next() };
+        }
+        current = { x: base.x + next(), y: base.y + next() };
+        commands.push({ type: 'Q', x1: control.x, y1: control.y, ...current });
+        lastControl = control;
+        break;
+      }
+      case 'A': {
+        const rx = next();
+        const ry = next();
+        const rotation = next();
+        const largeArc = next() !== 0;
+        const sweep = next() !== 0;
+        const end = { x: base.x + next(), y: base.y + next() };
+        commands.push(...arcToCubics(current.x, current.y, rx, ry, rotation, largeArc, sweep, end.x, end.y));
+        current = end;
+        lastControl = undefined;
+        break;
+      }
+      case 'Z': {
+        commands.push({ type: 'Z' });
+        current = start;
+        lastControl = undefined;
+        break;
+      }
+      default:
+        throw new Error(`Invalid path data: unknown command "${command}"`);
+    }
+
+    lastType = type;
+  }
+
+  return commands;
+}
+
+/**
+ * Pick the number of segments for each curve so the polyline stays within `tolerance` of it.
+ * Uses Wang's formula, which bounds the distance from the largest second difference of the control points.
+ */
+export function segmentsWithinTolerance(tolerance: number): (from: Point, command: opentype.PathCommand) => number {
+  return (from, command) => {
+    let size = 0;
+    let factor = 0;
+    if (command.type === 'Q') {
+      size = Math.hypot(from.x - 2 * command.x1 + command.x, from.y - 2 * command.y1 + command.y);
+      factor = 1 / 4;
+    } else if (command.type === 'C') {
+      size = Math.max(
+        Math.hypot(from.x - 2 * command.x1 + command.x2, from.y - 2 * command.y1 + command.y2),
+        Math.hypot(command.x1 - 2 * command.x2 + command.x, command.y1 - 2 * command.y2 + command.y)
+      );
+      factor = 3 / 4;
+    }
+    return Math.max(1, Math.ceil(Math.sqrt(factor * size / tolerance)));
+  };
+}
+
+/**
+ * Flatten path commands into polylines, one per subpath
+ * @param curveSegments Number of straight segments per curve, or a function picking it for each curve
+ */
+export function flattenCommands(
+  commands: opentype.PathCommand[],
+  curveSegments: number | ((from: Point, command: opentype.PathCommand) => number) = DEFAULT_CURVE_SEGMENTS
+): Polyline[] {
+  const segmentsFor = typeof curveSegments === 'number' ? () => curveSegments : curveSegments;
+  const polylines: Polyline[] = [];
+  let currentLine: Polyline | undefined;
+  let current: Point = { x: 0, y: 0 };
+
+  const ensureLine = (): Polyline => {
+    if (!currentLine) {
+      currentLine = { points: [{ ...current }], closed: false };
+      polylines.push(currentLine);
+    }
+    return currentLine;
+  };
+
+  for (const command of commands) {
+    switch (command.type) {
+      case 'M':
+        current = { x: command.x, y: command.y };
+        currentLine = { points: [{ ...current }], closed: false };
+        polylines.push(currentLine);
+        break;
+      case 'L':
+        current = { x: command.x, y: command.y };
+        ensureLine().points.push({ ...current });
+        break;
+      case 'Q': {
+        const line = ensureLine();
+        const from = current;
+        const segments = segmentsFor(from, command);
+        for (let i = 1; i <= segments; i++) {
+          const t = i / segments;
+          const mt = 1 - t;
+          line.points.push({
+            x: mt * mt * from.x + 2 * mt * t * command.x1 + t * t * command.x,
+            y: mt * mt * from.y + 2 * mt * t * command.y1 + t * t * command.y
+          });
+        }
+        current = { x: command.x, y: command.y };
+        break;
+      }
+      case 'C': {
+        const line = ensureLine();
+        const from = current;
+        const segments = segmentsFor(from, command);
+        for (let i = 1; i <= segments; i++) {
+          const t = i / segments;
+          const mt = 1 - t;
+          line.points.push({
+            x: mt * mt * mt * from.x + 3 * mt * mt * t * command.x1 + 3 * mt * t * t * command.x2 + t * t * t * command.x,
+            y: mt * mt * mt * from.y + 3 * mt * mt * t * command.y1 + 3 * mt * t * t * command.y2 + t * t * t * command.y
+          });
+        }
+        current = { x: command.x, y: command.y };
+        break;
+      }
+      case 'Z':
+        if (currentLine) {
+          currentLine.closed = true;
+          current = { ...currentLine.points[0] };
+          currentLine = undefined;
+        }
+        break;
+    }
+  }
+
+  return polylines.filter(line => line.points.length > 1);
+}
+
+/**
+ * Apply a point transform to every coordinate of a path's commands
+ */
+export function transformCommands(commands: opentype.PathCommand[], transform: (point: Point) => Point): opentype.PathCommand[] {
+  return commands.map(command => {
+    switch (command.type) {
+      case 'M':
+      case 'L':
+        return { type: command.type, ...transform(command) };
+      case 'Q': {
+        const control = transform({ x: command.x1, y: command.y1 });
+        return { type: 'Q', x1: control.x, y1: control.y, ...transform(command) };
+      }
+      case 'C': {
+        const control1 = transform({ x: command.x1, y: command.y1 });
+        const control2 = transform({ x: command.x2, y: command.y2 });
+        return { type: 'C', x1: control1.x, y1: control1.y, x2: control2.x, y2: control2.y, ...transform(command) };
+      }
+      default:
+        return { type: 'Z' };
+    }
+  });
+}
+
+/**
+ * Split path commands into their subpaths, each starting with its move
+ */
+export function splitSubpaths(commands: opentype.PathCommand[]): opentype.PathCommand[][] {
+  const subpaths: opentype.PathCommand[][] = [];
+  for (const command of commands) {
+    if (command.type === 'M' || subpaths.length === 0) {
+      subpaths.push([]);
+    }
+    subpaths[subpaths.length - 1].push(command);
+  }
+  return subpaths;
+}
+
+/**
+ * Reverse the direction of a closed subpath, keeping its curves
+ */
+export function reverseSubpath(commands: opentype.PathCommand[]): opentype.PathCommand[] {
+  const ends: Point[] = [];
+  for (const command of commands) {
+    if (command.type !== 'Z') {
+      ends.push({ x: command.x, y: command.y });
+    }
+  }
+  if (ends.length === 0) {
+    return [];
+  }
+
+  // Start from the first point, so the implicit closing line becomes the first explicit one
+  const start = ends[0];
+  const last = ends[ends.length - 1];
+  const reversed: opentype.PathCommand[] = [{ type: 'M', x: start.x, y: start.y }];
+  if (last.x !== start.x || last.y !== start.y) {
+    reversed.push({ type: 'L', x: last.x, y: last.y });
+  }
+  const drawn = commands.filter(command => command.type !== 'M' && command.type !== 'Z');
+  for (let i = drawn.length - 1; i >= 0; i--) {
+    const command = drawn[i];
+    const to = ends[i];
+    if (command.type === 'Q') {
+      reversed.push({ type: 'Q', x1: command.x1, y1: command.y1, x: to.x, y: to.y });
+    } else if (command.type === 'C') {
+      reversed.push({ type: 'C', x1: command.x2, y1: command.y2, x2: command.x1, y2: command.y1, x: to.x, y: to.y });
+    } else {
+      reversed.push({ type: 'L', x: to.x, y: to.y });
+    }
+  }
+  reversed.push({ type: 'Z' });
+  return reversed;
+}
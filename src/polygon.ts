@@ -0,0 +1,481 @@
+import { Point } from './path-geometry';
+import { OutlineJoin } from './types';
+
+/**
+ * Which regions of overlapping contours are inside, judged by their winding number
+ */
+export type FillRule = 'nonzero' | 'evenodd' | 'positive';
+
+/**
+ * Vertices are snapped to a grid this fine, so nearly identical points become one
+ */
+const SNAP_SCALE = 1e4;
+
+/**
+ * Relative tolerance for intersections at the very ends of segments
+ */
+const PARAMETER_EPSILON = 1e-9;
+
+/**
+ * Largest ratio between the sharp corner of a miter join and the offset distance
+ * before the join is cut off as a bevel
+ */
+const MITER_LIMIT = 4;
+
+/**
+ * A straight piece of a contour, with the points where other segments cross it
+ */
+interface Segment {
+  a: Point;
+  b: Point;
+  splits: Point[];
+  /** Index of the input contour the segment belongs to */
+  contour: number;
+}
+
+/**
+ * An edge between two snapped vertices, counted once per contour that runs along it.
+ * The weight is how many more times it's traversed from `from` to `to` than back.
+ */
+interface Edge {
+  from: number;
+  to: number;
+  weight: number;
+  /** Index of the one input contour running along the edge, or -1 when there are several */
+  source: number;
+}
+
+/**
+ * Edges sorted into bands along one axis, for casting rays across the other
+ */
+interface EdgeBands {
+  min: number;
+  size: number;
+  bands: Edge[][];
+}
+
+/**
+ * A simplified contour. When an input contour comes through whole, with no part of it cut
+ * or merged, `source` is its index, and `reversed` whether it now runs the other way.
+ */
+export interface ResolvedContour {
+  points: Point[];
+  source?: number;
+  reversed?: boolean;
+}
+
+/**
+ * Get the signed area of a contour; positive when it runs counterclockwise with y pointing up
+ * (clockwise on screen, where y points down)
+ */
+export function signedArea(contour: Point[]): number {
+  let area = 0;
+  for (let i = 0, j = contour.length - 1; i < contour.length; j = i++) {
+    area += contour[j].x * contour[i].y - contour[i].x * contour[j].y;
+  }
+  return area / 2;
+}
+
+/**
+ * Cross product of two vectors
+ */
+function cross(ax: number, ay: number, bx: number, by: number): number {
+  return ax * by - ay * bx;
+}
+
+/**
+ * Record where two segments cross or overlap, as split points on each of them
+ */
+function intersectSegments(segment: Segment, other: Segment): void {
+  if (Math.max(segment.a.y, segment.b.y) < Math.min(other.a.y, other.b.y)
+    || Math.min(segment.a.y, segment.b.y) > Math.max(other.a.y, other.b.y)) {
+    return;
+  }
+
+  const rx = segment.b.x - segment.a.x;
+  const ry = segment.b.y - segment.a.y;
+  const qx = other.b.x - other.a.x;
+  const qy = other.b.y - other.a.y;
+  const dx = other.a.x - segment.a.x;
+  const dy = other.a.y - segment.a.y;
+  const rLength = Math.hypot(rx, ry);
+  const qLength = Math.hypot(qx, qy);
+  const denominator = cross(rx, ry, qx, qy);
+  const isInterior = (t: number) => t > PARAMETER_EPSILON && t < 1 - PARAMETER_EPSILON;
+
+  if (Math.abs(denominator) > PARAMETER_EPSILON * rLength * qLength) {
+    const t = cross(dx, dy, qx, qy) / denominator;
+    const u = cross(dx, dy, rx, ry) / denominator;
+    if (t < -PARAMETER_EPSILON || t > 1 + PARAMETER_EPSILON || u < -PARAMETER_EPSILON || u > 1 + PARAMETER_EPSILON) {
+      return;
+    }
+    const point = { x: segment.a.x + rx * t, y: segment.a.y + ry * t };
+    if (isInterior(t)) {
+      segment.splits.push(point);
+    }
+    if (isInterior(u)) {
+      other.splits.push(point);
+    }
+    return;
+  }
+
+  // Parallel segments only touch when they lie on the same line; then each is split at the other's ends
+  const distance = Math.abs(cross(dx, dy, rx, ry)) / rLength;
+  if (distance > 1 / SNAP_SCALE) {
+    return;
+  }
+  for (const point of [other.a, other.b]) {
+    if (isInterior(((point.x - segment.a.x) * rx + (point.y - segment.a.y) * ry) / (rLength * rLength))) {
+      segment.splits.push(point);
+    }
+  }
+  for (const point of [segment.a, segment.b]) {
+    if (isInterior(((point.x - other.a.x) * qx + (point.y - other.a.y) * qy) / (qLength * qLength))) {
+      other.splits.push(point);
+    }
+  }
+}
+
+/**
+ * Find every crossing between segments, sweeping from left to right so only
+ * segments that overlap horizontally are compared
+ */
+function splitAtIntersections(segments: Segment[]): void {
+  const minX = (segment: Segment) => Math.min(segment.a.x, segment.b.x);
+  const maxX = (segment: Segment) => Math.max(segment.a.x, segment.b.x);
+  const sorted = segments.slice().sort((a, b) => minX(a) - minX(b));
+  let active: Segment[] = [];
+
+  for (const segment of sorted) {
+    const start = minX(segment);
+    active = active.filter(other => maxX(other) >= start);
+    for (const other of active) {
+      intersectSegments(segment, other);
+    }
+    active.push(segment);
+  }
+}
+
+/**
+ * Sort edges into bands by their extent along the y axis (for rays along x) or the x axis
+ */
+function buildBands(edges: Edge[], vertices: Point[], axis: 'x' | 'y'): EdgeBands {
+  const coordinate = (index: number) => axis === 'x' ? vertices[index].y : vertices[index].x;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const edge of edges) {
+    min = Math.min(min, coordinate(edge.from), coordinate(edge.to));
+    max = Math.max(max, coordinate(edge.from), coordinate(edge.to));
+  }
+
+  const count = Math.max(1, Math.ceil(Math.sqrt(edges.length)));
+  const size = (max - min) / count || 1;
+  const bands: Edge[][] = Array.from({ length: count }, () => []);
+  for (const edge of edges) {
+    const low = Math.min(coordinate(edge.from), coordinate(edge.to));
+    const high = Math.max(coordinate(edge.from), coordinate(edge.to));
+    const last = Math.min(count - 1, Math.floor((high - min) / size));
+    for (let band = Math.min(count - 1, Math.floor((low - min) / size)); band <= last; band++) {
+      bands[band].push(edge);
+    }
+  }
+  return { min, size, bands };
+}
+
+/**
+ * Get the winding number just beside a point, counting the edges crossed by a ray
+ * from it towards +x or +y. The edge the point lies on is left out.
+ */
+function windingAlongRay(point: Point, skip: Edge, index: EdgeBands, vertices: Point[], axis: 'x' | 'y'): number {
+  const along = axis === 'x' ? point.y : point.x;
+  const band = index.bands[Math.min(index.bands.length - 1, Math.max(0, Math.floor((along - index.min) / index.size)))];
+  let winding = 0;
+
+  for (const edge of band) {
+    if (edge === skip) {
+      continue;
+    }
+    const from = vertices[edge.from];
+    const to = vertices[edge.to];
+    if (axis === 'x') {
+      if ((from.y <= point.y) !== (to.y <= point.y)
+        && from.x + (point.y - from.y) * (to.x - from.x) / (to.y - from.y) > point.x) {
+        winding += to.y > from.y ? edge.weight : -edge.weight;
+      }
+    } else if ((from.x <= point.x) !== (to.x <= point.x)
+      && from.y + (point.x - from.x) * (to.y - from.y) / (to.x - from.x) > point.y) {
+      winding += to.x < from.x ? edge.weight : -edge.weight;
+    }
+  }
+  return winding;
+}
+
+/**
+ * Check whether a winding number is inside under a fill rule
+ */
+function isInside(winding: number, fillRule: FillRule): boolean {
+  if (fillRule === 'evenodd') {
+    return winding % 2 !== 0;
+  }
+  return fillRule === 'positive' ? winding > 0 : winding !== 0;
+}
+
+/**
+ * Drop points that lie on the straight line between their neighbours
+ */
+function removeCollinear(contour: Point[]): Point[] {
+  const result: Point[] = [];
+  for (let i = 0; i < contour.length; i++) {
+    const previous = result.length > 0 ? result[result.length - 1] : contour[contour.length - 1];
+    const point = contour[i];
+    const next = contour[(i + 1) % contour.length];
+    const turn = cross(point.x - previous.x, point.y - previous.y, next.x - point.x, next.y - point.y);
+    if (Math.abs(turn) > 1 / (SNAP_SCALE * SNAP_SCALE)) {
+      result.push(point);
+    }
+  }
+  return result;
+}
+
+/**
+ * Resolve overlapping and self-intersecting contours into the outline of the region they fill.
+ * The result has no overlapping contours, and runs with the filled region on its left:
+ * outer contours have a positive signed area and holes a negative one.
+ * @param fillRule How the input's winding numbers decide what is filled
+ */
+export function simplifyContours(contours: Point[][], fillRule: FillRule = 'nonzero'): Point[][] {
+  return resolveContours(contours, fillRule).map(contour => contour.points);
+}
+
+/**
+ * Simplify contours like `simplifyContours`, noting which input contours came through whole
+ */
+export function resolveContours(contours: Point[][], fillRule: FillRule = 'nonzero'): ResolvedContour[] {
+  const segments: Segment[] = [];
+  contours.forEach((contour, index) => {
+    for (let i = 0; i < contour.length; i++) {
+      const a = contour[i];
+      const b = contour[(i + 1) % contour.length];
+      if (a.x !== b.x || a.y !== b.y) {
+        segments.push({ a, b, splits: [], contour: index });
+      }
+    }
+  });
+  splitAtIntersections(segments);
+
+  // Snap every end and crossing to the grid, then merge edges that run along the same two vertices
+  const vertices: Point[] = [];
+  const vertexIds = new Map<string, number>();
+  const vertexId = (point: Point): number => {
+    const x = Math.round(point.x * SNAP_SCALE) / SNAP_SCALE;
+    const y = Math.round(point.y * SNAP_SCALE) / SNAP_SCALE;
+    const key = `${x},${y}`;
+    let id = vertexIds.get(key);
+    if (id === undefined) {
+      id = vertices.length;
+      vertices.push({ x, y });
+      vertexIds.set(key, id);
+    }
+    return id;
+  };
+
+  const edgeMap = new Map<string, Edge>();
+  const edgeCounts = new Array<number>(contours.length).fill(0);
+  for (const segment of segments) {
+    const { a, b } = segment;
+    const parameter = (point: Point) => (point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y);
+    const points = [a, ...segment.splits.sort((p, q) => parameter(p) - parameter(q)), b].map(vertexId);
+    for (let i = 1; i < points.length; i++) {
+      const from = points[i - 1];
+      const to = points[i];
+      if (from === to) {
+        continue;
+      }
+      const key = from < to ? `${from},${to}` : `${to},${from}`;
+      const existing = edgeMap.get(key);
+      const edge = existing ?? { from: Math.min(from, to), to: Math.max(from, to), weight: 0, source: segment.contour };
+      if (existing) {
+        edge.source = -1;
+      }
+      edge.weight += from < to ? 1 : -1;
+      edgeMap.set(key, edge);
+      edgeCounts[segment.contour]++;
+    }
+  }
+  const edges = Array.from(edgeMap.values()).filter(edge => edge.weight !== 0);
+  if (edges.length === 0) {
+    return [];
+  }
+
+  // Keep the edges with the filled region on one side only, turned so it's on their left
+  const bandsX = buildBands(edges, vertices, 'x');
+  const bandsY = buildBands(edges, vertices, 'y');
+  const boundary: Array<{ from: number; to: number; source: number; reversed: boolean }> = [];
+  for (const edge of edges) {
+    const from = vertices[edge.from];
+    const to = vertices[edge.to];
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const axis = Math.abs(dy) >= Math.abs(dx) ? 'x' : 'y';
+    const middle = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+    const winding = windingAlongRay(middle, edge, axis === 'x' ? bandsX : bandsY, vertices, axis);
+    // The ray leaves on the edge's left when it points against the edge's right-hand normal
+    const rayIsLeft = axis === 'x' ? dy < 0 : dx > 0;
+    const left = rayIsLeft ? winding : winding + edge.weight;
+    const insideLeft = isInside(left, fillRule);
+    if (insideLeft !== isInside(left - edge.weight, fillRule)) {
+      const { source } = edge;
+      const reversed = insideLeft !== edge.weight > 0;
+      boundary.push(insideLeft ? { from: edge.from, to: edge.to, source, reversed } : { from: edge.to, to: edge.from, source, reversed });
+    }
+  }
+
+  // Walk the boundary, at each vertex taking the sharpest left turn so touching regions stay separate
+  const outgoing = new Map<number, number[]>();
+  boundary.forEach((edge, index) => {
+    const list = outgoing.get(edge.from) ?? [];
+    list.push(index);
+    outgoing.set(edge.from, list);
+  });
+  const angleOf = (from: number, to: number) => Math.atan2(vertices[to].y - vertices[from].y, vertices[to].x - vertices[from].x);
+  const used = new Array<boolean>(boundary.length).fill(false);
+  const result: ResolvedContour[] = [];
+
+  for (let start = 0; start < boundary.length; start++) {
+    if (used[start]) {
+      continue;
+    }
+    const loop: Point[] = [];
+    const { source, reversed } = boundary[start];
+    let isWhole = source >= 0;
+    let current = start;
+    while (!used[current]) {
+      used[current] = true;
+      const edge = boundary[current];
+      loop.push(vertices[edge.from]);
+      isWhole = isWhole && edge.source === source && edge.reversed === reversed;
+
+      const back = angleOf(edge.to, edge.from);
+      let best = -1;
+      let bestTurn = Infinity;
+      for (const candidate of outgoing.get(edge.to) ?? []) {
+        let turn = back - angleOf(edge.to, boundary[candidate].to);
+        while (turn <= 0) {
+          turn += 2 * Math.PI;
+        }
+        if (turn < bestTurn) {
+          bestTurn = turn;
+          best = candidate;
+        }
+      }
+      if (best < 0) {
+        break;
+      }
+      current = best;
+    }
+
+    const points = removeCollinear(loop);
+    if (points.length >= 3 && Math.abs(signedArea(points)) > 1 / (SNAP_SCALE * SNAP_SCALE)) {
+      result.push(isWhole && loop.length === edgeCounts[source] ? { points, source, reversed } : { points });
+    }
+  }
+  return result;
+}
+
+/**
+ * Check whether a point is inside a contour by the even-odd rule
+ */
+function containsPoint(contour: Point[], point: Point): boolean {
+  let inside = false;
+  for (let i = 0, j = contour.length - 1; i < contour.length; j = i++) {
+    const a = contour[i];
+    const b = contour[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < a.x + (point.y - a.y) * (b.x - a.x) / (b.y - a.y)) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Find which contours are holes: those inside an odd number of the others.
+ * Unlike the winding direction, this doesn't depend on how the font drew them.
+ */
+export function findHoles(contours: Point[][]): boolean[] {
+  return contours.map((contour, index) => {
+    let depth = 0;
+    contours.forEach((other, otherIndex) => {
+      if (otherIndex !== index && containsPoint(other, contour[0])) {
+        depth++;
+      }
+    });
+    return depth % 2 === 1;
+  });
+}
+
+/**
+ * Offset one contour outwards by `delta` (inwards when negative), without resolving the loops
+ * that form where the offset folds over itself
+ */
+function offsetContour(contour: Point[], delta: number, join: OutlineJoin, tolerance: number): Point[] {
+  const count = contour.length;
+  // Outward normals of each edge, for a contour with its inside on the left
+  const normals = contour.map((point, i) => {
+    const next = contour[(i + 1) % count];
+    const length = Math.hypot(next.x - point.x, next.y - point.y) || 1;
+    return { x: (next.y - point.y) / length, y: -(next.x - point.x) / length };
+  });
+  // Largest angle step that keeps round joins within the tolerance
+  const step = 2 * Math.acos(Math.max(-1, 1 - tolerance / Math.abs(delta)));
+  const result: Point[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const point = contour[i];
+    const before = normals[(i + count - 1) % count];
+    const after = normals[i];
+    const turn = cross(before.x, before.y, after.x, after.y);
+    const dot = before.x * after.x + before.y * after.y;
+
+    if (Math.abs(turn) < 1e-9 && dot > 0) {
+      result.push({ x: point.x + after.x * delta, y: point.y + after.y * delta });
+      continue;
+    }
+    const start = { x: point.x + before.x * delta, y: point.y + before.y * delta };
+    const end = { x: point.x + after.x * delta, y: point.y + after.y * delta };
+
+    // Corners turning away from the offset leave a gap to fill; the others fold back through the corner
+    if (turn * delta <= 0) {
+      result.push(start, point, end);
+      continue;
+    }
+
+    if (join === 'miter' && 1 + dot > 2 / (MITER_LIMIT * MITER_LIMIT)) {
+      const scale = delta / (1 + dot);
+      result.push({ x: point.x + (before.x + after.x) * scale, y: point.y + (before.y + after.y) * scale });
+    } else if (join === 'round') {
+      const sweep = Math.atan2(turn, dot);
+      const steps = Math.max(1, Math.ceil(Math.abs(sweep) / step));
+      const angle = Math.atan2(before.y, before.x);
+      for (let k = 0; k <= steps; k++) {
+        const theta = angle + sweep * k / steps;
+        result.push({ x: point.x + Math.cos(theta) * delta, y: point.y + Math.sin(theta) * delta });
+      }
+    } else {
+      result.push(start, end);
+    }
+  }
+  return result;
+}
+
+/**
+ * Grow contours outwards by `delta`, or shrink them when it's negative.
+ * The contours must already be simplified, with their filled region on the left.
+ * @param tolerance Largest distance between a round join and its true arc
+ */
+export function offsetContours(contours: Point[][], delta: number, join: OutlineJoin, tolerance: number): Point[][] {
+  if (delta === 0) {
+    return contours;
+  }
+  // Offset loops keep the filled region's winding positive; folds and collapsed parts turn negative
+  return simplifyContours(contours.map(contour => offsetContour(contour, delta, join, tolerance)), 'positive');
+}
@@ -0,0 +1,264 @@
+import * as opentype from 'opentype.js';
+import { RasterOptions } from './types';
+import { Point, flattenCommands, segmentsWithinTolerance, transformCommands } from './path-geometry';
+import { simplifyContours, offsetContours } from './polygon';
+import { ExportStyle, resolveParts } from './export-formats';
+import { RgbaColor, requireColor } from './color';
+import { InvalidOptionError } from './errors';
+
+/**
+ * Region of the drawing shown in a raster image, in SVG pixels
+ */
+export interface RasterFrame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Colours a raster image is painted with: the outline's fill and stroke over an optional background
+ */
+export interface RasterStyle extends ExportStyle {
+  background?: string;
+  /** Corner radius of the background, in SVG pixels */
+  backgroundRadius?: number;
+}
+
+/**
+ * An image with straight (not premultiplied) RGBA pixels, row by row from the top left
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * Largest distance between flattened curves and the true ones, in image pixels
+ */
+const DEVICE_TOLERANCE = 0.1;
+
+/**
+ * Largest image rendered by default, in pixels, so a huge scale can't exhaust memory
+ */
+const MAX_PIXELS = 1 << 26;
+
+/**
+ * Get the number of image pixels per SVG pixel, from `dpi` (96 dpi being 1) or `scale`
+ */
+export function getRasterScale(options: RasterOptions = {}): number {
+  const scale = options.dpi !== undefined ? options.dpi / 96 : options.scale ?? 1;
+  if (!(scale > 0) || !isFinite(scale)) {
+    throw new InvalidOptionError(`Invalid raster ${options.dpi !== undefined ? 'dpi' : 'scale'}: ${options.dpi ?? options.scale}`, 'raster');
+  }
+  return scale;
+}
+
+/**
+ * Compute how much of each pixel the contours cover under the nonzero rule, from 0 to 1.
+ * Each edge adds the signed area it covers to an accumulation buffer; summing a row
+ * from the left then gives the coverage, with exact anti-aliasing along the edges.
+ */
+function rasterizeCoverage(contours: Point[][], width: number, height: number): Float32Array {
+  // Two spare columns take the area of edges at or past the right-hand side
+  const stride = width + 2;
+  const accumulation = new Float32Array(stride * height);
+
+  const drawLine = (from: Point, to: Point) => {
+    if (Math.abs(from.y - to.y) < 1e-9) {
+      return;
+    }
+    const direction = from.y < to.y ? 1 : -1;
+    const [top, bottom] = direction > 0 ? [from, to] : [to, from];
+    const dxdy = (bottom.x - top.x) / (bottom.y - top.y);
+    let x = top.y < 0 ? top.x - top.y * dxdy : top.x;
+    const end = Math.min(height, Math.ceil(bottom.y));
+
+    for (let y = Math.max(0, Math.floor(top.y)); y < end; y++) {
+      const row = y * stride;
+      const dy = Math.min(y + 1, bottom.y) - Math.max(y, top.y);
+      const xNext = x + dxdy * dy;
+      const d = dy * direction;
+      const x0 = Math.min(x, xNext);
+      const x1 = Math.max(x, xNext);
+      const x0Floor = Math.floor(x0);
+      const x1Ceil = Math.ceil(x1);
+
+      if (x1Ceil <= x0Floor + 1) {
+        // The edge stays within one pixel on this row
+        const middle = 0.5 * (x + xNext) - x0Floor;
+        accumulation[row + x0Floor] += d - d * middle;
+        accumulation[row + x0Floor + 1] += d * middle;
+      } else {
+        // Spread the area over the pixels the edge crosses
+        const slope = 1 / (x1 - x0);
+        const x0Fraction = x0 - x0Floor;
+        const first = 0.5 * slope * (1 - x0Fraction) * (1 - x0Fraction);
+        const x1Fraction = x1 - x1Ceil + 1;
+        const last = 0.5 * slope * x1Fraction * x1Fraction;
+        accumulation[row + x0Floor] += d * first;
+        if (x1Ceil === x0Floor + 2) {
+          accumulation[row + x0Floor + 1] += d * (1 - first - last);
+        } else {
+          const second = slope * (1.5 - x0Fraction);
+          accumulation[row + x0Floor + 1] += d * (second - first);
+          for (let xi = x0Floor + 2; xi < x1Ceil - 1; xi++) {
+            accumulation[row + xi] += d * slope;
+          }
+          const beforeLast = second + (x1Ceil - x0Floor - 3) * slope;
+          accumulation[row + x1Ceil - 1] += d * (1 - beforeLast - last);
+        }
+        accumulation[row + x1Ceil] += d * last;
+      }
+      x = xNext;
+    }
+  };
+
+  // Edges are cut where they leave the image at the sides and pinned to the side beyond that,
+  // which keeps the winding of every pixel inside the image the same
+  const clamp = (value: number) => Math.min(width, Math.max(0, value));
+  for (const contour of contours) {
+    for (let i = 0; i < contour.length; i++) {
+      const a = contour[i];
+      const b = contour[(i + 1) % contour.length];
+      const cuts = [0, 1];
+      for (const side of [0, width]) {
+        if ((a.x - side) * (b.x - side) < 0) {
+          cuts.push((side - a.x) / (b.x - a.x));
+        }
+      }
+      cuts.sort((p, q) => p - q);
+      for (let k = 1; k < cuts.length; k++) {
+        const from = { x: clamp(a.x + (b.x - a.x) * cuts[k - 1]), y: a.y + (b.y - a.y) * cuts[k - 1] };
+        const to = { x: clamp(a.x + (b.x - a.x) * cuts[k]), y: a.y + (b.y - a.y) * cuts[k] };
+        drawLine(from, to);
+      }
+    }
+  }
+
+  const coverage = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    let sum = 0;
+    for (let x = 0; x < width; x++) {
+      sum += accumulation[y * stride + x];
+      coverage[y * width + x] = Math.min(1, Math.abs(sum));
+    }
+  }
+  return coverage;
+}
+
+/**
+ * Turn each contour's stroke into a filled ring, with the miter joins SVG draws by default.
+ * Contours are stroked one by one, so overlapping contours show their edges as they do in SVG.
+ */
+function strokeContours(contours: Point[][], halfWidth: number): Point[][] {
+  const rings: Point[][] = [];
+  for (const contour of contours) {
+    const region = simplifyContours([contour], 'nonzero');
+    rings.push(...offsetContours(region, halfWidth, 'miter', DEVICE_TOLERANCE));
+    rings.push(...offsetContours(region, -halfWidth, 'miter', DEVICE_TOLERANCE).map(inner => inner.slice().reverse()));
+  }
+  return rings;
+}
+
+/**
+ * Trace a rectangle with rounded corners, clockwise from the top left, with radii clamped
+ * to half its sides like SVG's `rx`
+ */
+function roundedRect(width: number, height: number, radius: number): Point[] {
+  const r = Math.min(radius, width / 2, height / 2);
+  // Enough segments per corner to stay within the tolerance of the true arc
+  const steps = Math.max(1, Math.ceil(Math.PI / 2 / (2 * Math.acos(Math.max(0, 1 - DEVICE_TOLERANCE / r)))));
+  const corners = [
+    { x: width - r, y: r, start: -Math.PI / 2 },
+    { x: width - r, y: height - r, start: 0 },
+    { x: r, y: height - r, start: Math.PI / 2 },
+    { x: r, y: r, start: Math.PI }
+  ];
+  const points: Point[] = [];
+  for (const corner of corners) {
+    for (let i = 0; i <= steps; i++) {
+      const angle = corner.start + Math.PI / 2 * i / steps;
+      points.push({ x: corner.x + r * Math.cos(angle), y: corner.y + r * Math.sin(angle) });
+    }
+  }
+  return points;
+}
+
+/**
+ * Render an outline into an anti-aliased RGBA image, painting its fill and then its stroke
+ * over the background like an SVG renderer would. Painted parts are drawn one after another,
+ * each faded by its opacity, and the whole text is faded by the style's opacity.
+ * @param frame Region of the drawing to show
+ * @param scale Image pixels per SVG pixel
+ * @param maxPixels Largest image to render, checked before anything is drawn
+ */
+export function rasterizePath(path: opentype.Path, frame: RasterFrame, style: RasterStyle, scale: number, maxPixels = MAX_PIXELS): RgbaImage {
+  const width = Math.max(1, Math.ceil(frame.width * scale));
+  const height = Math.max(1, Math.ceil(frame.height * scale));
+  if (width * height > maxPixels) {
+    throw new InvalidOptionError(`Raster image of ${width}x${height} pixels is too large`, 'raster');
+  }
+  const parts = resolveParts(path, style);
+  const background = style.background ? requireColor(style.background, 'background') : undefined;
+  // Rounded corners leave the background partly uncovered
+  const backgroundCoverage = background && style.backgroundRadius
+    ? rasterizeCoverage([roundedRect(frame.width * scale, frame.height * scale, style.backgroundRadius * scale)], width, height)
+    : undefined;
+
+  const toImage = (point: Point): Point => ({ x: (point.x - frame.x) * scale, y: (point.y - frame.y) * scale });
+  const groups = parts.map(part => {
+    const contours = flattenCommands(transformCommands(part.path.commands, toImage), segmentsWithinTolerance(DEVICE_TOLERANCE))
+      .map(line => line.points);
+    const layers: Array<{ color: RgbaColor; coverage: Float32Array }> = [];
+    if (part.hasFill) {
+      layers.push({ color: part.fill, coverage: rasterizeCoverage(contours, width, height) });
+    }
+    if (part.hasStroke) {
+      layers.push({ color: part.stroke, coverage: rasterizeCoverage(strokeContours(contours, part.strokeWidth * scale / 2), width, height) });
+    }
+    return { layers, opacity: part.opacity };
+  });
+  const textOpacity = style.opacity ?? 1;
+
+  // Composite the text with premultiplied alpha, fading each part and then the whole text,
+  // over the background, then store straight alpha
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    let textR = 0;
+    let textG = 0;
+    let textB = 0;
+    let textAlpha = 0;
+    for (const { layers, opacity } of groups) {
+      let partR = 0;
+      let partG = 0;
+      let partB = 0;
+      let partAlpha = 0;
+      for (const { color, coverage } of layers) {
+        const layerAlpha = color.a * coverage[i];
+        partR = color.r * layerAlpha + partR * (1 - layerAlpha);
+        partG = color.g * layerAlpha + partG * (1 - layerAlpha);
+        partB = color.b * layerAlpha + partB * (1 - layerAlpha);
+        partAlpha = layerAlpha + partAlpha * (1 - layerAlpha);
+      }
+      textR = partR * opacity + textR * (1 - partAlpha * opacity);
+      textG = partG * opacity + textG * (1 - partAlpha * opacity);
+      textB = partB * opacity + textB * (1 - partAlpha * opacity);
+      textAlpha = partAlpha * opacity + textAlpha * (1 - partAlpha * opacity);
+    }
+
+    let alpha = background ? background.a * (backgroundCoverage ? backgroundCoverage[i] : 1) : 0;
+    const r = textR * textOpacity + (background ? background.r * alpha : 0) * (1 - textAlpha * textOpacity);
+    const g = textG * textOpacity + (background ? background.g * alpha : 0) * (1 - textAlpha * textOpacity);
+    const b = textB * textOpacity + (background ? background.b * alpha : 0) * (1 - textAlpha * textOpacity);
+    alpha = textAlpha * textOpacity + alpha * (1 - textAlpha * textOpacity);
+    if (alpha > 0) {
+      data[i * 4] = Math.round(r / alpha);
+      data[i * 4 + 1] = Math.round(g / alpha);
+      data[i * 4 + 2] = Math.round(b / alpha);
+      data[i * 4 + 3] = Math.round(alpha * 255);
+    }
+  }
+  return { width, height, data };
+}
@@ -0,0 +1,110 @@
+/**
+ * OpenType script tags for the Unicode scripts shaped with their own rules or features.
+ * Indic scripts list the newer shaping model's tag first.
+ */
+const SCRIPT_TAGS: Array<{ pattern: RegExp; tags: string[] }> = [
+  { pattern: /\p{Script=Arabic}/u, tags: ['arab'] },
+  { pattern: /\p{Script=Hebrew}/u, tags: ['hebr'] },
+  { pattern: /\p{Script=Syriac}/u, tags: ['syrc'] },
+  { pattern: /\p{Script=Thaana}/u, tags: ['thaa'] },
+  { pattern: /\p{Script=Nko}/u, tags: ['nko '] },
+  { pattern: /\p{Script=Devanagari}/u, tags: ['dev2', 'deva'] },
+  { pattern: /\p{Script=Bengali}/u, tags: ['bng2', 'beng'] },
+  { pattern: /\p{Script=Gurmukhi}/u, tags: ['gur2', 'guru'] },
+  { pattern: /\p{Script=Gujarati}/u, tags: ['gjr2', 'gujr'] },
+  { pattern: /\p{Script=Oriya}/u, tags: ['ory2', 'orya'] },
+  { pattern: /\p{Script=Tamil}/u, tags: ['tml2', 'taml'] },
+  { pattern: /\p{Script=Telugu}/u, tags: ['tel2', 'telu'] },
+  { pattern: /\p{Script=Kannada}/u, tags: ['knd2', 'knda'] },
+  { pattern: /\p{Script=Malayalam}/u, tags: ['mlm2', 'mlym'] },
+  { pattern: /\p{Script=Thai}/u, tags: ['thai'] },
+  { pattern: /\p{Script=Lao}/u, tags: ['lao '] },
+  { pattern: /\p{Script=Latin}/u, tags: ['latn'] },
+  { pattern: /\p{Script=Cyrillic}/u, tags: ['cyrl'] },
+  { pattern: /\p{Script=Greek}/u, tags: ['grek'] },
+  { pattern: /\p{Script=Armenian}/u, tags: ['armn'] },
+  { pattern: /\p{Script=Georgian}/u, tags: ['geor'] },
+  { pattern: /\p{Script=Han}/u, tags: ['hani'] },
+  { pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/u, tags: ['kana'] },
+  { pattern: /\p{Script=Hangul}/u, tags: ['hang'] }
+];
+
+/**
+ * Scripts whose joining and reordering rules the Indic shaper implements
+ */
+const INDIC_SCRIPTS = [
+  'dev2', 'deva', 'bng2', 'beng', 'gur2', 'guru', 'gjr2', 'gujr', 'ory2', 'orya',
+  'tml2', 'taml', 'tel2', 'telu', 'knd2', 'knda', 'mlm2', 'mlym'
+];
+
+/**
+ * Scripts shaped with Arabic joining rules
+ */
+const JOINING_SCRIPTS = ['arab', 'syrc', 'nko '];
+
+/**
+ * Which rules a run of text is shaped with
+ */
+export type Shaper = 'arabic' | 'indic' | 'default';
+
+/**
+ * A run of text in a single script
+ */
+export interface ScriptRun {
+  /** OpenType script tags to try in order, or empty for text without a script of its own */
+  tags: string[];
+  start: number;
+  end: number;
+}
+
+/**
+ * Get the OpenType script tags for a character, or undefined for characters
+ * shared between scripts such as digits, punctuation and combining marks
+ */
+function scriptTagsOf(char: string): string[] | undefined {
+  return SCRIPT_TAGS.find(entry => entry.pattern.test(char))?.tags;
+}
+
+/**
+ * Check whether text contains characters that need more than cmap lookups and kerning:
+ * scripts with joining or reordering rules, or combining marks
+ */
+export function needsComplexShaping(text: string): boolean {
+  return /[\p{Script=Arabic}\p{Script=Syriac}\p{Script=Nko}\p{Script=Hebrew}\p{Script=Thaana}\u0900-\u0D7F\p{M}]/u.test(text);
+}
+
+/**
+ * Split text into runs of a single script. Characters shared between scripts
+ * join the run before them, or the one after at the start of the text.
+ */
+export function splitByScript(text: string): ScriptRun[] {
+  const runs: ScriptRun[] = [];
+  let position = 0;
+
+  for (const char of Array.from(text)) {
+    const current = runs[runs.length - 1];
+    const tags = scriptTagsOf(char);
+
+    if (current && (!tags || current.tags[0] === tags[0])) {
+      current.end += char.length;
+    } else if (current && current.tags.length === 0) {
+      current.tags = tags!;
+      current.end += char.length;
+    } else {
+      runs.push({ tags: tags ?? [], start: position, end: position + char.length });
+    }
+    position += char.length;
+  }
+
+  return runs;
+}
+
+/**
+ * Pick the shaper for an OpenType script tag
+ */
+export function shaperFor(script: string | undefined): Shaper {
+  if (script && JOINING_SCRIPTS.includes(script)) {
+    return 'arabic';
+  }
+  return script && INDIC_SCRIPTS.includes(script) ? 'indic' : 'default';
+}
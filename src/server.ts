@@ -0,0 +1,467 @@
+import * as http from 'http';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { fileURLToPath } from 'url';
+import { textToSvgPath } from './text-to-svg-path';
+import { isRemoteUrl } from './font-loader';
+import { TextToSvgPathError } from './errors';
+import { OutputFormat, RenderServerOptions, TextToSvgPathOptions, MultiTextEntryResult } from './types';
+
+/**
+ * Content type each output format is served with
+ */
+const CONTENT_TYPES: Record<OutputFormat, string> = {
+  svg: 'image/svg+xml; charset=utf-8',
+  svgWithBackground: 'image/svg+xml; charset=utf-8',
+  svgWithEmbeddedFont: 'image/svg+xml; charset=utf-8',
+  pathData: 'text/plain; charset=utf-8',
+  pathElement: 'text/plain; charset=utf-8',
+  glyphs: 'application/json; charset=utf-8',
+  polylines: 'application/json; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  pdf: 'application/pdf',
+  eps: 'application/postscript',
+  dxf: 'image/vnd.dxf',
+  gcode: 'text/plain; charset=utf-8',
+  png: 'image/png',
+  webp: 'image/webp'
+};
+
+/**
+ * Query parameters read as numbers; others are passed on as strings
+ */
+const NUMBER_PARAMS = ['fontSize', 'x', 'y', 'width', 'height', 'lineHeight', 'maxWidth'];
+
+/**
+ * Query parameters that map straight to options
+ */
+const STRING_PARAMS = [
+  'fill', 'stroke', 'strokeWidth', 'background', 'textAlign', 'direction', 'script', 'language', 'writingMode', 'svgFormatting'
+];
+
+/**
+ * Options a request can't set: they hold objects only code can create, or change how failures are reported
+ */
+const SERVER_ONLY_OPTIONS = ['fontCache', 'onError', 'outputFormats'];
+
+/**
+ * A failure with the HTTP status it should be answered with
+ */
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Serialize a value with object keys sorted, so equal options give equal strings
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Compute a strong ETag from everything that determines a response
+ */
+function computeEtag(...parts: unknown[]): string {
+  return `"${createHash('sha256').update(stableStringify(parts)).digest('base64url').slice(0, 27)}"`;
+}
+
+/**
+ * Read a request body up to a size limit
+ */
+function readBody(request: http.IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const declared = Number(request.headers['content-length']);
+    if (declared > limit) {
+      reject(new HttpError(413, `Request body is larger than ${limit} bytes`));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(new HttpError(413, `Request body is larger than ${limit} bytes`));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Check whether a path lies inside a directory
+ */
+function isInside(file: string, directory: string): boolean {
+  const relative = path.relative(directory, file);
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Check whether a URL lies under an allowed URL prefix: same origin, no credentials, and a path
+ * inside the prefix's directory (or the allowed file itself). Both are normalized first,
+ * so `..` segments and look-alike hosts can't escape the prefix.
+ */
+function isAllowedUrl(url: URL, allowed: string): boolean {
+  let prefix: URL;
+  try {
+    prefix = new URL(allowed);
+  } catch {
+    return false;
+  }
+  if (url.origin !== prefix.origin || url.username || url.password) {
+    return false;
+  }
+  const directory = prefix.pathname.endsWith('/') ? prefix.pathname : `${prefix.pathname}/`;
+  return url.pathname === prefix.pathname || url.pathname.startsWith(directory);
+}
+
+/**
+ * Turn a requested font into a source the allow-list permits: a URL under an allowed prefix,
+ * or a file inside an allowed directory, named by its absolute path or relative to the directory.
+ * Symbolic links are followed before checking, so they can't lead outside the directories.
+ */
+async function resolveAllowedFont(source: unknown, allowedFonts: string[]): Promise<string> {
+  if (typeof source !== 'string' || source === '') {
+    throw new HttpError(400, 'A font must be given as a string');
+  }
+  if (isRemoteUrl(source)) {
+    let url: URL;
+    try {
+      url = new URL(source);
+    } catch {
+      throw new HttpError(400, `Invalid font URL: ${source}`);
+    }
+    if (allowedFonts.some(allowed => isRemoteUrl(allowed) && isAllowedUrl(url, allowed))) {
+      // Fetch the normalized URL, which is the one that was checked
+      return url.href;
+    }
+    throw new HttpError(403, `Font is not allowed: ${source}`);
+  }
+  if (/^data:/i.test(source)) {
+    throw new HttpError(403, 'Fonts in data: URLs are not allowed');
+  }
+
+  let requested = source;
+  if (/^file:/i.test(source)) {
+    try {
+      requested = fileURLToPath(source);
+    } catch {
+      throw new HttpError(400, `Invalid file URL: ${source}`);
+    }
+  }
+  for (const allowed of allowedFonts.filter(entry => !isRemoteUrl(entry))) {
+    try {
+      const directory = await fs.realpath(allowed);
+      const file = await fs.realpath(path.resolve(directory, requested));
+      if (isInside(file, directory)) {
+        return file;
+      }
+    } catch {
+      // Not in this directory
+    }
+  }
+  throw new HttpError(403, `Font is not allowed: ${source}`);
+}
+
+/**
+ * Fail unless a requested font size is within the server's limit
+ */
+function checkFontSize(value: unknown, option: string, maxFontSize: number): void {
+  if (value !== undefined && !(typeof value === 'number' && value <= maxFontSize)) {
+    throw new HttpError(400, `${option} must be a number up to ${maxFontSize}`);
+  }
+}
+
+/**
+ * Check a curve tolerance of a request: finer ones than a ten-thousandth of the largest font size only cost time
+ */
+function checkTolerance(value: unknown, option: string, maxFontSize: number): void {
+  const min = maxFontSize / 10000;
+  if (value !== undefined && !(typeof value === 'number' && value >= min && isFinite(value))) {
+    throw new HttpError(400, `${option} must be a number of at least ${min}`);
+  }
+}
+
+/**
+ * Check the sizes of a request's outline effects, which take longer the larger they are.
+ * Offsets and outlines go up to a tenth of the largest font size, and bold adds at most as much.
+ */
+function checkEffects(effects: unknown, maxFontSize: number): void {
+  if (effects === undefined) {
+    return;
+  }
+  if (typeof effects !== 'object' || effects === null) {
+    throw new HttpError(400, 'effects must be an object');
+  }
+  const { offset, outline, bold } = effects as Record<string, unknown>;
+  const maxSize = maxFontSize / 10;
+  for (const [name, value] of Object.entries({ offset, outline })) {
+    if (value !== undefined && !(typeof value === 'number' && Math.abs(value) <= maxSize)) {
+      throw new HttpError(400, `effects.${name} must be a number from -${maxSize} to ${maxSize}`);
+    }
+  }
+  if (bold !== undefined && typeof bold !== 'boolean' && !(typeof bold === 'number' && Math.abs(bold) <= 0.2)) {
+    throw new HttpError(400, 'effects.bold must be true, false or a number from -0.2 to 0.2');
+  }
+}
+
+/**
+ * Check a request's options, keep out the ones only the server sets, resolve their fonts,
+ * and cap the font size, image size and geometry work so one request can't take up the whole server
+ */
+async function prepareEntry(
+  entry: unknown,
+  options: RenderServerOptions,
+  outputFormats: OutputFormat[]
+): Promise<TextToSvgPathOptions> {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    throw new HttpError(400, 'Each entry must be an object of options');
+  }
+  const { maxTextLength = 1000, maxFontSize = 500, maxPixels = 4194304, allowedFonts, defaultFont, fontCache } = options;
+  const prepared: Record<string, any> = { ...entry };
+  for (const key of SERVER_ONLY_OPTIONS) {
+    delete prepared[key];
+  }
+  const spans: unknown[] | undefined = Array.isArray(prepared.spans) ? prepared.spans : undefined;
+  const text = spans
+    ? spans.map(span => (span as { text?: unknown })?.text).join('')
+    : prepared.text;
+  if (typeof text !== 'string') {
+    throw new HttpError(400, 'The text must be a string');
+  }
+  if (text.length > maxTextLength) {
+    throw new HttpError(400, `The text is longer than ${maxTextLength} characters`);
+  }
+
+  checkFontSize(prepared.fontSize, 'fontSize', maxFontSize);
+  (spans ?? []).forEach((span, i) => checkFontSize((span as { fontSize?: unknown })?.fontSize, `spans[${i}].fontSize`, maxFontSize));
+  if (typeof prepared.fit === 'object' && prepared.fit !== null) {
+    checkFontSize(prepared.fit.maxFontSize, 'fit.maxFontSize', maxFontSize);
+    prepared.fit = { ...prepared.fit, maxFontSize: prepared.fit.maxFontSize ?? maxFontSize };
+  }
+  checkEffects(prepared.effects, maxFontSize);
+  if (typeof prepared.union === 'object' && prepared.union !== null) {
+    checkTolerance(prepared.union.flatten, 'union.flatten', maxFontSize);
+  }
+  for (const format of ['dxf', 'gcode']) {
+    if (typeof prepared[format] === 'object' && prepared[format] !== null) {
+      checkTolerance(prepared[format].tolerance, `${format}.tolerance`, maxFontSize);
+    }
+  }
+  const raster = typeof prepared.raster === 'object' && prepared.raster !== null ? prepared.raster : {};
+  prepared.raster = { ...raster, maxPixels: Math.min(Number(raster.maxPixels) || maxPixels, maxPixels) };
+
+  prepared.font = await resolveAllowedFont(prepared.font ?? prepared.fontUrl ?? defaultFont, allowedFonts);
+  delete prepared.fontUrl;
+  if (prepared.fallbackFonts !== undefined) {
+    if (!Array.isArray(prepared.fallbackFonts)) {
+      throw new HttpError(400, 'fallbackFonts must be an array');
+    }
+    prepared.fallbackFonts = await Promise.all(prepared.fallbackFonts.map((source: unknown) => resolveAllowedFont(source, allowedFonts)));
+  }
+  if (spans) {
+    // Spans without a font of their own use the entry's
+    prepared.spans = await Promise.all(spans.map(async span => {
+      const { font, fontUrl, ...rest } = span as Record<string, unknown>;
+      return font ?? fontUrl ? { ...rest, font: await resolveAllowedFont(font ?? fontUrl, allowedFonts) } : rest;
+    }));
+  }
+  return { ...prepared, fontCache, outputFormats } as TextToSvgPathOptions;
+}
+
+/**
+ * Read a requested output format
+ */
+function parseFormat(value: string | null): OutputFormat {
+  const format = (value ?? 'svg') as OutputFormat;
+  if (!(format in CONTENT_TYPES)) {
+    throw new HttpError(400, `Unknown format: ${value}`);
+  }
+  return format;
+}
+
+/**
+ * Read the options of a GET request: common options as their own parameters,
+ * and any others as JSON in `options`
+ */
+function parseQuery(query: URLSearchParams): Record<string, unknown> {
+  let entry: Record<string, unknown> = {};
+  const json = query.get('options');
+  if (json !== null) {
+    try {
+      entry = JSON.parse(json);
+    } catch {
+      throw new HttpError(400, 'The options parameter must be JSON');
+    }
+  }
+  for (const name of ['text', 'font', ...STRING_PARAMS]) {
+    const value = query.get(name);
+    if (value !== null) {
+      entry[name] = value;
+    }
+  }
+  for (const name of NUMBER_PARAMS) {
+    const value = query.get(name);
+    if (value !== null) {
+      entry[name] = Number(value);
+    }
+  }
+  return entry;
+}
+
+/**
+ * Get an output as the body of a response
+ */
+function toBody(value: unknown): Buffer | string {
+  if (Buffer.isBuffer(value) || typeof value === 'string') {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Get the HTTP status for a failed rendering
+ */
+function getErrorStatus(error: unknown): number {
+  if (error instanceof HttpError) {
+    return error.status;
+  }
+  return error instanceof TextToSvgPathError ? 400 : 500;
+}
+
+/**
+ * Create a request listener that renders text over HTTP:
+ *
+ * - `GET /render?text=...&font=...&format=svg` answers with one output format. Common options
+ *   (`fontSize`, `fill`, `stroke`, `background`, ...) are parameters of their own; any other
+ *   options can be given as JSON in `options`.
+ * - `POST /render` with a multi-text JSON body answers with a JSON object of the entries'
+ *   outputs for the requested `format`s, binary ones in base64, or an `error` per failed entry.
+ *
+ * Responses carry an ETag computed from the options, and `If-None-Match` is answered with
+ * 304 without rendering.
+ */
+export function createRenderHandler(options: RenderServerOptions): (request: http.IncomingMessage, response: http.ServerResponse) => void {
+  const { maxBodySize = 65536, maxEntries = 20, cacheControl = 'public, max-age=86400' } = options;
+
+  const send = (response: http.ServerResponse, status: number, body: Buffer | string, headers: http.OutgoingHttpHeaders) => {
+    response.writeHead(status, { ...headers, 'Content-Length': Buffer.byteLength(body) });
+    response.end(body);
+  };
+  const sendError = (response: http.ServerResponse, status: number, message: string, headers: http.OutgoingHttpHeaders = {}) => {
+    send(response, status, JSON.stringify({ error: message }), { ...headers, 'Content-Type': 'application/json; charset=utf-8' });
+  };
+
+  const handle = async (request: http.IncomingMessage, response: http.ServerResponse) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    if (url.pathname !== '/render') {
+      throw new HttpError(404, 'Not found');
+    }
+    if (request.method !== 'GET' && request.method !== 'POST') {
+      sendError(response, 405, 'Method not allowed', { Allow: 'GET, POST' });
+      return;
+    }
+
+    // A POST body holds a multi-text mapping, while GET renders one entry
+    const formats = (url.searchParams.get('format') ?? 'svg').split(',').map(parseFormat);
+    let body: Record<string, unknown> | undefined;
+    if (request.method === 'POST') {
+      try {
+        body = JSON.parse(await readBody(request, maxBodySize));
+      } catch (error) {
+        throw error instanceof HttpError ? error : new HttpError(400, 'The request body must be JSON');
+      }
+      if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new HttpError(400, 'The request body must map entry names to options');
+      }
+      if (Object.keys(body).length > maxEntries) {
+        throw new HttpError(413, `A request may hold at most ${maxEntries} entries`);
+      }
+    } else if (formats.length > 1) {
+      throw new HttpError(400, 'GET requests render a single format');
+    }
+
+    const requested = body ?? parseQuery(url.searchParams);
+    const etag = computeEtag(request.method, formats, requested);
+    const headers = { ETag: etag, 'Cache-Control': cacheControl };
+    if (request.headers['if-none-match']?.split(/\s*,\s*/).includes(etag)) {
+      response.writeHead(304, headers);
+      response.end();
+      return;
+    }
+
+    if (!body) {
+      const entry = await prepareEntry(requested, options, formats);
+      const result = await textToSvgPath(entry);
+      const value = result[formats[0] as keyof typeof result];
+      if (value === undefined || value === '') {
+        throw new HttpError(400, `No ${formats[0]} output for these options`);
+      }
+      send(response, 200, toBody(value), { ...headers, 'Content-Type': CONTENT_TYPES[formats[0]] });
+      return;
+    }
+
+    // A refused entry fails alone, like one that fails to render
+    const entries: Record<string, TextToSvgPathOptions> = {};
+    const output: Record<string, Record<string, unknown>> = {};
+    for (const [name, entry] of Object.entries(body)) {
+      try {
+        entries[name] = { ...await prepareEntry(entry, options, formats), onError: 'collect' };
+      } catch (error) {
+        if (!(error instanceof HttpError)) {
+          throw error;
+        }
+        output[name] = { error: error.message };
+      }
+    }
+    const results = Object.keys(entries).length > 0
+      ? await textToSvgPath(entries) as Record<string, MultiTextEntryResult>
+      : {};
+    for (const [name, result] of Object.entries(results)) {
+      if (result.error) {
+        output[name] = { error: result.error.message };
+        continue;
+      }
+      output[name] = {};
+      for (const format of formats) {
+        const value = result[format as keyof MultiTextEntryResult];
+        output[name][format] = Buffer.isBuffer(value) ? value.toString('base64') : value;
+      }
+    }
+    const ordered = Object.keys(body).reduce<Record<string, unknown>>((all, name) => ({ ...all, [name]: output[name] }), {});
+    send(response, 200, JSON.stringify(ordered), { ...headers, 'Content-Type': 'application/json; charset=utf-8' });
+  };
+
+  return (request, response) => {
+    handle(request, response).catch(error => {
+      if (response.headersSent) {
+        response.destroy();
+        return;
+      }
+      const status = getErrorStatus(error);
+      sendError(response, status, status === 500 ? 'Internal server error' : (error as Error).message);
+    });
+  };
+}
+
+/**
+ * Create an HTTP server that renders text, ready to `listen()`. See `createRenderHandler`.
+ */
+export function createRenderServer(options: RenderServerOptions): http.Server {
+  return http.createServer(createRenderHandler(options));
+}
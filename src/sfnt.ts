@@ -0,0 +1,43 @@
+import { inflateSync } from 'zlib';
+
+/**
+ * Read a raw table from TrueType/OpenType or WOFF font data.
+ * opentype.js only keeps the tables it understands, so tables such as
+ * `gvar` and `avar` have to be read from the original bytes.
+ * @returns A view over the table data, or undefined when the font has no such table
+ */
+export function readSfntTable(fontData: ArrayBuffer, tag: string): DataView | undefined {
+  const view = new DataView(fontData);
+  const signature = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3));
+  const isWoff = signature === 'wOFF';
+  const numTables = view.getUint16(isWoff ? 12 : 4);
+  const directoryStart = isWoff ? 44 : 12;
+  const recordSize = isWoff ? 20 : 16;
+
+  for (let i = 0; i < numTables; i++) {
+    const record = directoryStart + i * recordSize;
+    const recordTag = String.fromCharCode(
+      view.getUint8(record), view.getUint8(record + 1), view.getUint8(record + 2), view.getUint8(record + 3)
+    );
+    if (recordTag !== tag) {
+      continue;
+    }
+
+    if (!isWoff) {
+      return new DataView(fontData, view.getUint32(record + 8), view.getUint32(record + 12));
+    }
+
+    const offset = view.getUint32(record + 4);
+    const compressedLength = view.getUint32(record + 8);
+    const originalLength = view.getUint32(record + 12);
+    const bytes = new Uint8Array(fontData, offset, compressedLength);
+    if (compressedLength >= originalLength) {
+      return new DataView(fontData, offset, originalLength);
+    }
+
+    const inflated = inflateSync(bytes);
+    return new DataView(inflated.buffer, inflated.byteOffset, inflated.byteLength);
+  }
+
+  return undefined;
+}
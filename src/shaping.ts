@@ -0,0 +1,451 @@
+import * as opentype from 'opentype.js';
+import { FontFeatures, TextDirection, WritingMode } from './types';
+import { getGsubFeatureTags, substituteGlyphs } from './gsub';
+import { resolveBidiLevels, reorderByLevel } from './bidi';
+import { needsComplexShaping, shaperFor, splitByScript } from './scripts';
+import { shapeComplexRun } from './complex-shaping';
+import { getVerticalMetrics, isUpright } from './vertical';
+
+/**
+ * Options controlling how a run of text is turned into positioned glyphs
+ */
+export interface ShapeOptions {
+  fontSize: number;
+  kerning: boolean;
+  /** Fonts tried in order for characters the primary font has no glyph for */
+  fallbackFonts?: opentype.Font[];
+  /** OpenType features to apply; glyphs are mapped like `opentype.js` does when omitted */
+  features?: FontFeatures;
+  /** Paragraph direction; `auto` picks it from the first strong character */
+  direction?: TextDirection;
+  /** OpenType script tag to shape with instead of detecting scripts from the text */
+  script?: string;
+  /** OpenType language system tag */
+  language?: string;
+  /** Shape for a vertical column instead of a horizontal line */
+  writingMode?: WritingMode;
+}
+
+/**
+ * A glyph positioned on the baseline, mapped back to the characters it renders
+ */
+export interface ShapedGlyph {
+  glyph: opentype.Glyph;
+  /** The font the glyph was taken from */
+  font: opentype.Font;
+  /** Source character(s) rendered by this glyph (several for ligatures) */
+  text: string;
+  /** UTF-16 index of the first source character within the shaped string */
+  index: number;
+  /** Pen position relative to the start of the run, after kerning. In vertical text, the offset from the column's centre line. */
+  x: number;
+  /** Offset below the baseline, for marks and other glyphs positioned vertically. In vertical text, the position down the column. */
+  y: number;
+  /** Glyph advance in pixels along the line (the advance height in vertical text), without kerning */
+  advance: number;
+  /** Clockwise rotation in degrees, for glyphs turned sideways in vertical text */
+  rotate?: number;
+}
+
+/**
+ * A shaped run of text
+ */
+export interface ShapedRun {
+  glyphs: ShapedGlyph[];
+  /** Total advance of the run along the line in pixels, including kerning */
+  advance: number;
+}
+
+/**
+ * Parts of opentype.js the type definitions leave out: the render options
+ * parameter of `stringToGlyphs` and the GPOS helper behind its kerning
+ */
+interface LayoutFont extends opentype.Font {
+  stringToGlyphs(text: string, options?: opentype.RenderOptions): opentype.Glyph[];
+  position?: {
+    getDefaultScriptName(): string;
+    getKerningTables(script: string): unknown[] | undefined;
+    getKerningValue(kerningLookups: unknown[], leftIndex: number, rightIndex: number): number;
+  };
+}
+
+/**
+ * Map text to glyphs with the same substitutions `font.getPath` applies when given
+ * render options: the required Arabic forms, but no optional Latin ligatures
+ */
+function stringToGlyphs(font: opentype.Font, text: string): opentype.Glyph[] {
+  return (font as LayoutFont).stringToGlyphs(text, { features: {} });
+}
+
+/**
+ * Features applied whenever `features` is given, unless turned off explicitly
+ */
+const REQUIRED_FEATURES: FontFeatures = { ccmp: true, locl: true, rlig: true, rclt: true };
+
+/**
+ * Map characters to glyphs and report how many characters each glyph covers
+ */
+function mapGlyphs(font: opentype.Font, chars: string[], features?: FontFeatures): { glyphs: opentype.Glyph[]; clusters: number[] } {
+  if (!features) {
+    const glyphs = stringToGlyphs(font, chars.join(''));
+    return { glyphs, clusters: mapClusters(font, chars, glyphs) };
+  }
+
+  const slots = substituteGlyphs(font, chars, { ...REQUIRED_FEATURES, ...features });
+  const notdef = font.glyphs.get(0);
+  return {
+    glyphs: slots.map(slot => font.glyphs.get(slot.id) ?? notdef),
+    clusters: slots.map(slot => slot.length)
+  };
+}
+
+/**
+ * Work out how many source characters each glyph covers.
+ * Substitutions like ligatures can merge characters, so when the counts differ
+ * each glyph is matched against the shortest character sequence that produces it.
+ */
+function mapClusters(font: opentype.Font, chars: string[], glyphs: opentype.Glyph[]): number[] {
+  if (glyphs.length === chars.length) {
+    return glyphs.map(() => 1);
+  }
+
+  const clusters: number[] = [];
+  let position = 0;
+
+  glyphs.forEach((glyph, glyphIndex) => {
+    const remainingGlyphs = glyphs.length - glyphIndex;
+    const remainingChars = chars.length - position;
+    let size = Math.min(1, remainingChars);
+
+    if (remainingChars > remainingGlyphs) {
+      const maxSize = Math.min(8, remainingChars - remainingGlyphs + 1);
+      for (let candidate = 2; candidate <= maxSize; candidate++) {
+        const candidateGlyphs = stringToGlyphs(font, chars.slice(position, position + candidate).join(''));
+        if (candidateGlyphs.length === 1 && candidateGlyphs[0].index === glyph.index) {
+          size = candidate;
+          break;
+        }
+      }
+    }
+
+    clusters.push(size);
+    position += size;
+  });
+
+  return clusters;
+}
+
+/**
+ * Get the kerning adjustment between two glyphs in font units,
+ * preferring GPOS kerning and falling back to the `kern` table
+ */
+function createKerning(font: opentype.Font): (left: opentype.Glyph, right: opentype.Glyph) => number {
+  const { position } = font as LayoutFont;
+  const lookups = position?.getKerningTables(position.getDefaultScriptName());
+
+  return (left, right) => position && lookups
+    ? position.getKerningValue(lookups, left.index, right.index)
+    : font.getKerningValue(left, right);
+}
+
+/**
+ * Shape a run of text that uses a single font.
+ * Mirrors `font.forEachGlyph` but keeps the mapping from glyphs back to characters.
+ */
+function shapeRun(font: opentype.Font, text: string, options: ShapeOptions): ShapedRun {
+  const { fontSize, kerning } = options;
+  const fontScale = fontSize / font.unitsPerEm;
+  const chars = Array.from(text);
+  const { glyphs, clusters } = mapGlyphs(font, chars, options.features);
+  const getKerning = kerning ? createKerning(font) : undefined;
+
+  const shaped: ShapedGlyph[] = [];
+  let charPosition = 0;
+  let index = 0;
+  let x = 0;
+
+  glyphs.forEach((glyph, glyphIndex) => {
+    const source = chars.slice(charPosition, charPosition + clusters[glyphIndex]).join('');
+    const advance = (glyph.advanceWidth ?? 0) * fontScale;
+
+    shaped.push({ glyph, font, text: source, index, x, y: 0, advance });
+
+    x += advance;
+    if (getKerning && glyphIndex < glyphs.length - 1) {
+      x += getKerning(glyph, glyphs[glyphIndex + 1]) * fontScale;
+    }
+
+    charPosition += clusters[glyphIndex];
+    index += source.length;
+  });
+
+  return { glyphs: shaped, advance: x };
+}
+
+/**
+ * Characters that stay in the current run when its font has them, so spaces,
+ * combining marks and joiners don't split a run or a cluster
+ */
+const RUN_CONTINUATION = /^[\s\p{M}\u200C\u200D\uFE00-\uFE0F]$/u;
+
+/**
+ * Split text into runs, each drawn with the first font in the chain that has its characters.
+ * Characters no font has stay with the primary font.
+ */
+function splitByFont(fonts: opentype.Font[], text: string): Array<{ font: opentype.Font; start: number; end: number }> {
+  const runs: Array<{ font: opentype.Font; start: number; end: number }> = [];
+  let position = 0;
+
+  for (const char of Array.from(text)) {
+    const current = runs[runs.length - 1];
+    let font: opentype.Font;
+
+    if (current && RUN_CONTINUATION.test(char) && current.font.charToGlyphIndex(char) > 0) {
+      font = current.font;
+    } else {
+      font = fonts.find(candidate => candidate.charToGlyphIndex(char) > 0) ?? fonts[0];
+    }
+
+    if (current && current.font === font) {
+      current.end += char.length;
+    } else {
+      runs.push({ font, start: position, end: position + char.length });
+    }
+    position += char.length;
+  }
+
+  return runs;
+}
+
+/**
+ * Shape a run of text in one script, direction and font with the script's shaping rules
+ * @param start UTF-16 index of the run within the shaped string
+ * @param script OpenType script tags detected for the run
+ * @returns Glyphs in visual order
+ */
+function shapeComplex(
+  font: opentype.Font, text: string, start: number, script: string[], rtl: boolean, options: ShapeOptions
+): ShapedRun {
+  const { fontSize, kerning } = options;
+  const fontScale = fontSize / font.unitsPerEm;
+  const chars = Array.from(text);
+  const scripts = options.script ? [options.script] : script;
+
+  // Simple scripts keep the same glyph mapping as text without complex runs
+  if (!rtl && shaperFor(scripts[0]) === 'default' && !options.script && !options.language && !/\p{M}/u.test(text)) {
+    const run = shapeRun(font, text, options);
+    return { glyphs: run.glyphs.map(glyph => ({ ...glyph, index: start + glyph.index })), advance: run.advance };
+  }
+
+  const shaped = shapeComplexRun(font, chars, { scripts, language: options.language, rtl, kerning, features: options.features });
+  const glyphs: ShapedGlyph[] = [];
+  let charPosition = 0;
+  let index = start;
+  shaped.forEach(complex => {
+    const source = chars.slice(charPosition, charPosition + complex.length).join('');
+    glyphs.push({
+      glyph: font.glyphs.get(complex.id) ?? font.glyphs.get(0),
+      font,
+      text: source,
+      index,
+      x: complex.xOffset * fontScale,
+      y: -complex.yOffset * fontScale,
+      advance: complex.xAdvance * fontScale
+    });
+    charPosition += complex.length;
+    index += source.length;
+  });
+
+  // Right-to-left runs are shaped in logical order and drawn reversed
+  const visual = rtl ? glyphs.reverse() : glyphs;
+  let x = 0;
+  for (const glyph of visual) {
+    glyph.x += x;
+    x += glyph.advance;
+  }
+  return { glyphs: visual, advance: x };
+}
+
+/**
+ * Shape text with bidirectional reordering and script-specific shaping.
+ * The text is split into runs of one embedding level, script and font,
+ * each run is shaped on its own, and the runs are put in visual order.
+ */
+function shapeBidi(fonts: opentype.Font[], text: string, options: ShapeOptions): ShapedRun {
+  const { levels } = resolveBidiLevels(text, options.direction ?? 'auto');
+  const runs: Array<ShapedRun & { level: number }> = [];
+
+  // Find the UTF-16 ranges sharing an embedding level
+  const levelRuns: Array<{ start: number; end: number; level: number }> = [];
+  let position = 0;
+  Array.from(text).forEach((char, i) => {
+    const current = levelRuns[levelRuns.length - 1];
+    if (current && current.level === levels[i]) {
+      current.end += char.length;
+    } else {
+      levelRuns.push({ start: position, end: position + char.length, level: levels[i] });
+    }
+    position += char.length;
+  });
+
+  for (const levelRun of levelRuns) {
+    const levelText = text.slice(levelRun.start, levelRun.end);
+    for (const scriptRun of splitByScript(levelText)) {
+      const scriptText = levelText.slice(scriptRun.start, scriptRun.end);
+      const fontRuns = fonts.length > 1 ? splitByFont(fonts, scriptText) : [{ font: fonts[0], start: 0, end: scriptText.length }];
+      for (const fontRun of fontRuns) {
+        const start = levelRun.start + scriptRun.start + fontRun.start;
+        const run = shapeComplex(
+          fontRun.font, scriptText.slice(fontRun.start, fontRun.end), start, scriptRun.tags, levelRun.level % 2 === 1, options
+        );
+        runs.push({ ...run, level: levelRun.level });
+      }
+    }
+  }
+
+  const glyphs: ShapedGlyph[] = [];
+  let advance = 0;
+  for (const run of reorderByLevel(runs, run => run.level)) {
+    for (const glyph of run.glyphs) {
+      glyphs.push({ ...glyph, x: advance + glyph.x });
+    }
+    advance += run.advance;
+  }
+  return { glyphs, advance };
+}
+
+/**
+ * Characters that stay in the current orientation run, so marks and joiners stay with their base
+ */
+const ORIENTATION_CONTINUATION = /^[\p{M}\u200C\u200D\uFE00-\uFE0F]$/u;
+
+/**
+ * Split text into runs of upright characters and runs turned sideways in vertical text
+ */
+function splitByOrientation(text: string): Array<{ upright: boolean; start: number; end: number }> {
+  const runs: Array<{ upright: boolean; start: number; end: number }> = [];
+  let position = 0;
+
+  for (const char of Array.from(text)) {
+    const current = runs[runs.length - 1];
+    if (current && (ORIENTATION_CONTINUATION.test(char) || current.upright === isUpright(char))) {
+      current.end += char.length;
+    } else {
+      runs.push({ upright: isUpright(char), start: position, end: position + char.length });
+    }
+    position += char.length;
+  }
+
+  return runs;
+}
+
+/**
+ * Stack upright glyphs down a column using the font's vertical metrics and alternates
+ * @param y Position of the first glyph down the column
+ */
+function shapeUpright(font: opentype.Font, text: string, start: number, y: number, options: ShapeOptions): ShapedGlyph[] {
+  const fontScale = options.fontSize / font.unitsPerEm;
+  const metrics = getVerticalMetrics(font);
+  const chars = Array.from(text);
+  // vrt2 supersedes vert in fonts that have both
+  const alternates: FontFeatures = getGsubFeatureTags(font).includes('vrt2') ? { vrt2: true } : { vert: true };
+  const slots = substituteGlyphs(
+    font, chars, { ...REQUIRED_FEATURES, ...alternates, ...options.features }, { script: options.script, language: options.language }
+  );
+
+  const glyphs: ShapedGlyph[] = [];
+  let charPosition = 0;
+  let index = start;
+  for (const slot of slots) {
+    const glyph = font.glyphs.get(slot.id) ?? font.glyphs.get(0);
+    const source = chars.slice(charPosition, charPosition + slot.length).join('');
+    const advance = metrics.advanceHeight(glyph) * fontScale;
+    // Glyphs are centred on the column, hanging from their vertical origin
+    glyphs.push({
+      glyph,
+      font,
+      text: source,
+      index,
+      x: -(glyph.advanceWidth ?? 0) / 2 * fontScale,
+      y: y + metrics.originY(glyph) * fontScale,
+      advance
+    });
+    y += advance;
+    charPosition += slot.length;
+    index += source.length;
+  }
+  return glyphs;
+}
+
+/**
+ * Shape text for a vertical column, with x = 0 on the column's centre line and y = 0 at its top.
+ * Upright characters such as CJK are stacked one below the other; runs of other
+ * characters are shaped as horizontal text and turned 90° clockwise.
+ */
+function shapeVertical(font: opentype.Font, text: string, options: ShapeOptions): ShapedRun {
+  const fonts = [font, ...(options.fallbackFonts ?? [])];
+  const glyphs: ShapedGlyph[] = [];
+  let y = 0;
+
+  for (const run of splitByOrientation(text)) {
+    const runText = text.slice(run.start, run.end);
+    if (run.upright) {
+      const fontRuns = fonts.length > 1 ? splitByFont(fonts, runText) : [{ font, start: 0, end: runText.length }];
+      for (const fontRun of fontRuns) {
+        const shaped = shapeUpright(fontRun.font, runText.slice(fontRun.start, fontRun.end), run.start + fontRun.start, y, options);
+        glyphs.push(...shaped);
+        y += shaped.reduce((sum, glyph) => sum + glyph.advance, 0);
+      }
+      continue;
+    }
+
+    // Sideways text keeps its baseline on the column, centring the font's em box on the centre line
+    const sideways = shapeText(font, runText, { ...options, writingMode: 'horizontal' });
+    for (const glyph of sideways.glyphs) {
+      const baseline = -(glyph.font.ascender + glyph.font.descender) / 2 * options.fontSize / glyph.font.unitsPerEm;
+      glyphs.push({ ...glyph, index: run.start + glyph.index, x: baseline - glyph.y, y: y + glyph.x, rotate: 90 });
+    }
+    y += sideways.advance;
+  }
+
+  return { glyphs, advance: y };
+}
+
+/**
+ * Convert text into glyphs positioned along the baseline, starting at x = 0.
+ * With fallback fonts, each run is shaped with its own font's metrics and kerning.
+ * Right-to-left text and scripts with joining or reordering rules are shaped
+ * with their script's rules and put in visual order.
+ * Vertical text is stacked down a column instead.
+ */
+export function shapeText(font: opentype.Font, text: string, options: ShapeOptions): ShapedRun {
+  if (!text) {
+    return { glyphs: [], advance: 0 };
+  }
+
+  if (options.writingMode === 'vertical') {
+    return shapeVertical(font, text, options);
+  }
+
+  if (options.direction === 'rtl' || options.script || options.language || needsComplexShaping(text)) {
+    return shapeBidi([font, ...(options.fallbackFonts ?? [])], text, options);
+  }
+
+  const { fallbackFonts = [] } = options;
+  if (fallbackFonts.length === 0) {
+    return shapeRun(font, text, options);
+  }
+
+  const glyphs: ShapedGlyph[] = [];
+  let advance = 0;
+
+  for (const run of splitByFont([font, ...fallbackFonts], text)) {
+    const shaped = shapeRun(run.font, text.slice(run.start, run.end), options);
+    for (const glyph of shaped.glyphs) {
+      glyphs.push({ ...glyph, index: run.start + glyph.index, x: advance + glyph.x });
+    }
+    advance += shaped.advance;
+  }
+
+  return { glyphs, advance };
+}
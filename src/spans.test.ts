@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { textToSvgPath } from './index';
+import { TextSpan, TextToSvgPathOptions } from './types';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+/**
+ * Render spans at 48px unless they set their own size
+ */
+function renderSpans(spans: TextSpan[], options: Partial<TextToSvgPathOptions> = {}) {
+  return textToSvgPath({ font: FONT, text: undefined, spans, fontSize: 48, outputFormats: ['glyphs', 'svg'], ...options });
+}
+
+describe('rich text spans', () => {
+  it('sets every span on one baseline, each after the last', async () => {
+    const result = await renderSpans([{ text: 'Sale ' }, { text: '50%', fontSize: 96 }]);
+    const glyphs = result.glyphs!;
+    assert.deepEqual(glyphs.map(glyph => glyph.index), [0, 1, 2, 3, 4, 5, 6, 7]);
+    assert.ok(glyphs.every(glyph => glyph.y === glyphs[0].y));
+    assert.equal(glyphs[5].x, glyphs[4].x + glyphs[4].advanceWidth);
+    assert.deepEqual(result.lines!.map(line => line.text), ['Sale 50%']);
+  });
+
+  it('sizes each span on its own', async () => {
+    const small = (await renderSpans([{ text: '5' }])).glyphs![0];
+    const large = (await renderSpans([{ text: 'x' }, { text: '5', fontSize: 96 }])).glyphs![1];
+    assert.equal(large.advanceWidth, small.advanceWidth * 2);
+    // The first baseline is lowered to make room for the largest span
+    assert.equal(large.y, 96);
+  });
+
+  it('shapes each span with its own font settings', async () => {
+    const [regular, bold] = (await renderSpans([{ text: 'm' }, { text: 'm', variation: { wght: 800 } }])).glyphs!;
+    assert.ok(bold.advanceWidth > regular.advanceWidth);
+    const [one] = (await renderSpans([{ text: '1', features: { tnum: true } }, { text: '1' }])).glyphs!;
+    assert.equal(one.glyphName, 'one.tf');
+  });
+
+  it('draws one path per style run', async () => {
+    const { svg } = await renderSpans([{ text: 'Sale ' }, { text: '50%', fill: '#ff0000', opacity: 0.5 }, { text: '!' }], { fill: '#000000' });
+    const paths = Array.from(svg.matchAll(/<path[^>]*fill="([^"]+)"/g), match => match[1]);
+    assert.deepEqual(paths, ['#000000', '#ff0000']);
+    assert.match(svg, /fill="#ff0000"[^>]*opacity="0.5"/);
+  });
+
+  it('rejects spans it cannot lay out on one line', async () => {
+    const invalid: Array<Partial<TextToSvgPathOptions>> = [
+      { spans: [] },
+      { spans: [{ text: 'One' }, { text: 'Two' }], textAlign: 'center' },
+      { spans: [{ text: 'Two\nlines' }] }
+    ];
+    for (const options of invalid) {
+      await assert.rejects(textToSvgPath({ font: FONT, text: undefined, ...options }), { name: 'InvalidOptionError', option: 'spans' });
+    }
+  });
+});
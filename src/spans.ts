@@ -0,0 +1,104 @@
+import * as opentype from 'opentype.js';
+import { BoundingBox, GlyphStyle, TextSpan, TextToSvgPathOptions } from './types';
+import { resolveFontSource } from './font-loader';
+import { loadFontCached } from './font-cache';
+import { layoutText, LayoutLine, LayoutSegment } from './layout';
+import { placeLineGlyphs, PlacedGlyph } from './glyphs';
+import { ShapeOptions } from './shaping';
+import { instantiateFont } from './variation';
+
+/**
+ * Where spans start and how they are shaped unless they say otherwise
+ */
+export interface SpanLayoutOptions extends ShapeOptions {
+  x: number;
+  y: number;
+}
+
+/**
+ * Spans placed on their shared baseline
+ */
+export interface SpanLayout {
+  /** A single line holding every span's segments */
+  line: LayoutLine;
+  glyphs: PlacedGlyph[];
+  /** The paint of each span, as glyph styles over its characters */
+  glyphStyles: GlyphStyle[];
+  /** The line's box, from the highest span ascent to the lowest span descent */
+  box: BoundingBox;
+}
+
+/**
+ * Load the font of each span: its own, or the entry's font when it names none.
+ * A span's own variation must match its font's axes, while the entry's variation is applied
+ * to whichever of its axes a span font has.
+ * @param font The entry's font, before its variation is applied
+ */
+export function loadSpanFonts(spans: TextSpan[], font: opentype.Font, options: TextToSvgPathOptions): Promise<opentype.Font[]> {
+  return Promise.all(spans.map(async span => {
+    const spanFont = span.font !== undefined || span.fontUrl !== undefined
+      ? await loadFontCached(resolveFontSource(span), options.fontCache)
+      : font;
+    const variation = span.variation ?? options.variation;
+    return variation ? instantiateFont(spanFont, variation, span.variation !== undefined) : spanFont;
+  }));
+}
+
+/**
+ * Lay out spans one after another on one baseline, each shaped with its own font and size.
+ * Glyphs keep their UTF-16 index within the text of all spans joined together.
+ */
+export function layoutSpans(spans: TextSpan[], fonts: opentype.Font[], options: SpanLayoutOptions): SpanLayout {
+  const { x, y } = options;
+  const segments: LayoutSegment[] = [];
+  const glyphs: PlacedGlyph[] = [];
+  const glyphStyles: GlyphStyle[] = [];
+  let cursor = x;
+  let start = 0;
+  let ascent = 0;
+  let descent = 0;
+
+  spans.forEach((span, i) => {
+    const fontSize = span.fontSize ?? options.fontSize;
+    const scale = fontSize / fonts[i].unitsPerEm;
+    ascent = Math.max(ascent, fonts[i].ascender * scale);
+    descent = Math.max(descent, -fonts[i].descender * scale);
+    const [line] = layoutText(fonts[i], span.text, {
+      ...options,
+      kerning: span.kerning ?? options.kerning,
+      features: span.features ?? options.features,
+      fontSize,
+      x: cursor,
+      textAlign: 'left'
+    });
+    for (const segment of line.segments) {
+      segment.start += start;
+      segments.push(segment);
+    }
+    for (const placed of placeLineGlyphs([line])) {
+      glyphs.push({ ...placed, fontSize });
+    }
+
+    const { fill, stroke, opacity } = span;
+    if (fill !== undefined || stroke !== undefined || opacity !== undefined) {
+      glyphStyles.push({
+        start,
+        end: start + span.text.length,
+        ...(fill !== undefined ? { fill } : {}),
+        ...(stroke !== undefined ? { stroke } : {}),
+        ...(opacity !== undefined ? { opacity } : {})
+      });
+    }
+
+    cursor += line.width;
+    start += span.text.length;
+  });
+
+  const text = spans.map(span => span.text).join('');
+  return {
+    line: { text, x, y, width: cursor - x, segments },
+    glyphs,
+    glyphStyles,
+    box: { x1: x, y1: y - ascent, x2: cursor, y2: y + descent }
+  };
+}
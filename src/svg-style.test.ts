@@ -0,0 +1,76 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { textToSvgPath } from './index';
+import { SvgStyleOptions } from './types';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+/**
+ * Render text as an SVG with a style
+ */
+async function renderStyled(style?: SvgStyleOptions, text = 'Style'): Promise<string> {
+  return (await textToSvgPath({ font: FONT, text, fontSize: 40, fill: '#111111', style })).svg;
+}
+
+/**
+ * Read the viewBox of an SVG
+ */
+function viewBox(svg: string): number[] {
+  return svg.match(/viewBox="([^"]+)"/)![1].split(' ').map(Number);
+}
+
+describe('SVG styles', () => {
+  it('fills the text with a gradient defined in the SVG', async () => {
+    const svg = await renderStyled({
+      fillGradient: { type: 'linear', angle: 90, stops: [{ offset: 0, color: '#ff0000' }, { offset: 1, color: '#0000ff', opacity: 0.5 }] }
+    });
+    const id = svg.match(/<linearGradient id="([^"]+)"/)![1];
+    assert.match(svg, new RegExp(`fill="url\\(#${id}\\)"`));
+    assert.match(svg, /<stop offset="1" stop-color="#0000ff" stop-opacity="0.5" \/>/);
+    // Running top to bottom, the gradient line is vertical
+    const [, x1, , x2] = svg.match(/<linearGradient[^>]* x1="([\d.-]+)" y1="([\d.-]+)" x2="([\d.-]+)"/)!;
+    assert.equal(x1, x2);
+  });
+
+  it('places radial gradients in the bounding box', async () => {
+    const svg = await renderStyled({ fillGradient: { type: 'radial', cx: 0, cy: 0, stops: [{ offset: 0, color: 'white' }, { offset: 1, color: 'black' }] } });
+    assert.match(svg, /<radialGradient [^>]*gradientUnits="userSpaceOnUse"/);
+  });
+
+  it('draws shadows and glow with a filter and grows the view box to fit them', async () => {
+    const plain = viewBox(await renderStyled());
+    const svg = await renderStyled({ shadow: { dx: 4, dy: 4, blur: 2 }, glow: { color: '#ffff00' } });
+    assert.match(svg, /<g filter="url\(#tsp-[0-9a-f]{10}-filter\)">/);
+    assert.match(svg, /<feFlood flood-color="#ffff00" flood-opacity="1" \/>/);
+    assert.equal((svg.match(/<feMergeNode /g) ?? []).length, 3);
+    const shadowed = viewBox(svg);
+    assert.ok(shadowed[2] > plain[2] && shadowed[3] > plain[3]);
+  });
+
+  it('paints glyph ranges with their own fill and opacity', async () => {
+    const svg = await renderStyled({ opacity: 0.8, glyphs: [{ start: 0, fill: '#ff0000' }, { start: 2, end: 4, fill: '#00ff00', opacity: 0.5 }] });
+    const fills = Array.from(svg.matchAll(/<path[^>]*fill="([^"]+)"/g), match => match[1]);
+    assert.deepEqual(fills, ['#ff0000', '#111111', '#00ff00']);
+    assert.match(svg, /<g opacity="0.8">/);
+    assert.match(svg, /fill="#00ff00"[^>]*opacity="0.5"/);
+  });
+
+  it('gives each result its own IDs, and identical results the same ones', async () => {
+    const style: SvgStyleOptions = { fillGradient: { type: 'linear', stops: [{ offset: 0, color: 'red' }, { offset: 1, color: 'blue' }] }, shadow: {} };
+    const ids = (svg: string) => Array.from(svg.matchAll(/ id="([^"]+)"/g), match => match[1]);
+    const first = ids(await renderStyled(style, 'One'));
+    const second = ids(await renderStyled(style, 'Two'));
+    assert.equal(first.length, 2);
+    assert.ok(first.every(id => !second.includes(id)));
+    assert.deepEqual(ids(await renderStyled(style, 'One')), first);
+  });
+
+  it('adds the definitions to the SVG with a background', async () => {
+    const result = await textToSvgPath({
+      font: FONT, text: 'Style', background: '#ffffff', outputFormats: ['svgWithBackground'],
+      style: { fillGradient: { type: 'linear', stops: [{ offset: 0, color: 'red' }, { offset: 1, color: 'blue' }] } }
+    });
+    assert.match(result.svgWithBackground!, /<defs>\n<linearGradient /);
+  });
+});
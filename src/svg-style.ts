@@ -0,0 +1,246 @@
+import * as opentype from 'opentype.js';
+import { createHash } from 'crypto';
+import { SvgStyleOptions, Gradient, GlyphStyle, ShadowOptions, OutlineEffects, UnionOptions, BoundingBox } from './types';
+import { PlacedGlyph, buildPlacedPath } from './glyphs';
+import { escapeXml } from './xml';
+import { PaintedPath } from './export-formats';
+
+/**
+ * Everything the styled SVG outputs need to draw the text
+ */
+export interface StyledSvgContent {
+  /** `<defs>` with the gradients and filter, or an empty string */
+  defs: string;
+  /** The text's paths, grouped under the filter and opacity */
+  content: string;
+  /** How far shadows and glows reach beyond the outline's bounding box on each side */
+  overhang: { left: number; top: number; right: number; bottom: number };
+}
+
+/**
+ * Options for drawing the styled text
+ */
+export interface StyledSvgOptions {
+  style: SvgStyleOptions;
+  fill: string;
+  stroke: string;
+  strokeWidth: string;
+  fontSize: number;
+  effects?: OutlineEffects;
+  union?: UnionOptions;
+}
+
+/**
+ * Blur radius of a glow when none is given, in pixels
+ */
+const DEFAULT_GLOW_BLUR = 4;
+
+/**
+ * Round a coordinate for output
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Get the bounding box of a path, or an empty box at the origin when it draws nothing
+ */
+function getBox(path: opentype.Path): BoundingBox {
+  const bbox = path.getBoundingBox();
+  return bbox.isEmpty() ? { x1: 0, y1: 0, x2: 0, y2: 0 } : { x1: bbox.x1, y1: bbox.y1, x2: bbox.x2, y2: bbox.y2 };
+}
+
+/**
+ * Write a gradient element spanning a box. Linear gradients run at their angle across the
+ * whole box, corner to corner; radial ones are placed in fractions of the box.
+ */
+function buildGradient(id: string, gradient: Gradient, box: BoundingBox): string {
+  const width = box.x2 - box.x1;
+  const height = box.y2 - box.y1;
+  const stops = gradient.stops.map(stop => {
+    const opacity = stop.opacity !== undefined ? ` stop-opacity="${stop.opacity}"` : '';
+    return `<stop offset="${stop.offset}" stop-color="${escapeXml(stop.color)}"${opacity} />`;
+  }).join('');
+
+  if (gradient.type === 'radial') {
+    const { cx = 0.5, cy = 0.5, r = 0.5 } = gradient;
+    return `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${round(box.x1 + cx * width)}" cy="${round(box.y1 + cy * height)}" r="${round(r * Math.hypot(width, height))}">${stops}</radialGradient>`;
+  }
+
+  // The gradient line is long enough for the box's far corners to get the first and last stops
+  const angle = (gradient.angle ?? 0) * Math.PI / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const half = (Math.abs(width * cos) + Math.abs(height * sin)) / 2;
+  const centerX = box.x1 + width / 2;
+  const centerY = box.y1 + height / 2;
+  return `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${round(centerX - cos * half)}" y1="${round(centerY - sin * half)}" x2="${round(centerX + cos * half)}" y2="${round(centerY + sin * half)}">${stops}</linearGradient>`;
+}
+
+/**
+ * Write a filter drawing the shadows and glow beneath the text
+ */
+function buildFilter(id: string, shadows: ShadowOptions[], style: SvgStyleOptions, region: BoundingBox): string {
+  const steps: string[] = [];
+  const layers: string[] = [];
+
+  shadows.forEach((shadow, i) => {
+    const { dx = 2, dy = 2, blur = 2, color = '#000000', opacity = 0.5 } = shadow;
+    steps.push(
+      `<feGaussianBlur in="SourceAlpha" stdDeviation="${blur}" />`,
+      `<feOffset dx="${dx}" dy="${dy}" result="offset${i}" />`,
+      `<feFlood flood-color="${escapeXml(color)}" flood-opacity="${opacity}" />`,
+      `<feComposite in2="offset${i}" operator="in" result="shadow${i}" />`
+    );
+    layers.push(`shadow${i}`);
+  });
+
+  if (style.glow) {
+    const { blur = DEFAULT_GLOW_BLUR, color = '#ffffff', opacity = 1 } = style.glow;
+    steps.push(
+      `<feGaussianBlur in="SourceAlpha" stdDeviation="${blur}" result="glowBlur" />`,
+      `<feFlood flood-color="${escapeXml(color)}" flood-opacity="${opacity}" />`,
+      `<feComposite in2="glowBlur" operator="in" result="glow" />`
+    );
+    layers.push('glow');
+  }
+
+  const merge = [...layers, 'SourceGraphic'].map(layer => `<feMergeNode in="${layer}" />`).join('');
+  return `<filter id="${id}" filterUnits="userSpaceOnUse" x="${round(region.x1)}" y="${round(region.y1)}" width="${round(region.x2 - region.x1)}" height="${round(region.y2 - region.y1)}" color-interpolation-filters="sRGB">${steps.join('')}<feMerge>${merge}</feMerge></filter>`;
+}
+
+/**
+ * Work out how far the shadows and glow reach past the outline. Blurs fade out
+ * within three standard deviations.
+ */
+function getOverhang(shadows: ShadowOptions[], style: SvgStyleOptions): StyledSvgContent['overhang'] {
+  const overhang = { left: 0, top: 0, right: 0, bottom: 0 };
+  for (const { dx = 2, dy = 2, blur = 2 } of shadows) {
+    overhang.left = Math.max(overhang.left, blur * 3 - dx);
+    overhang.right = Math.max(overhang.right, blur * 3 + dx);
+    overhang.top = Math.max(overhang.top, blur * 3 - dy);
+    overhang.bottom = Math.max(overhang.bottom, blur * 3 + dy);
+  }
+  if (style.glow) {
+    const reach = (style.glow.blur ?? DEFAULT_GLOW_BLUR) * 3;
+    overhang.left = Math.max(overhang.left, reach);
+    overhang.right = Math.max(overhang.right, reach);
+    overhang.top = Math.max(overhang.top, reach);
+    overhang.bottom = Math.max(overhang.bottom, reach);
+  }
+  return overhang;
+}
+
+/**
+ * Find the glyph style that applies to a glyph: every matching entry, later ones overriding earlier ones
+ */
+function resolveGlyphStyle(glyphs: GlyphStyle[], index: number): GlyphStyle | undefined {
+  let resolved: GlyphStyle | undefined;
+  for (const glyphStyle of glyphs) {
+    const end = glyphStyle.end ?? glyphStyle.start + 1;
+    if (index >= glyphStyle.start && index < end) {
+      resolved = { ...resolved, ...glyphStyle };
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Group glyphs that share the same override, in the order each group first appears
+ */
+function groupGlyphsByStyle(placedGlyphs: PlacedGlyph[], glyphStyles?: GlyphStyle[]): Array<{ glyphStyle?: GlyphStyle; glyphs: PlacedGlyph[] }> {
+  const groups = new Map<string, { glyphStyle?: GlyphStyle; glyphs: PlacedGlyph[] }>();
+  for (const placed of placedGlyphs) {
+    const glyphStyle = glyphStyles ? resolveGlyphStyle(glyphStyles, placed.index) : undefined;
+    const key = JSON.stringify(glyphStyle ?? null);
+    const group = groups.get(key) ?? { glyphStyle, glyphs: [] };
+    group.glyphs.push(placed);
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Split the outline into parts painted with the solid colours and opacity of their glyph styles,
+ * for the formats drawn without SVG. Returns nothing when every glyph takes the text's own paint.
+ * Gradients, shadows and glows are rejected for those formats before this is called.
+ */
+export function buildPaintedParts(placedGlyphs: PlacedGlyph[], options: StyledSvgOptions): PaintedPath[] | undefined {
+  const { style, fill, stroke, fontSize, effects, union } = options;
+  const groups = groupGlyphsByStyle(placedGlyphs, style.glyphs);
+  if (groups.length === 1 && !groups[0].glyphStyle) {
+    return undefined;
+  }
+  return groups.map(({ glyphStyle, glyphs }) => ({
+    path: buildPlacedPath(glyphs, fontSize, effects, union),
+    fill: typeof glyphStyle?.fill === 'string' ? glyphStyle.fill : fill,
+    stroke: typeof glyphStyle?.stroke === 'string' ? glyphStyle.stroke : stroke,
+    ...(glyphStyle?.opacity !== undefined ? { opacity: glyphStyle.opacity } : {})
+  }));
+}
+
+/**
+ * Draw the text with gradients, shadows, glow, opacity and per-glyph styles.
+ * Gradients and the filter get IDs derived from the content, so different results can be
+ * inlined on one page without clashing, and identical ones share identical definitions.
+ */
+export function buildStyledSvgContent(placedGlyphs: PlacedGlyph[], path: opentype.Path, options: StyledSvgOptions): StyledSvgContent {
+  const { style, fill, stroke, strokeWidth, fontSize, effects, union } = options;
+  const shadows = style.shadow ? ([] as ShadowOptions[]).concat(style.shadow) : [];
+  const box = getBox(path);
+  const id = `tsp-${createHash('sha256')
+    .update(JSON.stringify([path.toPathData(2), style, fill, stroke, strokeWidth]))
+    .digest('hex')
+    .slice(0, 10)}`;
+
+  const defs: string[] = [];
+  let gradientCount = 0;
+  const paint = (value: string | Gradient | undefined, fallback: string, gradientBox: BoundingBox): string => {
+    if (value === undefined) {
+      return fallback;
+    }
+    if (typeof value === 'string') {
+      return value;
+    }
+    const gradientId = `${id}-gradient${gradientCount++}`;
+    defs.push(buildGradient(gradientId, value, gradientBox));
+    return `url(#${gradientId})`;
+  };
+  const textFill = paint(style.fillGradient, fill, box);
+  const textStroke = paint(style.strokeGradient, stroke, box);
+
+  // Glyphs with the same override are drawn together
+  const groups = groupGlyphsByStyle(placedGlyphs, style.glyphs);
+  const paths: string[] = [];
+  for (const { glyphStyle, glyphs } of groups) {
+    // Without overrides, the whole outline is already built
+    const groupPath = groups.length === 1 ? path : buildPlacedPath(glyphs, fontSize, effects, union);
+    const groupBox = getBox(groupPath);
+    const groupFill = paint(glyphStyle?.fill, textFill, groupBox);
+    const groupStroke = paint(glyphStyle?.stroke, textStroke, groupBox);
+    const opacity = glyphStyle?.opacity !== undefined ? `\n  opacity="${glyphStyle.opacity}"` : '';
+    paths.push(`<path
+  d="${groupPath.toPathData(2)}"
+  fill="${escapeXml(groupFill)}"
+  stroke="${escapeXml(groupStroke)}"
+  stroke-width="${escapeXml(strokeWidth)}"${opacity}
+/>`);
+  }
+
+  const overhang = getOverhang(shadows, style);
+  const attributes: string[] = [];
+  if (shadows.length > 0 || style.glow) {
+    const region = { x1: box.x1 - overhang.left, y1: box.y1 - overhang.top, x2: box.x2 + overhang.right, y2: box.y2 + overhang.bottom };
+    defs.push(buildFilter(`${id}-filter`, shadows, style, region));
+    attributes.push(`filter="url(#${id}-filter)"`);
+  }
+  if (style.opacity !== undefined) {
+    attributes.push(`opacity="${style.opacity}"`);
+  }
+
+  return {
+    defs: defs.length > 0 ? `<defs>\n${defs.join('\n')}\n</defs>` : '',
+    content: `<g${attributes.map(attribute => ` ${attribute}`).join('')}>\n${paths.join('\n')}\n</g>`,
+    overhang
+  };
+}
@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { textToSvgPath } from './index';
+import { GlyphInfo, TextPathOptions, CircleGuide } from './types';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+/**
+ * Lay text out on a guide and return its glyphs
+ */
+async function glyphsOnPath(text: string, textPath: TextPathOptions): Promise<GlyphInfo[]> {
+  const result = await textToSvgPath({ font: FONT, text, fontSize: 40, textPath, outputFormats: ['glyphs'] });
+  return result.glyphs!;
+}
+
+describe('text on a path', () => {
+  it('keeps glyphs upright along a straight guide', async () => {
+    const glyphs = await glyphsOnPath('Line', { path: 'M10 100 L 500 100' });
+    assert.equal(glyphs.length, 4);
+    for (const glyph of glyphs) {
+      assert.ok(Math.abs(glyph.rotate ?? 0) < 1e-9);
+      assert.ok(Math.abs(glyph.y - 100) < 1e-9);
+    }
+    assert.ok(Math.abs(glyphs[0].x - 10) < 1e-9);
+  });
+
+  it('turns glyphs to follow a curve', async () => {
+    const glyphs = await glyphsOnPath('Around', { path: 'M0 100 Q 200 0 400 100' });
+    assert.ok(glyphs[0].rotate! < 0);
+    assert.ok(glyphs[glyphs.length - 1].rotate! > glyphs[0].rotate!);
+  });
+
+  it('starts at the start offset, in pixels or as a percentage', async () => {
+    const pixels = await glyphsOnPath('A', { path: 'M0 0 L 400 0', startOffset: 100 });
+    const percent = await glyphsOnPath('A', { path: 'M0 0 L 400 0', startOffset: '25%' });
+    assert.ok(Math.abs(pixels[0].x - 100) < 1e-9);
+    assert.ok(Math.abs(percent[0].x - 100) < 1e-9);
+  });
+
+  it('centres the text on the offset with middle alignment', async () => {
+    const glyphs = await glyphsOnPath('ABC', { path: 'M0 0 L 400 0', startOffset: '50%', align: 'middle' });
+    const last = glyphs[glyphs.length - 1];
+    const middle = (glyphs[0].x + last.x + last.advanceWidth) / 2;
+    assert.ok(Math.abs(middle - 200) < 1e-9);
+  });
+
+  it('drops glyphs that run past the end of an open guide', async () => {
+    const glyphs = await glyphsOnPath('Much too long', { path: 'M0 0 L 60 0' });
+    assert.ok(glyphs.length > 0 && glyphs.length < 'Much too long'.length);
+  });
+
+  it('follows circle guides', async () => {
+    const glyphs = await glyphsOnPath('Ring', { path: { type: 'circle', cx: 0, cy: 0, r: 100 } });
+    assert.equal(glyphs.length, 4);
+    for (const glyph of glyphs) {
+      assert.ok(Math.abs(Math.hypot(glyph.x, glyph.y) - 100) < glyph.advanceWidth);
+    }
+  });
+
+  it('rejects invalid guides and offsets', async () => {
+    const invalid = { name: 'InvalidOptionError', option: 'textPath' };
+    await assert.rejects(glyphsOnPath('Hi', { path: '' }), invalid);
+    await assert.rejects(glyphsOnPath('Hi', { path: 'M0 0 X 10' }), invalid);
+    await assert.rejects(glyphsOnPath('Hi', { path: 'M0 0 L 100 0', startOffset: 'middle' }), invalid);
+    await assert.rejects(glyphsOnPath('Hi', { path: 'M0 0 L 100 0', startOffset: NaN }), invalid);
+    await assert.rejects(glyphsOnPath('Hi', {} as TextPathOptions), invalid);
+    await assert.rejects(glyphsOnPath('Hi', { path: { type: 'circle', cx: 0, cy: 0 } as CircleGuide }), invalid);
+    await assert.rejects(glyphsOnPath('Hi', { path: { type: 'circle', cx: 0, cy: 0, r: 0 } }), invalid);
+    await assert.rejects(glyphsOnPath('Hi', { path: { type: 'arc', cx: 0, cy: 0, r: 50, startAngle: 0, endAngle: NaN } }), invalid);
+    await assert.rejects(glyphsOnPath('Hi', { path: { type: 'ellipse', cx: 0, cy: 0, r: 50 } as unknown as CircleGuide }), invalid);
+  });
+});
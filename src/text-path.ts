@@ -0,0 +1,200 @@
+import * as opentype from 'opentype.js';
+import { TextPathOptions, TextPathGuide, CircleGuide, ArcGuide } from './types';
+import { shapeText, ShapeOptions } from './shaping';
+import { PlacedGlyph } from './glyphs';
+import { parsePathData, flattenCommands, Point } from './path-geometry';
+import { InvalidOptionError } from './errors';
+
+/**
+ * A guide path flattened into a polyline with cumulative lengths
+ */
+interface GuidePath {
+  points: Point[];
+  /** Distance from the start of the guide to each point */
+  distances: number[];
+  length: number;
+  closed: boolean;
+}
+
+/**
+ * Number of points used to approximate a full circle
+ */
+const CIRCLE_SEGMENTS = 180;
+
+/**
+ * Sample a circle or arc shorthand. Angles are in degrees, clockwise from 12 o'clock.
+ */
+function sampleArc(cx: number, cy: number, r: number, startAngle: number, sweepAngle: number): Point[] {
+  const steps = Math.max(2, Math.ceil(Math.abs(sweepAngle) / 360 * CIRCLE_SEGMENTS));
+  const points: Point[] = [];
+
+  for (let i = 0; i <= steps; i++) {
+    const angle = (startAngle + sweepAngle * i / steps) * Math.PI / 180;
+    points.push({ x: cx + r * Math.sin(angle), y: cy - r * Math.cos(angle) });
+  }
+  return points;
+}
+
+/**
+ * Check the type, centre, radius and angles of a circle or arc shorthand
+ */
+function checkShorthand(guide: unknown): asserts guide is CircleGuide | ArcGuide {
+  const shorthand = guide as (Partial<Omit<ArcGuide, 'type'>> & { type?: string }) | null;
+  if (typeof shorthand !== 'object' || shorthand === null || (shorthand.type !== 'circle' && shorthand.type !== 'arc')) {
+    throw new InvalidOptionError(`Invalid text path guide: ${JSON.stringify(guide)}, expected path data or a circle or arc`, 'textPath');
+  }
+  const numbers = { cx: shorthand.cx, cy: shorthand.cy, r: shorthand.r, startAngle: shorthand.startAngle ?? 0, endAngle: shorthand.type === 'arc' ? shorthand.endAngle : 0 };
+  for (const [name, value] of Object.entries(numbers)) {
+    if (typeof value !== 'number' || !isFinite(value)) {
+      throw new InvalidOptionError(`Invalid text path ${shorthand.type} ${name}: ${JSON.stringify(value)}, expected a number`, 'textPath');
+    }
+  }
+  if (shorthand.r! <= 0) {
+    throw new InvalidOptionError(`Invalid text path ${shorthand.type} radius: ${shorthand.r}, expected a positive number`, 'textPath');
+  }
+}
+
+/**
+ * Turn a guide definition into a flattened polyline
+ */
+function buildGuide(guide: TextPathGuide, reverse: boolean): GuidePath {
+  let points: Point[];
+  let closed: boolean;
+
+  if (typeof guide === 'string') {
+    // Join subpaths end to end; text simply continues on the next one
+    let commands: opentype.PathCommand[];
+    try {
+      commands = parsePathData(guide);
+    } catch (error) {
+      throw new InvalidOptionError(`Invalid text path guide: ${(error as Error).message}`, 'textPath');
+    }
+    const polylines = flattenCommands(commands, 32);
+    if (polylines.length === 0) {
+      throw new InvalidOptionError('Text path guide must contain at least one segment', 'textPath');
+    }
+    points = [];
+    for (const line of polylines) {
+      points.push(...line.points);
+      if (line.closed) {
+        points.push(line.points[0]);
+      }
+    }
+    closed = polylines.length === 1 && polylines[0].closed;
+  } else {
+    checkShorthand(guide);
+    const { cx, cy, r, clockwise = true } = guide;
+    const startAngle = guide.startAngle ?? 0;
+    // Sweep from start to end angle in the requested direction (a full turn when they coincide)
+    const delta = guide.type === 'circle' ? 0 : guide.endAngle - startAngle;
+    const sweepAngle = ((clockwise ? delta : -delta) % 360 + 360) % 360 || 360;
+    points = sampleArc(cx, cy, r, startAngle, clockwise ? sweepAngle : -sweepAngle);
+    closed = guide.type === 'circle';
+  }
+
+  if (reverse) {
+    points = [...points].reverse();
+  }
+
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1];
+    distances.push(distances[i - 1] + Math.hypot(points[i].x - previous.x, points[i].y - previous.y));
+  }
+
+  return { points, distances, length: distances[distances.length - 1], closed };
+}
+
+/**
+ * Find the point and tangent angle (in radians) at a distance along the guide
+ */
+function pointAtDistance(guide: GuidePath, distance: number): { point: Point; angle: number } {
+  const { points, distances } = guide;
+
+  // Binary search for the segment containing the distance
+  let low = 0;
+  let high = distances.length - 1;
+  while (high - low > 1) {
+    const middle = (low + high) >> 1;
+    if (distances[middle] <= distance) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  const from = points[low];
+  const to = points[high];
+  const segmentLength = distances[high] - distances[low];
+  const t = segmentLength > 0 ? (distance - distances[low]) / segmentLength : 0;
+
+  return {
+    point: { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t },
+    angle: Math.atan2(to.y - from.y, to.x - from.x)
+  };
+}
+
+/**
+ * Resolve `startOffset` (pixels or a percentage of the guide length) to pixels
+ */
+function resolveStartOffset(startOffset: number | string | undefined, length: number): number {
+  if (startOffset === undefined) {
+    return 0;
+  }
+  const trimmed = typeof startOffset === 'string' ? startOffset.trim() : '';
+  const value = typeof startOffset === 'number' ? startOffset : parseFloat(trimmed);
+  if (!isFinite(value)) {
+    throw new InvalidOptionError(`Invalid text path startOffset: "${startOffset}"`, 'textPath');
+  }
+  return trimmed.endsWith('%') ? value / 100 * length : value;
+}
+
+/**
+ * Place each glyph along a guide path, rotated to follow its tangent.
+ * Glyphs that fall off the end of an open guide are dropped, like SVG `<textPath>`.
+ */
+export function layoutOnPath(
+  font: opentype.Font,
+  text: string,
+  options: ShapeOptions & { textPath: TextPathOptions }
+): PlacedGlyph[] {
+  const { textPath } = options;
+  const { align = 'start', side = 'left' } = textPath;
+  const guide = buildGuide(textPath.path, side === 'right');
+
+  // Text on a path is always a single line
+  const run = shapeText(font, text.replace(/\r\n|\r|\n/g, ' '), options);
+
+  let offset = resolveStartOffset(textPath.startOffset, guide.length);
+  if (align === 'middle') {
+    offset -= run.advance / 2;
+  } else if (align === 'end') {
+    offset -= run.advance;
+  }
+
+  const placed: PlacedGlyph[] = [];
+  for (const shaped of run.glyphs) {
+    // Glyphs are positioned by their midpoint, which keeps them centred on curves
+    let midpoint = offset + shaped.x + shaped.advance / 2;
+    if (guide.closed) {
+      midpoint = ((midpoint % guide.length) + guide.length) % guide.length;
+    } else if (midpoint < 0 || midpoint > guide.length) {
+      continue;
+    }
+
+    const { point, angle } = pointAtDistance(guide, midpoint);
+    const halfAdvance = shaped.advance / 2;
+
+    // Vertical offsets, such as for marks, move the glyph along the guide's normal
+    placed.push({
+      shaped,
+      index: shaped.index,
+      line: 0,
+      x: point.x - halfAdvance * Math.cos(angle) - shaped.y * Math.sin(angle),
+      y: point.y - halfAdvance * Math.sin(angle) + shaped.y * Math.cos(angle),
+      rotate: angle * 180 / Math.PI
+    });
+  }
+
+  return placed;
+}
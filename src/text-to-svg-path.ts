@@ -1,15 +1,44 @@
 import * as opentype from 'opentype.js';
-import fetch from 'node-fetch';
 import { 
   TextToSvgPathOptions, 
   TextToSvgPathResult, 
   MultiTextToSvgPathOptions, 
   MultiTextToSvgPathResult,
-  OutputFormat 
+  MultiTextEntryResult,
+  OutputFormat,
+  FontSource,
+  SvgFormatting,
+  GlyphStyle,
+  BoundingBox
 } from './types';
+import { resolveFontSource } from './font-loader';
+import { loadFontCached } from './font-cache';
+import { layoutText, LayoutLine } from './layout';
+import { placeLineGlyphs, buildPlacedPath, collectGlyphs, findMissingCharacters } from './glyphs';
+import { layoutOnPath } from './text-path';
+import { buildEmbeddedFontSvg } from './embedded-font';
+import { buildStyledSvgContent, buildPaintedParts } from './svg-style';
+import { layoutCanvas, CanvasLayout } from './canvas';
+import { loadSpanFonts, layoutSpans } from './spans';
+import { pathToPolylines } from './outline-effects';
+import { buildPdf, buildEps, buildDxf, buildGcode, buildPathJson, ExportStyle } from './export-formats';
+import { rasterizePath, getRasterScale } from './raster';
+import { encodePng, encodeWebp } from './image-encoding';
+import { fitFontSize, getLayoutBox, getAscent, getColumnAscent } from './fit';
+import { instantiateFont } from './variation';
+import { validateOptions } from './validation';
+import { escapeXml, formatXml } from './xml';
+import { MissingGlyphsError, TextToSvgPathError, toTextToSvgPathError } from './errors';
 
 /**
- * Convert text to SVG path using any font URL
+ * Formats that are only generated when explicitly listed in `outputFormats`
+ */
+const OPT_IN_FORMATS: OutputFormat[] = [
+  'glyphs', 'svgWithEmbeddedFont', 'polylines', 'pdf', 'eps', 'dxf', 'gcode', 'json', 'png', 'webp'
+];
+
+/**
+ * Convert text to SVG path using any font source
  * @param options Options for generating the SVG
  * @returns Promise resolving to the SVG string
  */
@@ -19,7 +48,7 @@ export async function textToSvgPath<T extends Record<string, any>>(
   options: TextToSvgPathOptions | MultiTextToSvgPathOptions<T>
 ): Promise<TextToSvgPathResult | MultiTextToSvgPathResult<T>> {
   // Single text case
-  if ('text' in options && 'fontUrl' in options) {
+  if (typeof (options as TextToSvgPathOptions).text === 'string' || Array.isArray((options as TextToSvgPathOptions).spans)) {
     return processSingleText(options as TextToSvgPathOptions);
   }
   
@@ -30,50 +59,45 @@ export async function textToSvgPath<T extends Record<string, any>>(
   // Process all text options and combine results
   const result = {} as MultiTextToSvgPathResult<T>;
   
-  // Group by fontUrl to avoid redundant font fetching
-  const fontGroups: Record<string, Array<keyof T>> = {};
+  // Group by font source to avoid redundant font loading.
+  // Strings are grouped by value, Buffers and fonts by identity.
+  const fontGroups = new Map<FontSource | undefined, Array<keyof T>>();
   
-  // Group text options by font URL
+  // Group text options by font source
   for (const key of keys) {
     const opts = multiOptions[key];
-    if (!fontGroups[opts.fontUrl]) {
-      fontGroups[opts.fontUrl] = [];
+    const source = opts.font ?? opts.fontUrl;
+    if (!fontGroups.has(source)) {
+      fontGroups.set(source, []);
     }
-    fontGroups[opts.fontUrl].push(key);
+    fontGroups.get(source)!.push(key);
   }
   
   // Process each font group
-  for (const fontUrl of Object.keys(fontGroups)) {
+  for (const [source, groupKeys] of fontGroups) {
+    let font: opentype.Font;
     try {
-      // Fetch the font only once per unique URL
-      console.log(`Fetching font from ${fontUrl}...`);
-      const fontResponse = await fetch(fontUrl);
-      
-      if (!fontResponse.ok) {
-        throw new Error(`Failed to fetch font: ${fontResponse.statusText} (${fontResponse.status})`);
+      // Load the font only once per unique source, through the first entry's cache
+      const { fontCache } = multiOptions[groupKeys[0]];
+      font = await loadFontCached(resolveFontSource({ font: source }), fontCache);
+    } catch (error) {
+      // If there's an error with a font, report it on all results using that font
+      const fontError = toTextToSvgPathError(error, 'Error loading font');
+      for (const key of groupKeys) {
+        result[key] = handleEntryError(multiOptions[key], fontError);
       }
-      
-      // Get the font as an ArrayBuffer
-      const fontData = await fontResponse.arrayBuffer();
-      
-      // Parse the font using opentype.js
-      const font = opentype.parse(fontData);
-      
-      // Process each text option that uses this font
-      for (const key of fontGroups[fontUrl]) {
-        const opts = multiOptions[key];
-        
+      continue;
+    }
+    
+    // Process each text option that uses this font
+    for (const key of groupKeys) {
+      const opts = multiOptions[key];
+      try {
         // Generate the SVG for this text option using the already loaded font
-        result[key] = await processTextWithFont(opts, font);
-      }
-    } catch (error: any) {
-      // If there's an error with a font, add error to all results using that font
-      for (const key of fontGroups[fontUrl]) {
-        result[key] = {
-          svg: `<svg><text>Error: ${error.message}</text></svg>`,
-          pathData: '',
-          pathElement: ''
-        };
+        const fallbackFonts = await loadFallbackFonts(opts);
+        result[key] = await processTextWithFont(opts, font, fallbackFonts);
+      } catch (error) {
+        result[key] = handleEntryError(opts, toTextToSvgPathError(error, 'Error generating SVG path'));
       }
     }
   }
@@ -82,77 +106,123 @@ export async function textToSvgPath<T extends Record<string, any>>(
 }
 
 /**
- * Process a single text option (original implementation)
+ * Handle an error for one multi-text entry according to its `onError` setting
  */
-async function processSingleText(options: TextToSvgPathOptions): Promise<TextToSvgPathResult> {
-  const {
-    text,
-    fontUrl,
-    fontSize = 72,
-    fill = '#000000',
-    stroke = 'none',
-    strokeWidth = '0',
-    kerning = true,
-    x = 0,
-    y = fontSize, // Default y position at fontSize for proper alignment
-    background
-  } = options;
-
-  // Result to return
-  const result: TextToSvgPathResult = {
-    svg: '',
+function handleEntryError(options: TextToSvgPathOptions, error: TextToSvgPathError): MultiTextEntryResult {
+  const { onError = 'fallback' } = options;
+  
+  if (onError === 'throw') {
+    throw error;
+  }
+  
+  return {
+    svg: onError === 'fallback' ? `<svg><text>Error: ${escapeXml(error.message)}</text></svg>` : '',
     pathData: '',
-    pathElement: ''
+    pathElement: '',
+    error
   };
+}
 
+/**
+ * Check that generated markup is well-formed and lay it out as requested
+ */
+function formatSvg(svg: string, formatting?: SvgFormatting): string {
   try {
-    // Fetch the font file directly from URL
-    console.log(`Fetching font from ${fontUrl}...`);
-    const fontResponse = await fetch(fontUrl);
-    
-    if (!fontResponse.ok) {
-      throw new Error(`Failed to fetch font: ${fontResponse.statusText} (${fontResponse.status})`);
-    }
-    
-    // Get the font as an ArrayBuffer
-    const fontData = await fontResponse.arrayBuffer();
-    
-    // Parse the font using opentype.js
-    const font = opentype.parse(fontData);
+    return formatXml(svg, formatting);
+  } catch (error) {
+    throw new TextToSvgPathError(`Generated SVG is not well-formed: ${(error as Error).message}`, error);
+  }
+}
+
+/**
+ * Process a single text option (original implementation)
+ */
+async function processSingleText(options: TextToSvgPathOptions): Promise<TextToSvgPathResult> {
+  try {
+    // Load the font from whichever source was provided
+    const font = await loadFontCached(resolveFontSource(options), options.fontCache);
+    const fallbackFonts = await loadFallbackFonts(options);
     
-    return processTextWithFont(options, font);
-  } catch (error: any) {
-    // Improve error message
-    const errorMessage = error.message || 'Unknown error';
-    throw new Error(`Error generating SVG path: ${errorMessage}`);
+    return await processTextWithFont(options, font, fallbackFonts);
+  } catch (error) {
+    // Rethrow library errors as-is and wrap anything unexpected
+    throw toTextToSvgPathError(error, 'Error generating SVG path');
   }
 }
 
 /**
- * Process text with a preloaded font
+ * Load the fallback font chain through the same cache as the primary font
  */
-async function processTextWithFont(options: TextToSvgPathOptions, font: opentype.Font): Promise<TextToSvgPathResult> {
+export function loadFallbackFonts(options: TextToSvgPathOptions): Promise<opentype.Font[]> {
+  const { fallbackFonts = [], fontCache } = options;
+  return Promise.all(fallbackFonts.map(source => loadFontCached(source, fontCache)));
+}
+
+/**
+ * Work out the font size, the start of the first line and the shaping settings of an entry.
+ * When fitting to a box, the font size is searched for first since the other defaults depend on it.
+ */
+export function resolvePlacement(options: TextToSvgPathOptions, font: opentype.Font, fallbackFonts: opentype.Font[]) {
+  const { text, kerning = true, features, direction, script, language, writingMode, lineHeight, textAlign = 'left', textPath, fit } = options;
+  const isFitting = !!fit && !textPath;
+  const isVertical = writingMode === 'vertical' && !textPath;
+  const maxWidth = isFitting && fit!.wrap ? (isVertical ? fit!.height : fit!.width) : options.maxWidth;
+  const shaping = { kerning, fallbackFonts, features, direction, script, language };
+  const fitted = isFitting
+    ? fitFontSize(font, text!, fit!, { ...shaping, writingMode, lineHeight, textAlign, maxWidth })
+    : undefined;
+  const fontSize = fitted?.fontSize ?? options.fontSize ?? 72;
+  // Fitted text starts at the top of the box by default, others at y = fontSize.
+  // Vertical columns start at y = 0, and fitted ones in the right-hand column of the box.
+  const x = options.x ?? (isVertical && fitted ? fit!.width - getColumnAscent(font, fontSize) : 0);
+  const y = options.y ?? (isVertical ? 0 : fitted ? getAscent(font, fontSize) : fontSize);
+  return { fontSize, x, y, maxWidth, fitted, shaping };
+}
+
+/**
+ * Process text with a preloaded font and fallback chain
+ */
+async function processTextWithFont(
+  options: TextToSvgPathOptions,
+  font: opentype.Font,
+  fallbackFonts: opentype.Font[] = []
+): Promise<TextToSvgPathResult> {
   const {
-    text,
-    fontSize = 72,
+    spans,
     fill = '#000000',
     stroke = 'none',
-    strokeWidth = '0',
-    kerning = true,
-    x = 0,
-    y = fontSize,
+    strokeWidth: strokeWidthOption = '0',
+    writingMode,
+    lineHeight,
+    textAlign = 'left',
+    textPath,
+    effects,
+    union,
     background,
     backgroundWidth = 400,
     backgroundHeight = 200,
     backgroundX = 50,
     backgroundY = 120,
-    outputFormats
+    outputFormats,
+    svgFormatting
   } = options;
+  
+  // Reject values that could break out of the generated markup
+  validateOptions(options);
+  const strokeWidth = String(strokeWidthOption);
+  const text = spans ? spans.map(span => span.text).join('') : options.text!;
+  const spanFonts = spans ? await loadSpanFonts(spans, font, options) : undefined;
+  
+  // Swap in the requested variable font instance; fallbacks only use the axes they have
+  if (options.variation) {
+    font = instantiateFont(font, options.variation);
+    fallbackFonts = fallbackFonts.map(fallback => instantiateFont(fallback, options.variation!, false));
+  }
 
   // Determine which formats to generate
   const shouldGenerate = (format: OutputFormat): boolean => {
     if (!outputFormats || outputFormats.length === 0) {
-      return true; // Generate all formats by default
+      return !OPT_IN_FORMATS.includes(format); // Generate all regular formats by default
     }
     return outputFormats.includes(format);
   };
@@ -164,64 +234,202 @@ async function processTextWithFont(options: TextToSvgPathOptions, font: opentype
     pathElement: ''
   };
   
+  // Pick the font size and where the text starts
+  const { fontSize, x, y, maxWidth, fitted, shaping } = resolvePlacement(options, font, fallbackFonts);
+  
+  // Place the glyphs, either along a guide path or on laid out lines
+  let placedGlyphs;
+  let lines: LayoutLine[] | undefined;
+  let spanStyles: GlyphStyle[] = [];
+  let metricBox: BoundingBox | undefined;
+  if (textPath) {
+    placedGlyphs = layoutOnPath(font, text, { ...shaping, fontSize, textPath });
+  } else if (spans) {
+    // Spans share one baseline, by default where the largest of them fits
+    const baseline = options.y ?? Math.max(...spans.map(span => span.fontSize ?? fontSize));
+    const laidOut = layoutSpans(spans, spanFonts!, { ...shaping, fontSize, x, y: baseline });
+    lines = [laidOut.line];
+    placedGlyphs = laidOut.glyphs;
+    spanStyles = laidOut.glyphStyles;
+    metricBox = laidOut.box;
+    result.lines = lines.map(({ segments, ...metrics }) => metrics);
+  } else {
+    lines = layoutText(font, text, { ...shaping, writingMode, fontSize, x, y, maxWidth, lineHeight, textAlign });
+    placedGlyphs = placeLineGlyphs(lines);
+    result.lines = lines.map(({ segments, ...metrics }) => metrics);
+    
+    if (fitted) {
+      result.fit = { fontSize, fits: fitted.fits, box: getLayoutBox(font, lines, fontSize, writingMode) };
+    }
+  }
+  
+  // Report characters no font in the chain could draw, failing early when asked to
+  result.missingCharacters = findMissingCharacters(placedGlyphs);
+  if (options.onMissingGlyphs === 'error' && result.missingCharacters.length > 0) {
+    throw new MissingGlyphsError(result.missingCharacters);
+  }
+  
   // Generate path data (always needed as base for other formats)
-  const path = font.getPath(text, x, y, fontSize, { kerning });
+  const unionOptions = union === true ? {} : union || undefined;
+  const path = buildPlacedPath(placedGlyphs, fontSize, effects, unionOptions);
   result.pathData = path.toPathData(2);
   
+  // List the contours as polylines if requested
+  if (shouldGenerate('polylines')) {
+    result.polylines = pathToPolylines(path, fontSize, unionOptions?.flatten);
+  }
+  
+  // Spans are painted as glyph styles, which the entry's own glyph styles can override
+  const style = spanStyles.length > 0
+    ? { ...options.style, glyphs: [...spanStyles, ...(options.style?.glyphs ?? [])] }
+    : options.style;
+  
+  // Export the outline to other file formats if requested, with styled glyphs in their own colours
+  const isRendering = shouldGenerate('png') || shouldGenerate('webp');
+  const exportStyle: ExportStyle = { fill, stroke, strokeWidth };
+  if (style && (isRendering || shouldGenerate('pdf') || shouldGenerate('eps'))) {
+    exportStyle.opacity = style.opacity;
+    exportStyle.parts = buildPaintedParts(placedGlyphs, { style, fill, stroke, strokeWidth, fontSize, effects, union: unionOptions });
+  }
+  if (shouldGenerate('pdf')) {
+    result.pdf = buildPdf(path, exportStyle, options.pdf);
+  }
+  if (shouldGenerate('eps')) {
+    result.eps = buildEps(path, exportStyle);
+  }
+  if (shouldGenerate('dxf')) {
+    result.dxf = buildDxf(path, fontSize, options.dxf);
+  }
+  if (shouldGenerate('gcode')) {
+    result.gcode = buildGcode(path, fontSize, options.gcode);
+  }
+  if (shouldGenerate('json')) {
+    result.json = buildPathJson(path);
+  }
+  
+  // Generate per-glyph paths and metrics if requested
+  if (shouldGenerate('glyphs')) {
+    result.glyphs = collectGlyphs(placedGlyphs, fontSize, effects, unionOptions);
+  }
+  
   // Generate the path element with attributes if needed
   if (shouldGenerate('pathElement')) {
     result.pathElement = `<path 
   d="${result.pathData}" 
-  fill="${fill}"
-  stroke="${stroke}"
-  stroke-width="${strokeWidth}"
+  fill="${escapeXml(fill)}"
+  stroke="${escapeXml(stroke)}"
+  stroke-width="${escapeXml(strokeWidth)}"
 />`;
   }
   
-  // Get the bounding box (needed for SVG)
-  if (shouldGenerate('svg')) {
+  // Draw the gradients, filter and per-glyph paths for the SVG outputs if styled
+  const styled = style && (shouldGenerate('svg') || (shouldGenerate('svgWithBackground') && background))
+    ? buildStyledSvgContent(placedGlyphs, path, { style, fill, stroke, strokeWidth, fontSize, effects, union: unionOptions })
+    : undefined;
+  
+  // Lay out the background canvas, or use the fixed one when no layout is given
+  let canvas: CanvasLayout | undefined;
+  if (background && (shouldGenerate('svgWithBackground') || isRendering)) {
+    if (options.canvas) {
+      const bbox = path.getBoundingBox();
+      const overhang = styled?.overhang ?? { left: 0, top: 0, right: 0, bottom: 0 };
+      const inkBox = bbox.isEmpty()
+        ? { x1: 0, y1: 0, x2: 0, y2: 0 }
+        : { x1: bbox.x1 - overhang.left, y1: bbox.y1 - overhang.top, x2: bbox.x2 + overhang.right, y2: bbox.y2 + overhang.bottom };
+      // Spans measure their own box, since the largest of them sets the ascent and descent
+      if (!metricBox && lines && lines.length > 0) {
+        metricBox = getLayoutBox(font, lines, fontSize, writingMode);
+      }
+      canvas = layoutCanvas(inkBox, metricBox, options.canvas, fontSize);
+    } else {
+      canvas = { width: backgroundWidth, height: backgroundHeight, x: backgroundX, y: backgroundY, radius: 0 };
+    }
+  }
+  
+  // Get the bounding box (needed for SVG and raster images)
+  if (shouldGenerate('svg') || shouldGenerate('svgWithEmbeddedFont') || isRendering) {
     // Get the bounding box for proper SVG dimensions
     const bbox = path.getBoundingBox();
     
-    // Calculate dimensions with padding
+    // Calculate dimensions with padding, making room for shadows and glows
     const padding = fontSize * 0.2;
-    const width = options.width || Math.ceil(bbox.x2 - bbox.x1 + padding * 2);
-    const height = options.height || Math.ceil(bbox.y2 - bbox.y1 + padding * 2);
+    const overhang = styled?.overhang ?? { left: 0, top: 0, right: 0, bottom: 0 };
+    const width = options.width || Math.ceil(bbox.x2 - bbox.x1 + padding * 2 + overhang.left + overhang.right);
+    const height = options.height || Math.ceil(bbox.y2 - bbox.y1 + padding * 2 + overhang.top + overhang.bottom);
+    const viewBox = `${bbox.x1 - padding - overhang.left} ${bbox.y1 - padding - overhang.top} ${width} ${height}`;
 
-    // Create the SVG
-    result.svg = `<svg 
+    if (shouldGenerate('svg')) {
+      // Styled text brings its own paths and definitions
+      const content = styled
+        ? [styled.defs, styled.content].filter(Boolean).join('\n')
+        : result.pathElement || `<path 
+  d="${result.pathData}" 
+  fill="${escapeXml(fill)}"
+  stroke="${escapeXml(stroke)}"
+  stroke-width="${escapeXml(strokeWidth)}"
+/>`;
+      
+      // Create the SVG
+      result.svg = `<svg 
 xmlns="http://www.w3.org/2000/svg" 
 width="${width}" 
 height="${height}" 
-viewBox="${bbox.x1 - padding} ${bbox.y1 - padding} ${width} ${height}"
+viewBox="${viewBox}"
 >
-${result.pathElement || `<path 
-  d="${result.pathData}" 
-  fill="${fill}"
-  stroke="${stroke}"
-  stroke-width="${strokeWidth}"
-/>`}
+${content}
 </svg>`;
+    }
+
+    // Draw the same glyphs as real text, in the same frame as the outline SVG
+    if (shouldGenerate('svgWithEmbeddedFont')) {
+      result.svgWithEmbeddedFont = buildEmbeddedFontSvg(placedGlyphs, { fontSize, fill, stroke, strokeWidth, width, height, viewBox });
+    }
+
+    // Render the picture the SVG shows, or the background canvas when there is a background
+    if (isRendering) {
+      const frame = canvas
+        ? { x: -canvas.x, y: -canvas.y, width: canvas.width, height: canvas.height }
+        : { x: bbox.x1 - padding, y: bbox.y1 - padding, width, height };
+      const scale = getRasterScale(options.raster);
+      const image = rasterizePath(path, frame, { ...exportStyle, background, backgroundRadius: canvas?.radius }, scale, options.raster?.maxPixels);
+      if (shouldGenerate('png')) {
+        result.png = encodePng(image, scale * 96);
+      }
+      if (shouldGenerate('webp')) {
+        result.webp = encodeWebp(image);
+      }
+    }
   }
   
   // Generate SVG with background ONLY if requested AND background color is provided
-  if (shouldGenerate('svgWithBackground') && background) {
+  if (shouldGenerate('svgWithBackground') && canvas) {
+    const corners = canvas.radius > 0 ? ` rx="${canvas.radius}"` : '';
     result.svgWithBackground = `<svg 
 xmlns="http://www.w3.org/2000/svg" 
-width="${backgroundWidth}" 
-height="${backgroundHeight}" 
-viewBox="0 0 ${backgroundWidth} ${backgroundHeight}"
+width="${canvas.width}" 
+height="${canvas.height}" 
+viewBox="0 0 ${canvas.width} ${canvas.height}"
 >
-<rect x="0" y="0" width="${backgroundWidth}" height="${backgroundHeight}" fill="${background}" />
-<path 
+<rect x="0" y="0" width="${canvas.width}" height="${canvas.height}"${corners} fill="${escapeXml(background!)}" />
+${styled ? `${styled.defs ? `${styled.defs}\n` : ''}<g transform="translate(${canvas.x}, ${canvas.y})">
+${styled.content}
+</g>` : `<path 
   d="${result.pathData}" 
-  transform="translate(${backgroundX}, ${backgroundY})" 
-  fill="${fill}"
-  stroke="${stroke}"
-  stroke-width="${strokeWidth}"
-/>
+  transform="translate(${canvas.x}, ${canvas.y})" 
+  fill="${escapeXml(fill)}"
+  stroke="${escapeXml(stroke)}"
+  stroke-width="${escapeXml(strokeWidth)}"
+/>`}
 </svg>`;
   }
   
+  // Check the markup is well-formed and lay it out as requested
+  for (const key of ['svg', 'svgWithBackground', 'svgWithEmbeddedFont', 'pathElement'] as const) {
+    const markup = result[key];
+    if (markup) {
+      result[key] = formatSvg(markup, svgFormatting);
+    }
+  }
+  
   return result;
 } 
\ No newline at end of file
@@ -1,21 +1,964 @@
+import type { Font } from 'opentype.js';
+import type { FontCache } from './font-cache';
+import type { FontCacheError } from './errors';
+import type { TextToSvgPathError } from './errors';
+
+/**
+ * A font to render with: an http(s) URL, a local file path, a `file://` or `data:` URL,
+ * raw font bytes as a Buffer or ArrayBuffer, or an already parsed opentype.js font
+ */
+export type FontSource = string | Buffer | ArrayBuffer | Font;
+
+/**
+ * Available output formats for the text-to-svg-path function
+ */
+export type OutputFormat =
+  | 'svg'
+  | 'pathData'
+  | 'pathElement'
+  | 'svgWithBackground'
+  | 'glyphs'
+  | 'svgWithEmbeddedFont'
+  | 'polylines'
+  | 'pdf'
+  | 'eps'
+  | 'dxf'
+  | 'gcode'
+  | 'json'
+  | 'png'
+  | 'webp';
+
+/**
+ * How a multi-text entry reports a failure:
+ * - 'throw': reject the whole `textToSvgPath` call
+ * - 'collect': return empty outputs with the `error` field set
+ * - 'fallback': return a placeholder SVG showing the message, with the `error` field set
+ */
+export type ErrorHandling = 'throw' | 'collect' | 'fallback';
+
+/**
+ * Horizontal alignment of lines within a text block.
+ * 'start' and 'end' follow the paragraph direction: 'start' is the left edge for left-to-right text and the right edge for right-to-left text.
+ */
+export type TextAlign = 'left' | 'center' | 'right' | 'justify' | 'start' | 'end';
+
+/**
+ * Base direction of a paragraph; 'auto' takes it from the first strongly directional character
+ */
+export type TextDirection = 'ltr' | 'rtl' | 'auto';
+
+/**
+ * Whether lines run left to right across the page or as columns from top to bottom.
+ * Vertical columns are placed right to left.
+ */
+export type WritingMode = 'horizontal' | 'vertical';
+
+/**
+ * Circle guide for text on a path.
+ * Angles are in degrees, measured clockwise from the top (12 o'clock).
+ */
+export interface CircleGuide {
+  type: 'circle';
+  cx: number;
+  cy: number;
+  r: number;
+  /**
+   * Angle where the guide starts
+   * @default 0
+   */
+  startAngle?: number;
+  /**
+   * Direction the text runs around the circle
+   * @default true
+   */
+  clockwise?: boolean;
+}
+
+/**
+ * Circular arc guide for text on a path.
+ * Angles are in degrees, measured clockwise from the top (12 o'clock).
+ */
+export interface ArcGuide {
+  type: 'arc';
+  cx: number;
+  cy: number;
+  r: number;
+  startAngle: number;
+  endAngle: number;
+  /**
+   * Direction the arc runs from `startAngle` to `endAngle`
+   * @default true
+   */
+  clockwise?: boolean;
+}
+
+/**
+ * A guide for text on a path: SVG path data, or a circle/arc shorthand
+ */
+export type TextPathGuide = string | CircleGuide | ArcGuide;
+
+/**
+ * Options for laying text out along a guide path
+ */
+export interface TextPathOptions {
+  /**
+   * The guide path: an SVG `d` string, or a circle/arc shorthand
+   */
+  path: TextPathGuide;
+  
+  /**
+   * Distance along the guide where the text is anchored, in pixels or as a percentage (e.g. '50%')
+   * @default 0
+   */
+  startOffset?: number | string;
+  
+  /**
+   * Which side of the guide the text sits on. 'right' runs the text along the reversed guide.
+   * @default 'left'
+   */
+  side?: 'left' | 'right';
+  
+  /**
+   * How the text is anchored at `startOffset`
+   * @default 'start'
+   */
+  align?: 'start' | 'middle' | 'end';
+}
+
+/**
+ * Target box for automatically sizing text
+ */
+export interface FitOptions {
+  /**
+   * Width of the target box in pixels
+   */
+  width: number;
+  
+  /**
+   * Height of the target box in pixels
+   */
+  height: number;
+  
+  /**
+   * Smallest font size to try
+   * @default 1
+   */
+  minFontSize?: number;
+  
+  /**
+   * Largest font size to try
+   * @default the size at which one line fills the box height (or one column the box width, for vertical text)
+   */
+  maxFontSize?: number;
+  
+  /**
+   * Wrap lines at the box width (or columns at the box height, for vertical text)
+   * instead of keeping explicit lines only
+   * @default false
+   */
+  wrap?: boolean;
+}
+
+/**
+ * How offset outlines are joined where they go around a corner
+ */
+export type OutlineJoin = 'round' | 'miter' | 'bevel';
+
+/**
+ * Geometry changes applied to the glyph outlines themselves, so they survive
+ * where stroke attributes don't (cut lines, masks, clip paths)
+ */
+export interface OutlineEffects {
+  /**
+   * Grow the outlines outwards by this many pixels, or shrink them when negative
+   * @default 0
+   */
+  offset?: number;
+  
+  /**
+   * Embolden fonts without a bold face by thickening every stem.
+   * `true` adds 1/24 of the font size to each stem; a number sets the added thickness as a fraction of the font size.
+   * Advances are unchanged, so the text doesn't get wider.
+   * @default false
+   */
+  bold?: boolean | number;
+  
+  /**
+   * Slant fonts without an italic face. `true` slants by 12 degrees; a number sets the angle in degrees.
+   * @default false
+   */
+  oblique?: boolean | number;
+  
+  /**
+   * Replace each glyph with a ring this many pixels wide, centred on its outline,
+   * like a stroke turned into a filled shape
+   */
+  outline?: number;
+  
+  /**
+   * How corners are joined when offsetting
+   * @default 'round'
+   */
+  join?: OutlineJoin;
+}
+
+/**
+ * Merging of overlapping contours into clean outlines
+ */
+export interface UnionOptions {
+  /**
+   * Turn every curve into straight segments that stay within this many pixels of it.
+   * When omitted, contours that don't overlap anything keep their curves, and merged
+   * outlines are made of segments within 1/1000 of the font size.
+   */
+  flatten?: number;
+}
+
+/**
+ * A point in SVG coordinates
+ */
+export interface PathPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Unit of lengths in export options. Pixels are CSS pixels, 96 to the inch.
+ */
+export type LengthUnit = 'pt' | 'mm' | 'cm' | 'in' | 'px';
+
+/**
+ * Standard paper sizes for PDF pages, in portrait orientation
+ */
+export type PageSize = 'A3' | 'A4' | 'A5' | 'Letter' | 'Legal';
+
+/**
+ * Options for the `pdf` output format
+ */
+export interface PdfOptions {
+  /**
+   * Page size: a standard paper size, an explicit size in `units`, or 'fit' for a page that
+   * just holds the text and its margin. The text is placed in the top left corner of the page.
+   * @default 'fit'
+   */
+  pageSize?: PageSize | 'fit' | { width: number; height: number };
+  
+  /**
+   * Turn a standard paper size sideways
+   * @default false
+   */
+  landscape?: boolean;
+  
+  /**
+   * Unit of an explicit `pageSize` and of `margin`
+   * @default 'pt'
+   */
+  units?: LengthUnit;
+  
+  /**
+   * Space between the edges of the page and the text
+   * @default 0
+   */
+  margin?: number;
+}
+
+/**
+ * Options for the `dxf` output format
+ */
+export interface DxfOptions {
+  /**
+   * Layer the outer contours are drawn on
+   * @default 'TEXT'
+   */
+  layer?: string;
+  
+  /**
+   * Layer the holes (such as the inside of an "o") are drawn on
+   * @default the same as `layer`
+   */
+  holeLayer?: string;
+  
+  /**
+   * Drawing unit the coordinates are converted to
+   * @default 'mm'
+   */
+  units?: LengthUnit;
+  
+  /**
+   * Largest distance in pixels between the straight segments curves are turned into and the curves
+   * @default fontSize / 1000
+   */
+  tolerance?: number;
+}
+
+/**
+ * Options for the `gcode` output format
+ */
+export interface GcodeOptions {
+  /**
+   * Feed rate while drawing, in `units` per minute
+   * @default 1000
+   */
+  feedRate?: number;
+  
+  /**
+   * Command (or newline-separated commands) that lifts the pen or turns the tool off
+   * @default 'G0 Z5'
+   */
+  penUp?: string;
+  
+  /**
+   * Command (or newline-separated commands) that lowers the pen or turns the tool on
+   * @default 'G1 Z0'
+   */
+  penDown?: string;
+  
+  /**
+   * Machine unit the coordinates are converted to
+   * @default 'mm'
+   */
+  units?: 'mm' | 'in';
+  
+  /**
+   * Largest distance in pixels between the straight segments curves are turned into and the curves
+   * @default fontSize / 1000
+   */
+  tolerance?: number;
+}
+
+/**
+ * Resolution of the `png` and `webp` output formats
+ */
+export interface RasterOptions {
+  /**
+   * Image pixels per SVG pixel
+   * @default 1
+   */
+  scale?: number;
+  
+  /**
+   * Resolution in dots per inch, where 96 dpi draws one image pixel per SVG pixel.
+   * Overrides `scale`, and is recorded in PNG files.
+   */
+  dpi?: number;
+  
+  /**
+   * Largest image to render, in pixels; larger images fail with an `InvalidOptionError`
+   * @default 67108864
+   */
+  maxPixels?: number;
+}
+
+/**
+ * A path command, with absolute coordinates in pixels
+ */
+export type PathCommandData =
+  | { type: 'M' | 'L'; x: number; y: number }
+  | { type: 'Q'; x1: number; y1: number; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { type: 'Z' };
+
+/**
+ * Content of the `json` output format
+ */
+export interface PathJson {
+  /**
+   * Bounding box of the outline
+   */
+  boundingBox: BoundingBox;
+  
+  /**
+   * The outline's commands, the same as in `pathData`
+   */
+  commands: PathCommandData[];
+}
+
+/**
+ * A colour stop of a gradient
+ */
+export interface GradientStop {
+  /**
+   * Position along the gradient, from 0 to 1
+   */
+  offset: number;
+  
+  /**
+   * Colour at this stop
+   */
+  color: string;
+  
+  /**
+   * Opacity at this stop, from 0 to 1
+   * @default 1
+   */
+  opacity?: number;
+}
+
+/**
+ * A gradient running in a straight line across the bounding box of what it paints
+ */
+export interface LinearGradient {
+  type: 'linear';
+  
+  /**
+   * Direction of the gradient in degrees, clockwise from left to right (90 runs top to bottom)
+   * @default 0
+   */
+  angle?: number;
+  
+  /**
+   * Colour stops, in order of offset
+   */
+  stops: GradientStop[];
+}
+
+/**
+ * A gradient spreading out from a point in the bounding box of what it paints
+ */
+export interface RadialGradient {
+  type: 'radial';
+  
+  /**
+   * Horizontal position of the centre, as a fraction of the box width
+   * @default 0.5
+   */
+  cx?: number;
+  
+  /**
+   * Vertical position of the centre, as a fraction of the box height
+   * @default 0.5
+   */
+  cy?: number;
+  
+  /**
+   * Radius, as a fraction of the box diagonal
+   * @default 0.5
+   */
+  r?: number;
+  
+  /**
+   * Colour stops, in order of offset from the centre
+   */
+  stops: GradientStop[];
+}
+
+/**
+ * A linear or radial gradient
+ */
+export type Gradient = LinearGradient | RadialGradient;
+
+/**
+ * A blurred copy of the text drawn beneath it
+ */
+export interface ShadowOptions {
+  /**
+   * Horizontal offset in pixels
+   * @default 2
+   */
+  dx?: number;
+  
+  /**
+   * Vertical offset in pixels
+   * @default 2
+   */
+  dy?: number;
+  
+  /**
+   * Blur radius (standard deviation) in pixels
+   * @default 2
+   */
+  blur?: number;
+  
+  /**
+   * Shadow colour
+   * @default '#000000'
+   */
+  color?: string;
+  
+  /**
+   * Shadow opacity, from 0 to 1
+   * @default 0.5
+   */
+  opacity?: number;
+}
+
+/**
+ * A blurred halo around the text
+ */
+export interface GlowOptions {
+  /**
+   * Blur radius (standard deviation) in pixels
+   * @default 4
+   */
+  blur?: number;
+  
+  /**
+   * Glow colour
+   * @default '#ffffff'
+   */
+  color?: string;
+  
+  /**
+   * Glow opacity, from 0 to 1
+   * @default 1
+   */
+  opacity?: number;
+}
+
+/**
+ * Paint overrides for a range of glyphs. Later entries override earlier ones where they overlap.
+ */
+export interface GlyphStyle {
+  /**
+   * UTF-16 index in the text of the first character to style
+   */
+  start: number;
+  
+  /**
+   * UTF-16 index just past the last character to style
+   * @default start + 1
+   */
+  end?: number;
+  
+  /**
+   * Fill colour or gradient, spanning these glyphs' bounding box
+   */
+  fill?: string | Gradient;
+  
+  /**
+   * Stroke colour or gradient, spanning these glyphs' bounding box
+   */
+  stroke?: string | Gradient;
+  
+  /**
+   * Opacity of these glyphs, from 0 to 1
+   */
+  opacity?: number;
+}
+
+/**
+ * A run of rich text with its own font, size and paint
+ */
+export interface TextSpan {
+  /**
+   * The text of this span
+   */
+  text: string;
+  
+  /**
+   * URL to the span's font file
+   */
+  fontUrl?: string;
+  
+  /**
+   * Font source of the span. Takes precedence over `fontUrl`.
+   */
+  font?: FontSource;
+  
+  /**
+   * Font size in pixels
+   */
+  fontSize?: number;
+  
+  /**
+   * Variable font setting of the span's font
+   */
+  variation?: FontVariation;
+  
+  /**
+   * OpenType features to turn on or off
+   */
+  features?: FontFeatures;
+  
+  /**
+   * Whether to apply kerning within the span
+   */
+  kerning?: boolean;
+  
+  /**
+   * Fill colour or gradient
+   */
+  fill?: string | Gradient;
+  
+  /**
+   * Stroke colour or gradient
+   */
+  stroke?: string | Gradient;
+  
+  /**
+   * Opacity of the span, from 0 to 1
+   */
+  opacity?: number;
+}
+
 /**
- * Available output formats for the text-to-svg-path function
+ * Paint and filter effects of the `svg` and `svgWithBackground` outputs
+ */
+export interface SvgStyleOptions {
+  /**
+   * Gradient filling the text, spanning its bounding box. Replaces `fill`.
+   */
+  fillGradient?: Gradient;
+  
+  /**
+   * Gradient stroking the text, spanning its bounding box. Replaces `stroke`.
+   */
+  strokeGradient?: Gradient;
+  
+  /**
+   * Opacity of the whole text, from 0 to 1
+   */
+  opacity?: number;
+  
+  /**
+   * One or more drop shadows, drawn beneath the text in order
+   */
+  shadow?: ShadowOptions | ShadowOptions[];
+  
+  /**
+   * Glow around the text, drawn above the shadows
+   */
+  glow?: GlowOptions;
+  
+  /**
+   * Fill, stroke and opacity overrides for glyphs by character index or range
+   */
+  glyphs?: GlyphStyle[];
+}
+
+/**
+ * Space around the text on a background canvas, in pixels: one value for every side or one per side
+ */
+export type CanvasPadding = number | { top?: number; right?: number; bottom?: number; left?: number };
+
+/**
+ * Layout of the background canvas behind `svgWithBackground`, sized and aligned to the text's bounding box
+ */
+export interface CanvasOptions {
+  /**
+   * Canvas width in pixels, or 'auto' to fit the text and padding
+   * @default 'auto'
+   */
+  width?: number | 'auto';
+  
+  /**
+   * Canvas height in pixels, or 'auto' to fit the text and padding
+   * @default 'auto'
+   */
+  height?: number | 'auto';
+  
+  /**
+   * Space between the canvas edges and the text
+   * @default fontSize * 0.2
+   */
+  padding?: CanvasPadding;
+  
+  /**
+   * Horizontal position of the text within the padding
+   * @default 'center'
+   */
+  align?: 'left' | 'center' | 'right';
+  
+  /**
+   * Vertical position of the text within the padding. 'top', 'middle' and 'bottom' use the
+   * drawn outline; 'baseline' uses the font's ascender and descender instead, so labels sit
+   * on the same baseline whatever letters they contain.
+   * @default 'middle'
+   */
+  verticalAlign?: 'top' | 'middle' | 'bottom' | 'baseline';
+  
+  /**
+   * Corner radius of the canvas in pixels
+   * @default 0
+   */
+  radius?: number;
+}
+
+/**
+ * Layout of the generated SVG markup: 'default' as generated, 'minified' without whitespace
+ * between elements, or 'pretty' with one indented element per line
+ */
+export type SvgFormatting = 'default' | 'minified' | 'pretty';
+
+/**
+ * OpenType features to turn on or off, keyed by feature tag.
+ * A number selects an alternate for features like `salt` or `cv01` (1 = first alternate, 0 = off).
+ * @example { liga: true, smcp: true, tnum: true, ss01: true }
+ */
+export type FontFeatures = Record<string, boolean | number>;
+
+/**
+ * Variable font setting: axis values by tag (e.g. `{ wght: 650, wdth: 90 }`)
+ * or the name of a named instance (e.g. `'Bold Condensed'`)
+ */
+export type FontVariation = Record<string, number> | string;
+
+/**
+ * A variation axis of a variable font
+ */
+export interface VariationAxis {
+  /**
+   * Four-letter axis tag, e.g. `wght`
+   */
+  tag: string;
+  
+  /**
+   * Human-readable axis name
+   */
+  name: string;
+  
+  /**
+   * Smallest supported value
+   */
+  min: number;
+  
+  /**
+   * Value used when the axis is not set
+   */
+  default: number;
+  
+  /**
+   * Largest supported value
+   */
+  max: number;
+}
+
+/**
+ * A run of consecutive Unicode code points, both ends included
+ */
+export interface UnicodeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Embedding permissions from a font's OS/2 `fsType` flags
+ */
+export interface FontEmbedding {
+  /**
+   * What a document embedding the font may do with it:
+   * - 'installable': install it permanently
+   * - 'editable': use it for editing the document
+   * - 'preview': only view and print the document
+   * - 'restricted': nothing, the font must not be embedded
+   */
+  permission: 'installable' | 'editable' | 'preview' | 'restricted';
+  
+  /**
+   * Whether the font may be embedded as a subset
+   */
+  subsetting: boolean;
+  
+  /**
+   * Whether only bitmaps may be embedded, not outlines
+   */
+  bitmapOnly: boolean;
+  
+  /**
+   * The raw `fsType` value
+   */
+  fsType: number;
+}
+
+/**
+ * Metadata, metrics and coverage of a font, from `inspectFont`. Metrics are in font units.
  */
-export type OutputFormat = 'svg' | 'pathData' | 'pathElement' | 'svgWithBackground';
+export interface FontInfo {
+  /**
+   * Font family name
+   */
+  familyName: string;
+  
+  /**
+   * Font style name, e.g. `Bold Italic`
+   */
+  styleName: string;
+  
+  /**
+   * Full font name
+   */
+  fullName: string;
+  
+  /**
+   * PostScript name
+   */
+  postScriptName: string;
+  
+  /**
+   * Version string from the name table
+   */
+  version: string;
+  
+  /**
+   * Copyright notice, when the font has one
+   */
+  copyright?: string;
+  
+  /**
+   * License description, when the font has one
+   */
+  license?: string;
+  
+  /**
+   * URL of the license, when the font has one
+   */
+  licenseUrl?: string;
+  
+  /**
+   * Designer, when the font names one
+   */
+  designer?: string;
+  
+  /**
+   * Font units per em
+   */
+  unitsPerEm: number;
+  
+  /**
+   * Height above the baseline that lines are spaced for
+   */
+  ascender: number;
+  
+  /**
+   * Depth below the baseline that lines are spaced for (negative)
+   */
+  descender: number;
+  
+  /**
+   * Extra space between lines
+   */
+  lineGap: number;
+  
+  /**
+   * Height of lowercase letters, from OS/2 or measured on `x`
+   */
+  xHeight: number;
+  
+  /**
+   * Height of capital letters, from OS/2 or measured on `H`
+   */
+  capHeight: number;
+  
+  /**
+   * Number of glyphs
+   */
+  glyphCount: number;
+  
+  /**
+   * Number of characters the font maps to glyphs
+   */
+  characterCount: number;
+  
+  /**
+   * Code points the font maps to glyphs, as sorted runs
+   */
+  unicodeRanges: UnicodeRange[];
+  
+  /**
+   * OpenType substitution and positioning feature tags, sorted alphabetically
+   */
+  features: string[];
+  
+  /**
+   * Variation axes (empty for static fonts)
+   */
+  variationAxes: VariationAxis[];
+  
+  /**
+   * Names of the named instances of a variable font
+   */
+  namedInstances: string[];
+  
+  /**
+   * Embedding permissions
+   */
+  embedding: FontEmbedding;
+}
 
 /**
  * Options for generating SVG path from text
  */
 export interface TextToSvgPathOptions {
   /**
-   * The text to convert to SVG path
+   * The text to convert to SVG path. Required unless `spans` is given.
    */
-  text: string;
+  text?: string;
+  
+  /**
+   * Runs of text with their own font, size and paint, laid out one after another on a shared
+   * baseline in place of `text`. Options the spans leave out come from these options.
+   */
+  spans?: TextSpan[];
+  
+  /**
+   * URL to the font file (.ttf or .otf).
+   * Either `fontUrl` or `font` must be provided.
+   */
+  fontUrl?: string;
+  
+  /**
+   * Font to use from any supported source (URL, file path, `file://` or `data:` URL,
+   * Buffer, ArrayBuffer or parsed opentype.js font). Takes precedence over `fontUrl`.
+   */
+  font?: FontSource;
+  
+  /**
+   * Fonts to try, in order, for characters the main font has no glyph for.
+   * Each run of text is shaped with its own font's metrics and kerning.
+   */
+  fallbackFonts?: FontSource[];
+  
+  /**
+   * Font cache to load the font through, or `false` to always load it fresh.
+   * Uses the shared default cache when omitted.
+   */
+  fontCache?: FontCache | false;
+  
+  /**
+   * Variable font axis values or named instance to render with.
+   * Values outside an axis range are clamped; unknown axes or instance names throw a `FontVariationError`.
+   * Fallback fonts use whichever of the axes they support.
+   * @example { wght: 650, wdth: 90 }
+   * @example 'SemiBold'
+   */
+  variation?: FontVariation;
   
   /**
-   * URL to the font file (.ttf or .otf)
+   * OpenType features to apply from the font's GSUB table. The required features
+   * `ccmp`, `locl`, `rlig` and `rclt` are on unless turned off; everything else, including `liga`, is opt-in.
+   * Without this option glyphs are mapped as `opentype.js` renders them (no optional ligatures).
+   * @example { liga: true, tnum: true, ss01: true }
    */
-  fontUrl: string;
+  features?: FontFeatures;
+  
+  /**
+   * Base direction of each paragraph. Mixed left-to-right and right-to-left text is
+   * reordered with the Unicode Bidirectional Algorithm.
+   * @default 'auto'
+   */
+  direction?: TextDirection;
+  
+  /**
+   * OpenType script tag to shape with, such as 'arab', 'hebr' or 'dev2'.
+   * Scripts are detected from the text when omitted.
+   */
+  script?: string;
+  
+  /**
+   * OpenType language system tag for language-specific forms, such as 'URD' or 'MAR'
+   */
+  language?: string;
+  
+  /**
+   * Lay text out in horizontal lines or vertical columns. In vertical text, CJK characters
+   * are stacked upright using the font's vertical metrics and `vert`/`vrt2` alternates,
+   * other runs such as Latin are turned sideways, and wrapped columns go right to left.
+   * `x` is then the centre line of the first column and `y` its top, `maxWidth` limits the
+   * column height, `lineHeight` spaces the columns and `textAlign` aligns text within them.
+   * Not applied to text on a path.
+   * @default 'horizontal'
+   */
+  writingMode?: WritingMode;
   
   /**
    * Font size in pixels
@@ -30,34 +973,92 @@ export interface TextToSvgPathOptions {
   fill?: string;
   
   /**
-   * Stroke color for the text
-   * @default 'none'
+   * Stroke color for the text
+   * @default 'none'
+   */
+  stroke?: string;
+  
+  /**
+   * Stroke width for the text, in pixels or as a CSS length
+   * @default '0'
+   */
+  strokeWidth?: string | number;
+  
+  /**
+   * Whether to use kerning
+   * @default true
+   */
+  kerning?: boolean;
+  
+  /**
+   * X position of the text
+   * @default 0
+   */
+  x?: number;
+  
+  /**
+   * Y position of the text
+   * @default fontSize, or 0 for vertical text
+   */
+  y?: number;
+  
+  /**
+   * Maximum line width in pixels. Longer lines are wrapped at spaces,
+   * and words wider than this are broken between characters.
+   * Explicit line breaks (`\n`) are always honoured.
+   */
+  maxWidth?: number;
+  
+  /**
+   * Distance between baselines as a multiple of `fontSize`
+   * @default the font's own line spacing (ascender - descender + line gap)
+   */
+  lineHeight?: number;
+  
+  /**
+   * Horizontal alignment of lines. Lines are aligned within `maxWidth`
+   * when set, otherwise within the widest line.
+   * @default 'left'
+   */
+  textAlign?: TextAlign;
+  
+  /**
+   * Lay the text out along a guide path instead of on straight lines.
+   * Each glyph is placed and rotated along the curve; `x`, `y`, `maxWidth`,
+   * `lineHeight` and `textAlign` are ignored.
    */
-  stroke?: string;
+  textPath?: TextPathOptions;
   
   /**
-   * Stroke width for the text
-   * @default '0'
+   * Pick the largest font size at which the text fits a target box.
+   * Overrides `fontSize`, and `y` defaults to the font's ascent so the text starts at the top of the box.
+   * Vertical text starts in the top right corner of the box instead.
+   * Not applied to text on a path.
    */
-  strokeWidth?: string;
+  fit?: FitOptions;
   
   /**
-   * Whether to use kerning
-   * @default true
+   * Offset, embolden, slant or outline the glyph shapes. Offset, bold and outline effects
+   * turn curves into fine straight segments. Applied to the path outputs and per-glyph paths,
+   * but not to `svgWithEmbeddedFont`, which draws the font's own glyphs.
    */
-  kerning?: boolean;
+  effects?: OutlineEffects;
   
   /**
-   * X position of the text
-   * @default 0
+   * Merge overlapping contours, such as the strokes of script fonts, ligatures or tightly
+   * kerned glyphs, into outlines that don't overlap, so cutters and plotters don't cut twice.
+   * Outer contours then run clockwise on screen and holes counterclockwise.
+   * Applied after `effects`, to the path outputs and per-glyph paths.
+   * @default false
    */
-  x?: number;
+  union?: boolean | UnionOptions;
   
   /**
-   * Y position of the text
-   * @default fontSize
+   * Gradients, shadows, glow, opacity and per-glyph colours. Definitions are added to
+   * the `svg` and `svgWithBackground` outputs with IDs unique to the result.
+   * The other outputs keep the plain `fill` and `stroke`.
    */
-  y?: number;
+  style?: SvgStyleOptions;
   
   /**
    * SVG width (auto calculated if not provided)
@@ -99,14 +1100,367 @@ export interface TextToSvgPathOptions {
    */
   backgroundY?: number;
   
+  /**
+   * Size the background canvas to the text and align the text on it, with padding and
+   * rounded corners. Replaces `backgroundWidth`, `backgroundHeight`, `backgroundX` and `backgroundY`.
+   */
+  canvas?: CanvasOptions;
+  
+  /**
+   * Page layout of the `pdf` output format
+   */
+  pdf?: PdfOptions;
+  
+  /**
+   * Layers and units of the `dxf` output format
+   */
+  dxf?: DxfOptions;
+  
+  /**
+   * Feed rate, pen commands and units of the `gcode` output format
+   */
+  gcode?: GcodeOptions;
+  
+  /**
+   * Resolution of the `png` and `webp` output formats
+   */
+  raster?: RasterOptions;
+  
+  /**
+   * How to handle characters no font in the chain has a glyph for.
+   * 'error' fails with a `MissingGlyphsError` instead of drawing .notdef boxes.
+   * @default 'ignore'
+   */
+  onMissingGlyphs?: 'ignore' | 'error';
+  
+  /**
+   * Layout of the SVG outputs and `pathElement`. Every generated SVG is checked to be
+   * well-formed XML whichever layout is chosen.
+   * @default 'default'
+   */
+  svgFormatting?: SvgFormatting;
+  
+  /**
+   * How a failure is reported for this entry in multi-text mode.
+   * Single-text calls always throw.
+   * @default 'fallback'
+   */
+  onError?: ErrorHandling;
+  
   /**
    * Specifies which output formats to generate.
-   * If omitted, all formats will be generated.
+   * If omitted, all formats except `glyphs`, `svgWithEmbeddedFont`, `polylines`, the export formats
+   * (`pdf`, `eps`, `dxf`, `gcode` and `json`) and the raster formats (`png` and `webp`) will be generated.
    * @example ['pathData', 'pathElement'] - Generate only path data and path element
    */
   outputFormats?: OutputFormat[];
 }
 
+/**
+ * Options for creating a font cache
+ */
+export interface FontCacheOptions {
+  /**
+   * Maximum number of parsed fonts kept in memory
+   * @default 32
+   */
+  maxEntries?: number;
+  
+  /**
+   * Directory for caching the raw bytes of fonts fetched over http(s).
+   * Disk caching is disabled when omitted.
+   */
+  cacheDir?: string;
+  
+  /**
+   * Called when a font can't be written to the disk cache. The render still succeeds,
+   * so the failure is ignored when omitted.
+   */
+  onDiskError?: (error: FontCacheError) => void;
+}
+
+/**
+ * Information about a font held in a font cache
+ */
+export interface FontCacheEntryInfo {
+  /**
+   * Cache key (the source string, or a content hash for binary sources)
+   */
+  key: string;
+  
+  /**
+   * Font family name
+   */
+  familyName: string;
+  
+  /**
+   * Font style name
+   */
+  styleName: string;
+  
+  /**
+   * SHA-256 hash of the raw font bytes
+   */
+  contentHash: string;
+  
+  /**
+   * Size of the raw font data in bytes
+   */
+  byteLength: number;
+  
+  /**
+   * Number of cache hits since the font was loaded
+   */
+  hits: number;
+  
+  /**
+   * When the font was last loaded or read from the cache
+   */
+  lastAccessed: Date;
+}
+
+/**
+ * Options for the HTTP rendering server
+ */
+export interface RenderServerOptions {
+  /**
+   * Where fonts may be loaded from: local directories, whose files can be named by a path
+   * relative to the directory, and http(s) URL prefixes. Other sources are refused.
+   */
+  allowedFonts: string[];
+  
+  /**
+   * Font used when a request names none. Must be allowed by `allowedFonts`.
+   */
+  defaultFont?: string;
+  
+  /**
+   * Largest request body accepted, in bytes
+   * @default 65536
+   */
+  maxBodySize?: number;
+  
+  /**
+   * Longest text accepted for one entry, in characters
+   * @default 1000
+   */
+  maxTextLength?: number;
+  
+  /**
+   * Most entries accepted in one multi-text request
+   * @default 20
+   */
+  maxEntries?: number;
+  
+  /**
+   * Largest font size accepted, in pixels. Also caps the size `fit` may pick, and bounds
+   * curve tolerances (at least a ten-thousandth of it) and outline effects (at most a tenth of it).
+   * @default 500
+   */
+  maxFontSize?: number;
+  
+  /**
+   * Largest PNG or WebP image rendered, in pixels, whatever the requested size and resolution
+   * @default 4194304
+   */
+  maxPixels?: number;
+  
+  /**
+   * Font cache to load fonts through. Uses the shared default cache when omitted.
+   */
+  fontCache?: FontCache;
+  
+  /**
+   * `Cache-Control` header of rendered responses
+   * @default 'public, max-age=86400'
+   */
+  cacheControl?: string;
+}
+
+/**
+ * Options for `measureText`: the options of `textToSvgPath` that decide where glyphs go
+ */
+export type MeasureTextOptions = { text: string } & Pick<TextToSvgPathOptions,
+  | 'fontUrl' | 'font' | 'fallbackFonts' | 'fontCache' | 'variation' | 'features'
+  | 'direction' | 'script' | 'language' | 'writingMode' | 'fontSize' | 'kerning'
+  | 'x' | 'y' | 'maxWidth' | 'lineHeight' | 'textAlign' | 'fit'
+>;
+
+/**
+ * Size and position of laid out text, from `measureText`. Lengths are in pixels.
+ */
+export interface TextMeasurement {
+  /**
+   * Font size the text was measured at, the fitted size when fitting to a box
+   */
+  fontSize: number;
+  
+  /**
+   * Advance width of the widest line, including kerning (the longest column for vertical text)
+   */
+  width: number;
+  
+  /**
+   * Distance from the first line's ascent to the last line's descent (the width of all columns for vertical text)
+   */
+  height: number;
+  
+  /**
+   * Height of the font's ascender above the baseline
+   */
+  ascent: number;
+  
+  /**
+   * Depth of the font's descender below the baseline, as a positive distance
+   */
+  descent: number;
+  
+  /**
+   * Y position of the first line's baseline (where the first column starts for vertical text)
+   */
+  baseline: number;
+  
+  /**
+   * Distance between baselines (between column centres for vertical text)
+   */
+  lineHeight: number;
+  
+  /**
+   * Box around the glyph outlines, collapsed to the start point when nothing is drawn
+   */
+  boundingBox: BoundingBox;
+  
+  /**
+   * Box the lines take up from ascent to descent, which ignores how far glyphs reach
+   */
+  layoutBox: BoundingBox;
+  
+  /**
+   * Position and width of each line
+   */
+  lines: TextLineMetrics[];
+  
+  /**
+   * Characters no font in the chain has a glyph for
+   */
+  missingCharacters: string[];
+}
+
+/**
+ * Position and size of one laid out line of text
+ */
+export interface TextLineMetrics {
+  /**
+   * The text on this line
+   */
+  text: string;
+  
+  /**
+   * X position where the line starts, or the centre line of a vertical column
+   */
+  x: number;
+  
+  /**
+   * Y position of the line's baseline, or where a vertical column starts
+   */
+  y: number;
+  
+  /**
+   * Advance width of the line, or the height of a vertical column, including kerning
+   */
+  width: number;
+}
+
+/**
+ * Axis-aligned bounding box in SVG coordinates
+ */
+export interface BoundingBox {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+/**
+ * Path and metrics of a single rendered glyph
+ */
+export interface GlyphInfo {
+  /**
+   * Source character(s) rendered by this glyph (several for ligatures)
+   */
+  text: string;
+  
+  /**
+   * UTF-16 index of the first source character in the text
+   */
+  index: number;
+  
+  /**
+   * Index of the line the glyph is on
+   */
+  line: number;
+  
+  /**
+   * Glyph id within the font
+   */
+  glyphId: number;
+  
+  /**
+   * Glyph name, if the font provides one
+   */
+  glyphName?: string;
+  
+  /**
+   * The glyph's own path data, already positioned
+   */
+  pathData: string;
+  
+  /**
+   * Advance width in pixels, without kerning
+   */
+  advanceWidth: number;
+  
+  /**
+   * X position of the glyph origin after kerning
+   */
+  x: number;
+  
+  /**
+   * Y position of the glyph's baseline
+   */
+  y: number;
+  
+  /**
+   * Bounding box of the glyph outline
+   */
+  boundingBox: BoundingBox;
+  
+  /**
+   * Clockwise rotation around the glyph origin in degrees (only for text on a path)
+   */
+  rotate?: number;
+}
+
+/**
+ * Outcome of fitting text to a target box
+ */
+export interface FitResult {
+  /**
+   * The chosen font size
+   */
+  fontSize: number;
+  
+  /**
+   * Whether the text fits the box (false when even `minFontSize` overflows)
+   */
+  fits: boolean;
+  
+  /**
+   * Box spanned by the laid out lines, from the first line's ascent to the last line's descent
+   */
+  box: BoundingBox;
+}
+
 /**
  * Response from the text-to-svg-path function
  */
@@ -121,6 +1475,12 @@ export interface TextToSvgPathResult {
    */
   svgWithBackground?: string;
   
+  /**
+   * SVG drawing the text as selectable `<text>` with a subset of the font embedded as base64
+   * (only when `'svgWithEmbeddedFont'` is in `outputFormats`)
+   */
+  svgWithEmbeddedFont?: string;
+  
   /**
    * The raw SVG path data (d attribute)
    */
@@ -130,6 +1490,68 @@ export interface TextToSvgPathResult {
    * Complete path element with attributes as a string (for custom use in SVG)
    */
   pathElement: string;
+
+  /**
+   * The outline as closed polylines, one per contour, with the points of `pathData`
+   * and curves flattened (only when `'polylines'` is in `outputFormats`)
+   */
+  polylines?: PathPoint[][];
+
+  /**
+   * Single page PDF drawing the outline with its fill and stroke (only when `'pdf'` is in `outputFormats`)
+   */
+  pdf?: Buffer;
+
+  /**
+   * Encapsulated PostScript drawing the outline with its fill and stroke (only when `'eps'` is in `outputFormats`)
+   */
+  eps?: string;
+
+  /**
+   * DXF drawing with the outline as closed polylines (only when `'dxf'` is in `outputFormats`)
+   */
+  dxf?: string;
+
+  /**
+   * G-code tracing the outline with a pen or tool (only when `'gcode'` is in `outputFormats`)
+   */
+  gcode?: string;
+
+  /**
+   * The outline's commands and bounding box, ready to serialise as JSON (only when `'json'` is in `outputFormats`)
+   */
+  json?: PathJson;
+
+  /**
+   * Anti-aliased PNG image of the `svg` output, or of the `svgWithBackground` output when a
+   * background is set (only when `'png'` is in `outputFormats`)
+   */
+  png?: Buffer;
+
+  /**
+   * The same image as `png`, as a lossless WebP (only when `'webp'` is in `outputFormats`)
+   */
+  webp?: Buffer;
+
+  /**
+   * Metrics for each laid out line of text
+   */
+  lines?: TextLineMetrics[];
+
+  /**
+   * Per-glyph paths and metrics (only when `'glyphs'` is in `outputFormats`)
+   */
+  glyphs?: GlyphInfo[];
+
+  /**
+   * Chosen font size and layout box (only when `fit` is set)
+   */
+  fit?: FitResult;
+
+  /**
+   * Distinct characters no font in the chain has a glyph for, drawn as .notdef
+   */
+  missingCharacters?: string[];
 }
 
 /**
@@ -140,8 +1562,18 @@ export type MultiTextToSvgPathOptions<T extends Record<string, any>> = {
 };
 
 /**
- * Multi-text result where keys match the input options and values are TextToSvgPathResult
+ * Result for one entry of a multi-text call
+ */
+export interface MultiTextEntryResult extends TextToSvgPathResult {
+  /**
+   * The error that stopped this entry from rendering, when `onError` is 'collect' or 'fallback'
+   */
+  error?: TextToSvgPathError;
+}
+
+/**
+ * Multi-text result where keys match the input options and values are MultiTextEntryResult
  */
 export type MultiTextToSvgPathResult<T extends Record<string, any>> = {
-  [K in keyof T]: TextToSvgPathResult;
+  [K in keyof T]: MultiTextEntryResult;
 }; 
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { textToSvgPath, InvalidOptionError } from './index';
+import { TextToSvgPathOptions } from './types';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+/**
+ * Check that rendering fails with an `InvalidOptionError` naming the option
+ */
+async function assertInvalid(options: Partial<TextToSvgPathOptions>, option: string): Promise<void> {
+  await assert.rejects(textToSvgPath({ font: FONT, text: 'Text', ...options }), (error: unknown) => {
+    assert.ok(error instanceof InvalidOptionError, String(error));
+    assert.equal(error.option, option);
+    return true;
+  });
+}
+
+describe('option validation', () => {
+  it('rejects colours that could break out of their attributes', async () => {
+    await assertInvalid({ fill: 'red" onload="alert(1)' }, 'fill');
+    await assertInvalid({ stroke: '#ggg' }, 'stroke');
+    await assertInvalid({ background: '#12345' }, 'background');
+  });
+
+  it('rejects invalid numbers', async () => {
+    await assertInvalid({ fontSize: -1 }, 'fontSize');
+    await assertInvalid({ x: NaN }, 'x');
+    await assertInvalid({ style: { opacity: 2 } }, 'style');
+    await assertInvalid({ raster: { maxPixels: 0 } }, 'raster');
+  });
+
+  it('accepts stroke widths as numbers or CSS lengths', async () => {
+    const numeric = await textToSvgPath({ font: FONT, text: 'Text', stroke: '#000', strokeWidth: 2 });
+    const length = await textToSvgPath({ font: FONT, text: 'Text', stroke: '#000', strokeWidth: '2px' });
+    assert.match(numeric.svg, /stroke-width="2"/);
+    assert.match(length.svg, /stroke-width="2px"/);
+    await assertInvalid({ strokeWidth: '2" x="' }, 'strokeWidth');
+    await assertInvalid({ strokeWidth: -1 }, 'strokeWidth');
+  });
+});
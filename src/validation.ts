@@ -0,0 +1,336 @@
+import { TextToSvgPathOptions, Gradient, ShadowOptions, OutputFormat, OutlineEffects } from './types';
+import { isValidColor, isValidPaint } from './color';
+import { InvalidOptionError } from './errors';
+
+/**
+ * An SVG length: a non-negative number with an optional unit
+ */
+const LENGTH = /^\s*(\d+\.?\d*|\.\d+)(e[-+]?\d+)?(px|pt|pc|mm|cm|in|em|ex|%)?\s*$/i;
+
+/**
+ * Layouts accepted by `svgFormatting`
+ */
+const SVG_FORMATTINGS = ['default', 'minified', 'pretty'];
+
+/**
+ * Values accepted by `textAlign`
+ */
+const TEXT_ALIGNS = ['left', 'center', 'right', 'justify', 'start', 'end'];
+
+/**
+ * Values accepted by `writingMode`
+ */
+const WRITING_MODES = ['horizontal', 'vertical'];
+
+/**
+ * Formats drawn without SVG, which paint solid colours and opacity but no gradients or filters
+ */
+const PAINTED_FORMATS: OutputFormat[] = ['png', 'webp', 'pdf', 'eps'];
+
+/**
+ * Values accepted by `effects.join`
+ */
+const OUTLINE_JOINS = ['round', 'miter', 'bevel'];
+
+/**
+ * Options that can't be combined with spans, which are laid out on one line
+ */
+const SPAN_CONFLICTS = ['textPath', 'fit', 'maxWidth'] as const;
+
+/**
+ * Fail unless a value is a finite number, optionally within a range
+ */
+function checkNumber(value: unknown, option: string, min = -Infinity, max = Infinity): void {
+  if (typeof value !== 'number' || !isFinite(value) || value < min || value > max) {
+    const range = max !== Infinity ? ` from ${min} to ${max}` : min !== -Infinity ? ` of at least ${min}` : '';
+    const shown = typeof value === 'number' ? String(value) : JSON.stringify(value);
+    throw new InvalidOptionError(`Invalid ${option}: ${shown}, expected a number${range}`, option.split(/[.[]/)[0]);
+  }
+}
+
+/**
+ * Fail unless a value is a finite number greater than zero
+ */
+function checkPositive(value: unknown, option: string): void {
+  if (typeof value !== 'number' || !isFinite(value) || value <= 0) {
+    const shown = typeof value === 'number' ? String(value) : JSON.stringify(value);
+    throw new InvalidOptionError(`Invalid ${option}: ${shown}, expected a positive number`, option.split(/[.[]/)[0]);
+  }
+}
+
+/**
+ * Fail unless a value is one of the listed choices
+ */
+function checkChoice(value: unknown, choices: string[], option: string): void {
+  if (!choices.includes(value as string)) {
+    throw new InvalidOptionError(`Invalid ${option}: ${JSON.stringify(value)}, expected one of ${choices.join(', ')}`, option.split(/[.[]/)[0]);
+  }
+}
+
+/**
+ * Fail unless a value is a colour, or also a paint server reference when `paint` is set
+ */
+function checkColor(value: unknown, option: string, paint = false): void {
+  if (!(paint ? isValidPaint : isValidColor)(value as string)) {
+    throw new InvalidOptionError(`Invalid colour for ${option}: ${JSON.stringify(value)}`, option.split(/[.[]/)[0]);
+  }
+}
+
+/**
+ * Check a gradient's type and stops
+ */
+function checkGradient(gradient: Gradient, option: string): void {
+  if (gradient.type !== 'linear' && gradient.type !== 'radial') {
+    throw new InvalidOptionError(`Invalid ${option}.type: ${JSON.stringify((gradient as Gradient).type)}`, 'style');
+  }
+  if (!Array.isArray(gradient.stops) || gradient.stops.length === 0) {
+    throw new InvalidOptionError(`${option} needs at least one stop`, 'style');
+  }
+  const position = gradient.type === 'linear' ? { angle: gradient.angle } : { cx: gradient.cx, cy: gradient.cy, r: gradient.r };
+  for (const [name, value] of Object.entries(position)) {
+    if (value !== undefined) {
+      checkNumber(value, `${option}.${name}`);
+    }
+  }
+  gradient.stops.forEach((stop, i) => {
+    checkNumber(stop.offset, `${option}.stops[${i}].offset`, 0, 1);
+    checkColor(stop.color, `${option}.stops[${i}].color`);
+    if (stop.opacity !== undefined) {
+      checkNumber(stop.opacity, `${option}.stops[${i}].opacity`, 0, 1);
+    }
+  });
+}
+
+/**
+ * Check a colour option that may also be a gradient
+ */
+function checkPaintOrGradient(value: string | Gradient, option: string): void {
+  if (typeof value === 'object' && value !== null) {
+    checkGradient(value, option);
+  } else {
+    checkColor(value, option, true);
+  }
+}
+
+/**
+ * Check the blur, offsets, colour and opacity of a shadow or glow
+ */
+function checkShadow(shadow: ShadowOptions, option: string): void {
+  for (const name of ['dx', 'dy'] as const) {
+    if (shadow[name] !== undefined) {
+      checkNumber(shadow[name], `${option}.${name}`);
+    }
+  }
+  if (shadow.blur !== undefined) {
+    checkNumber(shadow.blur, `${option}.blur`, 0);
+  }
+  if (shadow.color !== undefined) {
+    checkColor(shadow.color, `${option}.color`);
+  }
+  if (shadow.opacity !== undefined) {
+    checkNumber(shadow.opacity, `${option}.opacity`, 0, 1);
+  }
+}
+
+/**
+ * Check the sizes, slant and corner joins of outline effects
+ */
+function checkEffects(effects: OutlineEffects): void {
+  if (effects.offset !== undefined) {
+    checkNumber(effects.offset, 'effects.offset');
+  }
+  if (effects.bold !== undefined && typeof effects.bold !== 'boolean') {
+    checkNumber(effects.bold, 'effects.bold');
+  }
+  if (effects.outline !== undefined) {
+    checkNumber(effects.outline, 'effects.outline', 0);
+  }
+  const { oblique } = effects;
+  if (oblique !== undefined && typeof oblique !== 'boolean' && !(typeof oblique === 'number' && oblique > -90 && oblique < 90)) {
+    throw new InvalidOptionError(`Invalid effects.oblique: ${JSON.stringify(oblique)}, expected an angle between -90 and 90 degrees`, 'effects');
+  }
+  if (effects.join !== undefined) {
+    checkChoice(effects.join, OUTLINE_JOINS, 'effects.join');
+  }
+}
+
+/**
+ * Check the text and paint of each span, and that the rest of the options can lay spans out
+ */
+function checkSpans(options: TextToSvgPathOptions): void {
+  const { spans } = options;
+  if (!Array.isArray(spans) || spans.length === 0) {
+    throw new InvalidOptionError('spans needs at least one span', 'spans');
+  }
+  for (const name of SPAN_CONFLICTS) {
+    if (options[name] !== undefined) {
+      throw new InvalidOptionError(`spans can't be combined with ${name}`, 'spans');
+    }
+  }
+  if (options.writingMode === 'vertical') {
+    throw new InvalidOptionError("spans can't be laid out vertically", 'spans');
+  }
+  if (options.textAlign !== undefined && options.textAlign !== 'left') {
+    throw new InvalidOptionError("spans can't be combined with textAlign, as they're laid out on a single line", 'spans');
+  }
+  if (options.outputFormats?.includes('svgWithEmbeddedFont')) {
+    throw new InvalidOptionError("svgWithEmbeddedFont can't draw spans", 'spans');
+  }
+
+  spans.forEach((span, i) => {
+    const option = `spans[${i}]`;
+    if (typeof span?.text !== 'string' || /[\r\n]/.test(span.text)) {
+      throw new InvalidOptionError(`${option}.text must be a string without line breaks`, 'spans');
+    }
+    if (span.fontSize !== undefined) {
+      checkNumber(span.fontSize, `${option}.fontSize`, 0);
+    }
+    if (span.fill !== undefined) {
+      checkPaintOrGradient(span.fill, `${option}.fill`);
+    }
+    if (span.stroke !== undefined) {
+      checkPaintOrGradient(span.stroke, `${option}.stroke`);
+    }
+    if (span.opacity !== undefined) {
+      checkNumber(span.opacity, `${option}.opacity`, 0, 1);
+    }
+  });
+}
+
+/**
+ * Fail when a format drawn without SVG is asked for a gradient, shadow or glow, which it can't draw
+ */
+function checkPaintedFormats(options: TextToSvgPathOptions): void {
+  const format = options.outputFormats?.find(name => PAINTED_FORMATS.includes(name));
+  if (!format) {
+    return;
+  }
+  const { style, spans } = options;
+  const unsupported = [
+    style?.fillGradient && 'style.fillGradient',
+    style?.strokeGradient && 'style.strokeGradient',
+    style?.shadow && 'style.shadow',
+    style?.glow && 'style.glow',
+    ...(style?.glyphs ?? []).map((glyphStyle, i) => hasGradient(glyphStyle) && `style.glyphs[${i}]`),
+    ...(spans ?? []).map((span, i) => hasGradient(span) && `spans[${i}]`)
+  ].find(Boolean);
+  if (unsupported) {
+    throw new InvalidOptionError(
+      `The ${format} format can't draw the gradient or effect in ${unsupported}, only solid colours and opacity`,
+      unsupported.split(/[.[]/)[0]
+    );
+  }
+}
+
+/**
+ * Check whether a glyph style or span is painted with a gradient
+ */
+function hasGradient(paint: { fill?: unknown; stroke?: unknown }): boolean {
+  return (paint.fill !== undefined && typeof paint.fill !== 'string') || (paint.stroke !== undefined && typeof paint.stroke !== 'string');
+}
+
+/**
+ * Check the options that end up in the generated markup, so values chosen by end users
+ * can't break out of their attributes. Fails with an `InvalidOptionError` naming the option.
+ */
+export function validateOptions(options: TextToSvgPathOptions): void {
+  const { fill, stroke, strokeWidth, background, style, svgFormatting } = options;
+
+  if (options.spans !== undefined) {
+    checkSpans(options);
+  } else if (typeof options.text !== 'string') {
+    throw new InvalidOptionError(`Invalid text: ${JSON.stringify(options.text)}, expected a string`, 'text');
+  }
+
+  if (fill !== undefined) {
+    checkColor(fill, 'fill', true);
+  }
+  if (stroke !== undefined) {
+    checkColor(stroke, 'stroke', true);
+  }
+  if (background !== undefined) {
+    checkColor(background, 'background', true);
+  }
+  if (strokeWidth !== undefined && !(typeof strokeWidth === 'string' ? LENGTH.test(strokeWidth) : typeof strokeWidth === 'number' && isFinite(strokeWidth) && strokeWidth >= 0)) {
+    throw new InvalidOptionError(`Invalid stroke width: ${JSON.stringify(strokeWidth)}`, 'strokeWidth');
+  }
+
+  if (options.fontSize !== undefined) {
+    checkNumber(options.fontSize, 'fontSize', 0);
+  }
+  const lengths = ['x', 'y', 'width', 'height', 'backgroundWidth', 'backgroundHeight', 'backgroundX', 'backgroundY'] as const;
+  for (const name of lengths) {
+    if (options[name] !== undefined) {
+      checkNumber(options[name], name);
+    }
+  }
+  if (options.maxWidth !== undefined) {
+    checkPositive(options.maxWidth, 'maxWidth');
+  }
+  if (options.lineHeight !== undefined) {
+    checkNumber(options.lineHeight, 'lineHeight', 0);
+  }
+  if (options.textAlign !== undefined) {
+    checkChoice(options.textAlign, TEXT_ALIGNS, 'textAlign');
+  }
+  if (options.writingMode !== undefined) {
+    checkChoice(options.writingMode, WRITING_MODES, 'writingMode');
+  }
+
+  if (options.effects !== undefined) {
+    checkEffects(options.effects);
+  }
+
+  const { union } = options;
+  if (union !== undefined && union !== null && typeof union !== 'boolean' && typeof union !== 'object') {
+    throw new InvalidOptionError(`Invalid union: ${JSON.stringify(union)}, expected a boolean or options`, 'union');
+  }
+  if (typeof union === 'object' && union?.flatten !== undefined) {
+    checkPositive(union.flatten, 'union.flatten');
+  }
+
+  if (options.raster?.maxPixels !== undefined) {
+    checkNumber(options.raster.maxPixels, 'raster.maxPixels', 1);
+  }
+
+  if (svgFormatting !== undefined) {
+    checkChoice(svgFormatting, SVG_FORMATTINGS, 'svgFormatting');
+  }
+
+  checkPaintedFormats(options);
+
+  if (!style) {
+    return;
+  }
+  if (style.fillGradient) {
+    checkGradient(style.fillGradient, 'style.fillGradient');
+  }
+  if (style.strokeGradient) {
+    checkGradient(style.strokeGradient, 'style.strokeGradient');
+  }
+  if (style.opacity !== undefined) {
+    checkNumber(style.opacity, 'style.opacity', 0, 1);
+  }
+  if (style.shadow) {
+    ([] as ShadowOptions[]).concat(style.shadow).forEach((shadow, i) => checkShadow(shadow, `style.shadow[${i}]`));
+  }
+  if (style.glow) {
+    checkShadow(style.glow, 'style.glow');
+  }
+  (style.glyphs ?? []).forEach((glyphStyle, i) => {
+    const option = `style.glyphs[${i}]`;
+    checkNumber(glyphStyle.start, `${option}.start`, 0);
+    if (glyphStyle.end !== undefined) {
+      checkNumber(glyphStyle.end, `${option}.end`, 0);
+    }
+    if (glyphStyle.fill !== undefined) {
+      checkPaintOrGradient(glyphStyle.fill, `${option}.fill`);
+    }
+    if (glyphStyle.stroke !== undefined) {
+      checkPaintOrGradient(glyphStyle.stroke, `${option}.stroke`);
+    }
+    if (glyphStyle.opacity !== undefined) {
+      checkNumber(glyphStyle.opacity, `${option}.opacity`, 0, 1);
+    }
+  });
+}
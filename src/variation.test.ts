@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import * as opentype from 'opentype.js';
+import { textToSvgPath, inspectFont, FontVariationError } from './index';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+/**
+ * Width of the SVG drawn for some text
+ */
+function svgWidth(svg: string): number {
+  return Number(svg.match(/width="([\d.]+)"/)![1]);
+}
+
+describe('font variations', () => {
+  it('lists the axes and named instances', async () => {
+    const info = await inspectFont(FONT);
+    assert.deepEqual(info.variationAxes, [{ tag: 'wght', name: 'Weight', min: 100, default: 400, max: 900 }]);
+    assert.deepEqual(info.namedInstances, ['Thin', 'ExtraLight', 'Light', 'Regular', 'Medium', 'SemiBold', 'Bold', 'ExtraBold', 'Black']);
+  });
+
+  it('draws heavier weights wider', async () => {
+    const [thin, regular, black] = await Promise.all([100, 400, 900].map(wght =>
+      textToSvgPath({ font: FONT, text: 'Weight', fontSize: 40, variation: { wght } })));
+    assert.notEqual(thin.pathData, black.pathData);
+    assert.ok(svgWidth(thin.svg) < svgWidth(regular.svg));
+    assert.ok(svgWidth(regular.svg) < svgWidth(black.svg));
+  });
+
+  it('draws the default instance like no variation', async () => {
+    const plain = await textToSvgPath({ font: FONT, text: 'Weight', fontSize: 40 });
+    const regular = await textToSvgPath({ font: FONT, text: 'Weight', fontSize: 40, variation: { wght: 400 } });
+    assert.equal(regular.pathData, plain.pathData);
+  });
+
+  it('selects named instances and clamps values to the axis range', async () => {
+    const bold = await textToSvgPath({ font: FONT, text: 'Weight', fontSize: 40, variation: 'Bold' });
+    const wght700 = await textToSvgPath({ font: FONT, text: 'Weight', fontSize: 40, variation: { wght: 700 } });
+    assert.equal(bold.pathData, wght700.pathData);
+
+    const black = await textToSvgPath({ font: FONT, text: 'Weight', fontSize: 40, variation: { wght: 900 } });
+    const beyond = await textToSvgPath({ font: FONT, text: 'Weight', fontSize: 40, variation: { wght: 2000 } });
+    assert.equal(beyond.pathData, black.pathData);
+  });
+
+  it('rejects unknown axes and instances', async () => {
+    await assert.rejects(textToSvgPath({ font: FONT, text: 'Hi', variation: { wdth: 50 } }), FontVariationError);
+    await assert.rejects(textToSvgPath({ font: FONT, text: 'Hi', variation: 'Condensed' }), /Available instances: Thin/);
+  });
+
+  it('needs the raw font data', async () => {
+    const data = readFileSync(FONT);
+    const parsed = opentype.parse(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+    await assert.rejects(textToSvgPath({ font: parsed, text: 'Hi', variation: { wght: 700 } }), FontVariationError);
+    const fromBuffer = await textToSvgPath({ font: data, text: 'Hi', variation: { wght: 700 } });
+    assert.match(fromBuffer.pathData, /^M/);
+  });
+});
@@ -0,0 +1,698 @@
+import * as opentype from 'opentype.js';
+import { FontVariation, VariationAxis } from './types';
+import { FontVariationError } from './errors';
+import { getRawFontData } from './font-loader';
+import { readSfntTable } from './sfnt';
+
+/**
+ * A TrueType outline point in font units
+ */
+interface OutlinePoint {
+  x: number;
+  y: number;
+  onCurve: boolean;
+  lastPointOfContour: boolean;
+}
+
+/**
+ * The parts of opentype.js's parsed `fvar` table read here
+ */
+interface FvarTable extends opentype.Table {
+  axes: Array<{ tag: string; name?: opentype.LocalizedName; minValue: number; defaultValue: number; maxValue: number }>;
+  instances?: Array<{ name?: opentype.LocalizedName; coordinates: Record<string, number> }>;
+}
+
+/**
+ * A component of a composite glyph, as opentype.js parses it from `glyf`
+ */
+interface GlyphComponent {
+  glyphIndex: number;
+  xScale: number;
+  scale01: number;
+  scale10: number;
+  yScale: number;
+  dx: number;
+  dy: number;
+  /** Parent and child point indices aligned instead of applying the offset */
+  matchedPoints?: [number, number];
+}
+
+/**
+ * The TrueType outline data opentype.js keeps on glyphs once their path has been read
+ */
+interface TrueTypeGlyph extends opentype.Glyph {
+  isComposite?: boolean;
+  components?: GlyphComponent[];
+  points?: OutlinePoint[];
+}
+
+/**
+ * The parts of the `gvar` table needed to read glyph deltas
+ */
+interface GvarTable {
+  view: DataView;
+  axisCount: number;
+  sharedTuples: number[][];
+  glyphOffsets: number[];
+  dataStart: number;
+}
+
+/**
+ * Deltas for every point of a glyph, including the four phantom points
+ */
+interface GlyphDeltas {
+  x: Float64Array;
+  y: Float64Array;
+}
+
+/**
+ * An outline with variations applied, plus the change to the advance width
+ */
+interface VariedOutline {
+  points: OutlinePoint[];
+  advanceDelta: number;
+}
+
+/**
+ * Instances already built for each font, keyed by normalized coordinates
+ */
+const instanceCache = new WeakMap<opentype.Font, Map<string, opentype.Font>>();
+
+/**
+ * Get the font's parsed `fvar` table, if it's a variable font
+ */
+function getFvar(font: opentype.Font): FvarTable | undefined {
+  return font.tables.fvar as FvarTable | undefined;
+}
+
+/**
+ * List the variation axes of a font (empty for static fonts)
+ */
+export function getVariationAxes(font: opentype.Font): VariationAxis[] {
+  const fvar = getFvar(font);
+  if (!fvar) {
+    return [];
+  }
+
+  return fvar.axes.map(axis => ({
+    tag: axis.tag,
+    name: axis.name?.en ?? axis.tag,
+    min: axis.minValue,
+    default: axis.defaultValue,
+    max: axis.maxValue
+  }));
+}
+
+/**
+ * List the names of a font's named instances
+ */
+export function getNamedInstances(font: opentype.Font): string[] {
+  const instances = getFvar(font)?.instances ?? [];
+  return instances.map(instance => instance.name?.en).filter((name): name is string => Boolean(name));
+}
+
+/**
+ * Resolve a variation setting to user-space coordinates for every axis
+ */
+function resolveCoordinates(font: opentype.Font, variation: FontVariation, strict: boolean): Record<string, number> | undefined {
+  const axes = getVariationAxes(font);
+  if (axes.length === 0) {
+    if (strict) {
+      throw new FontVariationError('Font is not a variable font');
+    }
+    return undefined;
+  }
+
+  let requested: Record<string, number>;
+  if (typeof variation === 'string') {
+    const instance = (getFvar(font)?.instances ?? []).find(candidate => candidate.name?.en === variation);
+    if (!instance) {
+      if (strict) {
+        throw new FontVariationError(
+          `Unknown named instance "${variation}". Available instances: ${getNamedInstances(font).join(', ') || 'none'}`
+        );
+      }
+      return undefined;
+    }
+    requested = instance.coordinates;
+  } else {
+    requested = variation;
+  }
+
+  const tags = axes.map(axis => axis.tag);
+  const unknown = Object.keys(requested).filter(tag => !tags.includes(tag));
+  if (strict && unknown.length > 0) {
+    throw new FontVariationError(
+      `Unknown variation axis ${unknown.map(tag => `"${tag}"`).join(', ')}. Available axes: ${tags.join(', ')}`
+    );
+  }
+
+  const coordinates: Record<string, number> = {};
+  for (const axis of axes) {
+    const value = requested[axis.tag] ?? axis.default;
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new FontVariationError(`Invalid value for variation axis "${axis.tag}": ${value}`);
+    }
+    coordinates[axis.tag] = Math.min(axis.max, Math.max(axis.min, value));
+  }
+  return coordinates;
+}
+
+/**
+ * Apply the `avar` segment maps to normalized coordinates
+ */
+function applyAvar(fontData: ArrayBuffer, normalized: number[]): number[] {
+  const avar = readSfntTable(fontData, 'avar');
+  if (!avar) {
+    return normalized;
+  }
+
+  const axisCount = avar.getUint16(6);
+  const result = [...normalized];
+  let offset = 8;
+
+  for (let axis = 0; axis < axisCount; axis++) {
+    const pairCount = avar.getUint16(offset);
+    offset += 2;
+    const pairs: Array<[number, number]> = [];
+    for (let i = 0; i < pairCount; i++) {
+      pairs.push([avar.getInt16(offset) / 16384, avar.getInt16(offset + 2) / 16384]);
+      offset += 4;
+    }
+
+    const value = normalized[axis];
+    if (axis >= normalized.length || pairs.length === 0) {
+      continue;
+    }
+
+    // Piecewise linear interpolation between the mapped segments
+    for (let i = 1; i < pairs.length; i++) {
+      const [fromStart, toStart] = pairs[i - 1];
+      const [fromEnd, toEnd] = pairs[i];
+      if (value <= fromEnd) {
+        result[axis] = fromEnd === fromStart
+          ? toEnd
+          : toStart + (toEnd - toStart) * (value - fromStart) / (fromEnd - fromStart);
+        break;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert user-space axis values to normalized coordinates in the range -1..1
+ */
+function normalizeCoordinates(font: opentype.Font, fontData: ArrayBuffer, coordinates: Record<string, number>): number[] {
+  const normalized = getVariationAxes(font).map(axis => {
+    const value = coordinates[axis.tag];
+    if (value < axis.default) {
+      return axis.default === axis.min ? 0 : (value - axis.default) / (axis.default - axis.min);
+    }
+    if (value > axis.default) {
+      return axis.max === axis.default ? 0 : (value - axis.default) / (axis.max - axis.default);
+    }
+    return 0;
+  });
+
+  // Quantize to F2DOT14 precision like font engines do
+  return applyAvar(fontData, normalized).map(value => Math.round(value * 16384) / 16384);
+}
+
+/**
+ * Read the `gvar` header, glyph offsets and shared tuples
+ */
+function parseGvar(view: DataView): GvarTable {
+  const axisCount = view.getUint16(4);
+  const sharedTupleCount = view.getUint16(6);
+  const sharedTuplesOffset = view.getUint32(8);
+  const glyphCount = view.getUint16(12);
+  const longOffsets = (view.getUint16(14) & 1) === 1;
+  const dataStart = view.getUint32(16);
+
+  const glyphOffsets: number[] = [];
+  for (let i = 0; i <= glyphCount; i++) {
+    glyphOffsets.push(longOffsets ? view.getUint32(20 + i * 4) : view.getUint16(20 + i * 2) * 2);
+  }
+
+  const sharedTuples: number[][] = [];
+  for (let i = 0; i < sharedTupleCount; i++) {
+    const tuple: number[] = [];
+    for (let axis = 0; axis < axisCount; axis++) {
+      tuple.push(view.getInt16(sharedTuplesOffset + (i * axisCount + axis) * 2) / 16384);
+    }
+    sharedTuples.push(tuple);
+  }
+
+  return { view, axisCount, sharedTuples, glyphOffsets, dataStart };
+}
+
+/**
+ * Read packed point numbers. Returns undefined for "all points".
+ */
+function readPointNumbers(view: DataView, offset: number): [number[] | undefined, number] {
+  let count = view.getUint8(offset++);
+  if (count & 0x80) {
+    count = ((count & 0x7f) << 8) | view.getUint8(offset++);
+  }
+  if (count === 0) {
+    return [undefined, offset];
+  }
+
+  const points: number[] = [];
+  let last = 0;
+  while (points.length < count) {
+    const control = view.getUint8(offset++);
+    const runCount = (control & 0x7f) + 1;
+    const areWords = (control & 0x80) !== 0;
+    for (let i = 0; i < runCount && points.length < count; i++) {
+      last += areWords ? view.getUint16(offset) : view.getUint8(offset);
+      offset += areWords ? 2 : 1;
+      points.push(last);
+    }
+  }
+  return [points, offset];
+}
+
+/**
+ * Read packed deltas
+ */
+function readDeltas(view: DataView, offset: number, count: number): [number[], number] {
+  const deltas: number[] = [];
+  while (deltas.length < count) {
+    const control = view.getUint8(offset++);
+    const runCount = (control & 0x3f) + 1;
+    for (let i = 0; i < runCount && deltas.length < count; i++) {
+      if (control & 0x80) {
+        deltas.push(0);
+      } else if (control & 0x40) {
+        deltas.push(view.getInt16(offset));
+        offset += 2;
+      } else {
+        deltas.push(view.getInt8(offset));
+        offset += 1;
+      }
+    }
+  }
+  return [deltas, offset];
+}
+
+/**
+ * How much a tuple variation applies at the given coordinates
+ */
+function tupleScalar(coords: number[], peak: number[], start?: number[], end?: number[]): number {
+  let scalar = 1;
+  for (let axis = 0; axis < peak.length; axis++) {
+    const peakValue = peak[axis];
+    const coord = coords[axis] ?? 0;
+    if (peakValue === 0 || coord === peakValue) {
+      continue;
+    }
+    if (coord === 0) {
+      return 0;
+    }
+
+    if (start && end) {
+      const startValue = start[axis];
+      const endValue = end[axis];
+      // Invalid regions are ignored for this axis, as the spec requires
+      if (startValue > peakValue || peakValue > endValue || (startValue < 0 && endValue > 0)) {
+        continue;
+      }
+      if (coord < startValue || coord > endValue) {
+        return 0;
+      }
+      scalar *= coord < peakValue
+        ? (coord - startValue) / (peakValue - startValue)
+        : (endValue - coord) / (endValue - peakValue);
+    } else {
+      if (coord < Math.min(0, peakValue) || coord > Math.max(0, peakValue)) {
+        return 0;
+      }
+      scalar *= coord / peakValue;
+    }
+  }
+  return scalar;
+}
+
+/**
+ * Infer deltas for untouched points of each contour (IUP), in place
+ */
+function interpolateUntouched(
+  deltas: number[], touched: boolean[], original: OutlinePoint[], axis: 'x' | 'y'
+): void {
+  let contourStart = 0;
+
+  for (let end = 0; end < original.length; end++) {
+    if (!original[end].lastPointOfContour && end !== original.length - 1) {
+      continue;
+    }
+
+    const indices: number[] = [];
+    for (let i = contourStart; i <= end; i++) {
+      if (touched[i]) {
+        indices.push(i);
+      }
+    }
+
+    if (indices.length === 1) {
+      // A single touched point moves the whole contour
+      for (let i = contourStart; i <= end; i++) {
+        deltas[i] = deltas[indices[0]];
+      }
+    } else if (indices.length > 1) {
+      const size = end - contourStart + 1;
+      indices.forEach((from, position) => {
+        const to = indices[(position + 1) % indices.length];
+        let c1 = original[from][axis];
+        let c2 = original[to][axis];
+        let d1 = deltas[from];
+        let d2 = deltas[to];
+        if (c1 > c2) {
+          [c1, c2] = [c2, c1];
+          [d1, d2] = [d2, d1];
+        }
+
+        // Walk the untouched points between the two touched ones, wrapping around the contour
+        for (let step = 1; ; step++) {
+          const i = contourStart + ((from - contourStart + step) % size);
+          if (i === to) {
+            break;
+          }
+          const c = original[i][axis];
+          if (c1 === c2) {
+            deltas[i] = d1 === d2 ? d1 : 0;
+          } else if (c <= c1) {
+            deltas[i] = d1;
+          } else if (c >= c2) {
+            deltas[i] = d2;
+          } else {
+            deltas[i] = d1 + (c - c1) * (d2 - d1) / (c2 - c1);
+          }
+        }
+      });
+    }
+
+    contourStart = end + 1;
+  }
+}
+
+/**
+ * Sum the scaled deltas of every tuple variation that applies to a glyph
+ * @param outline Original contour points of a simple glyph, used to interpolate untouched points
+ */
+function readGlyphDeltas(
+  gvar: GvarTable, glyphId: number, coords: number[], pointCount: number, outline?: OutlinePoint[]
+): GlyphDeltas {
+  const result: GlyphDeltas = { x: new Float64Array(pointCount), y: new Float64Array(pointCount) };
+  const { view, axisCount } = gvar;
+  const start = gvar.dataStart + gvar.glyphOffsets[glyphId];
+  if (glyphId + 1 >= gvar.glyphOffsets.length || gvar.glyphOffsets[glyphId + 1] === gvar.glyphOffsets[glyphId]) {
+    return result;
+  }
+
+  const tupleVariationCount = view.getUint16(start);
+  let serialized = start + view.getUint16(start + 2);
+  let header = start + 4;
+
+  let sharedPoints: number[] | undefined;
+  if (tupleVariationCount & 0x8000) {
+    [sharedPoints, serialized] = readPointNumbers(view, serialized);
+  }
+
+  const readTuple = (offset: number): number[] => {
+    const tuple: number[] = [];
+    for (let axis = 0; axis < axisCount; axis++) {
+      tuple.push(view.getInt16(offset + axis * 2) / 16384);
+    }
+    return tuple;
+  };
+
+  for (let t = 0; t < (tupleVariationCount & 0x0fff); t++) {
+    const dataSize = view.getUint16(header);
+    const tupleIndex = view.getUint16(header + 2);
+    header += 4;
+
+    let peak: number[];
+    if (tupleIndex & 0x8000) {
+      peak = readTuple(header);
+      header += axisCount * 2;
+    } else {
+      peak = gvar.sharedTuples[tupleIndex & 0x0fff];
+    }
+
+    let startTuple: number[] | undefined;
+    let endTuple: number[] | undefined;
+    if (tupleIndex & 0x4000) {
+      startTuple = readTuple(header);
+      endTuple = readTuple(header + axisCount * 2);
+      header += axisCount * 4;
+    }
+
+    let dataOffset = serialized;
+    serialized += dataSize;
+
+    const scalar = tupleScalar(coords, peak, startTuple, endTuple);
+    if (scalar === 0) {
+      continue;
+    }
+
+    let points = sharedPoints;
+    if (tupleIndex & 0x2000) {
+      [points, dataOffset] = readPointNumbers(view, dataOffset);
+    }
+
+    const count = points ? points.length : pointCount;
+    const [xDeltas, yOffset] = readDeltas(view, dataOffset, count);
+    const [yDeltas] = readDeltas(view, yOffset, count);
+
+    if (!points) {
+      for (let i = 0; i < pointCount; i++) {
+        result.x[i] += scalar * xDeltas[i];
+        result.y[i] += scalar * yDeltas[i];
+      }
+      continue;
+    }
+
+    const tupleX = new Array<number>(pointCount).fill(0);
+    const tupleY = new Array<number>(pointCount).fill(0);
+    const touched = new Array<boolean>(pointCount).fill(false);
+    points.forEach((point, i) => {
+      if (point < pointCount) {
+        tupleX[point] = xDeltas[i];
+        tupleY[point] = yDeltas[i];
+        touched[point] = true;
+      }
+    });
+
+    if (outline) {
+      interpolateUntouched(tupleX, touched, outline, 'x');
+      interpolateUntouched(tupleY, touched, outline, 'y');
+    }
+
+    for (let i = 0; i < pointCount; i++) {
+      result.x[i] += scalar * tupleX[i];
+      result.y[i] += scalar * tupleY[i];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Build a path from TrueType points, matching opentype.js's own glyf outline conversion
+ */
+function pointsToPath(points: OutlinePoint[], unitsPerEm: number): opentype.Path {
+  const path = new opentype.Path();
+  path.unitsPerEm = unitsPerEm;
+
+  const contours: OutlinePoint[][] = [];
+  let contour: OutlinePoint[] = [];
+  for (const point of points) {
+    contour.push(point);
+    if (point.lastPointOfContour) {
+      contours.push(contour);
+      contour = [];
+    }
+  }
+
+  for (const points of contours) {
+    let current = points[points.length - 1];
+    let next = points[0];
+
+    if (current.onCurve) {
+      path.moveTo(current.x, current.y);
+    } else if (next.onCurve) {
+      path.moveTo(next.x, next.y);
+    } else {
+      // If both first and last points are off-curve, start at their middle
+      path.moveTo((current.x + next.x) * 0.5, (current.y + next.y) * 0.5);
+    }
+
+    for (let i = 0; i < points.length; i++) {
+      current = next;
+      next = points[(i + 1) % points.length];
+
+      if (current.onCurve) {
+        path.lineTo(current.x, current.y);
+      } else {
+        const end = next.onCurve ? next : { x: (current.x + next.x) * 0.5, y: (current.y + next.y) * 0.5 };
+        path.quadraticCurveTo(current.x, current.y, end.x, end.y);
+      }
+    }
+
+    path.closePath();
+  }
+
+  return path;
+}
+
+/**
+ * Apply a component's 2x2 transform and offset to points
+ */
+function transformPoints(points: OutlinePoint[], component: GlyphComponent, dx: number, dy: number): OutlinePoint[] {
+  return points.map(point => ({
+    x: component.xScale * point.x + component.scale01 * point.y + dx,
+    y: component.scale10 * point.x + component.yScale * point.y + dy,
+    onCurve: point.onCurve,
+    lastPointOfContour: point.lastPointOfContour
+  }));
+}
+
+/**
+ * Create a font that renders the given variation instance.
+ * The instance shares everything with the original font except its glyphs,
+ * whose outlines and advance widths have the `gvar` deltas applied.
+ * @param strict Throw when the variation can't be applied instead of ignoring what the font doesn't support
+ */
+export function instantiateFont(font: opentype.Font, variation: FontVariation, strict = true): opentype.Font {
+  const coordinates = resolveCoordinates(font, variation, strict);
+  if (!coordinates) {
+    return font;
+  }
+
+  const fontData = getRawFontData(font);
+  if (!strict && (!fontData || font.outlinesFormat !== 'truetype')) {
+    return font;
+  }
+  if (!fontData) {
+    throw new FontVariationError('Variations need the raw font data; pass the font as a URL, path, Buffer or ArrayBuffer instead of a parsed font');
+  }
+  if (font.outlinesFormat !== 'truetype') {
+    throw new FontVariationError('Variations are only supported for fonts with TrueType outlines');
+  }
+
+  const coords = normalizeCoordinates(font, fontData, coordinates);
+  const key = coords.join(',');
+  let instances = instanceCache.get(font);
+  if (!instances) {
+    instances = new Map();
+    instanceCache.set(font, instances);
+  }
+  const cached = instances.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  // The default instance needs no deltas
+  if (coords.every(value => value === 0)) {
+    instances.set(key, font);
+    return font;
+  }
+
+  const gvarView = readSfntTable(fontData, 'gvar');
+  const gvar = gvarView ? parseGvar(gvarView) : undefined;
+  const outlines = new Map<number, VariedOutline>();
+
+  const getOutline = (glyphId: number): VariedOutline => {
+    const cachedOutline = outlines.get(glyphId);
+    if (cachedOutline) {
+      return cachedOutline;
+    }
+
+    const glyph: TrueTypeGlyph = font.glyphs.get(glyphId);
+    // Accessing the path forces opentype.js to parse the glyph's points
+    void glyph.path;
+
+    let points: OutlinePoint[];
+    let deltas: GlyphDeltas;
+    let pointCount: number;
+
+    if (glyph.isComposite && glyph.components) {
+      pointCount = glyph.components.length;
+      deltas = gvar
+        ? readGlyphDeltas(gvar, glyphId, coords, pointCount + 4)
+        : { x: new Float64Array(pointCount + 4), y: new Float64Array(pointCount + 4) };
+      points = [];
+      glyph.components.forEach((component, index) => {
+        const componentPoints = getOutline(component.glyphIndex).points;
+        if (component.matchedPoints) {
+          // Align the component's matched point with the parent's
+          const [parentIndex, childIndex] = component.matchedPoints;
+          const anchor = points[parentIndex];
+          const child = transformPoints([componentPoints[childIndex]], component, 0, 0)[0];
+          points.push(...transformPoints(componentPoints, component, anchor.x - child.x, anchor.y - child.y));
+        } else {
+          points.push(...transformPoints(
+            componentPoints, component, component.dx + deltas.x[index], component.dy + deltas.y[index]
+          ));
+        }
+      });
+    } else {
+      const original: OutlinePoint[] = (glyph.points ?? []).map(point => ({
+        x: point.x,
+        y: point.y,
+        onCurve: point.onCurve,
+        lastPointOfContour: point.lastPointOfContour
+      }));
+      pointCount = original.length;
+      deltas = gvar
+        ? readGlyphDeltas(gvar, glyphId, coords, pointCount + 4, original)
+        : { x: new Float64Array(pointCount + 4), y: new Float64Array(pointCount + 4) };
+      points = original.map((point, index) => ({ ...point, x: point.x + deltas.x[index], y: point.y + deltas.y[index] }));
+    }
+
+    // Phantom points 1 and 2 mark the origin and advance; shift so the origin stays at zero
+    const originShift = deltas.x[pointCount];
+    const advanceDelta = deltas.x[pointCount + 1] - originShift;
+    if (originShift !== 0) {
+      points = points.map(point => ({ ...point, x: point.x - originShift }));
+    }
+
+    const outline = { points, advanceDelta };
+    outlines.set(glyphId, outline);
+    return outline;
+  };
+
+  const glyphCache = new Map<number, opentype.Glyph>();
+  const variedGlyphs: Pick<opentype.GlyphSet, 'length' | 'get'> = {
+    length: font.glyphs.length,
+    get(index: number): opentype.Glyph {
+      let glyph = glyphCache.get(index);
+      if (!glyph) {
+        const base = font.glyphs.get(index);
+        if (!base) {
+          return base;
+        }
+        const outline = getOutline(index);
+        glyph = new opentype.Glyph({
+          index,
+          name: base.name ?? undefined,
+          unicode: base.unicode,
+          advanceWidth: (base.advanceWidth ?? 0) + outline.advanceDelta,
+          leftSideBearing: base.leftSideBearing,
+          path: pointsToPath(outline.points, font.unitsPerEm)
+        });
+        glyph.unicodes = base.unicodes;
+        glyphCache.set(index, glyph);
+      }
+      return glyph;
+    }
+  };
+
+  // Inherit everything else (cmap, GSUB/GPOS, metrics) from the original font
+  const instance = Object.create(font, { glyphs: { value: variedGlyphs } }) as opentype.Font;
+  instances.set(key, instance);
+  return instance;
+}
@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import * as opentype from 'opentype.js';
+import { isUpright, getVerticalMetrics } from './vertical';
+import { textToSvgPath } from './index';
+
+const FONT = path.join(__dirname, '..', 'fixtures', 'InterVariable.ttf');
+
+/**
+ * Render text vertically at 100px
+ */
+function renderVertical(text: string) {
+  return textToSvgPath({ font: FONT, text, fontSize: 100, writingMode: 'vertical', outputFormats: ['glyphs', 'svg'] });
+}
+
+describe('vertical text', () => {
+  it('sets CJK characters upright and turns others sideways', () => {
+    for (const char of ['漢', 'か', 'カ', '한', '。', 'Ａ']) {
+      assert.ok(isUpright(char), char);
+    }
+    for (const char of ['a', '1', 'א', '-']) {
+      assert.ok(!isUpright(char), char);
+    }
+  });
+
+  it('gives fonts without vertical metrics the em box as advance', () => {
+    const font = opentype.loadSync(FONT);
+    const metrics = getVerticalMetrics(font);
+    const glyph = font.charToGlyph('a');
+    assert.equal(metrics.advanceHeight(glyph), font.ascender - font.descender);
+    assert.equal(metrics.originY(glyph), font.ascender);
+  });
+
+  it('stacks rotated Latin glyphs down a column by their advance width', async () => {
+    const [a, b] = (await renderVertical('ab')).glyphs!;
+    assert.equal(a.rotate, 90);
+    assert.equal(b.rotate, 90);
+    assert.equal(b.x, a.x);
+    assert.equal(b.y, a.y + a.advanceWidth);
+  });
+
+  it('stacks upright glyphs by the advance height', async () => {
+    const font = opentype.loadSync(FONT);
+    const [first, second] = (await renderVertical('漢字')).glyphs!;
+    assert.equal(first.rotate, undefined);
+    assert.equal(second.y - first.y, (font.ascender - font.descender) / font.unitsPerEm * 100);
+  });
+
+  it('places further columns to the left', async () => {
+    const result = await renderVertical('ab\ncd');
+    assert.deepEqual(result.lines!.map(line => [line.text, line.x, line.y]), [['ab', 0, 0], ['cd', -100, 0]]);
+    const [a, , c] = result.glyphs!;
+    assert.equal(c.x, a.x - 100);
+    assert.equal(c.y, a.y);
+  });
+
+  it('sizes the SVG to the columns', async () => {
+    const result = await renderVertical('ab\ncd');
+    const [x, y, width, height] = result.svg.match(/viewBox="([^"]+)"/)![1].split(' ').map(Number);
+    for (const glyph of result.glyphs!) {
+      const box = glyph.boundingBox;
+      assert.ok(box.x1 >= x && box.x2 <= x + width && box.y1 >= y && box.y2 <= y + height, glyph.text);
+    }
+  });
+});
@@ -0,0 +1,115 @@
+import * as opentype from 'opentype.js';
+import { getRawFontData } from './font-loader';
+import { readSfntTable } from './sfnt';
+
+/**
+ * A font's metrics for vertical text, in font units
+ */
+export interface VerticalMetrics {
+  /** Distance from the centre line of a column to its right edge */
+  ascent: number;
+  /** Distance from the centre line of a column to its left edge (negative) */
+  descent: number;
+  lineGap: number;
+  /** Get the distance a glyph moves the pen down a column */
+  advanceHeight(glyph: opentype.Glyph): number;
+  /** Get the height of a glyph's vertical origin above its baseline */
+  originY(glyph: opentype.Glyph): number;
+}
+
+/**
+ * Vertical metrics already read for each font
+ */
+const metricsCache = new WeakMap<opentype.Font, VerticalMetrics>();
+
+/**
+ * Characters set upright in vertical text: CJK ideographs, kana, Hangul and their
+ * punctuation, fullwidth forms and pictographs. Everything else is turned sideways.
+ */
+const UPRIGHT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Bopomofo}\p{Script=Yi}\u2E80-\u2FFF\u3000-\u30FF\u3190-\u33FF\uFE10-\uFE1F\uFE30-\uFE4F\uFF01-\uFF60\uFFE0-\uFFE6\p{Extended_Pictographic}]/u;
+
+/**
+ * Check whether a character stands upright in vertical text rather than being rotated
+ */
+export function isUpright(char: string): boolean {
+  return UPRIGHT.test(char);
+}
+
+/**
+ * Read the `vhea`, `vmtx` and `VORG` tables a font needs for vertical layout.
+ * Fonts without them are given an advance of the full ascender to descender
+ * height and an origin at the ascender, so every glyph gets the same em box.
+ */
+export function getVerticalMetrics(font: opentype.Font): VerticalMetrics {
+  const cached = metricsCache.get(font);
+  if (cached) {
+    return cached;
+  }
+
+  const fontData = getRawFontData(font);
+  const vhea = fontData && readSfntTable(fontData, 'vhea');
+  const vmtx = fontData && readSfntTable(fontData, 'vmtx');
+  const vorg = fontData && readSfntTable(fontData, 'VORG');
+  const defaultAdvance = font.ascender - font.descender;
+  const halfEm = font.unitsPerEm / 2;
+
+  // Top side bearings are measured from the top of the outline, so the origin depends on its extent
+  const metricsOf = (glyph: opentype.Glyph): { advance: number; topSideBearing: number } | undefined => {
+    if (!vhea || !vmtx) {
+      return undefined;
+    }
+    const longMetrics = vhea.getUint16(34);
+    if (longMetrics === 0) {
+      return undefined;
+    }
+    const index = Math.min(glyph.index, longMetrics - 1);
+    const topSideBearing = glyph.index < longMetrics
+      ? vmtx.getInt16(glyph.index * 4 + 2)
+      : vmtx.getInt16(longMetrics * 4 + (glyph.index - longMetrics) * 2);
+    return { advance: vmtx.getUint16(index * 4), topSideBearing };
+  };
+
+  // VORG lists the origins of CFF glyphs directly, sorted by glyph id
+  const vorgOrigin = (glyph: opentype.Glyph): number | undefined => {
+    if (!vorg) {
+      return undefined;
+    }
+    let low = 0;
+    let high = vorg.getUint16(6) - 1;
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      const glyphIndex = vorg.getUint16(8 + middle * 4);
+      if (glyphIndex === glyph.index) {
+        return vorg.getInt16(10 + middle * 4);
+      }
+      if (glyphIndex < glyph.index) {
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return vorg.getInt16(4);
+  };
+
+  const metrics: VerticalMetrics = {
+    ascent: vhea ? vhea.getInt16(4) : halfEm,
+    descent: vhea ? vhea.getInt16(6) : -halfEm,
+    lineGap: vhea ? vhea.getInt16(8) : 0,
+    advanceHeight: glyph => metricsOf(glyph)?.advance ?? defaultAdvance,
+    originY: glyph => {
+      const fromVorg = vorgOrigin(glyph);
+      if (fromVorg !== undefined) {
+        return fromVorg;
+      }
+      const glyphMetrics = metricsOf(glyph);
+      if (!glyphMetrics) {
+        return font.ascender;
+      }
+      // Blank glyphs have no outline, so their bearing is measured from the baseline
+      const isBlank = glyph.path.commands.length === 0;
+      return glyphMetrics.topSideBearing + (isBlank ? 0 : glyph.getMetrics().yMax);
+    }
+  };
+  metricsCache.set(font, metrics);
+  return metrics;
+}
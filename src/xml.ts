@@ -0,0 +1,257 @@
+import { SvgFormatting } from './types';
+
+/**
+ * An element parsed from XML. Attribute values and text keep their escaping,
+ * so they can be written back out unchanged.
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Array<[string, string]>;
+  children: XmlNode[];
+}
+
+/**
+ * An element, or a run of text
+ */
+export type XmlNode = XmlElement | string;
+
+/**
+ * Escape text for use in XML content and attribute values
+ */
+export function escapeXml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Entity and character references allowed in SVG without a DTD
+ */
+const REFERENCE = /&(?:#[0-9]+|#x[0-9a-fA-F]+|amp|lt|gt|quot|apos);/y;
+
+const NAME = /[A-Za-z_:][\w:.-]*/y;
+const SPACE = /\s*/y;
+
+/**
+ * Find the first "&" in escaped text that doesn't start a valid reference
+ * @returns Its index, or -1 when every reference is valid
+ */
+function findBareAmpersand(text: string): number {
+  for (let i = text.indexOf('&'); i !== -1; i = text.indexOf('&', i + 1)) {
+    REFERENCE.lastIndex = i;
+    if (!REFERENCE.test(text)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Parse a single-rooted XML document or fragment, failing with a description of the first
+ * problem when it isn't well-formed. Comments, processing instructions and the doctype are skipped.
+ */
+export function parseXml(xml: string): XmlElement {
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} at offset ${position}`);
+  };
+  const match = (pattern: RegExp): string | undefined => {
+    pattern.lastIndex = position;
+    const found = pattern.exec(xml);
+    if (!found) {
+      return undefined;
+    }
+    position = pattern.lastIndex;
+    return found[0];
+  };
+  const skipTo = (terminator: string) => {
+    const end = xml.indexOf(terminator, position);
+    if (end === -1) {
+      fail(`Missing "${terminator}"`);
+    }
+    position = end + terminator.length;
+  };
+  // Skip comments, processing instructions and the doctype, returning whether one was found
+  const skipMarkup = (): boolean => {
+    if (xml.startsWith('<!--', position)) {
+      skipTo('-->');
+    } else if (xml.startsWith('<?', position)) {
+      skipTo('?>');
+    } else if (xml.startsWith('<!DOCTYPE', position)) {
+      skipTo('>');
+    } else {
+      return false;
+    }
+    return true;
+  };
+
+  const parseElement = (): XmlElement => {
+    position++;
+    const name = match(NAME) ?? fail('Expected an element name');
+    const element: XmlElement = { name, attributes: [], children: [] };
+
+    for (;;) {
+      const space = match(SPACE);
+      if (xml.startsWith('/>', position)) {
+        position += 2;
+        return element;
+      }
+      if (xml[position] === '>') {
+        position++;
+        break;
+      }
+      if (!space) {
+        fail(`Expected whitespace before an attribute of <${name}>`);
+      }
+      const attribute = match(NAME) ?? fail(`Expected an attribute name in <${name}>`);
+      match(SPACE);
+      if (xml[position] !== '=') {
+        fail(`Expected "=" after attribute ${attribute}`);
+      }
+      position++;
+      match(SPACE);
+      const quote = xml[position];
+      if (quote !== '"' && quote !== "'") {
+        fail(`Expected a quoted value for attribute ${attribute}`);
+      }
+      const end = xml.indexOf(quote, position + 1);
+      if (end === -1) {
+        fail(`Unterminated value of attribute ${attribute}`);
+      }
+      const value = xml.slice(position + 1, end);
+      if (value.includes('<')) {
+        fail(`"<" in the value of attribute ${attribute}`);
+      }
+      const ampersand = findBareAmpersand(value);
+      if (ampersand !== -1) {
+        position += 1 + ampersand;
+        fail(`Bare "&" in the value of attribute ${attribute}`);
+      }
+      if (element.attributes.some(([existing]) => existing === attribute)) {
+        fail(`Duplicate attribute ${attribute} on <${name}>`);
+      }
+      element.attributes.push([attribute, value]);
+      position = end + 1;
+    }
+
+    for (;;) {
+      const start = position;
+      const next = xml.indexOf('<', position);
+      if (next === -1) {
+        fail(`Unclosed element <${name}>`);
+      }
+      if (next > start) {
+        const text = xml.slice(start, next);
+        if (text.includes(']]>')) {
+          fail('"]]>" in text');
+        }
+        const ampersand = findBareAmpersand(text);
+        if (ampersand !== -1) {
+          position += ampersand;
+          fail(`Bare "&" in the text of <${name}>`);
+        }
+        element.children.push(text);
+      }
+      position = next;
+
+      if (xml.startsWith('</', position)) {
+        position += 2;
+        const closing = match(NAME);
+        if (closing !== name) {
+          fail(`Expected </${name}> but found </${closing ?? ''}>`);
+        }
+        match(SPACE);
+        if (xml[position] !== '>') {
+          fail(`Expected ">" to close </${name}>`);
+        }
+        position++;
+        return element;
+      }
+      if (xml.startsWith('<![CDATA[', position)) {
+        const cdataStart = position;
+        skipTo(']]>');
+        element.children.push(xml.slice(cdataStart, position));
+      } else if (!skipMarkup()) {
+        element.children.push(parseElement());
+      }
+    }
+  };
+
+  // Anything but markup around the root element must be whitespace
+  const skipProlog = () => {
+    do {
+      match(SPACE);
+    } while (skipMarkup());
+  };
+
+  skipProlog();
+  if (xml[position] !== '<') {
+    fail('Expected the root element');
+  }
+  const root = parseElement();
+  skipProlog();
+  if (position < xml.length) {
+    fail('Unexpected content after the root element');
+  }
+  return root;
+}
+
+/**
+ * Whether an element's text is meaningful, so its content must be written exactly as it is
+ */
+function hasMixedContent(element: XmlElement): boolean {
+  return element.attributes.some(([name, value]) => name === 'xml:space' && value === 'preserve')
+    || element.children.some(child => typeof child === 'string' && child.trim() !== '');
+}
+
+/**
+ * Write an element's attributes, each after a space and in double quotes
+ */
+function writeAttributes(element: XmlElement): string {
+  return element.attributes.map(([name, value]) => ` ${name}="${value.replace(/"/g, '&quot;')}"`).join('');
+}
+
+/**
+ * Write an element on one line, leaving out whitespace between elements
+ * @param preserve Whether the element is inside text, where all whitespace is kept
+ */
+function writeMinified(element: XmlElement, preserve = false): string {
+  const attributes = writeAttributes(element);
+  if (element.children.length === 0) {
+    return `<${element.name}${attributes}/>`;
+  }
+  // Text is only dropped when it's all whitespace
+  const keepText = preserve || hasMixedContent(element);
+  const content = element.children
+    .map(child => typeof child === 'string' ? (keepText ? child : '') : writeMinified(child, keepText))
+    .join('');
+  return `<${element.name}${attributes}>${content}</${element.name}>`;
+}
+
+/**
+ * Write an element with one child element per line, indented by depth.
+ * Elements with text are written on one line, since their whitespace may show.
+ */
+function writePretty(element: XmlElement, indent: string): string {
+  // Without text, only elements are left once whitespace is dropped
+  const children = element.children.filter((child): child is XmlElement => typeof child !== 'string');
+  if (children.length === 0 || hasMixedContent(element)) {
+    return indent + writeMinified(element);
+  }
+  const lines = children.map(child => writePretty(child, `${indent}  `));
+  return `${indent}<${element.name}${writeAttributes(element)}>\n${lines.join('\n')}\n${indent}</${element.name}>`;
+}
+
+/**
+ * Check that generated markup is well-formed, and lay it out as requested.
+ * 'default' returns the markup unchanged.
+ */
+export function formatXml(xml: string, formatting: SvgFormatting = 'default'): string {
+  const root = parseXml(xml);
+  if (formatting === 'minified') {
+    return writeMinified(root);
+  }
+  if (formatting === 'pretty') {
+    return writePretty(root, '');
+  }
+  return xml;
+}
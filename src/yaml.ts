@@ -0,0 +1,412 @@
+/**
+ * A source line with its indentation measured
+ */
+interface YamlLine {
+  number: number;
+  indent: number;
+  text: string;
+}
+
+/**
+ * A plain scalar that reads as a number
+ */
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Fail with the line the problem is on
+ */
+function fail(line: number, message: string): never {
+  throw new Error(`YAML line ${line}: ${message}`);
+}
+
+/**
+ * Remove a trailing comment from a line, leaving `#` inside quotes alone
+ */
+function stripComment(text: string): string {
+  let quote = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = '';
+      }
+    } else if ((char === '"' || char === "'") && (i === 0 || /[\s[{,:]/.test(text[i - 1]))) {
+      // Quotes only start a string at the beginning of a value, not in words like "don't"
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+/**
+ * Read a plain (unquoted) scalar: null, a boolean, a number or a string
+ */
+function plainScalar(text: string): unknown {
+  if (text === '' || text === '~' || /^null$/i.test(text)) {
+    return null;
+  }
+  if (/^(true|false)$/i.test(text)) {
+    return text.toLowerCase() === 'true';
+  }
+  if (NUMBER.test(text)) {
+    return Number(text);
+  }
+  if (/^0x[0-9a-f]+$/i.test(text)) {
+    return parseInt(text, 16);
+  }
+  return text;
+}
+
+/**
+ * Parser for flow collections (`[a, b]`, `{ key: value }`) and quoted scalars
+ */
+class FlowParser {
+  private position = 0;
+
+  constructor(private readonly text: string, private readonly line: number) {}
+
+  /**
+   * Parse the whole text as one value
+   */
+  parse(): unknown {
+    const value = this.value('');
+    this.skipSpace();
+    if (this.position < this.text.length) {
+      fail(this.line, `Unexpected "${this.text.slice(this.position)}"`);
+    }
+    return value;
+  }
+
+  private skipSpace(): void {
+    while (/\s/.test(this.text[this.position] ?? '')) {
+      this.position++;
+    }
+  }
+
+  /**
+   * Parse a value, with plain scalars ending at any of the given characters
+   */
+  private value(terminators: string): unknown {
+    this.skipSpace();
+    const char = this.text[this.position];
+    if (char === '[') {
+      return this.sequence();
+    }
+    if (char === '{') {
+      return this.mapping();
+    }
+    if (char === '"' || char === "'") {
+      return this.quoted();
+    }
+    const start = this.position;
+    while (this.position < this.text.length && !terminators.includes(this.text[this.position])) {
+      // A colon only ends a key when followed by a space
+      if (this.text[this.position] === ':' && terminators.includes(':') && /\s|$/.test(this.text[this.position + 1] ?? '')) {
+        break;
+      }
+      this.position++;
+    }
+    return plainScalar(this.text.slice(start, this.position).trim());
+  }
+
+  private sequence(): unknown[] {
+    const items: unknown[] = [];
+    this.position++;
+    for (;;) {
+      this.skipSpace();
+      if (this.text[this.position] === ']') {
+        this.position++;
+        return items;
+      }
+      items.push(this.value(',]'));
+      this.skipSpace();
+      const char = this.text[this.position++];
+      if (char === ']') {
+        return items;
+      }
+      if (char !== ',') {
+        fail(this.line, 'Expected "," or "]" in a flow sequence');
+      }
+    }
+  }
+
+  private mapping(): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+    this.position++;
+    for (;;) {
+      this.skipSpace();
+      if (this.text[this.position] === '}') {
+        this.position++;
+        return mapping;
+      }
+      const key = this.value(':,}');
+      this.skipSpace();
+      let value: unknown = null;
+      if (this.text[this.position] === ':') {
+        this.position++;
+        value = this.value(',}');
+        this.skipSpace();
+      }
+      mapping[String(key)] = value;
+      const char = this.text[this.position++];
+      if (char === '}') {
+        return mapping;
+      }
+      if (char !== ',') {
+        fail(this.line, 'Expected "," or "}" in a flow mapping');
+      }
+    }
+  }
+
+  private quoted(): string {
+    const quote = this.text[this.position];
+    let end = this.position + 1;
+    while (end < this.text.length) {
+      if (quote === '"' && this.text[end] === '\\') {
+        end += 2;
+      } else if (this.text[end] === quote) {
+        // Single quotes are escaped by doubling them
+        if (quote === "'" && this.text[end + 1] === "'") {
+          end += 2;
+        } else {
+          break;
+        }
+      } else {
+        end++;
+      }
+    }
+    if (end >= this.text.length) {
+      fail(this.line, 'Unterminated quoted string');
+    }
+    const body = this.text.slice(this.position + 1, end);
+    this.position = end + 1;
+    if (quote === "'") {
+      return body.replace(/''/g, "'");
+    }
+    try {
+      return JSON.parse(`"${body.replace(/\\x([0-9a-fA-F]{2})/g, '\\u00$1').replace(/\t/g, '\\t')}"`);
+    } catch {
+      return fail(this.line, 'Invalid escape in a double-quoted string');
+    }
+  }
+}
+
+/**
+ * Parse the subset of YAML used for manifests: block mappings and sequences, flow collections,
+ * plain and quoted scalars, literal (`|`) and folded (`>`) block scalars, and comments.
+ * Anchors, aliases, tags and multiple documents are not supported.
+ */
+export function parseYaml(source: string): unknown {
+  const lines: YamlLine[] = source.replace(/^\uFEFF/, '').split(/\r?\n/).map((text, i) => {
+    const indent = text.length - text.trimStart().length;
+    if (text.slice(0, indent).includes('\t')) {
+      fail(i + 1, 'Tabs are not allowed in indentation');
+    }
+    return { number: i + 1, indent, text: text.slice(indent) };
+  });
+  let index = 0;
+  let started = false;
+
+  // Move to the next line with content, skipping blank lines, comments and the document start marker
+  const nextLine = (): YamlLine | undefined => {
+    while (index < lines.length) {
+      const line = lines[index];
+      if (stripComment(line.text) === '' || !started && line.indent === 0 && line.text === '---') {
+        index++;
+      } else {
+        started = true;
+        return line;
+      }
+    }
+    return undefined;
+  };
+
+  // Read a value given after a key or dash, which may continue as a block scalar or flow collection
+  const inlineValue = (line: YamlLine, text: string, parentIndent: number): unknown => {
+    const header = stripComment(text);
+    const block = header.match(/^([|>])([+-]?)$/);
+    if (block) {
+      return blockScalar(block[1], block[2], parentIndent);
+    }
+    if (header.startsWith('[') || header.startsWith('{')) {
+      // Flow collections may run over several lines until their brackets close
+      let flow = header;
+      while (!isBalanced(flow) && index < lines.length) {
+        flow += ` ${stripComment(lines[index].text)}`;
+        index++;
+      }
+      return new FlowParser(flow, line.number).parse();
+    }
+    if (header.startsWith('"') || header.startsWith("'")) {
+      return new FlowParser(header, line.number).parse();
+    }
+    if (/^[&*!]/.test(header)) {
+      fail(line.number, 'Anchors, aliases and tags are not supported');
+    }
+    return plainScalar(header);
+  };
+
+  const blockScalar = (style: string, chomping: string, parentIndent: number): string => {
+    const body: string[] = [];
+    let blockIndent = -1;
+    while (index < lines.length) {
+      const line = lines[index];
+      if (line.text !== '') {
+        if (line.indent <= parentIndent) {
+          break;
+        }
+        if (blockIndent === -1) {
+          blockIndent = line.indent;
+        }
+        if (line.indent < blockIndent) {
+          break;
+        }
+      }
+      body.push(line.text === '' ? '' : ' '.repeat(line.indent - blockIndent) + line.text);
+      index++;
+    }
+    // Trailing blank lines only survive with the keep indicator
+    let trailing = 0;
+    while (body.length > 0 && body[body.length - 1] === '') {
+      body.pop();
+      trailing++;
+    }
+    if (body.length === 0) {
+      return '';
+    }
+    let text = body[0];
+    for (let i = 1; i < body.length; i++) {
+      const part = body[i];
+      const previous = body[i - 1];
+      if (style === '|' || part === '') {
+        text += `\n${part}`;
+      } else if (previous === '') {
+        // The blank line already stands for the line break
+        text += part;
+      } else {
+        // Folded lines are joined with spaces, except more indented ones
+        text += part.startsWith(' ') || previous.startsWith(' ') ? `\n${part}` : ` ${part}`;
+      }
+    }
+    return chomping === '-' ? text : chomping === '+' ? text + '\n'.repeat(trailing + 1) : `${text}\n`;
+  };
+
+  const parseBlock = (minIndent: number): unknown => {
+    const line = nextLine();
+    if (!line || line.indent < minIndent) {
+      return null;
+    }
+    if (line.text === '-' || line.text.startsWith('- ')) {
+      return parseSequence(line.indent);
+    }
+    if (findKeyColon(line.text) !== -1) {
+      return parseMapping(line.indent);
+    }
+    index++;
+    return inlineValue(line, line.text, line.indent - 1);
+  };
+
+  const parseSequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    for (let line = nextLine(); line && line.indent === indent && (line.text === '-' || line.text.startsWith('- ')); line = nextLine()) {
+      const rest = line.text.slice(1).trimStart();
+      if (stripComment(rest) === '') {
+        index++;
+        items.push(parseBlock(indent + 1));
+      } else if (rest === '-' || rest.startsWith('- ') || findKeyColon(rest) !== -1 && !/^["'[{]/.test(rest)) {
+        // A collection starting on the dash's line continues at the column it starts in
+        lines[index] = { number: line.number, indent: line.indent + line.text.length - rest.length, text: rest };
+        items.push(parseBlock(lines[index].indent));
+      } else {
+        index++;
+        items.push(inlineValue(line, rest, indent));
+      }
+    }
+    return items;
+  };
+
+  const parseMapping = (indent: number): Record<string, unknown> => {
+    const mapping: Record<string, unknown> = {};
+    for (let line = nextLine(); line && line.indent === indent; line = nextLine()) {
+      const colon = findKeyColon(line.text);
+      if (colon === -1) {
+        fail(line.number, `Expected "key: value"`);
+      }
+      const rawKey = line.text.slice(0, colon).trim();
+      const key = String(/^["']/.test(rawKey) ? new FlowParser(rawKey, line.number).parse() : rawKey);
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        fail(line.number, `Duplicate key "${key}"`);
+      }
+      const rest = line.text.slice(colon + 1).trimStart();
+      index++;
+      if (stripComment(rest) !== '') {
+        mapping[key] = inlineValue(line, rest, indent);
+        continue;
+      }
+      // The value is a nested block, or a sequence that may sit at the key's own indentation
+      const next = nextLine();
+      if (next && (next.indent > indent || next.indent === indent && (next.text === '-' || next.text.startsWith('- ')))) {
+        mapping[key] = next.indent > indent ? parseBlock(indent + 1) : parseSequence(indent);
+      } else {
+        mapping[key] = null;
+      }
+    }
+    return mapping;
+  };
+
+  const value = parseBlock(0);
+  const rest = nextLine();
+  if (rest) {
+    fail(rest.number, 'Unexpected content');
+  }
+  return value;
+}
+
+/**
+ * Find the colon that ends a mapping key on a line, outside quotes and followed by a space or the end
+ * @returns Its index, or -1 when the line isn't a key
+ */
+function findKeyColon(text: string): number {
+  if (/^["']/.test(text)) {
+    const quote = text[0];
+    let end = 1;
+    while (end < text.length && text[end] !== quote) {
+      end += text[end] === '\\' && quote === '"' ? 2 : 1;
+    }
+    return /^\s*:(\s|$)/.test(text.slice(end + 1)) ? text.indexOf(':', end + 1) : -1;
+  }
+  if (/^[[{]/.test(text)) {
+    return -1;
+  }
+  const match = text.match(/^[^#]*?:(\s|$)/);
+  return match ? match[0].trimEnd().length - 1 : -1;
+}
+
+/**
+ * Check whether the brackets of a flow collection are closed, ignoring quoted text
+ */
+function isBalanced(text: string): boolean {
+  let depth = 0;
+  let quote = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = '';
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    }
+  }
+  return depth <= 0;
+}